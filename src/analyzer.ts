@@ -1,41 +1,79 @@
 import type { JSONSchema7 } from "json-schema";
 import { dispatchAnalyze } from "./dispatch.ts";
 import {
+	createCaseOutsideSwitchMessage,
+	createConditionalSchemaMessage,
+	createContentOutsideCaseMessage,
+	createDuplicateCaseMessage,
+	createHashArgumentTypeMessage,
+	createInvalidCollectMessage,
 	createMissingArgumentMessage,
+	createMissingHashArgumentMessage,
+	createNonExhaustiveSwitchMessage,
+	createParentScopeNotFoundMessage,
+	createPartialCycleMessage,
 	createPropertyNotFoundMessage,
 	createRootPathTraversalMessage,
 	createTypeMismatchMessage,
 	createUnanalyzableMessage,
+	createUnknownHashArgumentMessage,
 	createUnknownHelperMessage,
+	createUnknownPartialMessage,
+	createUnreachableCaseMessage,
+	createUnusedBindingMessage,
 } from "./errors";
-import { ArrayHelpers } from "./helpers/array-helpers.ts";
+import { ConditionalHelpers } from "./helpers/conditional-helpers.ts";
 import { DefaultHelpers } from "./helpers/default-helpers.ts";
+import { isBuiltInHelper } from "./helpers/helper-factory.ts";
+import { LetHelpers } from "./helpers/let-helpers.ts";
 import { MapHelpers } from "./helpers/map-helpers.ts";
+import {
+	getMessageArguments,
+	isNumericSchema,
+	MessageHelpers,
+} from "./helpers/message-helpers.ts";
+import { SwitchHelpers } from "./helpers/switch-helpers.ts";
 import {
 	detectLiteralType,
 	extractExpressionIdentifier,
 	extractPathSegments,
+	getCollectHashPair,
 	getEffectiveBody,
 	getEffectivelySingleBlock,
 	getEffectivelySingleExpression,
+	getEffectivelySinglePartial,
+	getPartialName,
+	isCollectEach,
 	isDataExpression,
+	isRootDataExpression,
 	isRootPathTraversal,
 	isRootSegments,
+	isScopedPath,
 	isThisExpression,
 	parse,
 } from "./parser";
 import {
 	findConditionalSchemaLocations,
 	isPropertyRequired,
+	narrowConditionalSchema,
+	narrowSchemaPathToPresent,
+	narrowUnionSchema,
+	type ObjectEntrySchemas,
+	replaceSchemaPath,
 	resolveArrayItems,
+	resolveObjectEntries,
+	resolveRef,
 	resolveSchemaPath,
 	simplifySchema,
+	withNullType,
 } from "./schema-resolver";
 import type {
 	AnalysisResult,
 	DiagnosticCode,
 	DiagnosticDetails,
 	HelperDefinition,
+	HelperInferenceContext,
+	PartialDefinition,
 	TemplateDiagnostic,
 	TemplateInput,
 } from "./types.ts";
@@ -78,6 +116,29 @@ interface AnalysisContext {
 	root: JSONSchema7;
 	/** Current context schema (changes with #each, #with) — mutated via save/restore */
 	current: JSONSchema7;
+	/**
+	 * Enclosing context schemas, innermost last — `{{../name}}` resolves in
+	 * the last one. Mutated via push/pop when a block changes the context.
+	 */
+	parentContexts: JSONSchema7[];
+	/**
+	 * Block params in scope (`{{#each users as |user index|}}`), innermost
+	 * last. Mutated via push/pop around block bodies.
+	 */
+	blockParams: Record<string, JSONSchema7>[];
+	/**
+	 * Schemas of the `@data` variables set by the enclosing `#each` blocks
+	 * (`@key` is a number over arrays, a property name over objects) and
+	 * `#let` bindings, innermost last. Like Handlebars, every block creating
+	 * a data frame pushes one (`#switch` an empty one), so that `@../key`
+	 * reads the frame `depth` levels up.
+	 */
+	dataVariables: Record<string, JSONSchema7>[];
+	/**
+	 * Names read from each `#let` frame of `dataVariables` (for the
+	 * UNUSED_BINDING warning). Created by the first `#let`.
+	 */
+	usedDataVariables?: Map<Record<string, JSONSchema7>, Set<string>>;
 	/** Diagnostics accumulator */
 	diagnostics: TemplateDiagnostic[];
 	/** Full template source (for extracting error snippets) */
@@ -86,6 +147,17 @@ interface AnalysisContext {
 	identifierSchemas?: Record<number, JSONSchema7>;
 	/** Registered custom helpers (for static analysis) */
 	helpers?: Map<string, HelperDefinition>;
+	/** Registered partials (for `{{> name}}` analysis) */
+	partials?: Map<string, PartialDefinition>;
+	/** Engine-wide default for `{{#each}}` collect mode */
+	collectEach?: boolean;
+	/** Names of the partials being analyzed, outermost first (cycle detection) */
+	partialStack?: string[];
+	/**
+	 * Output schemas of the enclosing partial blocks' bodies, innermost last.
+	 * `{{> @partial-block}}` inside a partial renders the innermost one.
+	 */
+	partialBlocks?: JSONSchema7[];
 	/**
 	 * Explicit coercion schema provided by the caller.
 	 * When set, static literal values like `"123"` will respect the type
@@ -95,6 +167,35 @@ interface AnalysisContext {
 	 * provided via the `coerceSchema` option.
 	 */
 	coerceSchema?: JSONSchema7;
+	/** Mustache whose scope is observed (see `AnalysisProbe`) */
+	probe?: AnalysisProbe;
+}
+
+/**
+ * Observes the scope of the mustache starting at a position, for
+ * autocompletion (see `completion.ts`). The analyzer sets `scope` when
+ * it reaches the mustache.
+ */
+export interface AnalysisProbe {
+	/** Start of the observed mustache (1-based line, 0-based column) */
+	line: number;
+	column: number;
+	/** The scope of the mustache, once reached */
+	scope?: ProbedScope;
+}
+
+/** The scope of a mustache observed by an `AnalysisProbe` */
+export interface ProbedScope {
+	/** The current context */
+	current: JSONSchema7;
+	/** Block params in scope, inner ones hiding outer ones of the same name */
+	blockParams: Record<string, JSONSchema7>;
+	/** `@data` variables in scope, inner ones hiding outer ones */
+	dataVariables: Record<string, JSONSchema7>;
+	/** Schema of the mustache's path, `undefined` when it does not resolve */
+	schema: JSONSchema7 | undefined;
+	/** Whether every segment of the path is required */
+	required: boolean;
 }
 
 // ─── Public API ──────────────────────────────────────────────────────────────
@@ -131,6 +232,58 @@ export interface AnalyzeOptions {
 	excludeTemplateExpression?: boolean;
 }
 
+// ─── Analysis Probe ──────────────────────────────────────────────────────────
+
+/**
+ * Whether a mustache is the one observed by the probe. Partial bodies
+ * are parsed separately: their positions do not refer to the template.
+ */
+function isProbedMustache(
+	stmt: hbs.AST.MustacheStatement,
+	probe: AnalysisProbe,
+	ctx: AnalysisContext,
+): boolean {
+	return (
+		!ctx.partialStack?.length &&
+		stmt.loc?.start.line === probe.line &&
+		stmt.loc.start.column === probe.column
+	);
+}
+
+/**
+ * Whether every segment of a probed path is required in the schema it is
+ * read from. The context (`this`, `$root`), block params and `@data`
+ * variables themselves are always present.
+ */
+function isProbedPathRequired(
+	expr: hbs.AST.Expression,
+	ctx: AnalysisContext,
+): boolean {
+	if (expr.type !== "PathExpression") return true;
+	const path = expr as hbs.AST.PathExpression;
+
+	if (path.data && !isRootDataExpression(path)) {
+		const [name, ...rest] = path.parts;
+		const start = ctx.dataVariables.length - 1 - path.depth;
+		for (let i = start; name && i >= 0; i--) {
+			const scoped = ctx.dataVariables[i]?.[name];
+			if (scoped) return isPathFullyRequired(scoped, rest);
+		}
+		return true;
+	}
+
+	const { cleanSegments, identifier } = extractExpressionIdentifier(
+		extractPathSegments(path),
+	);
+	if (isRootSegments(cleanSegments)) return true;
+	if (identifier !== null) {
+		const schema = ctx.identifierSchemas?.[identifier];
+		return schema ? isPathFullyRequired(schema, cleanSegments) : false;
+	}
+	const scope = getPathScope(path, cleanSegments, ctx);
+	return scope ? isPathFullyRequired(scope.base, scope.segments) : false;
+}
+
 // ─── Coerce Text Value ──────────────────────────────────────────────────────
 
 /**
@@ -218,73 +371,60 @@ export function analyzeFromAst(
 	options?: {
 		identifierSchemas?: Record<number, JSONSchema7>;
 		helpers?: Map<string, HelperDefinition>;
+		partials?: Map<string, PartialDefinition>;
+		/** Engine-wide default for `{{#each}}` collect mode */
+		collectEach?: boolean;
 		/**
 		 * Explicit coercion schema. When set, static literal values will
 		 * respect the types declared in this schema instead of auto-detecting.
 		 * Unlike `expectedOutputType`, this is NEVER derived from inputSchema.
 		 */
 		coerceSchema?: JSONSchema7;
+		/** Mustache whose scope is observed (autocompletion) */
+		probe?: AnalysisProbe;
 	},
 ): AnalysisResult {
 	// ── Initialize the diagnostic context FIRST ────────────────────────
 	const ctx: AnalysisContext = {
 		root: inputSchema,
 		current: inputSchema,
+		parentContexts: [],
+		blockParams: [],
+		dataVariables: [],
 		diagnostics: [],
 		template,
 		identifierSchemas: options?.identifierSchemas,
 		helpers: options?.helpers,
+		partials: options?.partials,
+		collectEach: options?.collectEach,
 		coerceSchema: options?.coerceSchema,
+		probe: options?.probe,
 	};
 
-	// ── Detect unsupported schema features as diagnostics ──────────────
-	// Conditional schemas (if/then/else) are non-resolvable without runtime
-	// data. Instead of throwing, we collect structured diagnostics so the
-	// caller receives a standard AnalysisResult.
+	// ── Report approximated schema features as diagnostics ─────────────
+	// Conditional schemas (if/then/else) depend on runtime data. They are
+	// resolved as the union of both branches (narrowed when the template
+	// tests the discriminant), so we only warn that the result is an
+	// approximation.
 	const conditionalLocations = findConditionalSchemaLocations(inputSchema);
+	if (options?.identifierSchemas) {
+		for (const [id, idSchema] of Object.entries(options.identifierSchemas)) {
+			conditionalLocations.push(
+				...findConditionalSchemaLocations(idSchema, `/identifierSchemas/${id}`),
+			);
+		}
+	}
 	for (const loc of conditionalLocations) {
 		addDiagnostic(
 			ctx,
-			"UNSUPPORTED_SCHEMA",
-			"error",
-			`Unsupported JSON Schema feature: "${loc.keyword}" at "${loc.schemaPath}". ` +
-				"Conditional schemas (if/then/else) cannot be resolved during static analysis " +
-				"because they depend on runtime data. Consider using oneOf/anyOf combinators instead.",
+			"CONDITIONAL_SCHEMA",
+			"warning",
+			createConditionalSchemaMessage(loc.schemaPath),
 			undefined,
 			{ path: loc.schemaPath },
 		);
 	}
 
-	if (options?.identifierSchemas) {
-		for (const [id, idSchema] of Object.entries(options.identifierSchemas)) {
-			const idLocations = findConditionalSchemaLocations(
-				idSchema,
-				`/identifierSchemas/${id}`,
-			);
-			for (const loc of idLocations) {
-				addDiagnostic(
-					ctx,
-					"UNSUPPORTED_SCHEMA",
-					"error",
-					`Unsupported JSON Schema feature: "${loc.keyword}" at "${loc.schemaPath}". ` +
-						"Conditional schemas (if/then/else) cannot be resolved during static analysis " +
-						"because they depend on runtime data. Consider using oneOf/anyOf combinators instead.",
-					undefined,
-					{ path: loc.schemaPath },
-				);
-			}
-		}
-	}
-
-	// If unsupported schemas were found, return early with valid: false
-	if (ctx.diagnostics.length > 0) {
-		return {
-			valid: false,
-			diagnostics: ctx.diagnostics,
-			outputSchema: {},
-		};
-	}
-
 	// Single pass: type inference + validation in one traversal.
 	const outputSchema = inferProgramType(ast, ctx);
 
@@ -333,6 +473,13 @@ function processStatement(
 		case "BlockStatement":
 			return inferBlockType(stmt as hbs.AST.BlockStatement, ctx);
 
+		case "PartialStatement":
+		case "PartialBlockStatement":
+			return processPartial(
+				stmt as hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement,
+				ctx,
+			);
+
 		default:
 			// Unrecognized AST node — emit a warning rather than an error
 			// to avoid blocking on future Handlebars extensions.
@@ -360,14 +507,39 @@ function processMustache(
 	stmt: hbs.AST.MustacheStatement,
 	ctx: AnalysisContext,
 ): JSONSchema7 {
-	// Sub-expressions (nested helpers) are not supported for static
-	// analysis — emit a warning.
+	if (ctx.probe && isProbedMustache(stmt, ctx.probe, ctx)) {
+		ctx.probe.scope = {
+			current: ctx.current,
+			blockParams: Object.assign({}, ...ctx.blockParams),
+			dataVariables: Object.assign({}, ...ctx.dataVariables),
+			schema: resolveExpressionWithDiagnostics(stmt.path, ctx, stmt),
+			required: isProbedPathRequired(stmt.path, ctx),
+		};
+	}
+
+	// ── Sub-expression path ──────────────────────────────────────────────────
+	// `{{(helper a b)}}` outputs the result of the sub-expression. When
+	// the statement has arguments of its own, the sub-expression computes
+	// the helper to call, which cannot be known statically.
 	if (stmt.path.type === "SubExpression") {
+		const resolved = resolveSubExpression(
+			stmt.path as hbs.AST.SubExpression,
+			ctx,
+			stmt,
+		);
+		if (stmt.params.length === 0 && !stmt.hash) return resolved ?? {};
+
+		resolveHelperArguments(
+			stmt.params as hbs.AST.Expression[],
+			stmt.hash,
+			ctx,
+			stmt,
+		);
 		addDiagnostic(
 			ctx,
 			"UNANALYZABLE",
 			"warning",
-			"Sub-expressions are not statically analyzable",
+			"Calling the result of a sub-expression as a helper is not statically analyzable",
 			stmt,
 		);
 		return {};
@@ -385,7 +557,8 @@ function processMustache(
 		// an array-of-objects schema, then resolve the second argument (a
 		// property name) within the item schema to infer the output type
 		// `{ type: "array", items: <property schema> }`.
-		if (helperName === MapHelpers.MAP_HELPER_NAME) {
+		const isBuiltIn = isBuiltInHelperName(helperName, ctx);
+		if (isBuiltIn && helperName === MapHelpers.MAP_HELPER_NAME) {
 			return processMapHelper(stmt, ctx);
 		}
 
@@ -393,76 +566,46 @@ function processMustache(
 		// The `default` helper requires deep static analysis: the return
 		// type is the union of all argument types, and the chain must
 		// terminate with a guaranteed (non-optional) value.
-		if (helperName === DefaultHelpers.DEFAULT_HELPER_NAME) {
+		if (isBuiltIn && helperName === DefaultHelpers.DEFAULT_HELPER_NAME) {
 			return processDefaultHelper(stmt, ctx);
 		}
 
-		// ── Special-case: array helper ───────────────────────────────────
-		// The `array` helper constructs an array from its arguments. The
-		// return type is `{ type: "array", items: <union of arg types> }`.
-		if (helperName === ArrayHelpers.ARRAY_HELPER_NAME) {
-			return processArrayHelper(stmt, ctx);
+		// ── Special-case: iif / ternary helper ───────────────────────────
+		// Like the `#if` block, each value is resolved in the context
+		// narrowed by the condition, and the return type is their union.
+		if (
+			isBuiltIn &&
+			ConditionalHelpers.CONDITIONAL_HELPER_NAMES.includes(helperName)
+		) {
+			return analyzeConditionalArgs(
+				helperName,
+				stmt.params as hbs.AST.Expression[],
+				ctx,
+				stmt,
+			);
 		}
 
 		// Check if the helper is registered
 		const helper = ctx.helpers?.get(helperName);
 		if (helper) {
-			const helperParams = helper.params;
-
-			// ── Check the number of required parameters ──────────────
-			if (helperParams) {
-				const requiredCount = helperParams.filter((p) => !p.optional).length;
-				if (stmt.params.length < requiredCount) {
-					addDiagnostic(
-						ctx,
-						"MISSING_ARGUMENT",
-						"error",
-						`Helper "${helperName}" expects at least ${requiredCount} argument(s), but got ${stmt.params.length}`,
-						stmt,
-						{
-							helperName,
-							expected: `${requiredCount} argument(s)`,
-							actual: `${stmt.params.length} argument(s)`,
-						},
-					);
-				}
-			}
-
-			// ── Validate each parameter (existence + type) ───────────────
-			for (let i = 0; i < stmt.params.length; i++) {
-				const resolvedSchema = resolveExpressionWithDiagnostics(
-					stmt.params[i] as hbs.AST.Expression,
-					ctx,
-					stmt,
-				);
-
-				// Check type compatibility if the helper declares the
-				// expected type for this parameter
-				const helperParam = helperParams?.[i];
-				if (resolvedSchema && helperParam?.type) {
-					const expectedType = helperParam.type;
-					if (!isParamTypeCompatible(resolvedSchema, expectedType)) {
-						const paramName = helperParam.name;
-						addDiagnostic(
-							ctx,
-							"TYPE_MISMATCH",
-							"error",
-							`Helper "${helperName}" parameter "${paramName}" expects ${schemaTypeLabel(expectedType)}, but got ${schemaTypeLabel(resolvedSchema)}`,
-							stmt,
-							{
-								helperName,
-								expected: schemaTypeLabel(expectedType),
-								actual: schemaTypeLabel(resolvedSchema),
-							},
-						);
-					}
-				}
-			}
-
-			return helper.returnType ?? { type: "string" };
+			return analyzeHelperCall(
+				helperName,
+				helper,
+				stmt.params as hbs.AST.Expression[],
+				stmt.hash,
+				ctx,
+				stmt,
+			);
 		}
 
-		// Unknown inline helper — warning
+		// Unknown inline helper — warning. Its arguments are still data
+		// paths and sub-expressions that can be checked.
+		resolveHelperArguments(
+			stmt.params as hbs.AST.Expression[],
+			stmt.hash,
+			ctx,
+			stmt,
+		);
 		addDiagnostic(
 			ctx,
 			"UNKNOWN_HELPER",
@@ -478,8 +621,9 @@ function processMustache(
 	const resolved = resolveExpressionWithDiagnostics(stmt.path, ctx, stmt) ?? {};
 
 	// @data variables (@index, @first, @last, @key) are runtime-provided —
-	// optionality checks against the input schema do not apply.
-	if (isDataExpression(stmt.path)) {
+	// optionality checks against the input schema do not apply. `@root`
+	// paths are looked up in the input schema and checked below.
+	if (isDataExpression(stmt.path) && !isRootDataExpression(stmt.path)) {
 		return resolved;
 	}
 
@@ -493,19 +637,32 @@ function processMustache(
 			const { cleanSegments, identifier } =
 				extractExpressionIdentifier(segments);
 			if (!isRootSegments(cleanSegments)) {
-				let targetSchema =
-					identifier !== null
-						? ctx.identifierSchemas?.[identifier]
-						: ctx.current;
-				// For aggregated identifiers (array schema), check optionality
-				// within the items schema, not the array itself.
-				if (targetSchema && identifier !== null) {
-					const itemSchema = resolveArrayItems(targetSchema, ctx.root);
-					if (itemSchema !== undefined) {
-						targetSchema = itemSchema;
+				let targetSchema: JSONSchema7 | undefined;
+				let targetSegments = cleanSegments;
+				if (identifier !== null) {
+					targetSchema = ctx.identifierSchemas?.[identifier];
+					// For aggregated identifiers (array schema), check optionality
+					// within the items schema, not the array itself.
+					if (targetSchema) {
+						const itemSchema = resolveArrayItems(targetSchema, ctx.root);
+						if (itemSchema !== undefined) {
+							targetSchema = itemSchema;
+						}
 					}
+				} else {
+					// `../`, `@root` and block params resolve in another scope
+					const scope = getPathScope(
+						stmt.path as hbs.AST.PathExpression,
+						cleanSegments,
+						ctx,
+					);
+					targetSchema = scope?.base;
+					targetSegments = scope?.segments ?? cleanSegments;
 				}
-				if (targetSchema && !isPathFullyRequired(targetSchema, cleanSegments)) {
+				if (
+					targetSchema &&
+					!isPathFullyRequired(targetSchema, targetSegments)
+				) {
 					return withNullType(resolved);
 				}
 			}
@@ -871,90 +1028,231 @@ function isGuaranteedExpression(
 		const segments = extractPathSegments(expr);
 		if (segments.length === 0) return false;
 
-		const { cleanSegments } = extractExpressionIdentifier(segments);
-		return isPropertyRequired(ctx.current, cleanSegments);
+		const { cleanSegments, identifier } = extractExpressionIdentifier(segments);
+		if (identifier !== null) {
+			return isPropertyRequired(ctx.current, cleanSegments);
+		}
+		const scope = getPathScope(
+			expr as hbs.AST.PathExpression,
+			cleanSegments,
+			ctx,
+		);
+		return scope ? isPathFullyRequired(scope.base, scope.segments) : false;
 	}
 
 	return false;
 }
 
-// ─── Array Helper Analysis ──────────────────────────────────────────────────
-
-function processArrayHelper(
-	stmt: hbs.AST.MustacheStatement,
-	ctx: AnalysisContext,
-): JSONSchema7 {
-	return analyzeArrayArgs(stmt.params as hbs.AST.Expression[], ctx, stmt);
-}
-
-function processArraySubExpression(
-	expr: hbs.AST.SubExpression,
-	ctx: AnalysisContext,
-	parentNode?: hbs.AST.Node,
-): JSONSchema7 {
-	return analyzeArrayArgs(
-		expr.params as hbs.AST.Expression[],
-		ctx,
-		parentNode ?? expr,
-	);
-}
+// ─── iif helper — special-case analysis ──────────────────────────────────────
+// `{{iif condition whenTrue whenFalse}}` is the inline form of
+// `{{#if condition}}whenTrue{{else}}whenFalse{{/if}}` and is analyzed the
+// same way: the condition narrows the context of each value, and the
+// return type is the union of both value types.
 
 /**
- * Core analysis logic for the `array` helper (shared by Mustache and
- * SubExpression paths).
- *
- * 1. Validates argument count (≥ 1)
- * 2. Resolves the schema of each argument
- * 3. Returns `{ type: "array", items: <union of arg types> }`
+ * Core analysis logic for the `iif` / `ternary` helper (shared by Mustache
+ * and SubExpression paths).
  *
- * Unlike `default`, there is no type compatibility check between arguments:
- * `{{array name count}}` is valid and produces `(string | number)[]`.
+ * 1. Validates argument count (3)
+ * 2. Resolves the condition
+ * 3. Resolves each value in the context narrowed by the condition
+ * 4. Returns the simplified union of both value types
  */
-function analyzeArrayArgs(
+function analyzeConditionalArgs(
+	helperName: string,
 	params: hbs.AST.Expression[],
 	ctx: AnalysisContext,
 	node: hbs.AST.Node,
 ): JSONSchema7 {
-	const helperName = ArrayHelpers.ARRAY_HELPER_NAME;
-
 	// ── 1. Check argument count ──────────────────────────────────────────
-	if (params.length < 1) {
+	const [condition, whenTrue, whenFalse] = params;
+	if (!condition || !whenTrue || !whenFalse) {
 		addDiagnostic(
 			ctx,
 			"MISSING_ARGUMENT",
 			"error",
-			`Helper "${helperName}" expects at least 1 argument(s), but got 0`,
+			`Helper "${helperName}" expects 3 argument(s), but got ${params.length}`,
 			node,
 			{
 				helperName,
-				expected: "1 argument(s)",
-				actual: "0 argument(s)",
+				expected: "3 argument(s)",
+				actual: `${params.length} argument(s)`,
 			},
 		);
-		return { type: "array" };
+		for (const param of params) {
+			resolveExpressionWithDiagnostics(param, ctx, node);
+		}
+		return {};
 	}
 
-	// ── 2. Resolve the schema of each argument ───────────────────────────
-	const resolvedSchemas: JSONSchema7[] = [];
+	// ── 2. Resolve the condition (and any extra argument) ────────────────
+	resolveExpressionWithDiagnostics(condition, ctx, node);
+	for (const param of params.slice(3)) {
+		resolveExpressionWithDiagnostics(param, ctx, node);
+	}
+
+	// ── 3. Resolve each value in its narrowed context ────────────────────
+	const narrowed = narrowConditionContexts(condition, ctx);
+	const saved = ctx.current;
+
+	ctx.current = narrowed.truthy ?? saved;
+	const thenType = resolveExpressionWithDiagnostics(whenTrue, ctx, node);
+	ctx.current = narrowed.falsy ?? saved;
+	const elseType = resolveExpressionWithDiagnostics(whenFalse, ctx, node);
+	ctx.current = saved;
+
+	// ── 4. Return the union of both value types ──────────────────────────
+	if (!thenType || !elseType) return thenType ?? elseType ?? {};
+	if (deepEqual(thenType, elseType)) return thenType;
+	return simplifySchema({ oneOf: [thenType, elseType] });
+}
+
+// ─── Helper Calls ────────────────────────────────────────────────────────────
+// Generic analysis of a call to a registered helper, shared by mustaches
+// (`{{helper a b}}`) and sub-expressions (`(helper a b)`). The return type
+// comes from the helper's `inferReturnType()` when declared, otherwise from
+// its static `returnType`.
+
+/**
+ * Analyzes a call to a registered helper.
+ *
+ * 1. Validates the number of required positional arguments
+ * 2. Resolves each argument and checks it against the declared param type
+ * 3. Validates the `key=value` arguments (see `validateHelperHash`)
+ * 4. Infers the return type from the resolved argument schemas
+ */
+function analyzeHelperCall(
+	helperName: string,
+	helper: HelperDefinition,
+	params: hbs.AST.Expression[],
+	hash: hbs.AST.Hash | undefined,
+	ctx: AnalysisContext,
+	node: hbs.AST.Node,
+): JSONSchema7 {
+	const helperParams = helper.params;
+
+	// ── Check the number of required parameters ──────────────────────
+	if (helperParams) {
+		const requiredCount = helperParams.filter((p) => !p.optional).length;
+		if (params.length < requiredCount) {
+			addDiagnostic(
+				ctx,
+				"MISSING_ARGUMENT",
+				"error",
+				`Helper "${helperName}" expects at least ${requiredCount} argument(s), but got ${params.length}`,
+				node,
+				{
+					helperName,
+					expected: `${requiredCount} argument(s)`,
+					actual: `${params.length} argument(s)`,
+				},
+			);
+		}
+	}
 
+	// ── Validate each parameter (existence + type) ───────────────────
+	const argSchemas: (JSONSchema7 | undefined)[] = [];
 	for (let i = 0; i < params.length; i++) {
-		const param = params[i] as hbs.AST.Expression;
-		const resolvedSchema = resolveExpressionWithDiagnostics(param, ctx, node);
+		const resolvedSchema = resolveExpressionWithDiagnostics(
+			params[i] as hbs.AST.Expression,
+			ctx,
+			node,
+		);
+		argSchemas.push(resolvedSchema);
 
-		if (resolvedSchema) {
-			resolvedSchemas.push(resolvedSchema);
+		// Check type compatibility if the helper declares the
+		// expected type for this parameter
+		const helperParam = helperParams?.[i];
+		if (resolvedSchema && helperParam?.type) {
+			const expectedType = helperParam.type;
+			if (!isParamTypeCompatible(resolvedSchema, expectedType)) {
+				const paramName = helperParam.name;
+				addDiagnostic(
+					ctx,
+					"TYPE_MISMATCH",
+					"error",
+					`Helper "${helperName}" parameter "${paramName}" expects ${schemaTypeLabel(expectedType)}, but got ${schemaTypeLabel(resolvedSchema)}`,
+					node,
+					{
+						helperName,
+						expected: schemaTypeLabel(expectedType),
+						actual: schemaTypeLabel(resolvedSchema),
+					},
+				);
+			}
 		}
 	}
 
-	// ── 3. Build output schema ───────────────────────────────────────────
-	if (resolvedSchemas.length === 0) return { type: "array" };
+	const hashSchemas = validateHelperHash(helperName, helper, hash, ctx, node);
+
+	return inferHelperReturnType(
+		helperName,
+		helper,
+		params,
+		argSchemas,
+		hashSchemas,
+		ctx,
+		node,
+	);
+}
+
+/**
+ * Resolves the positional and `key=value` arguments of a call to a helper
+ * without a declaration (unknown helpers), so that the paths and nested
+ * sub-expressions they contain are still validated.
+ */
+function resolveHelperArguments(
+	params: hbs.AST.Expression[],
+	hash: hbs.AST.Hash | undefined,
+	ctx: AnalysisContext,
+	node: hbs.AST.Node,
+): void {
+	for (const param of params) {
+		resolveExpressionWithDiagnostics(param, ctx, node);
+	}
+	for (const pair of hash?.pairs ?? []) {
+		resolveExpressionWithDiagnostics(pair.value, ctx, node);
+	}
+}
 
-	const itemSchema =
-		resolvedSchemas.length === 1
-			? (resolvedSchemas[0] as JSONSchema7)
-			: simplifySchema({ oneOf: resolvedSchemas });
+/**
+ * Computes the return type of a helper call: the result of the helper's
+ * `inferReturnType()` when it declares one and returns a schema, otherwise
+ * its static `returnType` (defaults to `{ type: "string" }`).
+ */
+function inferHelperReturnType(
+	helperName: string,
+	helper: HelperDefinition,
+	params: hbs.AST.Expression[],
+	argSchemas: (JSONSchema7 | undefined)[],
+	hashSchemas: Record<string, JSONSchema7 | undefined>,
+	ctx: AnalysisContext,
+	node: hbs.AST.Node,
+): JSONSchema7 {
+	const fallback = helper.returnType ?? { type: "string" };
+	if (!helper.inferReturnType) return fallback;
+
+	const inferenceContext: HelperInferenceContext = {
+		helperName,
+		root: ctx.root,
+		literalArgs: params.map((param) => getLiteralValue(param)?.literal),
+		resolvePath: (schema, path) => resolveSchemaPath(schema, path),
+		resolveItems: (schema) => resolveArrayItems(schema, ctx.root),
+		report: (severity, code, message, details, argument) =>
+			addDiagnostic(
+				ctx,
+				code,
+				severity,
+				message,
+				(argument !== undefined && params[argument]) || node,
+				{ helperName, ...details },
+			),
+	};
 
-	return { type: "array", items: itemSchema };
+	return (
+		helper.inferReturnType(argSchemas, hashSchemas, inferenceContext) ??
+		fallback
+	);
 }
 
 /**
@@ -993,40 +1291,137 @@ function isParamTypeCompatible(
 	);
 }
 
+// ─── Hash Arguments ──────────────────────────────────────────────────────────
+// `{{helper value key=arg}}` — hash values are resolved like positional
+// arguments. When the helper declares a `hash`, unknown, missing and
+// mistyped arguments are reported as well. Undeclared arguments are
+// accepted (and type-checked) when the helper declares `additionalHash`.
+
 /**
- * Infers the output type of a `Program` (template body or block body).
+ * Validates the `key=value` arguments of a call to a registered helper.
+ * Returns the resolved schema of each argument, keyed by name.
  *
- * Handles 4 cases, from most specific to most general:
- *
- * 1. **Single expression** `{{expr}}` → type of the expression
- * 2. **Single block** `{{#if}}…{{/if}}` → type of the block
- * 3. **Pure text content** → literal detection (number, boolean, null)
- * 4. **Mixed template** → always `string` (concatenation)
- *
- * Validation is performed alongside inference: each expression and block
- * is validated during processing.
+ * @param helperName - Name of the helper (for messages)
+ * @param helper     - Definition of the helper
+ * @param hash       - Hash of the call, if any
+ * @param ctx        - The analysis context
+ * @param node       - The node diagnostics are attached to
  */
-function inferProgramType(
-	program: hbs.AST.Program,
+function validateHelperHash(
+	helperName: string,
+	helper: HelperDefinition,
+	hash: hbs.AST.Hash | undefined,
 	ctx: AnalysisContext,
-): JSONSchema7 {
-	const effective = getEffectiveBody(program);
-
-	// No significant statements → empty string
-	if (effective.length === 0) {
-		return { type: "string" };
-	}
+	node: hbs.AST.Node,
+): Record<string, JSONSchema7 | undefined> {
+	const declared = helper.hash;
+	const pairs = hash?.pairs ?? [];
+	const hashSchemas: Record<string, JSONSchema7 | undefined> = {};
 
-	// ── Case 1: single expression {{expr}} ─────────────────────────────────
-	const singleExpr = getEffectivelySingleExpression(program);
-	if (singleExpr) {
-		return processMustache(singleExpr, ctx);
-	}
+	for (const pair of pairs) {
+		const resolvedSchema = resolveExpressionWithDiagnostics(
+			pair.value,
+			ctx,
+			node,
+		);
+		hashSchemas[pair.key] = resolvedSchema;
+		if (!declared) continue;
 
-	// ── Case 2: single block {{#if}}, {{#each}}, {{#with}}, … ──────────────
-	const singleBlock = getEffectivelySingleBlock(program);
-	if (singleBlock) {
-		return inferBlockType(singleBlock, ctx);
+		const hashParam = declared[pair.key] ?? helper.additionalHash;
+		if (!hashParam) {
+			addDiagnostic(
+				ctx,
+				"UNKNOWN_HASH_ARGUMENT",
+				"error",
+				createUnknownHashArgumentMessage(
+					helperName,
+					pair.key,
+					Object.keys(declared),
+				),
+				node,
+				{ helperName, hashArgument: pair.key },
+			);
+			continue;
+		}
+
+		if (
+			resolvedSchema &&
+			hashParam.type &&
+			!isParamTypeCompatible(resolvedSchema, hashParam.type)
+		) {
+			const expected = schemaTypeLabel(hashParam.type);
+			const actual = schemaTypeLabel(resolvedSchema);
+			addDiagnostic(
+				ctx,
+				"TYPE_MISMATCH",
+				"error",
+				createHashArgumentTypeMessage(helperName, pair.key, expected, actual),
+				node,
+				{ helperName, hashArgument: pair.key, expected, actual },
+			);
+		}
+	}
+
+	if (!declared) return hashSchemas;
+
+	const provided = new Set(pairs.map((pair) => pair.key));
+	for (const [key, hashParam] of Object.entries(declared)) {
+		if (hashParam.optional || provided.has(key)) continue;
+		addDiagnostic(
+			ctx,
+			"MISSING_ARGUMENT",
+			"error",
+			createMissingHashArgumentMessage(helperName, key),
+			node,
+			{ helperName, hashArgument: key, expected: `${key}=…` },
+		);
+	}
+
+	return hashSchemas;
+}
+
+/**
+ * Infers the output type of a `Program` (template body or block body).
+ *
+ * Handles 4 cases, from most specific to most general:
+ *
+ * 1. **Single expression** `{{expr}}` → type of the expression
+ * 2. **Single block** `{{#if}}…{{/if}}` → type of the block
+ * 3. **Pure text content** → literal detection (number, boolean, null)
+ * 4. **Mixed template** → always `string` (concatenation)
+ *
+ * Validation is performed alongside inference: each expression and block
+ * is validated during processing.
+ */
+function inferProgramType(
+	program: hbs.AST.Program,
+	ctx: AnalysisContext,
+): JSONSchema7 {
+	const effective = getEffectiveBody(program);
+
+	// No significant statements → empty string
+	if (effective.length === 0) {
+		return { type: "string" };
+	}
+
+	// ── Case 1: single expression {{expr}} ─────────────────────────────────
+	const singleExpr = getEffectivelySingleExpression(program);
+	if (singleExpr) {
+		return processMustache(singleExpr, ctx);
+	}
+
+	// ── Case 2: single block {{#if}}, {{#each}}, {{#with}}, … ──────────────
+	const singleBlock = getEffectivelySingleBlock(program);
+	if (singleBlock) {
+		return inferBlockType(singleBlock, ctx);
+	}
+
+	// ── Case 2b: single partial {{> name}} ─────────────────────────────────
+	// The executor renders a lone partial through its own template, so the
+	// output type is the type of the partial body.
+	const singlePartial = getEffectivelySinglePartial(program);
+	if (singlePartial) {
+		return processPartial(singlePartial, ctx);
 	}
 
 	// ── Case 3: only ContentStatements (no expressions) ────────────────────
@@ -1081,8 +1476,15 @@ function inferProgramType(
 	if (allBlocks) {
 		const types: JSONSchema7[] = [];
 		for (const stmt of effective) {
-			const t = inferBlockType(stmt as hbs.AST.BlockStatement, ctx);
-			if (t) types.push(t);
+			const block = stmt as hbs.AST.BlockStatement;
+			const t = inferBlockType(block, ctx);
+			// Collect mode only applies to a lone `#each` — next to other
+			// blocks, its items are concatenated by Handlebars.
+			if (isCollectEach(block, ctx.collectEach)) {
+				types.push({ type: "string" });
+			} else if (t) {
+				types.push(t);
+			}
 		}
 		if (types.length === 1) return types[0] as JSONSchema7;
 		if (types.length > 1) return simplifySchema({ oneOf: types });
@@ -1101,8 +1503,8 @@ function inferProgramType(
 /**
  * Infers the output type of a BlockStatement and validates its content.
  *
- * Supports built-in helpers (`if`, `unless`, `each`, `with`) and custom
- * helpers registered via `Typebars.registerHelper()`.
+ * Supports built-in helpers (`if`, `unless`, `each`, `with`, `switch`,
+ * `let`) and custom helpers registered via `Typebars.registerHelper()`.
  *
  * Uses the **save/restore** pattern for context: instead of creating a new
  * object `{ ...ctx, current: X }` on each recursion, we save `ctx.current`,
@@ -1134,11 +1536,26 @@ function inferBlockType(
 				);
 			}
 
+			// Narrow the context from what the condition guarantees in each
+			// branch (e.g. `user.email` is non-null in the body of
+			// `{{#if user.email}}`). For `#unless`, the body runs when the
+			// condition is falsy.
+			const narrowed = arg ? narrowConditionContexts(arg, ctx) : {};
+			const thenContext =
+				helperName === "if" ? narrowed.truthy : narrowed.falsy;
+			const elseContext =
+				helperName === "if" ? narrowed.falsy : narrowed.truthy;
+			const saved = ctx.current;
+
 			// Infer the type of the "then" branch
+			ctx.current = thenContext ?? saved;
 			const thenType = inferProgramType(stmt.program, ctx);
+			ctx.current = saved;
 
 			if (stmt.inverse) {
+				ctx.current = elseContext ?? saved;
 				const elseType = inferProgramType(stmt.inverse, ctx);
+				ctx.current = saved;
 				// If both branches have the same type → single type
 				if (deepEqual(thenType, elseType)) return thenType;
 				// Otherwise → union of both types
@@ -1154,6 +1571,7 @@ function inferBlockType(
 		// Resolve the collection schema, then validate the body with the item
 		// schema as the new context.
 		case "each": {
+			validateCollectArgument(stmt, ctx);
 			const arg = getBlockArgument(stmt);
 			if (!arg) {
 				addDiagnostic(
@@ -1165,133 +1583,910 @@ function inferBlockType(
 					{ helperName: "each" },
 				);
 				// Validate the body with an empty context (best-effort)
-				const saved = ctx.current;
-				ctx.current = {};
-				inferProgramType(stmt.program, ctx);
-				ctx.current = saved;
-				if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
-				return { type: "string" };
+				inferProgramInScope(stmt.program, ctx, {}, []);
+				const inverseSchema = stmt.inverse
+					? inferProgramType(stmt.inverse, ctx)
+					: undefined;
+				return eachOutputSchema(stmt, ctx, {}, inverseSchema);
 			}
 
 			const collectionSchema = resolveExpressionWithDiagnostics(arg, ctx, stmt);
 			if (!collectionSchema) {
 				// The path could not be resolved — diagnostic already emitted.
-				const saved = ctx.current;
-				ctx.current = {};
-				inferProgramType(stmt.program, ctx);
-				ctx.current = saved;
-				if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
-				return { type: "string" };
+				inferProgramInScope(stmt.program, ctx, {}, []);
+				const inverseSchema = stmt.inverse
+					? inferProgramType(stmt.inverse, ctx)
+					: undefined;
+				return eachOutputSchema(stmt, ctx, {}, inverseSchema);
 			}
 
-			// Resolve the schema of the array elements
+			// Resolve the schema of the array elements, or of the object values
 			const itemSchema = resolveArrayItems(collectionSchema, ctx.root);
-			if (!itemSchema) {
+			const entries = itemSchema
+				? undefined
+				: resolveObjectEntries(collectionSchema, ctx.root);
+			if (!itemSchema && !entries) {
 				addDiagnostic(
 					ctx,
 					"TYPE_MISMATCH",
 					"error",
 					createTypeMismatchMessage(
 						"each",
-						"an array",
+						"an array or an object",
 						schemaTypeLabel(collectionSchema),
 					),
 					stmt,
 					{
 						helperName: "each",
-						expected: "array",
+						expected: "array | object",
 						actual: schemaTypeLabel(collectionSchema),
 					},
 				);
 				// Validate the body with an empty context (best-effort)
-				const saved = ctx.current;
-				ctx.current = {};
+				inferProgramInScope(stmt.program, ctx, {}, []);
+				const inverseSchema = stmt.inverse
+					? inferProgramType(stmt.inverse, ctx)
+					: undefined;
+				return eachOutputSchema(stmt, ctx, {}, inverseSchema);
+			}
+
+			// Validate the body with the item (or value) schema as the new
+			// context. Block params: `as |item index|` / `as |value key|`
+			const valueSchema = itemSchema ?? (entries as ObjectEntrySchemas).value;
+			const keySchema: JSONSchema7 = entries?.key ?? { type: "number" };
+			// `#each` sets all its variables, hiding those of outer `#let` blocks
+			ctx.dataVariables.push({ ...DATA_VARIABLE_SCHEMAS, key: keySchema });
+			const bodySchema = inferProgramInScope(stmt.program, ctx, valueSchema, [
+				valueSchema,
+				keySchema,
+			]);
+			ctx.dataVariables.pop();
+
+			// The inverse branch ({{else}}) keeps the parent context
+			const inverseSchema = stmt.inverse
+				? inferProgramType(stmt.inverse, ctx)
+				: undefined;
+
+			return eachOutputSchema(stmt, ctx, bodySchema, inverseSchema);
+		}
+
+		// ── with ─────────────────────────────────────────────────────────────
+		// Resolve the inner schema, then validate the body with it as the
+		// new context.
+		case "with": {
+			const arg = getBlockArgument(stmt);
+			if (!arg) {
+				addDiagnostic(
+					ctx,
+					"MISSING_ARGUMENT",
+					"error",
+					createMissingArgumentMessage("with"),
+					stmt,
+					{ helperName: "with" },
+				);
+				// Validate the body with an empty context
+				const result = inferProgramInScope(stmt.program, ctx, {}, []);
+				if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
+				return result;
+			}
+
+			const innerSchema =
+				resolveExpressionWithDiagnostics(arg, ctx, stmt) ?? {};
+
+			// Block param: `as |inner|`
+			const result = inferProgramInScope(stmt.program, ctx, innerSchema, [
+				innerSchema,
+			]);
+
+			// The inverse branch keeps the parent context
+			if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
+
+			return result;
+		}
+
+		// ── switch ───────────────────────────────────────────────────────────
+		case SwitchHelpers.SWITCH_HELPER_NAME:
+			return inferSwitchType(stmt, ctx);
+
+		// ── let ──────────────────────────────────────────────────────────────
+		case LetHelpers.LET_HELPER_NAME:
+			return inferLetType(stmt, ctx);
+
+		// ── case / default blocks outside a switch ───────────────────────────
+		// Inside a switch they are handled by `inferSwitchType`.
+		case SwitchHelpers.CASE_HELPER_NAME:
+		case DefaultHelpers.DEFAULT_HELPER_NAME: {
+			addDiagnostic(
+				ctx,
+				"CASE_OUTSIDE_SWITCH",
+				"error",
+				createCaseOutsideSwitchMessage(helperName),
+				stmt,
+				{ helperName },
+			);
+			resolveHelperArguments(
+				stmt.params as hbs.AST.Expression[],
+				stmt.hash,
+				ctx,
+				stmt,
+			);
+			inferProgramType(stmt.program, ctx);
+			if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
+			return { type: "string" };
+		}
+
+		// ── Custom or unknown helper ─────────────────────────────────────────
+		default: {
+			const helper = ctx.helpers?.get(helperName);
+			if (helper) {
+				// Registered custom helper — validate parameters
+				const argSchemas = stmt.params.map((param) =>
+					resolveExpressionWithDiagnostics(
+						param as hbs.AST.Expression,
+						ctx,
+						stmt,
+					),
+				);
+				const hashSchemas = validateHelperHash(
+					helperName,
+					helper,
+					stmt.hash,
+					ctx,
+					stmt,
+				);
+				// Validate the body with the current context — block params
+				// provided by custom helpers have an unknown type
+				ctx.blockParams.push(bindBlockParams(stmt.program, []));
 				inferProgramType(stmt.program, ctx);
-				ctx.current = saved;
+				ctx.blockParams.pop();
 				if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
-				return { type: "string" };
+				if (
+					helperName === MessageHelpers.ICU_HELPER_NAME &&
+					isBuiltInHelper(helper)
+				) {
+					checkIcuBody(stmt, hashSchemas, ctx);
+				}
+				return inferHelperReturnType(
+					helperName,
+					helper,
+					stmt.params as hbs.AST.Expression[],
+					argSchemas,
+					hashSchemas,
+					ctx,
+					stmt,
+				);
+			}
+
+			// Unknown helper — warning
+			resolveHelperArguments(
+				stmt.params as hbs.AST.Expression[],
+				stmt.hash,
+				ctx,
+				stmt,
+			);
+			addDiagnostic(
+				ctx,
+				"UNKNOWN_HELPER",
+				"warning",
+				createUnknownHelperMessage(helperName),
+				stmt,
+				{ helperName },
+			);
+			// Still validate the body with the current context (best-effort)
+			ctx.blockParams.push(bindBlockParams(stmt.program, []));
+			inferProgramType(stmt.program, ctx);
+			ctx.blockParams.pop();
+			if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
+			return { type: "string" };
+		}
+	}
+}
+
+// ─── switch block — special-case analysis ────────────────────────────────────
+// `{{#switch subject}}{{#case "a"}}…{{/case}}{{#default}}…{{/default}}{{/switch}}`
+// is analyzed like a chain of `{{#if (eq subject "a")}}` blocks: the subject
+// is narrowed in each case, and the output type is the union of the case
+// types. Case values are checked against the subject's `enum` / `const` set,
+// which also tells whether a switch without `#default` is exhaustive.
+
+/**
+ * Infers the output type of a `#switch` block and validates its cases.
+ *
+ * 1. Resolves the subject and its possible values (`enum` / `const`)
+ * 2. Validates each `#case` value and infers its body in the narrowed context
+ * 3. Infers the `#default` body, the subject narrowed to none of the cases
+ * 4. Reports a non-exhaustive switch and returns the union of the branches
+ */
+function inferSwitchType(
+	stmt: hbs.AST.BlockStatement,
+	ctx: AnalysisContext,
+): JSONSchema7 {
+	const helperName = SwitchHelpers.SWITCH_HELPER_NAME;
+
+	// ── 1. Resolve the subject ───────────────────────────────────────────
+	const subject = getBlockArgument(stmt);
+	let subjectSchema: JSONSchema7 | undefined;
+	if (subject) {
+		subjectSchema = resolveExpressionWithDiagnostics(subject, ctx, stmt);
+	} else {
+		addDiagnostic(
+			ctx,
+			"MISSING_ARGUMENT",
+			"error",
+			createMissingArgumentMessage(helperName),
+			stmt,
+			{ helperName },
+		);
+	}
+	const allowed = subjectSchema
+		? getSchemaEnumValues(subjectSchema, ctx.root)
+		: undefined;
+	const allowedLabels = allowed?.map((value) => JSON.stringify(value)) ?? [];
+
+	const saved = ctx.current;
+	const types: JSONSchema7[] = [];
+	const covered: unknown[] = [];
+	// Literal case values, to report duplicates
+	const seen: unknown[] = [];
+	// Literals of single-value cases, ruled out in the `#default` branch
+	const ruledOut: hbs.AST.Expression[] = [];
+	let hasDefault = false;
+
+	// The body runs in a new data frame, without variables of its own
+	ctx.dataVariables.push({});
+	for (const child of stmt.program.body) {
+		const childName =
+			child.type === "BlockStatement"
+				? getBlockHelperName(child as hbs.AST.BlockStatement)
+				: "";
+
+		// ── 2. #case ───────────────────────────────────────────────────────
+		if (childName === SwitchHelpers.CASE_HELPER_NAME) {
+			const caseBlock = child as hbs.AST.BlockStatement;
+			const values = caseBlock.params as hbs.AST.Expression[];
+			if (values.length === 0) {
+				addDiagnostic(
+					ctx,
+					"MISSING_ARGUMENT",
+					"error",
+					createMissingArgumentMessage(childName),
+					caseBlock,
+					{ helperName: childName },
+				);
 			}
 
-			// Validate the body with the item schema as the new context
-			const saved = ctx.current;
-			ctx.current = itemSchema;
-			inferProgramType(stmt.program, ctx);
-			ctx.current = saved;
+			for (const value of values) {
+				const literal = getLiteralValue(value);
+				if (!literal) {
+					// A dynamic case value cannot be checked statically
+					resolveExpressionWithDiagnostics(value, ctx, caseBlock);
+				} else if (seen.includes(literal.literal)) {
+					addDiagnostic(
+						ctx,
+						"DUPLICATE_CASE",
+						"warning",
+						createDuplicateCaseMessage(JSON.stringify(literal.literal)),
+						value,
+						{
+							helperName: childName,
+							actual: JSON.stringify(literal.literal),
+						},
+					);
+				} else if (allowed && !allowed.includes(literal.literal)) {
+					const label = JSON.stringify(literal.literal);
+					addDiagnostic(
+						ctx,
+						"UNREACHABLE_CASE",
+						"warning",
+						createUnreachableCaseMessage(label, allowedLabels),
+						value,
+						{
+							helperName: childName,
+							expected: allowedLabels.join(" | "),
+							actual: label,
+						},
+					);
+				} else {
+					covered.push(literal.literal);
+				}
+				if (literal) seen.push(literal.literal);
+			}
+
+			const [value] = values;
+			if (subject && value && values.length === 1 && getLiteralValue(value)) {
+				ctx.current =
+					narrowDiscriminant([subject, value], saved, true, ctx) ?? saved;
+				ruledOut.push(value);
+			}
+			types.push(inferProgramType(caseBlock.program, ctx));
+			ctx.current = saved;
+			if (caseBlock.inverse) inferProgramType(caseBlock.inverse, ctx);
+			continue;
+		}
+
+		// ── 3. #default ────────────────────────────────────────────────────
+		if (childName === DefaultHelpers.DEFAULT_HELPER_NAME) {
+			const defaultBlock = child as hbs.AST.BlockStatement;
+			hasDefault = true;
+			if (subject) {
+				for (const value of ruledOut) {
+					ctx.current =
+						narrowDiscriminant([subject, value], ctx.current, false, ctx) ??
+						ctx.current;
+				}
+			}
+			types.push(inferProgramType(defaultBlock.program, ctx));
+			ctx.current = saved;
+			continue;
+		}
+
+		// Anything else is validated but not output. Whitespace between the
+		// cases (indentation) and comments are expected.
+		const isBlank =
+			child.type === "CommentStatement" ||
+			(child.type === "ContentStatement" &&
+				(child as hbs.AST.ContentStatement).value.trim() === "");
+		if (!isBlank) {
+			addDiagnostic(
+				ctx,
+				"CONTENT_OUTSIDE_CASE",
+				"warning",
+				createContentOutsideCaseMessage(),
+				child,
+				{ helperName },
+			);
+		}
+		processStatement(child, ctx);
+	}
+	ctx.dataVariables.pop();
+	if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
+
+	// ── 4. Exhaustiveness ────────────────────────────────────────────────
+	const missing = allowed?.filter((value) => !covered.includes(value));
+	const exhaustive =
+		hasDefault || (missing !== undefined && missing.length === 0);
+	if (!exhaustive && subjectSchema) {
+		const missingLabels = missing?.map((value) => JSON.stringify(value));
+		addDiagnostic(
+			ctx,
+			"NON_EXHAUSTIVE_SWITCH",
+			"warning",
+			createNonExhaustiveSwitchMessage(missingLabels),
+			stmt,
+			{
+				helperName,
+				expected: allowed ? allowedLabels.join(" | ") : "enum or #default",
+				actual: covered.map((value) => JSON.stringify(value)).join(" | "),
+			},
+		);
+	}
+
+	// An unmatched subject renders as an empty string
+	if (!exhaustive) types.push({ type: "string" });
+	if (types.length === 1) return types[0] as JSONSchema7;
+	return simplifySchema({ oneOf: types });
+}
+
+/**
+ * Returns the values a schema can take when it is restricted by `enum` or
+ * `const` (directly or in every branch of a `oneOf` / `anyOf`), or
+ * `undefined` when its values are not enumerable.
+ */
+function getSchemaEnumValues(
+	schema: JSONSchema7,
+	root: JSONSchema7,
+): unknown[] | undefined {
+	const resolved = resolveRef(schema, root);
+	if (resolved.const !== undefined) return [resolved.const];
+	if (resolved.enum) return [...resolved.enum];
+
+	const branches = resolved.oneOf ?? resolved.anyOf;
+	if (!branches) return undefined;
+	const values: unknown[] = [];
+	for (const branch of branches) {
+		if (typeof branch === "boolean") return undefined;
+		const branchValues = getSchemaEnumValues(branch, root);
+		if (!branchValues) return undefined;
+		for (const value of branchValues) {
+			if (!values.includes(value)) values.push(value);
+		}
+	}
+	return values;
+}
+
+// ─── let block — special-case analysis ───────────────────────────────────────
+// `{{#let total=(sum prices)}}{{@total}}{{/let}}` binds each hash value to a
+// `@data` variable of its body. The bindings are typed by their values, and
+// a binding that the body never reads is reported.
+
+/**
+ * Infers the output type of a `#let` block (the type of its body) and
+ * validates its bindings.
+ */
+function inferLetType(
+	stmt: hbs.AST.BlockStatement,
+	ctx: AnalysisContext,
+): JSONSchema7 {
+	const helperName = LetHelpers.LET_HELPER_NAME;
+	const pairs = stmt.hash?.pairs ?? [];
+	if (pairs.length === 0) {
+		addDiagnostic(
+			ctx,
+			"MISSING_ARGUMENT",
+			"error",
+			createMissingHashArgumentMessage(helperName, "name"),
+			stmt,
+			{ helperName },
+		);
+	}
+	// Positional arguments are not bound — validated only
+	for (const param of stmt.params) {
+		resolveExpressionWithDiagnostics(param as hbs.AST.Expression, ctx, stmt);
+	}
+
+	// Values are resolved in the enclosing scope, before any binding
+	const frame: Record<string, JSONSchema7> = {};
+	for (const pair of pairs) {
+		frame[pair.key] =
+			resolveExpressionWithDiagnostics(pair.value, ctx, stmt) ?? {};
+	}
+
+	const used = new Set<string>();
+	ctx.usedDataVariables ??= new Map();
+	ctx.usedDataVariables.set(frame, used);
+	ctx.dataVariables.push(frame);
+	const bodySchema = inferProgramType(stmt.program, ctx);
+	ctx.dataVariables.pop();
+	ctx.usedDataVariables.delete(frame);
+	if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
+
+	for (const pair of pairs) {
+		if (used.has(pair.key)) continue;
+		addDiagnostic(
+			ctx,
+			"UNUSED_BINDING",
+			"warning",
+			createUnusedBindingMessage(pair.key),
+			pair,
+			{ helperName, hashArgument: pair.key },
+		);
+	}
+
+	return bodySchema;
+}
+
+// ─── icu block — special-case analysis ───────────────────────────────────────
+// `{{#icu count=n}}{count, plural, one {# item} other {# items}}{{/icu}}`
+// formats its body as an ICU message. A body without expressions is known
+// statically: it is parsed, and each argument it reads is resolved like at
+// runtime — from the hash, then from the block's context.
+
+/**
+ * Checks the static body of a `#icu` block: reports a malformed message
+ * (`INVALID_MESSAGE`), unknown arguments and `plural` / `number` arguments
+ * that are not numbers.
+ */
+function checkIcuBody(
+	stmt: hbs.AST.BlockStatement,
+	hashSchemas: Record<string, JSONSchema7 | undefined>,
+	ctx: AnalysisContext,
+): void {
+	const helperName = MessageHelpers.ICU_HELPER_NAME;
+	const body = stmt.program.body;
+	// A body with expressions is only known at runtime
+	if (body.some((child) => child.type !== "ContentStatement")) return;
+	const source = body
+		.map((child) => (child as hbs.AST.ContentStatement).value)
+		.join("");
+	const node = stmt.program.loc ? stmt.program : stmt;
+
+	let args: ReturnType<typeof getMessageArguments>;
+	try {
+		args = getMessageArguments(source);
+	} catch (error) {
+		addDiagnostic(
+			ctx,
+			"INVALID_MESSAGE",
+			"error",
+			`Helper "${helperName}": ${(error as Error).message}`,
+			node,
+			{ helperName, expected: "ICU message", actual: source },
+		);
+		return;
+	}
+
+	for (const arg of args) {
+		let schema = hashSchemas[arg.name];
+		if (!Object.hasOwn(hashSchemas, arg.name)) {
+			schema = resolveSchemaPath(ctx.current, arg.name.split("."));
+			if (!schema) {
+				const availableProperties = getSchemaPropertyNames(ctx.current);
+				addDiagnostic(
+					ctx,
+					"UNKNOWN_PROPERTY",
+					"error",
+					createPropertyNotFoundMessage(arg.name, availableProperties),
+					node,
+					{ path: arg.name, availableProperties },
+				);
+				continue;
+			}
+		}
+		if (arg.numeric && schema && !isNumericSchema(schema)) {
+			addDiagnostic(
+				ctx,
+				"TYPE_MISMATCH",
+				"error",
+				`Helper "${helperName}": the message argument "${arg.name}" is used as a number, but got ${schemaTypeLabel(schema)}`,
+				node,
+				{
+					helperName,
+					path: arg.name,
+					expected: "number",
+					actual: schemaTypeLabel(schema),
+				},
+			);
+		}
+	}
+}
+
+// ─── Collect Mode ────────────────────────────────────────────────────────────
+// `{{#each items collect=true}}` (or the `collectEach` engine option) returns
+// the body's value for each item as an array instead of concatenating them.
+
+/**
+ * Output schema of an `{{#each}}` block.
+ *
+ * An each concatenates its renders → always string. In collect mode, it
+ * produces an array of the body's type — or the `{{else}}` branch's value
+ * when the collection is empty.
+ */
+function eachOutputSchema(
+	stmt: hbs.AST.BlockStatement,
+	ctx: AnalysisContext,
+	bodySchema: JSONSchema7,
+	inverseSchema?: JSONSchema7,
+): JSONSchema7 {
+	if (!isCollectEach(stmt, ctx.collectEach)) return { type: "string" };
+
+	const collected: JSONSchema7 = { type: "array", items: bodySchema };
+	if (!inverseSchema) return collected;
+	return simplifySchema({ oneOf: [collected, inverseSchema] });
+}
+
+/**
+ * Reports a `collect=…` argument that is not a boolean literal — collect
+ * mode changes the output type, so it must be known statically.
+ */
+function validateCollectArgument(
+	stmt: hbs.AST.BlockStatement,
+	ctx: AnalysisContext,
+): void {
+	const pair = getCollectHashPair(stmt);
+	if (!pair || pair.value.type === "BooleanLiteral") return;
+
+	addDiagnostic(
+		ctx,
+		"TYPE_MISMATCH",
+		"error",
+		createInvalidCollectMessage(pair.value.type),
+		stmt,
+		{ helperName: "each", expected: "BooleanLiteral", actual: pair.value.type },
+	);
+}
+
+// ─── Lexical Scopes ──────────────────────────────────────────────────────────
+// Blocks that change the context (`#each`, `#with`) push the enclosing
+// context on `ctx.parentContexts` so that `{{../name}}` can reach it, and
+// bind their block params (`as |item index|`) on `ctx.blockParams`.
+// Blocks that keep the context (`#if`, `#unless`) push nothing, matching
+// Handlebars' depth counting.
+
+/**
+ * Infers the type of a block body executed with a new context.
+ *
+ * @param program      - The block body
+ * @param context      - The context schema inside the body
+ * @param paramSchemas - Schemas of the block params, in declaration order
+ */
+function inferProgramInScope(
+	program: hbs.AST.Program,
+	ctx: AnalysisContext,
+	context: JSONSchema7,
+	paramSchemas: JSONSchema7[],
+): JSONSchema7 {
+	ctx.parentContexts.push(ctx.current);
+	ctx.blockParams.push(bindBlockParams(program, paramSchemas));
+	ctx.current = context;
+
+	const result = inferProgramType(program, ctx);
+
+	ctx.current = ctx.parentContexts.pop() as JSONSchema7;
+	ctx.blockParams.pop();
+	return result;
+}
+
+/**
+ * Maps the block params declared by a block body (`as |a b|`) to their
+ * schemas. Params without a known schema accept any type.
+ */
+function bindBlockParams(
+	program: hbs.AST.Program,
+	paramSchemas: JSONSchema7[],
+): Record<string, JSONSchema7> {
+	const bindings: Record<string, JSONSchema7> = {};
+	const names = program.blockParams ?? [];
+	for (let i = 0; i < names.length; i++) {
+		bindings[names[i] as string] = paramSchemas[i] ?? {};
+	}
+	return bindings;
+}
+
+/** Schema and remaining segments a path expression is looked up with */
+interface PathScope {
+	base: JSONSchema7;
+	segments: string[];
+}
+
+/**
+ * Determines where a path expression is looked up, following Handlebars'
+ * scoping rules:
+ * - `@root.a.b`   → `a.b` in the input schema
+ * - `../a` (depth N) → `a` in the N-th enclosing context
+ * - `item.a` where `item` is a block param → `a` in the param's schema
+ * - anything else → the current context
+ *
+ * @param cleanSegments - Path segments with the identifier stripped
+ * @returns The lookup scope, or `undefined` when `../` goes above the
+ *          outermost context
+ */
+function getPathScope(
+	expr: hbs.AST.PathExpression,
+	cleanSegments: string[],
+	ctx: AnalysisContext,
+): PathScope | undefined {
+	if (isRootDataExpression(expr)) {
+		return { base: ctx.root, segments: cleanSegments.slice(1) };
+	}
+
+	if (expr.depth > 0) {
+		const parent = ctx.parentContexts[ctx.parentContexts.length - expr.depth];
+		return parent ? { base: parent, segments: cleanSegments } : undefined;
+	}
+
+	const head = cleanSegments[0];
+	if (head !== undefined && !isScopedPath(expr)) {
+		for (let i = ctx.blockParams.length - 1; i >= 0; i--) {
+			const param = ctx.blockParams[i]?.[head];
+			if (param) return { base: param, segments: cleanSegments.slice(1) };
+		}
+	}
+
+	return { base: ctx.current, segments: cleanSegments };
+}
+
+// ─── Partials ────────────────────────────────────────────────────────────────
+// `{{> name}}` includes a partial registered via `Typebars.registerPartial()`.
+// The partial body is analyzed against its declared `contextSchema` (or the
+// call-site context when none is declared) and its diagnostics are reported
+// at the call site. The call-site context is checked against the declared
+// schema.
+//
+// Handlebars semantics:
+// - `{{> name}}`            → the partial receives the current context
+// - `{{> name ctx}}`        → the partial receives `ctx`
+// - `{{> name key=value}}`  → hash params are added to the context
+// - `{{#> name}}…{{/name}}` → the block body is rendered by
+//   `{{> @partial-block}}` inside the partial, or as a fallback when the
+//   partial is not registered
+
+/** Name under which Handlebars exposes the body of a partial block */
+const PARTIAL_BLOCK_NAME = "@partial-block";
+
+/**
+ * Analyzes a partial call (`{{> name}}` or `{{#> name}}…{{/name}}`) and
+ * returns the output schema of the partial body.
+ */
+function processPartial(
+	stmt: hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement,
+	ctx: AnalysisContext,
+): JSONSchema7 {
+	const partialName = getPartialName(stmt);
+	if (partialName === null) {
+		addDiagnostic(
+			ctx,
+			"UNANALYZABLE",
+			"warning",
+			"Dynamic partials are not statically analyzable",
+			stmt,
+		);
+		return { type: "string" };
+	}
+
+	// `{{> @partial-block}}` renders the body of the enclosing partial block
+	if (partialName === PARTIAL_BLOCK_NAME) {
+		const blockSchema = ctx.partialBlocks?.[ctx.partialBlocks.length - 1];
+		if (blockSchema) return blockSchema;
+	}
+
+	const isBlock = stmt.type === "PartialBlockStatement";
+	const partial = ctx.partials?.get(partialName);
+	if (!partial) {
+		// An unregistered partial block renders its own body instead
+		if (isBlock) {
+			return inferProgramType(
+				(stmt as hbs.AST.PartialBlockStatement).program,
+				ctx,
+			);
+		}
+		addDiagnostic(
+			ctx,
+			"UNKNOWN_PARTIAL",
+			"error",
+			createUnknownPartialMessage(partialName),
+			stmt,
+			{ partialName },
+		);
+		return { type: "string" };
+	}
+
+	const stack = ctx.partialStack ?? [];
+	if (stack.includes(partialName)) {
+		addDiagnostic(
+			ctx,
+			"PARTIAL_CYCLE",
+			"error",
+			createPartialCycleMessage([...stack, partialName]),
+			stmt,
+			{ partialName },
+		);
+		return { type: "string" };
+	}
+
+	const callContext = resolvePartialContext(stmt, ctx);
+	if (callContext && partial.contextSchema) {
+		checkPartialContext(
+			partialName,
+			callContext,
+			partial.contextSchema,
+			ctx,
+			stmt,
+		);
+	}
+
+	// The body of a partial block is written in the caller's template and
+	// context — analyze it here so its diagnostics point to the caller.
+	const partialBlocks = isBlock
+		? [
+				...(ctx.partialBlocks ?? []),
+				inferProgramType((stmt as hbs.AST.PartialBlockStatement).program, ctx),
+			]
+		: ctx.partialBlocks;
+
+	const bodySchema = partial.contextSchema ?? callContext ?? {};
+	const partialCtx: AnalysisContext = {
+		root: bodySchema,
+		current: bodySchema,
+		parentContexts: [],
+		blockParams: [],
+		dataVariables: [],
+		diagnostics: [],
+		template: partial.template,
+		identifierSchemas: ctx.identifierSchemas,
+		helpers: ctx.helpers,
+		partials: ctx.partials,
+		collectEach: ctx.collectEach,
+		partialStack: [...stack, partialName],
+		partialBlocks,
+	};
+	const outputSchema = inferProgramType(partial.ast, partialCtx);
+
+	for (const diagnostic of partialCtx.diagnostics) {
+		addDiagnostic(
+			ctx,
+			diagnostic.code,
+			diagnostic.severity,
+			`In partial "${partialName}": ${diagnostic.message}`,
+			stmt,
+			{ partialName, ...diagnostic.details },
+		);
+	}
+
+	return outputSchema;
+}
+
+/**
+ * Resolves the context schema a partial receives at a call site: the
+ * explicit context argument (or the current context), extended with the
+ * hash params.
+ *
+ * @returns The context schema, or `undefined` if the context argument
+ *          could not be resolved (diagnostic already emitted)
+ */
+function resolvePartialContext(
+	stmt: hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement,
+	ctx: AnalysisContext,
+): JSONSchema7 | undefined {
+	const contextParam = stmt.params[0];
+	const base = contextParam
+		? resolveExpressionWithDiagnostics(contextParam, ctx, stmt)
+		: ctx.current;
+
+	if (!stmt.hash) return base;
+
+	const hashProperties: Record<string, JSONSchema7> = {};
+	for (const pair of stmt.hash.pairs) {
+		hashProperties[pair.key] =
+			resolveExpressionWithDiagnostics(pair.value, ctx, stmt) ?? {};
+	}
+	if (base === undefined) return undefined;
+
+	const resolvedBase = resolveSchemaPath(base, []) ?? base;
+	return {
+		...resolvedBase,
+		properties: { ...resolvedBase.properties, ...hashProperties },
+		required: [
+			...new Set([
+				...(resolvedBase.required ?? []),
+				...Object.keys(hashProperties),
+			]),
+		],
+	};
+}
 
-			// The inverse branch ({{else}}) keeps the parent context
-			if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
+/**
+ * Checks that the context provided at a call site satisfies the partial's
+ * declared `contextSchema`: every required property must exist, and every
+ * provided property must have a compatible type.
+ */
+function checkPartialContext(
+	partialName: string,
+	provided: JSONSchema7,
+	expected: JSONSchema7,
+	ctx: AnalysisContext,
+	node: hbs.AST.Node,
+): void {
+	const resolvedExpected = resolveSchemaPath(expected, []) ?? expected;
+	const required = resolvedExpected.required ?? [];
 
-			// An each concatenates renders → always string
-			return { type: "string" };
-		}
+	for (const key of Object.keys(resolvedExpected.properties ?? {})) {
+		const expectedProp = resolveSchemaPath(expected, [key]);
+		if (!expectedProp) continue;
 
-		// ── with ─────────────────────────────────────────────────────────────
-		// Resolve the inner schema, then validate the body with it as the
-		// new context.
-		case "with": {
-			const arg = getBlockArgument(stmt);
-			if (!arg) {
+		const providedProp = resolveSchemaPath(provided, [key]);
+		if (providedProp === undefined) {
+			if (required.includes(key)) {
 				addDiagnostic(
 					ctx,
 					"MISSING_ARGUMENT",
 					"error",
-					createMissingArgumentMessage("with"),
-					stmt,
-					{ helperName: "with" },
+					`Partial "${partialName}" requires property "${key}" in its context`,
+					node,
+					{
+						partialName,
+						path: key,
+						expected: schemaTypeLabel(expectedProp),
+						availableProperties: getSchemaPropertyNames(provided),
+					},
 				);
-				// Validate the body with an empty context
-				const saved = ctx.current;
-				ctx.current = {};
-				const result = inferProgramType(stmt.program, ctx);
-				ctx.current = saved;
-				if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
-				return result;
 			}
-
-			const innerSchema = resolveExpressionWithDiagnostics(arg, ctx, stmt);
-
-			const saved = ctx.current;
-			ctx.current = innerSchema ?? {};
-			const result = inferProgramType(stmt.program, ctx);
-			ctx.current = saved;
-
-			// The inverse branch keeps the parent context
-			if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
-
-			return result;
+			continue;
 		}
 
-		// ── Custom or unknown helper ─────────────────────────────────────────
-		default: {
-			const helper = ctx.helpers?.get(helperName);
-			if (helper) {
-				// Registered custom helper — validate parameters
-				for (const param of stmt.params) {
-					resolveExpressionWithDiagnostics(
-						param as hbs.AST.Expression,
-						ctx,
-						stmt,
-					);
-				}
-				// Validate the body with the current context
-				inferProgramType(stmt.program, ctx);
-				if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
-				return helper.returnType ?? { type: "string" };
-			}
-
-			// Unknown helper — warning
+		if (!isParamTypeCompatible(providedProp, expectedProp)) {
 			addDiagnostic(
 				ctx,
-				"UNKNOWN_HELPER",
-				"warning",
-				createUnknownHelperMessage(helperName),
-				stmt,
-				{ helperName },
+				"TYPE_MISMATCH",
+				"error",
+				`Partial "${partialName}" expects property "${key}" to be ${schemaTypeLabel(expectedProp)}, but got ${schemaTypeLabel(providedProp)}`,
+				node,
+				{
+					partialName,
+					path: key,
+					expected: schemaTypeLabel(expectedProp),
+					actual: schemaTypeLabel(providedProp),
+				},
 			);
-			// Still validate the body with the current context (best-effort)
-			inferProgramType(stmt.program, ctx);
-			if (stmt.inverse) inferProgramType(stmt.inverse, ctx);
-			return { type: "string" };
 		}
 	}
 }
@@ -1325,11 +2520,44 @@ const DATA_VARIABLE_SCHEMAS: Record<string, JSONSchema7> = {
 /**
  * Returns the inferred schema for a Handlebars `@data` variable.
  * Known variables (`@index`, `@first`, `@last`, `@key`) return their
- * concrete type; unknown `@data` variables return the open schema `{}`
- * (any type) to avoid blocking valid templates.
+ * concrete type — `@key` follows the innermost `#each` (array index or
+ * property name) and `#let` bindings the type of their value; unknown
+ * `@data` variables return the open schema `{}` (any type) to avoid
+ * blocking valid templates.
  */
-function resolveDataExpression(expr: hbs.AST.PathExpression): JSONSchema7 {
+function resolveDataExpression(
+	expr: hbs.AST.PathExpression,
+	ctx: AnalysisContext,
+	/** AST node for diagnostic location */
+	node: hbs.AST.Node,
+): JSONSchema7 | undefined {
 	const name = expr.parts[0];
+	// Like Handlebars frames, inner blocks override the variables of outer
+	// ones, and `@../key` starts from the frame of the enclosing block
+	const start = ctx.dataVariables.length - 1 - expr.depth;
+	for (let i = start; name && i >= 0; i--) {
+		const frame = ctx.dataVariables[i] as Record<string, JSONSchema7>;
+		const scoped = frame[name];
+		if (!scoped) continue;
+		ctx.usedDataVariables?.get(frame)?.add(name);
+		if (expr.parts.length === 1) return scoped;
+
+		// `@total.length`, `@user.name` → navigate into the variable's schema
+		const resolved = resolveSchemaPath(scoped, expr.parts.slice(1));
+		if (resolved === undefined) {
+			const fullPath = formatScopedPath(expr, expr.parts);
+			const availableProperties = getSchemaPropertyNames(scoped);
+			addDiagnostic(
+				ctx,
+				"UNKNOWN_PROPERTY",
+				"error",
+				createPropertyNotFoundMessage(fullPath, availableProperties),
+				node,
+				{ path: fullPath, availableProperties },
+			);
+		}
+		return resolved;
+	}
 	if (name && name in DATA_VARIABLE_SCHEMAS) {
 		return DATA_VARIABLE_SCHEMAS[name] as JSONSchema7;
 	}
@@ -1348,12 +2576,22 @@ function resolveExpressionWithDiagnostics(
 		return ctx.current;
 	}
 
+	// ── @root data path (`@root.user.name`) → the input schema ──────────────
+	if (isRootDataExpression(expr)) {
+		const path = expr as hbs.AST.PathExpression;
+		return resolveScopedPath(path, path.parts, ctx, parentNode ?? expr);
+	}
+
 	// ── Handlebars @data variables (@index, @first, @last, @key) ────────────
 	// These are runtime-provided by Handlebars inside block helpers (e.g.
 	// `#each`). They are NOT part of the user's input schema, so we must
 	// short-circuit here to avoid false UNKNOWN_PROPERTY diagnostics.
 	if (isDataExpression(expr)) {
-		return resolveDataExpression(expr as hbs.AST.PathExpression);
+		return resolveDataExpression(
+			expr as hbs.AST.PathExpression,
+			ctx,
+			parentNode ?? expr,
+		);
 	}
 
 	// ── SubExpression (nested helper call, e.g. `(lt account.balance 500)`) ──
@@ -1363,6 +2601,16 @@ function resolveExpressionWithDiagnostics(
 
 	const segments = extractPathSegments(expr);
 	if (segments.length === 0) {
+		// `{{..}}` → the whole parent context
+		if (expr.type === "PathExpression") {
+			return resolveScopedPath(
+				expr as hbs.AST.PathExpression,
+				[],
+				ctx,
+				parentNode ?? expr,
+			);
+		}
+
 		// Expression that is not a PathExpression (e.g. literal)
 		if (expr.type === "StringLiteral") return { type: "string" };
 		if (expr.type === "NumberLiteral") return { type: "number" };
@@ -1422,16 +2670,51 @@ function resolveExpressionWithDiagnostics(
 	}
 
 	// ── Standard resolution (no identifier) ────────────────────────────────
-	const resolved = resolveSchemaPath(ctx.current, cleanSegments);
+	return resolveScopedPath(
+		expr as hbs.AST.PathExpression,
+		cleanSegments,
+		ctx,
+		parentNode ?? expr,
+	);
+}
+
+/**
+ * Resolves a path in the scope it refers to (current context, parent
+ * context, block param or `@root`) — see `getPathScope`.
+ *
+ * Emits an `UNKNOWN_PROPERTY` error if the scope or the property does
+ * not exist.
+ */
+function resolveScopedPath(
+	expr: hbs.AST.PathExpression,
+	cleanSegments: string[],
+	ctx: AnalysisContext,
+	node: hbs.AST.Node,
+): JSONSchema7 | undefined {
+	const scope = getPathScope(expr, cleanSegments, ctx);
+	const fullPath = formatScopedPath(expr, cleanSegments);
+
+	if (!scope) {
+		addDiagnostic(
+			ctx,
+			"UNKNOWN_PROPERTY",
+			"error",
+			createParentScopeNotFoundMessage(fullPath),
+			node,
+			{ path: fullPath },
+		);
+		return undefined;
+	}
+
+	const resolved = resolveSchemaPath(scope.base, scope.segments);
 	if (resolved === undefined) {
-		const fullPath = cleanSegments.join(".");
-		const availableProperties = getSchemaPropertyNames(ctx.current);
+		const availableProperties = getSchemaPropertyNames(scope.base);
 		addDiagnostic(
 			ctx,
 			"UNKNOWN_PROPERTY",
 			"error",
 			createPropertyNotFoundMessage(fullPath, availableProperties),
-			parentNode ?? expr,
+			node,
 			{ path: fullPath, availableProperties },
 		);
 		return undefined;
@@ -1440,6 +2723,18 @@ function resolveExpressionWithDiagnostics(
 	return resolved;
 }
 
+/** Formats a path for diagnostics, keeping its `../` or `@` prefix */
+function formatScopedPath(
+	expr: hbs.AST.PathExpression,
+	cleanSegments: string[],
+): string {
+	if (expr.data) return `@${cleanSegments.join(".")}`;
+	if (expr.depth > 0) {
+		return `${"../".repeat(expr.depth)}${cleanSegments.join(".")}`;
+	}
+	return cleanSegments.join(".");
+}
+
 /**
  * Resolves `{{$root:N}}` — returns the **entire** schema for identifier N.
  *
@@ -1599,33 +2894,6 @@ function resolveWithIdentifier(
 	return resolved;
 }
 
-// ─── Nullable Schema Wrapping ────────────────────────────────────────────────
-
-/**
- * Wraps a JSON Schema with `null` to indicate the value can be nullish.
- *
- * - If the schema already includes `null`, it is returned as-is.
- * - For schemas with a simple `type` string, the type becomes an array
- *   (e.g. `{ type: "string" }` → `{ type: ["string", "null"] }`).
- * - For schemas with a type array, `"null"` is appended.
- * - For complex schemas (oneOf, anyOf, etc.), a `oneOf` wrapper is used.
- */
-function withNullType(schema: JSONSchema7): JSONSchema7 {
-	if (schema.type === "null") return schema;
-
-	if (typeof schema.type === "string") {
-		return { ...schema, type: [schema.type, "null"] };
-	}
-
-	if (Array.isArray(schema.type)) {
-		if (schema.type.includes("null")) return schema;
-		return { ...schema, type: [...schema.type, "null"] };
-	}
-
-	// Complex schema (oneOf, anyOf, allOf, etc.) — wrap with oneOf
-	return simplifySchema({ oneOf: [schema, { type: "null" }] });
-}
-
 /**
  * Checks whether EVERY segment along a property path is required.
  *
@@ -1662,6 +2930,209 @@ function isPathFullyRequired(schema: JSONSchema7, segments: string[]): boolean {
 	return true;
 }
 
+// ─── Condition Narrowing ─────────────────────────────────────────────────────
+// A block condition tells us facts about the data inside each branch:
+// - `{{#if user.email}}` → `user` and `user.email` are present and non-null
+//   in the truthy branch
+// - `{{#if (eq kind "a")}}` → `kind` is `"a"` in the truthy branch (and not
+//   `"a"` in the falsy one). When the parent schema holds an `if/then/else`
+//   conditional or a `oneOf`/`anyOf` union discriminated by `kind`, the
+//   applicable branch can be selected.
+// - `not`, `and` and `or` combine the facts of their operands.
+//
+// Narrowing only rewrites `ctx.current`: paths using `{{key:N}}`
+// identifiers, `$root`, `@data` variables, `../` or block params are never
+// narrowed.
+
+/**
+ * Comparison helpers usable as discriminant tests, mapped to whether a
+ * truthy result means the operands are equal.
+ */
+const DISCRIMINANT_HELPERS: Record<string, boolean> = {
+	eq: true,
+	ne: false,
+	neq: false,
+};
+
+/** Context schemas to use in the truthy / falsy branches of a condition */
+interface NarrowedContexts {
+	truthy?: JSONSchema7;
+	falsy?: JSONSchema7;
+}
+
+/**
+ * Computes the narrowed context schemas for a block condition.
+ * A branch is `undefined` when the condition does not narrow anything.
+ */
+function narrowConditionContexts(
+	condition: hbs.AST.Expression,
+	ctx: AnalysisContext,
+): NarrowedContexts {
+	return {
+		truthy: narrowCondition(condition, ctx.current, true, ctx),
+		falsy: narrowCondition(condition, ctx.current, false, ctx),
+	};
+}
+
+/**
+ * Narrows `schema` assuming `condition` evaluates to a truthy (or falsy)
+ * value.
+ *
+ * @returns The narrowed schema, or `undefined` if nothing is learned
+ */
+function narrowCondition(
+	condition: hbs.AST.Expression,
+	schema: JSONSchema7,
+	assumeTruthy: boolean,
+	ctx: AnalysisContext,
+): JSONSchema7 | undefined {
+	// A truthy path is present and non-null. A falsy path may be missing,
+	// null, or any other falsy value — nothing is learned.
+	if (condition.type === "PathExpression") {
+		if (!assumeTruthy) return undefined;
+		const segments = getNarrowableSegments(condition, ctx);
+		return segments
+			? narrowSchemaPathToPresent(schema, segments, ctx.current)
+			: undefined;
+	}
+
+	if (condition.type !== "SubExpression") return undefined;
+	const subExpr = condition as hbs.AST.SubExpression;
+	const helperName = getExpressionName(subExpr.path);
+	const params = subExpr.params as hbs.AST.Expression[];
+
+	// `(not x)` is truthy exactly when `x` is falsy
+	if (helperName === "not" && params.length === 1) {
+		return narrowCondition(
+			params[0] as hbs.AST.Expression,
+			schema,
+			!assumeTruthy,
+			ctx,
+		);
+	}
+
+	// A truthy `and` / falsy `or` guarantees every operand's outcome
+	if (
+		(helperName === "and" && assumeTruthy) ||
+		(helperName === "or" && !assumeTruthy)
+	) {
+		let narrowed: JSONSchema7 | undefined;
+		for (const param of params) {
+			narrowed =
+				narrowCondition(param, narrowed ?? schema, assumeTruthy, ctx) ??
+				narrowed;
+		}
+		return narrowed;
+	}
+
+	const equals = DISCRIMINANT_HELPERS[helperName];
+	if (equals === undefined || params.length !== 2) return undefined;
+	return narrowDiscriminant(
+		params as [hbs.AST.Expression, hbs.AST.Expression],
+		schema,
+		equals === assumeTruthy,
+		ctx,
+	);
+}
+
+/**
+ * Narrows `schema` from the comparison of a property with a literal
+ * (e.g. `kind` and `"a"` in `(eq kind "a")`).
+ *
+ * @param isEqual - Whether the operands are known to be equal
+ */
+function narrowDiscriminant(
+	[left, right]: [hbs.AST.Expression, hbs.AST.Expression],
+	schema: JSONSchema7,
+	isEqual: boolean,
+	ctx: AnalysisContext,
+): JSONSchema7 | undefined {
+	const [pathExpr, literal] =
+		left.type === "PathExpression" ? [left, right] : [right, left];
+	const value = getLiteralValue(literal);
+	if (value === undefined) return undefined;
+	const segments = getNarrowableSegments(pathExpr, ctx);
+	if (!segments) return undefined;
+
+	const parentPath = segments.slice(0, -1);
+	const property = segments[segments.length - 1] as string;
+	const parentSchema = resolveSchemaPath(schema, parentPath);
+	if (!parentSchema) return undefined;
+
+	const test = { property, value: value.literal, equals: isEqual };
+	const conditional = narrowConditionalSchema(parentSchema, test, ctx.current);
+	const narrowedParent =
+		narrowUnionSchema(conditional ?? parentSchema, test, ctx.current) ??
+		conditional;
+	let narrowed = narrowedParent
+		? replaceSchemaPath(schema, parentPath, narrowedParent, ctx.current)
+		: undefined;
+
+	// Equal to a non-null literal → the property is present and non-null
+	if (isEqual && value.literal !== null) {
+		narrowed =
+			narrowSchemaPathToPresent(narrowed ?? schema, segments, ctx.current) ??
+			narrowed;
+	}
+
+	return narrowed;
+}
+
+/**
+ * Returns the property segments of a path expression that can be narrowed,
+ * or `undefined` for `this`, `@data` variables, `$root` and `{{key:N}}`
+ * identifier paths.
+ */
+function getNarrowableSegments(
+	expr: hbs.AST.Expression,
+	ctx: AnalysisContext,
+): string[] | undefined {
+	if (expr.type !== "PathExpression") return undefined;
+	if (isDataExpression(expr) || isThisExpression(expr)) return undefined;
+
+	const { cleanSegments, identifier } = extractExpressionIdentifier(
+		extractPathSegments(expr),
+	);
+	if (
+		identifier !== null ||
+		cleanSegments.length === 0 ||
+		isRootSegments(cleanSegments) ||
+		isRootPathTraversal(cleanSegments)
+	) {
+		return undefined;
+	}
+
+	// `../` paths and block params do not live in the current context
+	const scope = getPathScope(
+		expr as hbs.AST.PathExpression,
+		cleanSegments,
+		ctx,
+	);
+	if (scope?.base !== ctx.current) return undefined;
+	return cleanSegments;
+}
+
+/**
+ * Extracts the value of a literal expression (`"a"`, `42`, `true`, `null`).
+ * Returns `undefined` for non-literal expressions.
+ */
+function getLiteralValue(
+	expr: hbs.AST.Expression,
+): { literal: string | number | boolean | null } | undefined {
+	switch (expr.type) {
+		case "StringLiteral":
+			return { literal: (expr as hbs.AST.StringLiteral).value };
+		case "NumberLiteral":
+			return { literal: (expr as hbs.AST.NumberLiteral).value };
+		case "BooleanLiteral":
+			return { literal: (expr as hbs.AST.BooleanLiteral).value };
+		case "NullLiteral":
+			return { literal: null };
+		default:
+			return undefined;
+	}
+}
+
 // ─── Utilities ───────────────────────────────────────────────────────────────
 
 /**
@@ -1684,8 +3155,8 @@ function isPathFullyRequired(schema: JSONSchema7, segments: string[]): boolean {
  * Steps:
  * 1. Extract the helper name from the SubExpression's path.
  * 2. Look up the helper in `ctx.helpers`.
- * 3. Validate argument count and types.
- * 4. Return the helper's declared `returnType` (defaults to `{ type: "string" }`).
+ * 3. Validate argument count and types (see `analyzeHelperCall`).
+ * 4. Return the helper's inferred or declared return type.
  */
 function resolveSubExpression(
 	expr: hbs.AST.SubExpression,
@@ -1699,22 +3170,37 @@ function resolveSubExpression(
 	// precise return type `{ type: "array", items: <property schema> }`.
 	// The generic path would only return `{ type: "array" }` (the static
 	// returnType), losing the item schema needed by nested map calls.
-	if (helperName === MapHelpers.MAP_HELPER_NAME) {
+	const isBuiltIn = isBuiltInHelperName(helperName, ctx);
+	if (isBuiltIn && helperName === MapHelpers.MAP_HELPER_NAME) {
 		return processMapSubExpression(expr, ctx, parentNode);
 	}
 
 	// ── Special-case: default helper ─────────────────────────────────
-	if (helperName === DefaultHelpers.DEFAULT_HELPER_NAME) {
+	if (isBuiltIn && helperName === DefaultHelpers.DEFAULT_HELPER_NAME) {
 		return processDefaultSubExpression(expr, ctx, parentNode);
 	}
 
-	// ── Special-case: array helper ───────────────────────────────────
-	if (helperName === ArrayHelpers.ARRAY_HELPER_NAME) {
-		return processArraySubExpression(expr, ctx, parentNode);
+	// ── Special-case: iif / ternary helper ───────────────────────────
+	if (
+		isBuiltIn &&
+		ConditionalHelpers.CONDITIONAL_HELPER_NAMES.includes(helperName)
+	) {
+		return analyzeConditionalArgs(
+			helperName,
+			expr.params as hbs.AST.Expression[],
+			ctx,
+			parentNode ?? expr,
+		);
 	}
 
 	const helper = ctx.helpers?.get(helperName);
 	if (!helper) {
+		resolveHelperArguments(
+			expr.params as hbs.AST.Expression[],
+			expr.hash,
+			ctx,
+			parentNode ?? expr,
+		);
 		addDiagnostic(
 			ctx,
 			"UNKNOWN_HELPER",
@@ -1726,57 +3212,14 @@ function resolveSubExpression(
 		return { type: "string" };
 	}
 
-	const helperParams = helper.params;
-
-	// ── Check the number of required parameters ──────────────────────
-	if (helperParams) {
-		const requiredCount = helperParams.filter((p) => !p.optional).length;
-		if (expr.params.length < requiredCount) {
-			addDiagnostic(
-				ctx,
-				"MISSING_ARGUMENT",
-				"error",
-				`Helper "${helperName}" expects at least ${requiredCount} argument(s), but got ${expr.params.length}`,
-				parentNode ?? expr,
-				{
-					helperName,
-					expected: `${requiredCount} argument(s)`,
-					actual: `${expr.params.length} argument(s)`,
-				},
-			);
-		}
-	}
-
-	// ── Validate each parameter (existence + type) ───────────────────
-	for (let i = 0; i < expr.params.length; i++) {
-		const resolvedSchema = resolveExpressionWithDiagnostics(
-			expr.params[i] as hbs.AST.Expression,
-			ctx,
-			parentNode ?? expr,
-		);
-
-		const helperParam = helperParams?.[i];
-		if (resolvedSchema && helperParam?.type) {
-			const expectedType = helperParam.type;
-			if (!isParamTypeCompatible(resolvedSchema, expectedType)) {
-				const paramName = helperParam.name;
-				addDiagnostic(
-					ctx,
-					"TYPE_MISMATCH",
-					"error",
-					`Helper "${helperName}" parameter "${paramName}" expects ${schemaTypeLabel(expectedType)}, but got ${schemaTypeLabel(resolvedSchema)}`,
-					parentNode ?? expr,
-					{
-						helperName,
-						expected: schemaTypeLabel(expectedType),
-						actual: schemaTypeLabel(resolvedSchema),
-					},
-				);
-			}
-		}
-	}
-
-	return helper.returnType ?? { type: "string" };
+	return analyzeHelperCall(
+		helperName,
+		helper,
+		expr.params as hbs.AST.Expression[],
+		expr.hash,
+		ctx,
+		parentNode ?? expr,
+	);
 }
 
 // ─── map helper — sub-expression analysis ────────────────────────────────────
@@ -1968,6 +3411,16 @@ function getExpressionName(expr: hbs.AST.Expression): string {
 	return "";
 }
 
+/**
+ * Whether `name` is registered as the engine's built-in helper. A custom
+ * helper registered under a built-in name (`map`, `default`, `iif`…) is
+ * analyzed from its own definition.
+ */
+function isBuiltInHelperName(name: string, ctx: AnalysisContext): boolean {
+	const helper = ctx.helpers?.get(name);
+	return helper !== undefined && isBuiltInHelper(helper);
+}
+
 /**
  * Adds an enriched diagnostic to the analysis context.
  *
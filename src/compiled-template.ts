@@ -2,15 +2,19 @@ import type Handlebars from "handlebars";
 import type { JSONSchema7 } from "json-schema";
 import type { AnalyzeOptions } from "./analyzer.ts";
 import { analyzeFromAst } from "./analyzer.ts";
+import { extractDependencies } from "./dependencies.ts";
 import { resolveChildCoerceSchema, shouldExcludeEntry } from "./dispatch.ts";
 import { TemplateAnalysisError } from "./errors.ts";
 import { type ExecutorContext, executeFromAst } from "./executor.ts";
+import { parseForCompilation } from "./parser.ts";
 import type {
 	AnalysisResult,
 	ExecuteOptions,
 	HelperDefinition,
 	IdentifierData,
+	PartialDefinition,
 	TemplateData,
+	TemplateDependency,
 	ValidationResult,
 } from "./types.ts";
 import { inferPrimitiveSchema } from "./types.ts";
@@ -58,10 +62,16 @@ import {
 export interface CompiledTemplateOptions {
 	/** Custom helpers registered on the engine */
 	helpers: Map<string, HelperDefinition>;
+	/** Partials registered on the engine */
+	partials: Map<string, PartialDefinition>;
+	/** Default collect mode of `{{#each}}` blocks */
+	collectEach?: boolean;
 	/** Isolated Handlebars environment (with registered helpers) */
 	hbs: typeof Handlebars;
 	/** Compilation cache shared by the engine */
 	compilationCache: LRUCache<string, HandlebarsTemplateDelegate>;
+	/** Runs an execution with a locale override (`ExecuteOptions.locale`) */
+	withLocale?: <T>(locale: string, run: () => T) => T;
 }
 
 /** Discriminated internal state of the CompiledTemplate */
@@ -105,6 +115,17 @@ export class CompiledTemplate {
 		return this.state.kind === "template" ? this.state.source : "";
 	}
 
+	/**
+	 * The data paths read by the template, in source order — see
+	 * `Typebars.getDependencies()`. Object and array templates list the
+	 * paths of every child, with `templatePath` leading to the child.
+	 */
+	get dependencies(): TemplateDependency[] {
+		const dependencies: TemplateDependency[] = [];
+		this.collectDependencies([], dependencies);
+		return dependencies;
+	}
+
 	// ─── Construction ────────────────────────────────────────────────────
 
 	private constructor(state: TemplateState, options: CompiledTemplateOptions) {
@@ -257,11 +278,47 @@ export class CompiledTemplate {
 				return analyzeFromAst(this.state.ast, this.state.source, inputSchema, {
 					identifierSchemas: options?.identifierSchemas,
 					helpers: this.options.helpers,
+					partials: this.options.partials,
+					collectEach: this.options.collectEach,
 					coerceSchema: options?.coerceSchema,
 				});
 		}
 	}
 
+	// ─── Dependencies ────────────────────────────────────────────────────
+
+	/** Appends the dependencies of this template and its children */
+	private collectDependencies(
+		templatePath: (string | number)[],
+		dependencies: TemplateDependency[],
+	): void {
+		switch (this.state.kind) {
+			case "array":
+				this.state.elements.forEach((element, index) => {
+					element.collectDependencies([...templatePath, index], dependencies);
+				});
+				break;
+
+			case "object":
+				for (const [key, child] of Object.entries(this.state.children)) {
+					child.collectDependencies([...templatePath, key], dependencies);
+				}
+				break;
+
+			case "literal":
+				break;
+
+			case "template":
+				dependencies.push(
+					...extractDependencies(
+						this.state.ast,
+						this.options.partials,
+						templatePath,
+					),
+				);
+		}
+	}
+
 	// ─── Validation ──────────────────────────────────────────────────────
 
 	/**
@@ -306,6 +363,11 @@ export class CompiledTemplate {
 	 * @returns The execution result
 	 */
 	execute(data: TemplateData, options?: ExecuteOptions): unknown {
+		if (options?.locale !== undefined && this.options.withLocale) {
+			const { locale, ...rest } = options;
+			return this.options.withLocale(locale, () => this.execute(data, rest));
+		}
+
 		const exclude = options?.excludeTemplateExpression === true;
 
 		switch (this.state.kind) {
@@ -480,6 +542,8 @@ export class CompiledTemplate {
 			compilationCache: this.options.compilationCache,
 			coerceSchema: options?.coerceSchema,
 			helpers: this.options.helpers,
+			partials: this.options.partials,
+			collectEach: this.options.collectEach,
 		};
 	}
 
@@ -494,10 +558,10 @@ export class CompiledTemplate {
 	private getOrCompileHbs(): HandlebarsTemplateDelegate {
 		if (!this.hbsCompiled) {
 			// In "template" mode, `this.template` returns the source string
-			this.hbsCompiled = this.options.hbs.compile(this.template, {
-				noEscape: true,
-				strict: false,
-			});
+			this.hbsCompiled = this.options.hbs.compile(
+				parseForCompilation(this.template),
+				{ noEscape: true, strict: false },
+			);
 		}
 		return this.hbsCompiled;
 	}
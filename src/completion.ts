@@ -0,0 +1,345 @@
+import type { JSONSchema7 } from "json-schema";
+import {
+	type AnalysisProbe,
+	analyzeFromAst,
+	type ProbedScope,
+} from "./analyzer.ts";
+import { extractDependencies } from "./dependencies.ts";
+import { parse } from "./parser.ts";
+import { resolveSchemaPath } from "./schema-resolver.ts";
+import type {
+	CompletionItem,
+	CompletionResult,
+	HelperDefinition,
+	PartialDefinition,
+	TemplateDependency,
+} from "./types.ts";
+import { getSchemaPropertyNames } from "./utils.ts";
+
+// ─── Autocompletion ──────────────────────────────────────────────────────────
+// Suggests what can be typed at a position inside `{{ }}`, for editors.
+//
+// The template being edited is usually invalid (`{{#each users}}{{na`), so
+// it is never parsed as is. The text before the enclosing `{{` is kept,
+// followed by a probe mustache and by closing tags for the blocks left
+// open:
+//
+//   {{#each users}}{{na        →  {{#each users}}{{this}}{{/each}}
+//   {{#with user}}{{address.ci →  {{#with user}}{{address}}{{/with}}
+//
+// The analyzer then reports the scope of the probe (current context,
+// block params, `@data` variables) and the schema of its path — the
+// context (`this`) or the path before the segment being typed.
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Block helpers built into Handlebars (not registered on the engine) */
+const BUILT_IN_BLOCK_HELPERS = ["if", "unless", "each", "with"];
+
+/** Comments, skipped when looking for the blocks left open */
+const COMMENT_PATTERN = /\{\{!--[\s\S]*?--\}\}|\{\{![\s\S]*?\}\}/g;
+
+/** Block open (`{{#name`, `{{^name`, `{{#> name`) and close (`{{/name`) tags */
+const BLOCK_TAG_PATTERN = /\{\{~?\s*([#^/])\s*[>*]?\s*([^\s}~()"']+)/g;
+
+/** Opening of an expression, with its marker (`{{#`, `{{~/`, `{{else `) */
+const EXPRESSION_HEAD_PATTERN = /^\{\{\{?~?\s*([#^/>!]|else\b)?\s*/;
+
+/** Opening of an `{{else}}` / `{{else if …}}` expression */
+const ELSE_HEAD_PATTERN = /^\{\{~?\s*else\b/;
+
+/** The path typed before the cursor (`user.na` in `{{add user.na`) */
+export const PATH_PATTERN = /[^\s(){}=|~"']*$/;
+
+/** The rest of the path segment after the cursor */
+export const SEGMENT_END_PATTERN = /^[^\s(){}=|~"'./]*/;
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/** Options for `completeTemplate()` */
+export interface CompleteTemplateOptions {
+	identifierSchemas?: Record<number, JSONSchema7>;
+	helpers?: Map<string, HelperDefinition>;
+	partials?: Map<string, PartialDefinition>;
+	collectEach?: boolean;
+}
+
+/**
+ * Suggests the properties, variables and helpers that can be typed at
+ * `offset`, which must be inside a `{{ }}` expression.
+ *
+ * @param template    - The template being edited (may be invalid)
+ * @param offset      - Position of the cursor in `template`
+ * @param inputSchema - JSON Schema describing the available variables
+ * @param options     - Identifier schemas, registered helpers and partials
+ */
+export function completeTemplate(
+	template: string,
+	offset: number,
+	inputSchema: JSONSchema7,
+	options: CompleteTemplateOptions = {},
+): CompletionResult {
+	const none: CompletionResult = {
+		items: [],
+		range: { start: offset, end: offset },
+	};
+
+	const edited = findEditedExpression(template, offset);
+	if (!edited) return none;
+	const { start, marker, text: expression } = edited;
+
+	// ── What is being typed ────────────────────────────────────────────────
+	// Inside a string literal or a block params list (`as |item`)
+	if (/["']/.test(expression.replace(/"[^"]*"|'[^']*'/g, ""))) return none;
+	if (/\|[^|]*$/.test(expression)) return none;
+
+	const token = PATH_PATTERN.exec(expression)?.[0] ?? "";
+	const before = expression.slice(0, expression.length - token.length).trim();
+	const separator = Math.max(token.lastIndexOf("."), token.lastIndexOf("/"));
+	const base = separator > 0 ? token.slice(0, separator) : "";
+	const typed = token.slice(separator + 1);
+
+	// The segment continues after the cursor up to the next `.`
+	const after = SEGMENT_END_PATTERN.exec(template.slice(offset))?.[0] ?? "";
+	const range = { start: offset - typed.length, end: offset + after.length };
+
+	// ── Scope at the cursor ────────────────────────────────────────────────
+	const probe = probeScope(
+		template,
+		start,
+		base || "this",
+		inputSchema,
+		options,
+	);
+
+	const items: CompletionItem[] = [];
+	if (base) {
+		// `user.na` — the properties of `user`
+		if (probe?.schema) items.push(...propertyItems(probe.schema, "property"));
+	} else {
+		// Helper names come first in an expression (`{{name`), and are the
+		// only thing that can open a block or follow `(`
+		const isBlock = marker === "#" || marker === "^";
+		const isCallee = before === "" || before.endsWith("(");
+		const helpersOnly = before.endsWith("(") || (before === "" && isBlock);
+
+		if (!helpersOnly) {
+			const current = probe?.current ?? inputSchema;
+			for (const [name, schema] of Object.entries(probe?.blockParams ?? {})) {
+				items.push(valueItem(name, "blockParam", schema));
+			}
+			items.push(...propertyItems(current, "property"));
+			for (const [name, schema] of Object.entries(probe?.dataVariables ?? {})) {
+				items.push(valueItem(`@${name}`, "dataVariable", schema));
+			}
+			items.push(valueItem("@root", "dataVariable", inputSchema));
+			for (const [id, schema] of Object.entries(
+				options.identifierSchemas ?? {},
+			)) {
+				for (const item of propertyItems(schema, "identifier")) {
+					items.push({ ...item, label: `${item.label}:${id}` });
+				}
+			}
+		}
+
+		if (isCallee) {
+			if (before === "" && isBlock) {
+				for (const name of BUILT_IN_BLOCK_HELPERS) {
+					items.push({ label: name, kind: "helper" });
+				}
+			}
+			for (const [name, helper] of options.helpers ?? []) {
+				items.push(helperItem(name, helper));
+			}
+		}
+	}
+
+	const prefix = typed.toLowerCase();
+	const seen = new Set<string>();
+	return {
+		items: items.filter((item) => {
+			if (seen.has(item.label)) return false;
+			seen.add(item.label);
+			return item.label.toLowerCase().startsWith(prefix);
+		}),
+		range,
+	};
+}
+
+// ─── Expression Lookup ───────────────────────────────────────────────────────
+// Shared with hover and signature help (`hover.ts`).
+
+/** The expression around a cursor */
+export interface EditedExpression {
+	/** Position of the enclosing `{{` */
+	start: number;
+	/** `#` or `^` when the expression opens a block, `else` for a branch */
+	marker: string | undefined;
+	/** Text of the expression before the cursor, after `{{#` */
+	text: string;
+}
+
+/**
+ * The expression enclosing `offset`, or `undefined` when the cursor is in
+ * plain text, a closing tag (`{{/`), a partial call (`{{>`) or a comment.
+ */
+export function findEditedExpression(
+	template: string,
+	offset: number,
+): EditedExpression | undefined {
+	const start = findExpressionStart(template, offset);
+	if (start === undefined) return undefined;
+
+	const head = EXPRESSION_HEAD_PATTERN.exec(template.slice(start, offset));
+	const marker = head?.[1];
+	if (!head || marker === "/" || marker === ">" || marker === "!") {
+		return undefined;
+	}
+	return {
+		start,
+		marker,
+		text: template.slice(start + head[0].length, offset),
+	};
+}
+
+/**
+ * Position of the `{{` enclosing `offset`, or `undefined` when the cursor
+ * is in plain text.
+ */
+function findExpressionStart(
+	template: string,
+	offset: number,
+): number | undefined {
+	let start = template.lastIndexOf("{{", offset - 2);
+	if (start === -1) return undefined;
+	while (start > 0 && template[start - 1] === "{") start--;
+
+	const close = template.indexOf("}}", start + 2);
+	if (close !== -1 && close + 2 <= offset) return undefined;
+	return start;
+}
+
+/**
+ * Names of the blocks left open before `end`, outermost first.
+ * Block tags are matched by name, like Handlebars does.
+ */
+function findOpenBlocks(template: string, end: number): string[] {
+	const source = template.slice(0, end).replace(COMMENT_PATTERN, "");
+	const open: string[] = [];
+	for (const match of source.matchAll(BLOCK_TAG_PATTERN)) {
+		const name = match[2] as string;
+		if (match[1] !== "/") {
+			open.push(name);
+			continue;
+		}
+		const index = open.lastIndexOf(name);
+		if (index !== -1) open.splice(index);
+	}
+	return open;
+}
+
+// ─── Scope Probe ─────────────────────────────────────────────────────────────
+
+/** The scope at the cursor, with the schema of the probed path */
+export interface ProbeResult extends ProbedScope {
+	/** The data path the probed path reads, when it reads the input */
+	origin: TemplateDependency | undefined;
+}
+
+/**
+ * Analyzes the text before the expression at `start` followed by
+ * `{{path}}`, and returns the scope of `{{path}}`. Falls back to the
+ * root scope when the text before is invalid.
+ */
+export function probeScope(
+	template: string,
+	start: number,
+	path: string,
+	inputSchema: JSONSchema7,
+	options: CompleteTemplateOptions,
+): ProbeResult | undefined {
+	const before = template.slice(0, start);
+	const closers = findOpenBlocks(template, start)
+		.reverse()
+		.map((name) => `{{/${name}}}`)
+		.join("");
+
+	// `{{else …}}` is evaluated with the inverse branch of the block it
+	// continues, outside the scope the block opens
+	const inverse = ELSE_HEAD_PATTERN.test(template.slice(start))
+		? "{{else}}"
+		: "";
+
+	const candidates = [
+		{
+			source: `${before}${inverse}{{${path}}}${closers}`,
+			at: start + inverse.length,
+		},
+		{ source: `{{${path}}}`, at: 0 },
+	];
+	for (const { source, at } of candidates) {
+		let ast: hbs.AST.Program;
+		try {
+			ast = parse(source);
+		} catch {
+			continue;
+		}
+
+		const lineStart = source.lastIndexOf("\n", at - 1) + 1;
+		const probe: AnalysisProbe = {
+			line: source.slice(0, at).split("\n").length,
+			column: at - lineStart,
+		};
+		analyzeFromAst(ast, source, inputSchema, {
+			identifierSchemas: options.identifierSchemas,
+			helpers: options.helpers,
+			partials: options.partials,
+			collectEach: options.collectEach,
+			probe,
+		});
+		if (!probe.scope) continue;
+
+		// The data path read by `{{path}}`, resolved from its data source
+		const origin = extractDependencies(ast, options.partials).find(
+			(dependency) =>
+				dependency.loc?.start.line === probe.line &&
+				dependency.loc.start.column === probe.column + 2,
+		);
+		return { ...probe.scope, origin };
+	}
+	return undefined;
+}
+
+// ─── Items ───────────────────────────────────────────────────────────────────
+
+/** The properties of an object schema */
+function propertyItems(
+	schema: JSONSchema7,
+	kind: "property" | "identifier",
+): CompletionItem[] {
+	const resolved = resolveSchemaPath(schema, []) ?? schema;
+	return getSchemaPropertyNames(resolved).map((name) =>
+		valueItem(name, kind, resolveSchemaPath(resolved, [name])),
+	);
+}
+
+/** A property or variable */
+function valueItem(
+	label: string,
+	kind: CompletionItem["kind"],
+	schema: JSONSchema7 | undefined,
+): CompletionItem {
+	const item: CompletionItem = { label, kind };
+	if (schema) item.schema = schema;
+	if (schema?.description) item.description = schema.description;
+	return item;
+}
+
+/** A helper, with its signature */
+function helperItem(name: string, helper: HelperDefinition): CompletionItem {
+	const item: CompletionItem = { label: name, kind: "helper" };
+	if (helper.returnType) item.schema = helper.returnType;
+	if (helper.params) item.params = helper.params;
+	if (helper.description) item.description = helper.description;
+	return item;
+}
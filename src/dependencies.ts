@@ -0,0 +1,379 @@
+import { LetHelpers } from "./helpers/let-helpers.ts";
+import {
+	extractExpressionIdentifier,
+	getPartialName,
+	isRootDataExpression,
+	isRootPathTraversal,
+	isRootSegments,
+	isScopedPath,
+} from "./parser.ts";
+import type { PartialDefinition, TemplateDependency } from "./types.ts";
+
+// ─── Template Dependencies ───────────────────────────────────────────────────
+// Lists the data paths a template reads, e.g. to find which data sources
+// (`{{key:N}}` identifiers) a template depends on before executing it.
+//
+// Paths are resolved through the blocks that change the context, so that
+// each dependency is a path from the root of its data source:
+// - `{{#each orders}}{{id}}{{/each}}` → `orders` and `orders.id` (per item)
+// - `{{#with address}}{{city}}{{/with}}` → `address` and `address.city`
+// - `../`, `@root`, block params and `#let` bindings resolve where they point
+// - the body of a registered partial reads its call-site context
+//
+// Values computed by helpers (`{{#each (map users "tags")}}`) are not data
+// paths: what the body of such a block reads is not listed.
+
+// ─── Internal Types ──────────────────────────────────────────────────────────
+
+/**
+ * Where a value comes from: a path in a data source. `undefined` is used
+ * for values computed by helpers and runtime `@data` variables.
+ */
+interface DataScope {
+	identifier: number | null;
+	path: string[];
+	inEach: boolean;
+}
+
+/** Bindings of a scope (block params, `@data` variables), by name */
+type ScopeBindings = Record<string, DataScope | undefined>;
+
+/** Context passed recursively during AST traversal */
+interface DependencyContext {
+	/** The root of the input (`@root`) */
+	root: DataScope | undefined;
+	/** The current context (changes with #each, #with) */
+	current: DataScope | undefined;
+	/** Enclosing contexts, innermost last (for `../`) */
+	parentContexts: (DataScope | undefined)[];
+	/** Block params in scope, innermost last */
+	blockParams: ScopeBindings[];
+	/** `@data` variables of the enclosing `#each` / `#let`, innermost last */
+	dataVariables: ScopeBindings[];
+	/** Registered partials */
+	partials?: Map<string, PartialDefinition>;
+	/** Names of the partials being walked, outermost first (cycles) */
+	partialStack: string[];
+	/** The `{{> partial}}` call whose body is walked, if any */
+	callSite?: hbs.AST.Node;
+	/** Keys leading to the template in its `TemplateInput` */
+	templatePath: (string | number)[];
+	/** Dependencies accumulator */
+	dependencies: TemplateDependency[];
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Lists the data paths read by a parsed template, in source order.
+ *
+ * @param ast          - The parsed template
+ * @param partials     - Registered partials (their bodies are walked)
+ * @param templatePath - Keys leading to the template in its `TemplateInput`
+ */
+export function extractDependencies(
+	ast: hbs.AST.Program,
+	partials?: Map<string, PartialDefinition>,
+	templatePath: (string | number)[] = [],
+): TemplateDependency[] {
+	const root: DataScope = { identifier: null, path: [], inEach: false };
+	const ctx: DependencyContext = {
+		root,
+		current: root,
+		parentContexts: [],
+		blockParams: [],
+		dataVariables: [],
+		partials,
+		partialStack: [],
+		templatePath,
+		dependencies: [],
+	};
+	walkProgram(ast, ctx);
+	return ctx.dependencies;
+}
+
+// ─── AST Traversal ───────────────────────────────────────────────────────────
+
+/** Walks the statements of a template or block body */
+function walkProgram(program: hbs.AST.Program, ctx: DependencyContext): void {
+	for (const stmt of program.body) {
+		switch (stmt.type) {
+			case "MustacheStatement": {
+				const mustache = stmt as hbs.AST.MustacheStatement;
+				// Like the analyzer, a mustache without arguments reads a path,
+				// whereas the path of a call names the helper
+				if (mustache.params.length === 0 && !mustache.hash) {
+					readExpression(mustache.path, false, ctx);
+				} else {
+					if (mustache.path.type === "SubExpression") {
+						readExpression(mustache.path, true, ctx);
+					}
+					readArguments(mustache.params, mustache.hash, ctx);
+				}
+				break;
+			}
+			case "BlockStatement":
+				walkBlock(stmt as hbs.AST.BlockStatement, ctx);
+				break;
+			case "PartialStatement":
+			case "PartialBlockStatement":
+				walkPartial(
+					stmt as hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement,
+					ctx,
+				);
+				break;
+		}
+	}
+}
+
+/** Walks a block statement and its branches */
+function walkBlock(stmt: hbs.AST.BlockStatement, ctx: DependencyContext): void {
+	const helperName =
+		stmt.path.type === "PathExpression"
+			? (stmt.path as hbs.AST.PathExpression).original
+			: "";
+	const [arg, ...rest] = stmt.params;
+	const argScope = arg ? readExpression(arg, true, ctx) : undefined;
+	const isLet = helperName === LetHelpers.LET_HELPER_NAME;
+	readArguments(rest, isLet ? undefined : stmt.hash, ctx);
+
+	switch (helperName) {
+		// ── each — the body reads the items of the argument ──────────────────
+		case "each": {
+			const items = argScope && { ...argScope, inEach: true };
+			// `#each` sets its own variables, hiding outer `#let` bindings
+			ctx.dataVariables.push({
+				index: undefined,
+				key: undefined,
+				first: undefined,
+				last: undefined,
+			});
+			walkProgramInScope(stmt.program, ctx, items, [items]);
+			ctx.dataVariables.pop();
+			break;
+		}
+
+		// ── with — the body reads the argument ───────────────────────────────
+		case "with":
+			walkProgramInScope(stmt.program, ctx, argScope, [argScope]);
+			break;
+
+		// ── let — the bindings point to their values ─────────────────────────
+		case LetHelpers.LET_HELPER_NAME: {
+			const bindings: ScopeBindings = {};
+			for (const pair of stmt.hash?.pairs ?? []) {
+				bindings[pair.key] = readExpression(pair.value, true, ctx);
+			}
+			ctx.dataVariables.push(bindings);
+			walkProgram(stmt.program, ctx);
+			ctx.dataVariables.pop();
+			break;
+		}
+
+		// ── Other blocks keep the context ────────────────────────────────────
+		// Block params provided by custom helpers hold computed values
+		default:
+			ctx.blockParams.push(bindBlockParams(stmt.program, []));
+			walkProgram(stmt.program, ctx);
+			ctx.blockParams.pop();
+	}
+
+	// The inverse branch ({{else}}) keeps the enclosing context
+	if (stmt.inverse) walkProgram(stmt.inverse, ctx);
+}
+
+/** Walks a block body executed with a new context */
+function walkProgramInScope(
+	program: hbs.AST.Program,
+	ctx: DependencyContext,
+	context: DataScope | undefined,
+	paramScopes: (DataScope | undefined)[],
+): void {
+	ctx.parentContexts.push(ctx.current);
+	ctx.blockParams.push(bindBlockParams(program, paramScopes));
+	ctx.current = context;
+
+	walkProgram(program, ctx);
+
+	ctx.current = ctx.parentContexts.pop();
+	ctx.blockParams.pop();
+}
+
+/** Maps the block params of a body (`as |a b|`) to their scopes */
+function bindBlockParams(
+	program: hbs.AST.Program,
+	paramScopes: (DataScope | undefined)[],
+): ScopeBindings {
+	const bindings: ScopeBindings = {};
+	const names = program.blockParams ?? [];
+	for (let i = 0; i < names.length; i++) {
+		bindings[names[i] as string] = paramScopes[i];
+	}
+	return bindings;
+}
+
+// ─── Partials ────────────────────────────────────────────────────────────────
+
+/**
+ * Walks a partial call: its arguments, the body of a partial block, and
+ * the body of the partial in the context it receives.
+ */
+function walkPartial(
+	stmt: hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement,
+	ctx: DependencyContext,
+): void {
+	const contextParam = stmt.params[0];
+	const context = contextParam
+		? readExpression(contextParam, true, ctx)
+		: ctx.current;
+
+	// Hash params are added to the partial's context
+	const hashBindings: ScopeBindings = {};
+	for (const pair of stmt.hash?.pairs ?? []) {
+		hashBindings[pair.key] = readExpression(pair.value, true, ctx);
+	}
+
+	// The body of a partial block is written in the caller's context
+	if (stmt.type === "PartialBlockStatement") {
+		walkProgram((stmt as hbs.AST.PartialBlockStatement).program, ctx);
+	}
+
+	const partialName = getPartialName(stmt);
+	if (partialName === null || ctx.partialStack.includes(partialName)) return;
+	const partial = ctx.partials?.get(partialName);
+	if (!partial) return;
+
+	walkProgram(partial.ast, {
+		...ctx,
+		root: context,
+		current: context,
+		parentContexts: [],
+		blockParams: [hashBindings],
+		dataVariables: [],
+		partialStack: [...ctx.partialStack, partialName],
+		callSite: ctx.callSite ?? stmt,
+	});
+}
+
+// ─── Expression Resolution ───────────────────────────────────────────────────
+
+/**
+ * Records the data path an expression reads, and walks the arguments of
+ * a sub-expression.
+ *
+ * @param helperArgument - Whether the expression is passed to a helper
+ * @returns The scope of the value, or `undefined` when it is not a data
+ *          path
+ */
+function readExpression(
+	expr: hbs.AST.Expression,
+	helperArgument: boolean,
+	ctx: DependencyContext,
+): DataScope | undefined {
+	if (expr.type === "SubExpression") {
+		const subExpr = expr as hbs.AST.SubExpression;
+		readArguments(subExpr.params, subExpr.hash, ctx);
+		return undefined;
+	}
+	if (expr.type !== "PathExpression") return undefined;
+
+	const scope = resolveScope(expr as hbs.AST.PathExpression, ctx);
+	if (!scope) return undefined;
+
+	const node = ctx.callSite ?? expr;
+	ctx.dependencies.push({
+		path: scope.path,
+		identifier: scope.identifier,
+		inEach: scope.inEach,
+		helperArgument,
+		loc: node.loc
+			? {
+					start: { line: node.loc.start.line, column: node.loc.start.column },
+					end: { line: node.loc.end.line, column: node.loc.end.column },
+				}
+			: undefined,
+		templatePath: ctx.templatePath,
+	});
+	return scope;
+}
+
+/** Records the data paths read by the arguments of a call */
+function readArguments(
+	params: hbs.AST.Expression[],
+	hash: hbs.AST.Hash | undefined,
+	ctx: DependencyContext,
+): void {
+	for (const param of params) {
+		readExpression(param, true, ctx);
+	}
+	for (const pair of hash?.pairs ?? []) {
+		readExpression(pair.value, true, ctx);
+	}
+}
+
+/**
+ * Resolves the data scope of a path, following Handlebars' scoping rules
+ * like the analyzer's `getPathScope`.
+ */
+function resolveScope(
+	expr: hbs.AST.PathExpression,
+	ctx: DependencyContext,
+): DataScope | undefined {
+	if (isRootDataExpression(expr)) {
+		return extendScope(ctx.root, expr.parts.slice(1));
+	}
+
+	// `@name` — a `#let` binding (searched from the innermost block)
+	if (expr.data) {
+		const [head, ...rest] = expr.parts;
+		if (head === undefined) return undefined;
+		const frame = findBinding(ctx.dataVariables, head);
+		return frame && extendScope(frame[head], rest);
+	}
+
+	const { cleanSegments, identifier } = extractExpressionIdentifier(expr.parts);
+	if (isRootPathTraversal(cleanSegments)) return undefined;
+	if (identifier !== null) {
+		return {
+			identifier,
+			path: isRootSegments(cleanSegments) ? [] : cleanSegments,
+			inEach: false,
+		};
+	}
+	if (isRootSegments(cleanSegments)) return ctx.current;
+
+	if (expr.depth > 0) {
+		const index = ctx.parentContexts.length - expr.depth;
+		return index >= 0
+			? extendScope(ctx.parentContexts[index], cleanSegments)
+			: undefined;
+	}
+
+	const head = cleanSegments[0];
+	if (head !== undefined && !isScopedPath(expr)) {
+		const frame = findBinding(ctx.blockParams, head);
+		if (frame) return extendScope(frame[head], cleanSegments.slice(1));
+	}
+
+	return extendScope(ctx.current, cleanSegments);
+}
+
+/** The innermost frame binding a name, if any */
+function findBinding(
+	frames: ScopeBindings[],
+	name: string,
+): ScopeBindings | undefined {
+	for (let i = frames.length - 1; i >= 0; i--) {
+		const frame = frames[i] as ScopeBindings;
+		if (name in frame) return frame;
+	}
+	return undefined;
+}
+
+/** A path below a scope */
+function extendScope(
+	scope: DataScope | undefined,
+	segments: string[],
+): DataScope | undefined {
+	return scope && { ...scope, path: [...scope.path, ...segments] };
+}
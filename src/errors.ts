@@ -7,6 +7,7 @@ import type { TemplateDiagnostic } from "./types.ts";
 // - `TemplateParseError`        — invalid template syntax
 // - `TemplateAnalysisError`     — static analysis failures (diagnostics)
 // - `TemplateRuntimeError`      — execution failures
+// - `InvalidLocaleError`        — invalid `locale` option
 // - `UnsupportedSchemaError`    — schema uses unsupported JSON Schema features
 
 export class TemplateError extends Error {
@@ -137,6 +138,28 @@ export class TemplateRuntimeError extends TemplateError {
 	}
 }
 
+// ─── Invalid Locale Error ────────────────────────────────────────────────────
+// Thrown when the `locale` engine option or execute option is not a valid
+// BCP 47 language tag (e.g. "en_US" instead of "en-US").
+
+export class InvalidLocaleError extends TemplateError {
+	constructor(
+		/** The invalid locale, as given */
+		public readonly locale: string,
+	) {
+		super(`Invalid locale: "${locale}" is not a valid BCP 47 language tag`);
+		this.name = "InvalidLocaleError";
+	}
+
+	override toJSON(): Record<string, unknown> {
+		return {
+			name: this.name,
+			message: this.message,
+			locale: this.locale,
+		};
+	}
+}
+
 // ─── Unsupported Schema Error ────────────────────────────────────────────────
 // Thrown when the provided JSON Schema uses features that cannot be handled
 // by static analysis (e.g. `if/then/else` conditional schemas).
@@ -205,6 +228,13 @@ export function createPropertyNotFoundMessage(
 	return `${base}. Available properties: ${availableProperties.join(", ")}`;
 }
 
+/**
+ * Creates a message for a `../` path that goes above the outermost context.
+ */
+export function createParentScopeNotFoundMessage(path: string): string {
+	return `Path "${path}" refers to a parent context that does not exist — only blocks that change the context ("{{#each}}", "{{#with}}") create a parent scope`;
+}
+
 /**
  * Creates a message for a type mismatch on a block helper.
  */
@@ -223,6 +253,101 @@ export function createMissingArgumentMessage(helperName: string): string {
 	return `"{{#${helperName}}}" requires an argument`;
 }
 
+/**
+ * Creates a message for a `key=value` argument that the helper does not declare.
+ */
+export function createUnknownHashArgumentMessage(
+	helperName: string,
+	key: string,
+	available: string[],
+): string {
+	const base = `Helper "${helperName}" does not accept a "${key}" argument`;
+	if (available.length === 0) return base;
+	return `${base}. Available arguments: ${available.join(", ")}`;
+}
+
+/**
+ * Creates a message for a required `key=value` argument that is not provided.
+ */
+export function createMissingHashArgumentMessage(
+	helperName: string,
+	key: string,
+): string {
+	return `Helper "${helperName}" requires a "${key}=…" argument`;
+}
+
+/**
+ * Creates a message for a `key=value` argument of the wrong type.
+ */
+export function createHashArgumentTypeMessage(
+	helperName: string,
+	key: string,
+	expected: string,
+	actual: string,
+): string {
+	return `Helper "${helperName}" argument "${key}" expects ${expected}, but got ${actual}`;
+}
+
+/**
+ * Creates a message for a `collect=…` argument that is not a boolean literal.
+ */
+export function createInvalidCollectMessage(actual: string): string {
+	return `"{{#each}}" expects "collect" to be true or false, but got ${actual}`;
+}
+
+/**
+ * Creates a message for a `#case` value that the switch subject can never take.
+ */
+export function createUnreachableCaseMessage(
+	value: string,
+	allowed: string[],
+): string {
+	return `"{{#case}}" value ${value} is never matched: the subject of "{{#switch}}" is one of ${allowed.join(", ")}`;
+}
+
+/**
+ * Creates a message for a `#case` value already matched by a previous case.
+ */
+export function createDuplicateCaseMessage(value: string): string {
+	return `"{{#case}}" value ${value} is already matched by a previous case of "{{#switch}}"`;
+}
+
+/**
+ * Creates a message for content of a `#switch` outside its `#case` and
+ * `#default` blocks, which is never output.
+ */
+export function createContentOutsideCaseMessage(): string {
+	return `Content directly inside "{{#switch}}" is never output — move it into a "{{#case}}" or "{{#default}}" block`;
+}
+
+/**
+ * Creates a message for a `#case` or `#default` block used outside a `#switch`.
+ */
+export function createCaseOutsideSwitchMessage(helperName: string): string {
+	return `"{{#${helperName}}}" must be used directly inside "{{#switch}}"`;
+}
+
+/**
+ * Creates a message for a `#switch` without `#default` that does not cover
+ * every value of its subject.
+ *
+ * @param missing - The uncovered values, or `undefined` when the subject has
+ *                  no `enum`
+ */
+export function createNonExhaustiveSwitchMessage(missing?: string[]): string {
+	if (!missing) {
+		return `"{{#switch}}" subject has no enum, the cases cannot be checked. Add a "{{#default}}" branch`;
+	}
+	return `"{{#switch}}" has no case for ${missing.join(", ")}. Add the missing cases or a "{{#default}}" branch`;
+}
+
+/**
+ * Creates a message for a `#let` binding that is never read in its block.
+ */
+export function createUnusedBindingMessage(name: string): string {
+	return `"{{#let}}" binding "${name}" is never used — read it as "{{@${name}}}"`;
+}
+
 /**
  * Creates a message for an unknown block helper.
  */
@@ -230,6 +355,22 @@ export function createUnknownHelperMessage(helperName: string): string {
 	return `Unknown block helper "{{#${helperName}}}" — cannot analyze statically`;
 }
 
+/**
+ * Creates a message for a partial that is not registered.
+ */
+export function createUnknownPartialMessage(partialName: string): string {
+	return `Unknown partial "{{> ${partialName}}}" — register it with registerPartial()`;
+}
+
+/**
+ * Creates a message for a partial that includes itself.
+ *
+ * @param cycle - The chain of partial names, ending with the repeated one
+ */
+export function createPartialCycleMessage(cycle: string[]): string {
+	return `Partial "${cycle[cycle.length - 1]}" is recursive: ${cycle.join(" → ")}`;
+}
+
 /**
  * Creates a message for an expression that cannot be statically analyzed.
  */
@@ -237,6 +378,17 @@ export function createUnanalyzableMessage(nodeType: string): string {
 	return `Expression of type "${nodeType}" cannot be statically analyzed`;
 }
 
+/**
+ * Creates a message for an `if/then/else` conditional schema that is
+ * approximated as the union of its branches during static analysis.
+ */
+export function createConditionalSchemaMessage(schemaPath: string): string {
+	return (
+		`Conditional schema (if/then/else) at "${schemaPath}" is analyzed as the union of its "then" and "else" branches. ` +
+		"Properties only declared in a branch are treated as optional unless the template narrows the discriminant"
+	);
+}
+
 /**
  * Creates a message for an invalid `$root` path traversal attempt.
  *
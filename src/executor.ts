@@ -2,9 +2,10 @@ import Handlebars from "handlebars";
 import type { JSONSchema7 } from "json-schema";
 import { dispatchExecute } from "./dispatch.ts";
 import { TemplateRuntimeError } from "./errors.ts";
-import { ArrayHelpers } from "./helpers/array-helpers.ts";
 import { DefaultHelpers } from "./helpers/default-helpers.ts";
+import { LetHelpers } from "./helpers/let-helpers.ts";
 import { MapHelpers } from "./helpers/map-helpers.ts";
+import { SwitchHelpers } from "./helpers/switch-helpers.ts";
 import {
 	canUseFastPath,
 	coerceLiteral,
@@ -13,19 +14,25 @@ import {
 	getEffectiveBody,
 	getEffectivelySingleBlock,
 	getEffectivelySingleExpression,
+	getEffectivelySinglePartial,
+	getPartialName,
+	isCollectEach,
 	isRootPathTraversal,
 	isRootSegments,
+	isScopedPath,
 	isSingleExpression,
 	isThisExpression,
 	parse,
+	parseForCompilation,
 	ROOT_TOKEN,
 } from "./parser.ts";
 import type {
 	HelperDefinition,
 	IdentifierData,
+	PartialDefinition,
 	TemplateInput,
 } from "./types.ts";
-import { LRUCache } from "./utils.ts";
+import { callHelperDirectly, LRUCache } from "./utils.ts";
 
 // ─── Template Executor ───────────────────────────────────────────────────────
 // Executes a Handlebars template with real data.
@@ -86,6 +93,52 @@ export interface ExecutorContext {
 	coerceSchema?: JSONSchema7;
 	/** Registered helpers (for direct execution of special helpers like `map`) */
 	helpers?: Map<string, HelperDefinition>;
+	/** Registered partials (for direct execution of a lone `{{> name}}`) */
+	partials?: Map<string, PartialDefinition>;
+	/** Engine-wide default for `{{#each}}` collect mode */
+	collectEach?: boolean;
+}
+
+/**
+ * Lexical scope of a direct (non-Handlebars) execution — mirrors what
+ * Handlebars tracks to resolve `@root`, `../` and block params.
+ */
+interface ExecutionScope {
+	/** The top-level input, referenced by `{{@root}}` */
+	root: unknown;
+	/** Enclosing contexts, innermost last — `{{../name}}` reads the last one */
+	parents: unknown[];
+	/** Block param bindings (`as |item|`), innermost last */
+	blockParams: Record<string, unknown>[];
+	/**
+	 * `@data` variables of the enclosing blocks (`@index`, `@key`, `#let`
+	 * bindings, …) — inner blocks override outer ones, like Handlebars frames
+	 */
+	dataVariables?: Record<string, unknown>;
+	/**
+	 * `dataVariables` of the enclosing data frames, innermost last —
+	 * `{{@../key}}` reads the last one
+	 */
+	parentDataVariables?: Record<string, unknown>[];
+}
+
+/**
+ * Enters a new data frame (`#each`, `#let`, `#switch`), like
+ * `Handlebars.createFrame`: the variables of the current frame stay
+ * visible unless overridden, and are reachable with `@../`.
+ */
+function pushDataFrame(
+	scope: ExecutionScope,
+	variables: Record<string, unknown>,
+): ExecutionScope {
+	return {
+		...scope,
+		dataVariables: { ...scope.dataVariables, ...variables },
+		parentDataVariables: [
+			...(scope.parentDataVariables ?? []),
+			scope.dataVariables ?? {},
+		],
+	};
 }
 
 // ─── Global Compilation Cache ────────────────────────────────────────────────
@@ -215,6 +268,17 @@ export function executeFromAst(
 		return coerceValue(raw, ctx?.coerceSchema);
 	}
 
+	// ── Case 3b: single partial (possibly surrounded by whitespace) ──────
+	// A lone `{{> name}}` is executed through the partial's own template so
+	// that its output keeps the type inferred by the analyzer.
+	const singlePartial = getEffectivelySinglePartial(ast);
+	if (singlePartial) {
+		const directResult = tryDirectPartialExecution(singlePartial, data, ctx);
+		if (directResult !== undefined) {
+			return directResult.value;
+		}
+	}
+
 	// ── Case 4: mixed template ───────────────────────────────────────────
 	// For purely static templates (only ContentStatements), coerce the
 	// result to match the coerceSchema type or auto-detect the literal type.
@@ -329,6 +393,9 @@ function executeFastPath(
  * @param expr           - The AST expression to resolve
  * @param data           - The main data context
  * @param identifierData - Data by identifier (optional)
+ * @param helpers        - Registered helpers (for sub-expressions)
+ * @param scope          - Enclosing scopes (defaults to the top level,
+ *                         where `@root` is `data`)
  * @returns The raw value pointed to by the expression
  */
 function resolveExpression(
@@ -336,6 +403,7 @@ function resolveExpression(
 	data: unknown,
 	identifierData?: IdentifierData,
 	helpers?: Map<string, HelperDefinition>,
+	scope?: ExecutionScope,
 ): unknown {
 	// this / . → return the entire context
 	if (isThisExpression(expr)) {
@@ -370,17 +438,41 @@ function resolveExpression(
 						resolvedArgs.push((param as hbs.AST.StringLiteral).value);
 					} else {
 						resolvedArgs.push(
-							resolveExpression(param, data, identifierData, helpers),
+							resolveExpression(param, data, identifierData, helpers, scope),
 						);
 					}
 				}
-				return helper.fn(...resolvedArgs);
+				const hash = resolveHash(
+					subExpr.hash,
+					data,
+					identifierData,
+					helpers,
+					scope,
+				);
+				return callHelperDirectly(
+					helperName,
+					helper,
+					resolvedArgs,
+					hash,
+					data,
+					scope?.root,
+				);
 			}
 		}
 		// Unknown sub-expression helper — return undefined
 		return undefined;
 	}
 
+	// ── Scoped paths: `@root`, `../` and block params ─────────────────────
+	if (expr.type === "PathExpression") {
+		const scoped = resolveScopedPath(
+			expr as hbs.AST.PathExpression,
+			data,
+			scope,
+		);
+		if (scoped !== undefined) return scoped.value;
+	}
+
 	// PathExpression — navigate through segments in the data object
 	const segments = extractPathSegments(expr);
 	if (segments.length === 0) {
@@ -440,6 +532,52 @@ function resolveExpression(
 	return resolveDataPath(data, cleanSegments);
 }
 
+/**
+ * Resolves paths that do not read the current context: `@root.x` reads the
+ * top-level input, `../x` an enclosing context and `item.x` the block
+ * param `item`.
+ *
+ * Returns `{ value }` for such paths, or `undefined` when the path must be
+ * resolved against the current context.
+ */
+function resolveScopedPath(
+	expr: hbs.AST.PathExpression,
+	data: unknown,
+	scope: ExecutionScope = { root: data, parents: [], blockParams: [] },
+): { value: unknown } | undefined {
+	if (expr.data) {
+		const [name = "", ...rest] = expr.parts;
+		if (name === "root") return { value: resolveDataPath(scope.root, rest) };
+		if (expr.depth > 0) {
+			// `@../key` reads the frame of an enclosing block
+			const frames = scope.parentDataVariables ?? [];
+			const variables = frames[frames.length - expr.depth];
+			return { value: resolveDataPath(variables?.[name], rest) };
+		}
+		if (scope.dataVariables && name in scope.dataVariables) {
+			return { value: resolveDataPath(scope.dataVariables[name], rest) };
+		}
+		return undefined;
+	}
+
+	// `../` above the outermost context resolves to nothing, like Handlebars
+	if (expr.depth > 0) {
+		const parent = scope.parents[scope.parents.length - expr.depth];
+		if (scope.parents.length < expr.depth) return { value: undefined };
+		return { value: resolveDataPath(parent, expr.parts) };
+	}
+
+	const head = expr.parts[0];
+	if (head === undefined || isScopedPath(expr)) return undefined;
+	for (let i = scope.blockParams.length - 1; i >= 0; i--) {
+		const bindings = scope.blockParams[i] as Record<string, unknown>;
+		if (head in bindings) {
+			return { value: resolveDataPath(bindings[head], expr.parts.slice(1)) };
+		}
+	}
+	return undefined;
+}
+
 /**
  * Navigates through a data object by following a path of segments.
  *
@@ -567,7 +705,7 @@ function renderWithHandlebars(
 
 		let compiled = cache.get(template);
 		if (!compiled) {
-			compiled = hbs.compile(template, {
+			compiled = hbs.compile(parseForCompilation(template), {
 				// Disable HTML-escaping by default — this engine is not
 				// HTML-specific, we want raw values.
 				noEscape: true,
@@ -593,44 +731,111 @@ export function clearCompilationCache(): void {
 }
 
 // ─── Direct Block Execution ──────────────────────────────────────────────────
-// For conditional blocks (#if/#unless), we can evaluate the condition directly
-// and execute the selected branch through the type-preserving execution paths.
-// This avoids Handlebars stringification when the branch contains helpers that
-// return non-primitive values (e.g. `map` returning arrays).
+// For conditional blocks (#if/#unless/#switch) and `#with`, we can evaluate
+// the argument directly and execute the selected branch through the
+// type-preserving execution paths. This avoids Handlebars stringification
+// when the branch contains helpers that return non-primitive values (e.g.
+// `map` returning arrays).
 
 /**
- * Attempts to execute a conditional block directly by evaluating its condition
- * and executing the selected branch through type-preserving paths.
+ * Attempts to execute a block directly by evaluating its argument and
+ * executing the selected branch through type-preserving paths.
  *
- * Only handles `#if` and `#unless` blocks. Returns `{ value }` if the branch
- * was executed directly, or `undefined` to fall back to Handlebars rendering.
+ * Only handles `#if`, `#unless`, `#switch`, `#with` and `#let` blocks (and
+ * `#each` in collect mode). Returns `{ value }` if
+ * the branch was executed directly, or `undefined` to fall back to
+ * Handlebars rendering.
  */
 function tryDirectBlockExecution(
 	block: hbs.AST.BlockStatement,
 	data: unknown,
 	ctx?: ExecutorContext,
+	scope: ExecutionScope = { root: data, parents: [], blockParams: [] },
 ): { value: unknown } | undefined {
 	if (block.path.type !== "PathExpression") return undefined;
 	const helperName = (block.path as hbs.AST.PathExpression).original;
 
-	// Only handle built-in conditional blocks
-	if (helperName !== "if" && helperName !== "unless") return undefined;
+	// `#each` is only executed directly in collect mode
+	if (isCollectEach(block, ctx?.collectEach)) {
+		return executeCollectEach(block, data, ctx, scope);
+	}
+
+	if (helperName === SwitchHelpers.SWITCH_HELPER_NAME) {
+		return executeSwitchDirectly(block, data, ctx, scope);
+	}
+
+	// `#let` keeps the context: the body sees the bindings as `@data`
+	// variables, next to those of the enclosing blocks
+	if (helperName === LetHelpers.LET_HELPER_NAME) {
+		if (block.params.length > 0) return undefined;
+		// A mixed body is rendered by Handlebars: resolving the bindings here
+		// first would evaluate them twice
+		if (
+			!getEffectivelySingleExpression(block.program) &&
+			!getEffectivelySingleBlock(block.program) &&
+			!getEffectivelySinglePartial(block.program)
+		) {
+			return undefined;
+		}
+		const bindings = resolveHash(
+			block.hash,
+			data,
+			ctx?.identifierData,
+			ctx?.helpers,
+			scope,
+		);
+		return executeBranchDirectly(
+			block.program,
+			data,
+			ctx,
+			pushDataFrame(scope, bindings),
+		);
+	}
+
+	// Only handle built-in blocks
+	if (helperName !== "if" && helperName !== "unless" && helperName !== "with") {
+		return undefined;
+	}
 	if (block.params.length !== 1) return undefined;
 
-	// Evaluate the condition
-	const condition = resolveExpression(
+	// Evaluate the argument
+	const argument = resolveExpression(
 		block.params[0] as hbs.AST.Expression,
 		data,
 		ctx?.identifierData,
 		ctx?.helpers,
+		scope,
 	);
 
+	// `#with` switches the context: the body sees the argument as `this`,
+	// the previous context as `../` and the argument as its block param.
+	if (helperName === "with") {
+		// Handlebars considers `0` a valid context
+		const isEmpty =
+			(!argument && argument !== 0) ||
+			(Array.isArray(argument) && argument.length === 0);
+		if (isEmpty) {
+			return block.inverse
+				? executeBranchDirectly(block.inverse, data, ctx, scope)
+				: { value: "" };
+		}
+		const [paramName] = block.program.blockParams ?? [];
+		return executeBranchDirectly(block.program, argument, ctx, {
+			...scope,
+			parents: [...scope.parents, data],
+			blockParams: [
+				...scope.blockParams,
+				paramName !== undefined ? { [paramName]: argument } : {},
+			],
+		});
+	}
+
 	// Handlebars truthiness: empty arrays are falsy
 	let isTruthy: boolean;
-	if (Array.isArray(condition)) {
-		isTruthy = condition.length > 0;
+	if (Array.isArray(argument)) {
+		isTruthy = argument.length > 0;
 	} else {
-		isTruthy = !!condition;
+		isTruthy = !!argument;
 	}
 	if (helperName === "unless") isTruthy = !isTruthy;
 
@@ -640,6 +845,76 @@ function tryDirectBlockExecution(
 		return { value: "" };
 	}
 
+	return executeBranchDirectly(branch, data, ctx, scope);
+}
+
+/**
+ * Executes a `#switch` block directly: the subject is compared with the
+ * values of each `#case` in order, and the first matching case — or the
+ * `#default` reached before any match — is executed.
+ *
+ * Returns `{ value: "" }` when nothing matches, or `undefined` to fall back
+ * to Handlebars rendering when the branch is too complex.
+ */
+function executeSwitchDirectly(
+	block: hbs.AST.BlockStatement,
+	data: unknown,
+	ctx: ExecutorContext | undefined,
+	scope: ExecutionScope,
+): { value: unknown } | undefined {
+	if (block.params.length !== 1) return undefined;
+	const subject = resolveExpression(
+		block.params[0] as hbs.AST.Expression,
+		data,
+		ctx?.identifierData,
+		ctx?.helpers,
+		scope,
+	);
+
+	// The cases run in a new data frame, without variables of its own
+	const body = pushDataFrame(scope, {});
+	for (const child of block.program.body) {
+		if (child.type !== "BlockStatement") continue;
+		const branch = child as hbs.AST.BlockStatement;
+		if (branch.path.type !== "PathExpression") continue;
+		const name = (branch.path as hbs.AST.PathExpression).original;
+
+		if (name === DefaultHelpers.DEFAULT_HELPER_NAME) {
+			return executeBranchDirectly(branch.program, data, ctx, body);
+		}
+		if (name !== SwitchHelpers.CASE_HELPER_NAME) continue;
+
+		const matches = branch.params.some(
+			(param) =>
+				resolveExpression(
+					param as hbs.AST.Expression,
+					data,
+					ctx?.identifierData,
+					ctx?.helpers,
+					body,
+				) === subject,
+		);
+		if (matches) {
+			return executeBranchDirectly(branch.program, data, ctx, body);
+		}
+	}
+
+	// No matching case and no default → empty string
+	return { value: "" };
+}
+
+/**
+ * Executes a block branch through the type-preserving paths when it is a
+ * single expression, a nested block or a lone partial.
+ *
+ * Returns `undefined` when the branch is too complex for direct execution.
+ */
+function executeBranchDirectly(
+	branch: hbs.AST.Program,
+	data: unknown,
+	ctx: ExecutorContext | undefined,
+	scope: ExecutionScope,
+): { value: unknown } | undefined {
 	// Try to execute the branch as a single expression (preserves types)
 	const singleExpr = getEffectivelySingleExpression(branch);
 	if (singleExpr) {
@@ -650,37 +925,310 @@ function tryDirectBlockExecution(
 					data,
 					ctx?.identifierData,
 					ctx?.helpers,
+					scope,
 				),
 			};
 		}
 		// Single expression with helper (e.g. {{map users "name"}})
 		if (singleExpr.params.length > 0 || singleExpr.hash) {
-			const directResult = tryDirectHelperExecution(singleExpr, data, ctx);
+			const directResult = tryDirectHelperExecution(
+				singleExpr,
+				data,
+				ctx,
+				scope,
+			);
 			if (directResult !== undefined) return directResult;
 		}
 	}
 
-	// Try to execute the branch as a nested conditional block (recursive)
+	// Try to execute the branch as a nested block (recursive)
 	const nestedBlock = getEffectivelySingleBlock(branch);
 	if (nestedBlock) {
-		return tryDirectBlockExecution(nestedBlock, data, ctx);
+		return tryDirectBlockExecution(nestedBlock, data, ctx, scope);
+	}
+
+	// Try to execute the branch as a lone partial
+	const nestedPartial = getEffectivelySinglePartial(branch);
+	if (nestedPartial) {
+		return tryDirectPartialExecution(nestedPartial, data, ctx, scope);
 	}
 
 	// Branch is too complex for direct execution → fall back
 	return undefined;
 }
 
+// ─── Collect Mode ────────────────────────────────────────────────────────────
+// `{{#each items collect=true}}` returns the body's value for each item as an
+// array. Each body is executed through the type-preserving paths; bodies too
+// complex for that are rendered by Handlebars (with a private helper that
+// records each iteration) and coerced like a standalone template.
+
+/** Name of the private helper used to render collected iterations */
+const COLLECT_HELPER_NAME = "__typebars_collect_each";
+
+/**
+ * Executes an `{{#each}}` block in collect mode.
+ *
+ * Returns `{ value }` with one element per item (or the `{{else}}` branch
+ * when the collection is empty), or `undefined` to fall back to Handlebars
+ * rendering when the `{{else}}` branch is too complex.
+ */
+function executeCollectEach(
+	block: hbs.AST.BlockStatement,
+	data: unknown,
+	ctx: ExecutorContext | undefined,
+	scope: ExecutionScope,
+): { value: unknown } | undefined {
+	const param = block.params[0] as hbs.AST.Expression | undefined;
+	const collection = param
+		? resolveExpression(param, data, ctx?.identifierData, ctx?.helpers, scope)
+		: undefined;
+	const entries = getEachEntries(collection);
+
+	if (entries.length === 0) {
+		if (!block.inverse) return { value: [] };
+		return executeBranchDirectly(block.inverse, data, ctx, scope);
+	}
+
+	const [valueParam, keyParam] = block.program.blockParams ?? [];
+	let rendered: string[] | undefined;
+	const values = entries.map(([key, value], index) => {
+		const bindings: Record<string, unknown> = {};
+		if (valueParam !== undefined) bindings[valueParam] = value;
+		if (keyParam !== undefined) bindings[keyParam] = key;
+
+		const direct = executeBranchDirectly(block.program, value, ctx, {
+			...pushDataFrame(scope, {
+				index,
+				key,
+				first: index === 0,
+				last: index === entries.length - 1,
+			}),
+			parents: [...scope.parents, data],
+			blockParams: [...scope.blockParams, bindings],
+		});
+		if (direct !== undefined) return direct.value;
+
+		rendered ??= renderCollectedIterations(block, entries, data, ctx, scope);
+		return coerceIteration(block.program, rendered[index] ?? "");
+	});
+
+	return { value: values };
+}
+
+/**
+ * Lists the `[key, value]` entries `{{#each}}` iterates over, following
+ * Handlebars: arrays and iterables by index, other objects by own keys.
+ */
+function getEachEntries(collection: unknown): [string | number, unknown][] {
+	if (collection === null || typeof collection !== "object") return [];
+	if (Array.isArray(collection)) {
+		return collection.map((value, index) => [index, value]);
+	}
+	if (Symbol.iterator in collection) {
+		return Array.from(collection as Iterable<unknown>, (value, index) => [
+			index,
+			value,
+		]);
+	}
+	return Object.entries(collection);
+}
+
+/**
+ * Renders each iteration of an `{{#each}}` block through Handlebars and
+ * returns the rendered strings, in order.
+ *
+ * The block body is compiled on its own under a private helper that
+ * iterates over the already-resolved entries, and invoked with the
+ * enclosing contexts so that `../` and `@root` resolve as in the full
+ * template.
+ */
+function renderCollectedIterations(
+	block: hbs.AST.BlockStatement,
+	entries: [string | number, unknown][],
+	data: unknown,
+	ctx: ExecutorContext | undefined,
+	scope: ExecutionScope,
+): string[] {
+	const hbs = ctx?.hbs ?? Handlebars;
+	const iterations: string[] = [];
+
+	hbs.registerHelper(
+		COLLECT_HELPER_NAME,
+		(options: Handlebars.HelperOptions) => {
+			entries.forEach(([key, value], index) => {
+				const frame = hbs.createFrame(options.data);
+				frame.key = key;
+				frame.index = index;
+				frame.first = index === 0;
+				frame.last = index === entries.length - 1;
+				// A body made of a single expression may return a raw value
+				const output: unknown = options.fn(value, {
+					data: frame,
+					blockParams: [value, key],
+				});
+				iterations.push(output == null ? "" : String(output));
+			});
+			return "";
+		},
+	);
+
+	try {
+		const path = block.path as hbs.AST.PathExpression;
+		const collectBlock: hbs.AST.BlockStatement = {
+			...block,
+			params: [],
+			path: {
+				...path,
+				original: COLLECT_HELPER_NAME,
+				parts: [COLLECT_HELPER_NAME],
+			},
+		};
+		const program: hbs.AST.Program = {
+			type: "Program",
+			body: [collectBlock],
+			blockParams: [],
+			loc: block.loc,
+		};
+		const compiled = hbs.compile(program, { noEscape: true, strict: false });
+		compiled(mergeDataWithIdentifiers(data, ctx?.identifierData), {
+			data: createDataFrames(hbs, scope),
+			depths: [...scope.parents].reverse(),
+		} as Handlebars.RuntimeOptions);
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new TemplateRuntimeError(message);
+	} finally {
+		hbs.unregisterHelper(COLLECT_HELPER_NAME);
+	}
+
+	return iterations;
+}
+
+/**
+ * Rebuilds the Handlebars data frames of a direct execution scope, so that
+ * `@key` and `@../key` resolve as in the full template.
+ */
+function createDataFrames(
+	hbs: typeof Handlebars,
+	scope: ExecutionScope,
+): Record<string, unknown> {
+	const [outermost = {}, ...inner] = [
+		...(scope.parentDataVariables ?? []),
+		scope.dataVariables ?? {},
+	];
+	let frame: Record<string, unknown> = { ...outermost, root: scope.root };
+	for (const variables of inner) {
+		frame = Object.assign(hbs.createFrame(frame), variables);
+	}
+	return frame;
+}
+
+/**
+ * Coerces a rendered iteration like a standalone template: a body made of a
+ * single expression or block recovers its type, mixed content stays a string.
+ */
+function coerceIteration(body: hbs.AST.Program, raw: string): unknown {
+	const isSingle =
+		getEffectivelySingleExpression(body) !== null ||
+		getEffectivelySingleBlock(body) !== null;
+	return isSingle ? coerceValue(raw) : raw;
+}
+
+// ─── Direct Partial Execution ────────────────────────────────────────────────
+// A lone `{{> name}}` behaves like an inlined template: the partial is
+// executed through the type-preserving execution paths with the context it
+// would receive from Handlebars.
+
+/**
+ * Attempts to execute a partial call directly by executing the partial's
+ * template with the call-site context.
+ *
+ * Returns `{ value }` if the partial was executed directly, or `undefined`
+ * to fall back to Handlebars rendering (e.g. unregistered partial).
+ */
+function tryDirectPartialExecution(
+	stmt: hbs.AST.PartialStatement,
+	data: unknown,
+	ctx?: ExecutorContext,
+	scope?: ExecutionScope,
+): { value: unknown } | undefined {
+	const partialName = getPartialName(stmt);
+	const partial =
+		partialName !== null ? ctx?.partials?.get(partialName) : undefined;
+	if (!partial) return undefined;
+
+	// `{{> name ctx}}` switches the context, hash params extend it
+	const contextParam = stmt.params[0] as hbs.AST.Expression | undefined;
+	let partialData = contextParam
+		? resolveExpression(
+				contextParam,
+				data,
+				ctx?.identifierData,
+				ctx?.helpers,
+				scope,
+			)
+		: data;
+	if (stmt.hash) {
+		const extended: Record<string, unknown> =
+			partialData !== null && typeof partialData === "object"
+				? { ...(partialData as Record<string, unknown>) }
+				: {};
+		for (const pair of stmt.hash.pairs) {
+			extended[pair.key] = resolveExpression(
+				pair.value,
+				data,
+				ctx?.identifierData,
+				ctx?.helpers,
+				scope,
+			);
+		}
+		partialData = extended;
+	}
+
+	// The pre-compiled template belongs to the caller — never reuse it
+	const value = executeFromAst(partial.ast, partial.template, partialData, {
+		...ctx,
+		compiledTemplate: undefined,
+	});
+	return { value };
+}
+
+/**
+ * Resolves the `key=value` arguments of a helper call into a plain object.
+ *
+ * @param hash           - The hash of the helper call, if any
+ * @param data           - The context data
+ * @param identifierData - Data by identifier (optional)
+ * @param helpers        - Registered helpers (for nested sub-expressions)
+ * @param scope          - Enclosing scopes (for `@root`, `../` and block params)
+ */
+function resolveHash(
+	hash: hbs.AST.Hash | undefined,
+	data: unknown,
+	identifierData?: IdentifierData,
+	helpers?: Map<string, HelperDefinition>,
+	scope?: ExecutionScope,
+): Record<string, unknown> {
+	const resolved: Record<string, unknown> = {};
+	for (const pair of hash?.pairs ?? []) {
+		resolved[pair.key] = resolveExpression(
+			pair.value,
+			data,
+			identifierData,
+			helpers,
+			scope,
+		);
+	}
+	return resolved;
+}
+
 // ─── Direct Helper Execution ─────────────────────────────────────────────────
 // Some helpers (e.g. `map`) return non-primitive values (arrays, objects)
-// that Handlebars would stringify. For these helpers, we resolve their
-// arguments directly and call the helper's `fn` to preserve the raw value.
-
-/** Set of helper names that must be executed directly (bypass Handlebars) */
-const DIRECT_EXECUTION_HELPERS = new Set<string>([
-	ArrayHelpers.ARRAY_HELPER_NAME,
-	DefaultHelpers.DEFAULT_HELPER_NAME,
-	MapHelpers.MAP_HELPER_NAME,
-]);
+// that Handlebars would stringify: their definitions are flagged
+// `directExecution`. For these helpers, and for helpers that
+// declare hash arguments, we resolve their arguments directly and call the
+// helper's `fn` to preserve the raw value.
 
 /**
  * Attempts to execute a helper directly (without Handlebars rendering).
@@ -688,26 +1236,30 @@ const DIRECT_EXECUTION_HELPERS = new Set<string>([
  * Returns `{ value }` if the helper was executed directly, or `undefined`
  * if the helper should go through the normal Handlebars rendering path.
  *
- * @param stmt - The MustacheStatement containing the helper call
- * @param data - The context data
- * @param ctx  - Optional execution context (with helpers and identifierData)
+ * @param stmt  - The MustacheStatement containing the helper call
+ * @param data  - The context data
+ * @param ctx   - Optional execution context (with helpers and identifierData)
+ * @param scope - Enclosing scopes (for `@root`, `../` and block params)
  */
 function tryDirectHelperExecution(
 	stmt: hbs.AST.MustacheStatement,
 	data: unknown,
 	ctx?: ExecutorContext,
+	scope?: ExecutionScope,
 ): { value: unknown } | undefined {
 	// Get the helper name from the path
 	if (stmt.path.type !== "PathExpression") return undefined;
 	const helperName = (stmt.path as hbs.AST.PathExpression).original;
 
-	// Only intercept known direct-execution helpers
-	if (!DIRECT_EXECUTION_HELPERS.has(helperName)) return undefined;
-
 	// Look up the helper definition
 	const helper = ctx?.helpers?.get(helperName);
 	if (!helper) return undefined;
 
+	// Only intercept direct-execution helpers and helpers with declared
+	// hash arguments
+	const isDirect = helper.directExecution || !!helper.hash;
+	if (!isDirect) return undefined;
+
 	// Resolve each argument from the data context.
 	// For the `map` helper, the resolution strategy is:
 	//   - Arg 0 (array): resolve as a data path (e.g. `users` → array)
@@ -729,17 +1281,52 @@ function tryDirectHelperExecution(
 			} else {
 				// Fallback: resolve normally (will likely be undefined at runtime)
 				resolvedArgs.push(
-					resolveExpression(param, data, ctx?.identifierData, ctx?.helpers),
+					resolveExpression(
+						param,
+						data,
+						ctx?.identifierData,
+						ctx?.helpers,
+						scope,
+					),
 				);
 			}
 		} else {
 			resolvedArgs.push(
-				resolveExpression(param, data, ctx?.identifierData, ctx?.helpers),
+				resolveExpression(
+					param,
+					data,
+					ctx?.identifierData,
+					ctx?.helpers,
+					scope,
+				),
 			);
 		}
 	}
 
-	// Call the helper's fn directly with the resolved arguments
-	const value = helper.fn(...resolvedArgs);
-	return { value };
+	// Resolve `key=value` arguments the same way
+	const hash = resolveHash(
+		stmt.hash,
+		data,
+		ctx?.identifierData,
+		ctx?.helpers,
+		scope,
+	);
+
+	// Call the helper's fn directly with the resolved arguments. Errors are
+	// wrapped like those thrown during Handlebars rendering.
+	try {
+		const value = callHelperDirectly(
+			helperName,
+			helper,
+			resolvedArgs,
+			hash,
+			data,
+			scope?.root,
+		);
+		return { value };
+	} catch (error: unknown) {
+		if (error instanceof TemplateRuntimeError) throw error;
+		const message = error instanceof Error ? error.message : String(error);
+		throw new TemplateRuntimeError(message);
+	}
 }
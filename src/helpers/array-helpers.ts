@@ -1,3 +1,5 @@
+import type { JSONSchema7 } from "json-schema";
+import { simplifySchema } from "../schema-resolver.ts";
 import type { HelperDefinition } from "../types.ts";
 import { HelperFactory } from "./helper-factory.ts";
 
@@ -19,10 +21,9 @@ import { HelperFactory } from "./helper-factory.ts";
 //   factory.unregister(engine); // removes all helpers
 //
 // ─── Static Analysis ─────────────────────────────────────────────────────────
-// The `array` helper has special static analysis handling in the analyzer:
 // - At least 1 argument is required
-// - All arguments must have compatible types
 // - The inferred return type is `{ type: "array", items: <union of arg types> }`
+//   (computed by `inferReturnType` from the resolved argument schemas)
 
 // ─── Internal utilities ─────────────────────────────────────────────────────
 
@@ -47,6 +48,25 @@ function arrayValue(...args: unknown[]): unknown[] {
 	return args.filter((a) => !isHandlebarsOptions(a));
 }
 
+/**
+ * Infers `{ type: "array", items: <union of arg types> }`. Arguments that
+ * could not be resolved are left out of the item type.
+ */
+function inferArrayType(
+	argSchemas: (JSONSchema7 | undefined)[],
+): JSONSchema7 | undefined {
+	const resolved = argSchemas.filter(
+		(schema): schema is JSONSchema7 => schema !== undefined,
+	);
+	if (resolved.length === 0) return undefined;
+
+	const items =
+		resolved.length === 1
+			? (resolved[0] as JSONSchema7)
+			: simplifySchema({ oneOf: resolved });
+	return { type: "array", items };
+}
+
 // ─── Main class ─────────────────────────────────────────────────────────────
 
 export class ArrayHelpers extends HelperFactory {
@@ -64,6 +84,7 @@ export class ArrayHelpers extends HelperFactory {
 	/** Registers the `array` helper */
 	private registerArray(defs: Map<string, HelperDefinition>): void {
 		defs.set(ArrayHelpers.ARRAY_HELPER_NAME, {
+			directExecution: true,
 			fn: arrayValue,
 			params: [
 				{
@@ -71,7 +92,8 @@ export class ArrayHelpers extends HelperFactory {
 					description: "One or more values to collect into an array (variadic)",
 				},
 			],
-			// No static returnType — the analyzer infers it from the arguments
+			returnType: { type: "array" },
+			inferReturnType: inferArrayType,
 			description:
 				"Constructs an array from its arguments: {{ array name status }}",
 		});
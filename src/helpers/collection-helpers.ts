@@ -0,0 +1,645 @@
+import type { JSONSchema7 } from "json-schema";
+import { withNullType } from "../schema-resolver.ts";
+import type { HelperDefinition, HelperInferenceContext } from "../types.ts";
+import { deepEqual, getSchemaPropertyNames } from "../utils.ts";
+import { HelperFactory } from "./helper-factory.ts";
+import { toNumber } from "./utils.ts";
+
+// ─── CollectionHelpers ───────────────────────────────────────────────────────
+// Aggregates helpers that transform and aggregate arrays.
+//
+// - **Selecting**  — `filter`, `slice`, `first`, `last`, `unique`
+// - **Reshaping**  — `sortBy`, `groupBy`, `flatten`, `pluck`
+// - **Aggregates** — `sum`, `avg`, `count`, `join`
+//
+// Usage: `{{ sum (map orders "total") }}`,
+//        `{{#each (sortBy (filter users "age" ">=" 18) "name")}}…{{/each}}`,
+//        `{{ join (pluck users "address.city") " / " }}`
+//
+// Property arguments are dot-separated paths into the items
+// (`"address.city"`); `""` designates the item itself.
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// CollectionHelpers are automatically pre-registered by the `Typebars`
+// constructor. They can also be registered manually on any object
+// implementing `HelperRegistry`:
+//
+//   const factory = new CollectionHelpers();
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Execution ───────────────────────────────────────────────────────────────
+// Helpers returning arrays, objects or strings are flagged
+// `directExecution`: like `map`, they are executed directly in
+// single-expression mode so the raw value is returned — `{{ join ids "" }}`
+// is the string "12", not a number.
+//
+// ─── Static Analysis ─────────────────────────────────────────────────────────
+// Each helper infers its output from the array argument (via
+// `inferReturnType`): `filter users …` keeps the item schema of `users`,
+// `pluck users "address.city"` yields an array of the `city` schema,
+// `groupBy` yields an object of arrays, `sum`/`avg` yield numbers.
+// Literal property paths must exist in the item schema (UNKNOWN_PROPERTY),
+// literal operators and directions must be supported (TYPE_MISMATCH), and
+// `sum`/`avg` require numeric values (TYPE_MISMATCH).
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Operators supported by `filter` */
+const FILTER_OPERATORS = [
+	"==",
+	"!=",
+	"<",
+	"<=",
+	">",
+	">=",
+	"contains",
+	"in",
+] as const;
+
+type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+/** Directions supported by `sortBy` */
+const SORT_DIRECTIONS = ["asc", "desc"] as const;
+
+/** Default separator of `join`, same as arrays rendered in templates */
+const DEFAULT_SEPARATOR = ", ";
+
+const ARRAY_PARAM = {
+	name: "array",
+	type: { type: "array" as const },
+	description: "The array",
+};
+
+// ─── Internal utilities ─────────────────────────────────────────────────────
+
+/**
+ * Checks whether a value is a Handlebars options object.
+ * Handlebars always passes an options object as the last argument to helpers.
+ */
+function isHandlebarsOptions(value: unknown): boolean {
+	return (
+		value !== null &&
+		typeof value === "object" &&
+		"hash" in (value as Record<string, unknown>) &&
+		"name" in (value as Record<string, unknown>)
+	);
+}
+
+/**
+ * Normalizes an optional argument: the trailing Handlebars options object
+ * (passed when the argument is omitted) becomes `undefined`.
+ */
+function optional(value: unknown): unknown {
+	return isHandlebarsOptions(value) ? undefined : value;
+}
+
+/** Returns the value as an array; anything else becomes `[]`. */
+function toArray(value: unknown): unknown[] {
+	return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Reads a dot-separated path in a value. An empty or missing path returns
+ * the value itself.
+ */
+function getPath(value: unknown, path: unknown): unknown {
+	if (typeof path !== "string" || path === "") return value;
+	let current = value;
+	for (const segment of path.split(".")) {
+		if (current === null || typeof current !== "object") return undefined;
+		current = (current as Record<string, unknown>)[segment];
+	}
+	return current;
+}
+
+/** Orders two values: numbers and strings naturally, nullish last. */
+function compareValues(a: unknown, b: unknown): number {
+	if (a === b) return 0;
+	if (a === null || a === undefined) return 1;
+	if (b === null || b === undefined) return -1;
+	if (typeof a === "number" && typeof b === "number") return a - b;
+	return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+/** Evaluates `left <operator> right` for `filter`. */
+function matches(
+	left: unknown,
+	operator: FilterOperator,
+	right: unknown,
+): boolean {
+	switch (operator) {
+		case "==":
+			return deepEqual(left, right);
+		case "!=":
+			return !deepEqual(left, right);
+		case "<":
+			return left != null && right != null && compareValues(left, right) < 0;
+		case "<=":
+			return left != null && right != null && compareValues(left, right) <= 0;
+		case ">":
+			return left != null && right != null && compareValues(left, right) > 0;
+		case ">=":
+			return left != null && right != null && compareValues(left, right) >= 0;
+		case "contains":
+			if (typeof left === "string") return left.includes(String(right));
+			return Array.isArray(left) && left.some((v) => deepEqual(v, right));
+		case "in":
+			return Array.isArray(right) && right.some((v) => deepEqual(v, left));
+	}
+}
+
+/** Converts an item for `join`: objects are JSON-encoded. */
+function stringifyItem(value: unknown): string {
+	if (value === null || value === undefined) return "";
+	if (typeof value === "object") return JSON.stringify(value);
+	return String(value);
+}
+
+// ─── Static analysis utilities ───────────────────────────────────────────────
+
+/** Item schema of the array argument, or `undefined` when unknown. */
+function itemsOf(
+	schema: JSONSchema7 | undefined,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	return schema ? ctx.resolveItems(schema) : undefined;
+}
+
+/**
+ * Item schema of an item that may not exist (`first` / `last` of an empty
+ * array): nullable, unless the items are of unknown shape.
+ */
+function optionalItemOf(
+	schema: JSONSchema7 | undefined,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	const items = itemsOf(schema, ctx);
+	if (!items || Object.keys(items).length === 0) return items;
+	return withNullType(items);
+}
+
+/**
+ * Resolves a literal property path in the item schema. Unknown properties
+ * are reported; non-literal paths cannot be resolved (`undefined`).
+ */
+function resolveItemPath(
+	items: JSONSchema7 | undefined,
+	path: unknown,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	if (!items || typeof path !== "string") return undefined;
+	if (path === "") return items;
+	// Items of unknown shape (`{ type: "array" }` without `items`)
+	if (Object.keys(items).length === 0) return undefined;
+
+	const resolved = ctx.resolvePath(items, path.split("."));
+	if (!resolved) {
+		ctx.report(
+			"error",
+			"UNKNOWN_PROPERTY",
+			`Helper "${ctx.helperName}": property "${path}" does not exist in the array items`,
+			{ path, availableProperties: getSchemaPropertyNames(items) },
+		);
+	}
+	return resolved;
+}
+
+/** Reports a literal argument that is not one of the allowed values. */
+function checkLiteralChoice(
+	value: unknown,
+	allowed: readonly string[],
+	name: string,
+	ctx: HelperInferenceContext,
+): void {
+	if (typeof value !== "string" || allowed.includes(value)) return;
+	ctx.report(
+		"error",
+		"TYPE_MISMATCH",
+		`Helper "${ctx.helperName}" does not support the ${name} "${value}". Supported: ${allowed.join(", ")}`,
+		{ expected: allowed.join(" | "), actual: value },
+	);
+}
+
+/** Reports values summed or averaged that are not numbers. */
+function checkNumeric(
+	schema: JSONSchema7 | undefined,
+	ctx: HelperInferenceContext,
+): void {
+	if (!schema?.type) return;
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+	if (types.some((t) => t === "number" || t === "integer")) return;
+	ctx.report(
+		"error",
+		"TYPE_MISMATCH",
+		`Helper "${ctx.helperName}" expects numeric values, but got ${types.join(" | ")}`,
+		{ expected: "number", actual: types.join(" | ") },
+	);
+}
+
+/** `{ type: "array", items }`, or `undefined` when the items are unknown. */
+function arrayOf(items: JSONSchema7 | undefined): JSONSchema7 | undefined {
+	return items ? { type: "array", items } : undefined;
+}
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class CollectionHelpers extends HelperFactory {
+	/**
+	 * Names of the helpers returning their array argument filtered or
+	 * reordered, used by the input schema inference to type the items from
+	 * the way the result is read
+	 */
+	static readonly SAME_ITEMS_HELPER_NAMES: readonly string[] = [
+		"filter",
+		"sortBy",
+		"slice",
+		"unique",
+	];
+
+	/** Names of the helpers returning one item of their array argument */
+	static readonly ITEM_HELPER_NAMES: readonly string[] = ["first", "last"];
+
+	/** Names of the helpers whose second argument is a path in the items */
+	static readonly ITEM_PATH_HELPER_NAMES: readonly string[] = [
+		"filter",
+		"sortBy",
+		"unique",
+		"groupBy",
+		"pluck",
+		"sum",
+		"avg",
+	];
+
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerSelecting(defs);
+		this.registerReshaping(defs);
+		this.registerAggregates(defs);
+	}
+
+	// ── Selecting ────────────────────────────────────────────────────
+
+	/** Registers filter, slice, first, last, unique */
+	private registerSelecting(defs: Map<string, HelperDefinition>): void {
+		// filter — {{ filter users "age" ">=" 18 }} or {{ filter users "active" }}
+		defs.set("filter", {
+			directExecution: true,
+			fn: (
+				array: unknown,
+				property: unknown,
+				operator: unknown,
+				value: unknown,
+			) => {
+				const op = optional(operator);
+				return toArray(array).filter((item) => {
+					const left = getPath(item, property);
+					if (op === undefined) return Boolean(left);
+					if (!FILTER_OPERATORS.includes(op as FilterOperator)) return false;
+					return matches(left, op as FilterOperator, optional(value));
+				});
+			},
+			params: [
+				ARRAY_PARAM,
+				{
+					name: "property",
+					type: { type: "string" },
+					description: 'Path of the tested value ("" for the item itself)',
+				},
+				{
+					name: "operator",
+					type: { type: "string" },
+					description: `Operator: ${FILTER_OPERATORS.join(", ")} (default: truthy test)`,
+					optional: true,
+				},
+				{
+					name: "value",
+					description: "The value compared with",
+					optional: true,
+				},
+			],
+			returnType: { type: "array" },
+			inferReturnType: ([array], _hash, ctx) => {
+				const items = itemsOf(array, ctx);
+				resolveItemPath(items, ctx.literalArgs[1], ctx);
+				checkLiteralChoice(
+					ctx.literalArgs[2],
+					FILTER_OPERATORS,
+					"operator",
+					ctx,
+				);
+				return arrayOf(items);
+			},
+			description:
+				'Keeps the items matching a condition: {{ filter users "age" ">=" 18 }}',
+		});
+
+		// slice — {{ slice items 0 3 }}
+		defs.set("slice", {
+			directExecution: true,
+			fn: (array: unknown, start: unknown, end: unknown) => {
+				const endArg = optional(end);
+				return toArray(array).slice(
+					toNumber(start, 0),
+					endArg === undefined ? undefined : toNumber(endArg),
+				);
+			},
+			params: [
+				ARRAY_PARAM,
+				{
+					name: "start",
+					type: { type: "number" },
+					description: "Index of the first item (negative: from the end)",
+				},
+				{
+					name: "end",
+					type: { type: "number" },
+					description: "Index after the last item (default: end)",
+					optional: true,
+				},
+			],
+			returnType: { type: "array" },
+			inferReturnType: ([array], _hash, ctx) => arrayOf(itemsOf(array, ctx)),
+			description: "Returns a portion of an array: {{ slice items 0 3 }}",
+		});
+
+		// first — {{ first users }}
+		defs.set("first", {
+			directExecution: true,
+			fn: (array: unknown) => toArray(array)[0],
+			params: [ARRAY_PARAM],
+			returnType: {},
+			inferReturnType: ([array], _hash, ctx) => optionalItemOf(array, ctx),
+			description:
+				"Returns the first item of an array, undefined when it is empty: {{ first users }}",
+		});
+
+		// last — {{ last users }}
+		defs.set("last", {
+			directExecution: true,
+			fn: (array: unknown) => toArray(array).at(-1),
+			params: [ARRAY_PARAM],
+			returnType: {},
+			inferReturnType: ([array], _hash, ctx) => optionalItemOf(array, ctx),
+			description:
+				"Returns the last item of an array, undefined when it is empty: {{ last users }}",
+		});
+
+		// unique — {{ unique tags }} or {{ unique users "email" }}
+		defs.set("unique", {
+			directExecution: true,
+			fn: (array: unknown, property: unknown) => {
+				const path = optional(property);
+				const seen: unknown[] = [];
+				return toArray(array).filter((item) => {
+					const key = getPath(item, path);
+					if (seen.some((s) => deepEqual(s, key))) return false;
+					seen.push(key);
+					return true;
+				});
+			},
+			params: [
+				ARRAY_PARAM,
+				{
+					name: "property",
+					type: { type: "string" },
+					description: "Path of the value compared (default: the item)",
+					optional: true,
+				},
+			],
+			returnType: { type: "array" },
+			inferReturnType: ([array], _hash, ctx) => {
+				const items = itemsOf(array, ctx);
+				resolveItemPath(items, ctx.literalArgs[1], ctx);
+				return arrayOf(items);
+			},
+			description:
+				"Removes duplicates, keeping the first occurrence: {{ unique tags }}",
+		});
+	}
+
+	// ── Reshaping ────────────────────────────────────────────────────
+
+	/** Registers sortBy, groupBy, flatten, pluck */
+	private registerReshaping(defs: Map<string, HelperDefinition>): void {
+		// sortBy — {{ sortBy users "age" "desc" }}
+		// Numbers and strings sort naturally, null/undefined values go last.
+		defs.set("sortBy", {
+			directExecution: true,
+			fn: (array: unknown, property: unknown, direction: unknown) => {
+				const path = optional(property);
+				const sign = optional(direction) === "desc" ? -1 : 1;
+				return [...toArray(array)].sort(
+					(a, b) => sign * compareValues(getPath(a, path), getPath(b, path)),
+				);
+			},
+			params: [
+				ARRAY_PARAM,
+				{
+					name: "property",
+					type: { type: "string" },
+					description: "Path of the sort key (default: the item)",
+					optional: true,
+				},
+				{
+					name: "direction",
+					type: { type: "string", enum: [...SORT_DIRECTIONS] },
+					description: 'Sort direction: "asc" (default) or "desc"',
+					optional: true,
+				},
+			],
+			returnType: { type: "array" },
+			inferReturnType: ([array], _hash, ctx) => {
+				const items = itemsOf(array, ctx);
+				resolveItemPath(items, ctx.literalArgs[1], ctx);
+				checkLiteralChoice(
+					ctx.literalArgs[2],
+					SORT_DIRECTIONS,
+					"direction",
+					ctx,
+				);
+				return arrayOf(items);
+			},
+			description:
+				'Sorts an array by a property (stable): {{ sortBy users "age" "desc" }}',
+		});
+
+		// groupBy — {{ groupBy users "role" }} → { admin: [...], user: [...] }
+		defs.set("groupBy", {
+			directExecution: true,
+			fn: (array: unknown, property: unknown) => {
+				const groups: Record<string, unknown[]> = {};
+				for (const item of toArray(array)) {
+					const key = stringifyItem(getPath(item, property));
+					groups[key] ??= [];
+					groups[key].push(item);
+				}
+				return groups;
+			},
+			params: [
+				ARRAY_PARAM,
+				{
+					name: "property",
+					type: { type: "string" },
+					description: "Path of the grouping key",
+				},
+			],
+			returnType: { type: "object" },
+			inferReturnType: ([array], _hash, ctx) => {
+				const items = itemsOf(array, ctx);
+				resolveItemPath(items, ctx.literalArgs[1], ctx);
+				if (!items) return undefined;
+				return {
+					type: "object",
+					additionalProperties: { type: "array", items },
+				};
+			},
+			description:
+				'Groups items by the value of a property: {{ groupBy users "role" }}',
+		});
+
+		// flatten — {{ flatten (map users "tags") }}
+		defs.set("flatten", {
+			directExecution: true,
+			fn: (array: unknown, depth: unknown) => {
+				const levels = optional(depth);
+				return toArray(array).flat(
+					levels === undefined ? 1 : toNumber(levels, 1),
+				);
+			},
+			params: [
+				ARRAY_PARAM,
+				{
+					name: "depth",
+					type: { type: "number" },
+					description: "Number of levels to flatten (default: 1)",
+					optional: true,
+				},
+			],
+			returnType: { type: "array" },
+			inferReturnType: ([array], _hash, ctx) => {
+				const depth = ctx.literalArgs[1];
+				let items = itemsOf(array, ctx);
+				for (
+					let level = 0;
+					level < (typeof depth === "number" ? depth : 1);
+					level++
+				) {
+					items = items && (ctx.resolveItems(items) ?? items);
+				}
+				return arrayOf(items);
+			},
+			description: 'Flattens nested arrays: {{ flatten (map users "tags") }}',
+		});
+
+		// pluck — {{ pluck users "address.city" }}
+		defs.set("pluck", {
+			directExecution: true,
+			fn: (array: unknown, path: unknown) =>
+				toArray(array).map((item) => getPath(item, path)),
+			params: [
+				ARRAY_PARAM,
+				{
+					name: "path",
+					type: { type: "string" },
+					description: "Dot-separated path of the extracted value",
+				},
+			],
+			returnType: { type: "array" },
+			inferReturnType: ([array], _hash, ctx) =>
+				arrayOf(resolveItemPath(itemsOf(array, ctx), ctx.literalArgs[1], ctx)),
+			description:
+				'Extracts a nested value from each item: {{ pluck users "address.city" }}',
+		});
+	}
+
+	// ── Aggregates ───────────────────────────────────────────────────
+
+	/** Registers sum, avg, count, join */
+	private registerAggregates(defs: Map<string, HelperDefinition>): void {
+		const numericParams = [
+			ARRAY_PARAM,
+			{
+				name: "property",
+				type: { type: "string" as const },
+				description: "Path of the numeric value (default: the item)",
+				optional: true,
+			},
+		];
+
+		const inferNumeric: HelperDefinition["inferReturnType"] = (
+			[array],
+			_hash,
+			ctx,
+		) => {
+			const items = itemsOf(array, ctx);
+			const property = ctx.literalArgs[1];
+			checkNumeric(
+				property === undefined ? items : resolveItemPath(items, property, ctx),
+				ctx,
+			);
+			return undefined;
+		};
+
+		const values = (array: unknown, property: unknown): number[] => {
+			const path = optional(property);
+			return toArray(array).map((item) => toNumber(getPath(item, path), 0));
+		};
+
+		// sum — {{ sum (map orders "total") }} or {{ sum orders "total" }}
+		defs.set("sum", {
+			fn: (array: unknown, property: unknown) =>
+				values(array, property).reduce((total, n) => total + n, 0),
+			params: numericParams,
+			returnType: { type: "number" },
+			inferReturnType: inferNumeric,
+			description:
+				'Sums the values of an array: {{ sum (map orders "total") }}',
+		});
+
+		// avg — {{ avg scores }} (0 for an empty array)
+		defs.set("avg", {
+			fn: (array: unknown, property: unknown) => {
+				const numbers = values(array, property);
+				if (numbers.length === 0) return 0;
+				return numbers.reduce((total, n) => total + n, 0) / numbers.length;
+			},
+			params: numericParams,
+			returnType: { type: "number" },
+			inferReturnType: inferNumeric,
+			description:
+				"Averages the values of an array (0 when empty): {{ avg scores }}",
+		});
+
+		// count — {{ count users }}
+		defs.set("count", {
+			fn: (array: unknown) => toArray(array).length,
+			params: [ARRAY_PARAM],
+			returnType: { type: "integer" },
+			description: "Returns the number of items: {{ count users }}",
+		});
+
+		// join — {{ join tags " | " }}
+		defs.set("join", {
+			directExecution: true,
+			fn: (array: unknown, separator: unknown) => {
+				const sep = optional(separator);
+				return toArray(array)
+					.map(stringifyItem)
+					.join(sep === undefined ? DEFAULT_SEPARATOR : String(sep));
+			},
+			params: [
+				ARRAY_PARAM,
+				{
+					name: "separator",
+					type: { type: "string" },
+					description: `Separator (default: "${DEFAULT_SEPARATOR}")`,
+					optional: true,
+				},
+			],
+			returnType: { type: "string" },
+			description: 'Joins the items into a string: {{ join tags " | " }}',
+		});
+	}
+}
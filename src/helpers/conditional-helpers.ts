@@ -0,0 +1,96 @@
+import type { HelperDefinition } from "../types.ts";
+import { HelperFactory } from "./helper-factory.ts";
+
+// ─── ConditionalHelpers ──────────────────────────────────────────────────────
+// Provides an inline conditional helper, the expression counterpart of the
+// `{{#if}}…{{else}}…{{/if}}` block — like `cond ? a : b` in JavaScript.
+//
+// - **`iif`** (alias **`ternary`**) — Returns its second argument when the
+//   condition is truthy, its third argument otherwise.
+//   Usage: `{{ iif (gt score 50) "pass" "fail" }}`
+//          `{{ ternary user.isAdmin adminLabel userLabel }}`
+//
+// The condition follows the truthiness of `#if`: `false`, `0`, `""`,
+// `null`, `undefined` and empty arrays are falsy.
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// ConditionalHelpers are automatically pre-registered by the `Typebars`
+// constructor. They can also be registered manually on any object
+// implementing `HelperRegistry`:
+//
+//   const factory = new ConditionalHelpers();
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Execution ───────────────────────────────────────────────────────────────
+// Both names are executed directly by the executor, so the chosen value
+// keeps its type (number, boolean, object, array) in single-expression mode.
+//
+// ─── Static Analysis ─────────────────────────────────────────────────────────
+// The built-in `iif` helper has special static analysis handling in the
+// analyzer, mirroring the `#if` block (a custom helper registered as `iif`
+// or `ternary` is analyzed from its own definition):
+// - Exactly 3 arguments are expected (condition, value if true, value if
+//   false)
+// - Each value is resolved in the context narrowed by the condition (e.g.
+//   `user.email` is non-null in `{{ iif user.email user.email "none" }}`)
+// - The inferred return type is the union of both value types (simplified)
+
+// ─── Internal utilities ─────────────────────────────────────────────────────
+
+/**
+ * Checks whether a condition is truthy, like Handlebars' `#if`: empty
+ * arrays are falsy too.
+ */
+function isTruthy(condition: unknown): boolean {
+	if (Array.isArray(condition)) return condition.length > 0;
+	return Boolean(condition);
+}
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class ConditionalHelpers extends HelperFactory {
+	/**
+	 * Names of the inline conditional helper, used for special-case
+	 * detection in the analyzer/executor
+	 */
+	static readonly CONDITIONAL_HELPER_NAMES: readonly string[] = [
+		"iif",
+		"ternary",
+	];
+
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerConditional(defs);
+	}
+
+	// ── iif / ternary ────────────────────────────────────────────────
+
+	/** Registers `iif` and its alias `ternary` */
+	private registerConditional(defs: Map<string, HelperDefinition>): void {
+		for (const name of ConditionalHelpers.CONDITIONAL_HELPER_NAMES) {
+			defs.set(name, {
+				directExecution: true,
+				fn: (condition: unknown, whenTrue: unknown, whenFalse: unknown) =>
+					isTruthy(condition) ? whenTrue : whenFalse,
+				params: [
+					{
+						name: "condition",
+						description: "The condition (truthy like in #if)",
+					},
+					{
+						name: "whenTrue",
+						description: "The value returned when the condition is truthy",
+					},
+					{
+						name: "whenFalse",
+						description: "The value returned when the condition is falsy",
+					},
+				],
+				// No static returnType — the analyzer infers it from the values
+				description: `Returns one of two values depending on a condition: {{ ${name} (gt score 50) "pass" "fail" }}`,
+			});
+		}
+	}
+}
@@ -0,0 +1,323 @@
+import type { JSONSchema7, JSONSchema7TypeName } from "json-schema";
+import { resolveRef } from "../schema-resolver.ts";
+import type { HelperDefinition, HelperInferenceContext } from "../types.ts";
+import { HelperFactory } from "./helper-factory.ts";
+
+// ─── ConversionHelpers ───────────────────────────────────────────────────────
+// Aggregates helpers that explicitly convert values between types.
+//
+// - **JSON**       — `json` (serialize, optional indent), `parseJson`
+// - **Primitives** — `toNumber`, `toInteger`, `toString`, `toBoolean`
+//
+// Usage: `{{ json settings 2 }}`,
+//        `{{ parseJson payload '{"type":"object"}' }}`,
+//        `{{ add (toNumber quantity) 1 }}`
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// ConversionHelpers are automatically pre-registered by the `Typebars`
+// constructor. They can also be registered manually on any object
+// implementing `HelperRegistry`:
+//
+//   const factory = new ConversionHelpers();
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Execution ───────────────────────────────────────────────────────────────
+// All helpers are flagged `directExecution`: they are executed directly in
+// single-expression mode so the converted value is returned as is —
+// `{{ toString 42 }}` is the string "42", not the number a rendered "42"
+// would be coerced to.
+//
+// ─── Static Analysis ─────────────────────────────────────────────────────────
+// Return types reflect the conversion: `toNumber` of an integer stays an
+// integer, `toNumber` of a string may fail and is `["number", "null"]`,
+// `parseJson` returns its schema argument. Conversions that cannot succeed
+// are reported as TYPE_MISMATCH: an object or array to a number or a
+// boolean, a string literal that is not a number, a literal that is not
+// valid JSON.
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Types a primitive conversion accepts — objects and arrays cannot convert */
+const PRIMITIVE_TYPES: JSONSchema7TypeName[] = [
+	"string",
+	"number",
+	"integer",
+	"boolean",
+	"null",
+];
+
+/** Strings `toBoolean` converts to `false` (trimmed, case-insensitive) */
+const FALSE_STRINGS = new Set(["", "false", "0", "no", "off"]);
+
+// ─── Internal utilities ─────────────────────────────────────────────────────
+
+/**
+ * Checks whether a value is a Handlebars options object.
+ * Handlebars always passes an options object as the last argument to helpers.
+ */
+function isHandlebarsOptions(value: unknown): boolean {
+	return (
+		value !== null &&
+		typeof value === "object" &&
+		"hash" in (value as Record<string, unknown>) &&
+		"name" in (value as Record<string, unknown>)
+	);
+}
+
+/** An optional argument: `undefined` when omitted (options object). */
+function optional(value: unknown): unknown {
+	return isHandlebarsOptions(value) ? undefined : value;
+}
+
+/**
+ * Converts a value to a number, or `null` when it has no numeric value.
+ * Strings are trimmed; an empty string is not a number.
+ */
+function convertToNumber(value: unknown): number | null {
+	if (typeof value === "number") return Number.isNaN(value) ? null : value;
+	if (typeof value === "boolean") return value ? 1 : 0;
+	if (typeof value === "string" && value.trim() !== "") {
+		const number = Number(value);
+		return Number.isNaN(number) ? null : number;
+	}
+	return null;
+}
+
+// ─── Static analysis utilities ───────────────────────────────────────────────
+
+/** Declared types of an argument schema, or `undefined` when unknown. */
+function typesOf(
+	schema: JSONSchema7 | undefined,
+	ctx: HelperInferenceContext,
+): JSONSchema7TypeName[] | undefined {
+	if (!schema) return undefined;
+	const { type } = resolveRef(schema, ctx.root);
+	if (!type) return undefined;
+	return Array.isArray(type) ? type : [type];
+}
+
+/**
+ * Output schema of `toNumber` / `toInteger`: numbers and booleans always
+ * convert, strings and missing values may produce `null`.
+ */
+function inferNumeric(
+	integer: boolean,
+	[value]: (JSONSchema7 | undefined)[],
+	ctx: HelperInferenceContext,
+): JSONSchema7 {
+	const target = integer ? "integer" : "number";
+	const literal = ctx.literalArgs[0];
+	if (typeof literal === "string") {
+		if (convertToNumber(literal) === null) {
+			ctx.report(
+				"error",
+				"TYPE_MISMATCH",
+				`Helper "${ctx.helperName}" cannot convert "${literal}" to a number`,
+				{ expected: "numeric string", actual: literal },
+			);
+		}
+		return { type: target };
+	}
+
+	const types = typesOf(value, ctx);
+	if (!types) return { type: [target, "null"] };
+
+	const result = new Set<JSONSchema7TypeName>();
+	for (const type of types) {
+		if (type === "integer" || type === "boolean") result.add("integer");
+		else if (type === "number") result.add(target);
+		else if (type === "string") result.add(target).add("null");
+		else if (type === "null") result.add("null");
+	}
+	// `integer` is a subtype of `number`
+	if (result.has("number")) result.delete("integer");
+	const list = [...result];
+	if (list.length === 0) return { type: [target, "null"] };
+	return { type: list.length === 1 ? (list[0] as JSONSchema7TypeName) : list };
+}
+
+/**
+ * Output schema of `parseJson`: the schema given as a JSON string literal,
+ * or any value when there is none.
+ */
+function inferParseJson(
+	_args: (JSONSchema7 | undefined)[],
+	_hash: Record<string, JSONSchema7 | undefined>,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	const [text, schema] = ctx.literalArgs;
+	if (typeof text === "string" && !isValidJson(text)) {
+		ctx.report(
+			"error",
+			"TYPE_MISMATCH",
+			`Helper "${ctx.helperName}" expects a JSON string, but got "${text}"`,
+			{ expected: "JSON string", actual: text },
+		);
+	}
+	if (typeof schema !== "string") return {};
+
+	const parsed = isValidJson(schema) ? JSON.parse(schema) : undefined;
+	// `true` accepts any value, `false` none
+	if (typeof parsed === "boolean") return parsed ? {} : { not: {} };
+	if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+		ctx.report(
+			"error",
+			"TYPE_MISMATCH",
+			`Helper "${ctx.helperName}" expects a JSON Schema as its schema argument, but got "${schema}"`,
+			{ expected: "JSON Schema", actual: schema },
+		);
+		return {};
+	}
+	return parsed as JSONSchema7;
+}
+
+/** Checks whether a string is valid JSON. */
+function isValidJson(text: string): boolean {
+	try {
+		JSON.parse(text);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class ConversionHelpers extends HelperFactory {
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerJson(defs);
+		this.registerPrimitives(defs);
+	}
+
+	// ── JSON ─────────────────────────────────────────────────────────
+
+	/** Registers json, parseJson */
+	private registerJson(defs: Map<string, HelperDefinition>): void {
+		// json — {{ json settings 2 }} → "{\n  \"theme\": \"dark\"\n}"
+		defs.set("json", {
+			directExecution: true,
+			fn: (value: unknown, indent: unknown) => {
+				const spaces = Number(optional(indent) ?? 0);
+				// A missing value serializes as `null`, like in an array
+				return JSON.stringify(
+					value === undefined ? null : value,
+					null,
+					Number.isNaN(spaces) ? 0 : spaces,
+				);
+			},
+			params: [
+				{ name: "value", description: "The value to serialize" },
+				{
+					name: "indent",
+					type: { type: "integer" },
+					description: "Number of spaces of indentation (default: none)",
+					optional: true,
+				},
+			],
+			returnType: { type: "string" },
+			description:
+				"Serializes a value as JSON, optionally indented: {{ json settings 2 }}",
+		});
+
+		// parseJson — {{ parseJson payload '{"type":"object"}' }}
+		defs.set("parseJson", {
+			directExecution: true,
+			fn: (text: unknown) => {
+				if (text === null || text === undefined) return null;
+				try {
+					return JSON.parse(String(text));
+				} catch {
+					throw new Error(`Helper "parseJson" received invalid JSON: ${text}`);
+				}
+			},
+			params: [
+				{
+					name: "text",
+					type: { type: "string" },
+					description: "The JSON string to parse",
+				},
+				{
+					name: "schema",
+					type: { type: "string" },
+					description:
+						"JSON Schema of the parsed value, as a JSON string literal (static analysis only)",
+					optional: true,
+				},
+			],
+			returnType: {},
+			inferReturnType: inferParseJson,
+			description:
+				'Parses a JSON string, typed by an optional schema: {{ parseJson payload \'{"type":"object"}\' }}',
+		});
+	}
+
+	// ── Primitives ───────────────────────────────────────────────────
+
+	/** Registers toNumber, toInteger, toString, toBoolean */
+	private registerPrimitives(defs: Map<string, HelperDefinition>): void {
+		const valueParam = {
+			name: "value",
+			type: { type: PRIMITIVE_TYPES },
+			description: "The value to convert",
+		};
+
+		// toNumber — {{ toNumber "12.5" }} → 12.5
+		defs.set("toNumber", {
+			directExecution: true,
+			fn: (value: unknown) => convertToNumber(value),
+			params: [valueParam],
+			returnType: { type: ["number", "null"] },
+			inferReturnType: (args, _hash, ctx) => inferNumeric(false, args, ctx),
+			description:
+				"Converts a value to a number (null when it has none): {{ toNumber quantity }}",
+		});
+
+		// toInteger — {{ toInteger "12.5" }} → 12
+		defs.set("toInteger", {
+			directExecution: true,
+			fn: (value: unknown) => {
+				const number = convertToNumber(value);
+				return number === null ? null : Math.trunc(number);
+			},
+			params: [valueParam],
+			returnType: { type: ["integer", "null"] },
+			inferReturnType: (args, _hash, ctx) => inferNumeric(true, args, ctx),
+			description:
+				"Converts a value to an integer, truncating decimals (null when it has no numeric value): {{ toInteger quantity }}",
+		});
+
+		// toString — {{ toString 42 }} → "42"
+		defs.set("toString", {
+			directExecution: true,
+			fn: (value: unknown) => {
+				if (value === null || value === undefined) return "";
+				if (typeof value === "object") return JSON.stringify(value);
+				return String(value);
+			},
+			params: [{ name: "value", description: "The value to convert" }],
+			returnType: { type: "string" },
+			description:
+				"Converts a value to a string (objects and arrays as JSON): {{ toString id }}",
+		});
+
+		// toBoolean — {{ toBoolean "yes" }} → true
+		defs.set("toBoolean", {
+			directExecution: true,
+			fn: (value: unknown) => {
+				if (typeof value === "string") {
+					return !FALSE_STRINGS.has(value.trim().toLowerCase());
+				}
+				if (typeof value === "number")
+					return value !== 0 && !Number.isNaN(value);
+				return Boolean(value);
+			},
+			params: [valueParam],
+			returnType: { type: "boolean" },
+			description:
+				'Converts a value to a boolean ("", "false", "0", "no", "off", 0 and null are false): {{ toBoolean enabled }}',
+		});
+	}
+}
@@ -0,0 +1,992 @@
+import type { JSONSchema7 } from "json-schema";
+import type { HelperDefinition, HelperHashParam } from "../types.ts";
+import { HelperFactory } from "./helper-factory.ts";
+import { toNumber } from "./utils.ts";
+
+// ─── DateHelpers ─────────────────────────────────────────────────────────────
+// Aggregates date and time helpers for the template engine.
+//
+// - **Parsing**     — `parseDate`, `now`
+// - **Formatting**  — `formatDate` (token patterns or `Intl` styles)
+// - **Arithmetic**  — `dateAdd`, `dateSubtract`, `dateDiff`
+// - **Periods**     — `startOf`, `endOf`
+// - **Comparisons** — `isBefore`, `isAfter`, `isSame`
+//
+// Usage: `{{ formatDate createdAt "DD/MM/YYYY HH:mm" }}`,
+//        `{{ formatDate (dateAdd createdAt 7 "days") dateStyle="long" }}`,
+//        `{{#if (isBefore dueDate (now))}}overdue{{/if}}`
+//
+// ─── Dates ───────────────────────────────────────────────────────────────────
+// A date argument is an ISO 8601 string, a timestamp in milliseconds or a
+// `Date` instance. ISO strings without an offset (`"2024-01-15"`,
+// `"2024-01-15T10:30"`) are wall-clock times in the helper's time zone.
+// Helpers returning a date return an ISO 8601 UTC string
+// (`"2024-01-15T09:30:00.000Z"`), or `""` when the input is not a date.
+//
+// ─── Time Zones ──────────────────────────────────────────────────────────────
+// Calendar operations (formatting, adding days or months, start/end of a
+// period, calendar differences) run in an IANA time zone: the `tz=` hash
+// argument when given, otherwise the engine's `timezone` option ("UTC" by
+// default). The current time used by `now` comes from the engine's `clock`.
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// DateHelpers are automatically pre-registered by the `Typebars`
+// constructor with the engine's `timezone`, `clock` and `locale` options.
+// They can also be registered manually on any object implementing `HelperRegistry`:
+//
+//   const factory = new DateHelpers({ timezone: "Europe/Paris" });
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Static Analysis ─────────────────────────────────────────────────────────
+// Date arguments are declared as `string | number`. A string that is not
+// known to be a date — a schema without `format: "date-time"` or
+// `format: "date"`, or a literal that is not an ISO 8601 date — produces a
+// `NON_DATE_STRING` warning. Literal units are checked against the
+// supported units.
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface DateHelpersOptions {
+	/**
+	 * Default IANA time zone of the helpers (e.g. `"Europe/Paris"`).
+	 * An invalid time zone throws a `RangeError`.
+	 * @default "UTC"
+	 */
+	timezone?: string;
+
+	/**
+	 * Returns the current time, used by the `now` helper.
+	 * @default Date.now
+	 */
+	clock?: () => Date | number;
+
+	/**
+	 * Default BCP 47 locale of `formatDate` (month and day names, Intl
+	 * styles). A function is called at each render, which lets the engine
+	 * override the locale for a single execution.
+	 * @default "en-US"
+	 */
+	locale?: string | (() => string);
+}
+
+/** Calendar fields of an instant in a given time zone */
+interface WallClock {
+	year: number;
+	/** 1 – 12 */
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	millisecond: number;
+	/** 0 (Sunday) – 6 (Saturday) */
+	weekday: number;
+}
+
+type DateUnit =
+	| "year"
+	| "month"
+	| "week"
+	| "day"
+	| "hour"
+	| "minute"
+	| "second"
+	| "millisecond";
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_TIMEZONE = "UTC";
+const DEFAULT_LOCALE = "en-US";
+const DEFAULT_PATTERN = "YYYY-MM-DDTHH:mm:ssZ";
+
+const DATE_UNITS: readonly DateUnit[] = [
+	"year",
+	"month",
+	"week",
+	"day",
+	"hour",
+	"minute",
+	"second",
+	"millisecond",
+];
+
+/** Duration of the units that do not depend on the calendar */
+const UNIT_MS: Partial<Record<DateUnit, number>> = {
+	millisecond: 1,
+	second: 1000,
+	minute: 60_000,
+	hour: 3_600_000,
+	day: 86_400_000,
+	week: 604_800_000,
+};
+
+/** `Intl.DateTimeFormat` styles accepted as a `formatDate` pattern */
+const INTL_STYLES = new Set(["short", "medium", "long", "full"]);
+
+/** Formats considered as dates by the static analyzer */
+const DATE_FORMATS = new Set(["date-time", "date"]);
+
+/** A timestamp or a date string (`format` only applies to strings) */
+const DATE_PARAM_TYPE: JSONSchema7 = {
+	type: ["string", "number"],
+	format: "date-time",
+};
+const DATE_RETURN_TYPE: JSONSchema7 = { type: "string", format: "date-time" };
+
+const TZ_HASH: HelperHashParam = {
+	type: { type: "string" },
+	description: "IANA time zone (default: the engine's timezone)",
+	optional: true,
+};
+
+const WEEKDAYS: Record<string, number> = {
+	Sun: 0,
+	Mon: 1,
+	Tue: 2,
+	Wed: 3,
+	Thu: 4,
+	Fri: 5,
+	Sat: 6,
+};
+
+/** ISO 8601 date or date-time without offset (wall-clock time) */
+const LOCAL_ISO_PATTERN =
+	/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?)?$/;
+
+/** ISO 8601 date-time with a `Z` or `±HH:mm` offset */
+const OFFSET_ISO_PATTERN =
+	/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d{1,9})?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+const FORMAT_TOKENS =
+	/\[([^\]]*)]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|A|a|ZZ|Z/g;
+
+const PARSE_TOKENS = /\[([^\]]*)]|YYYY|YY|SSS|MM|M|DD|D|HH|H|mm|m|ss|s/g;
+
+// ─── Internal utilities ─────────────────────────────────────────────────────
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/** Returns a cached `Intl.DateTimeFormat` (constructing one is costly). */
+function getFormatter(
+	locale: string,
+	options: Intl.DateTimeFormatOptions,
+): Intl.DateTimeFormat {
+	const key = `${locale}|${JSON.stringify(options)}`;
+	let formatter = formatterCache.get(key);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat(locale, options);
+		formatterCache.set(key, formatter);
+	}
+	return formatter;
+}
+
+/** Builds a UTC timestamp from calendar fields (fields may overflow). */
+function utc(
+	year: number,
+	month: number,
+	day: number,
+	hour = 0,
+	minute = 0,
+	second = 0,
+	millisecond = 0,
+): number {
+	const date = new Date(0);
+	date.setUTCFullYear(year, month - 1, day);
+	date.setUTCHours(hour, minute, second, millisecond);
+	return date.getTime();
+}
+
+function daysInMonth(year: number, month: number): number {
+	return new Date(utc(year, month + 1, 0)).getUTCDate();
+}
+
+/** Returns the calendar fields of an instant in a time zone. */
+function toWallClock(ms: number, timeZone: string): WallClock {
+	const parts: Record<string, string> = {};
+	const formatter = getFormatter("en-US", {
+		timeZone,
+		hourCycle: "h23",
+		weekday: "short",
+		year: "numeric",
+		month: "numeric",
+		day: "numeric",
+		hour: "numeric",
+		minute: "numeric",
+		second: "numeric",
+	});
+	for (const part of formatter.formatToParts(ms)) {
+		parts[part.type] = part.value;
+	}
+	return {
+		year: Number(parts.year),
+		month: Number(parts.month),
+		day: Number(parts.day),
+		hour: Number(parts.hour) % 24,
+		minute: Number(parts.minute),
+		second: Number(parts.second),
+		millisecond: ((ms % 1000) + 1000) % 1000,
+		weekday: WEEKDAYS[parts.weekday ?? ""] ?? 0,
+	};
+}
+
+/** Offset of a time zone at an instant, in milliseconds (UTC+1 → 3600000). */
+function getOffset(ms: number, timeZone: string): number {
+	const wall = toWallClock(ms, timeZone);
+	return (
+		utc(
+			wall.year,
+			wall.month,
+			wall.day,
+			wall.hour,
+			wall.minute,
+			wall.second,
+			wall.millisecond,
+		) - ms
+	);
+}
+
+/** Converts calendar fields in a time zone to a timestamp. */
+function fromWallClock(
+	wall: Omit<WallClock, "weekday">,
+	timeZone: string,
+): number {
+	const local = utc(
+		wall.year,
+		wall.month,
+		wall.day,
+		wall.hour,
+		wall.minute,
+		wall.second,
+		wall.millisecond,
+	);
+	// The offset depends on the instant: guess with the offset at the
+	// local time, then correct with the offset at the guessed instant.
+	const guess = local - getOffset(local, timeZone);
+	return local - getOffset(guess, timeZone);
+}
+
+/**
+ * Converts a date argument to a timestamp, or `NaN` when it is not a date.
+ * ISO strings without an offset are read as wall-clock times in `timeZone`.
+ */
+function toTimestamp(value: unknown, timeZone: string): number {
+	if (value instanceof Date) return value.getTime();
+	if (typeof value === "number") return Number.isFinite(value) ? value : NaN;
+	if (typeof value !== "string") return NaN;
+
+	const text = value.trim();
+	const local = LOCAL_ISO_PATTERN.exec(text);
+	if (local) {
+		const [, year, month, day, hour, minute, second, fraction] = local;
+		const wall = {
+			year: Number(year),
+			month: Number(month),
+			day: Number(day),
+			hour: Number(hour ?? 0),
+			minute: Number(minute ?? 0),
+			second: Number(second ?? 0),
+			millisecond: Number((fraction ?? "").padEnd(3, "0").slice(0, 3)),
+		};
+		return isValidWallClock(wall) ? fromWallClock(wall, timeZone) : NaN;
+	}
+	if (OFFSET_ISO_PATTERN.test(text)) return Date.parse(text);
+	return NaN;
+}
+
+function isValidWallClock(wall: Omit<WallClock, "weekday">): boolean {
+	return (
+		wall.month >= 1 &&
+		wall.month <= 12 &&
+		wall.day >= 1 &&
+		wall.day <= daysInMonth(wall.year, wall.month) &&
+		wall.hour <= 23 &&
+		wall.minute <= 59 &&
+		wall.second <= 59
+	);
+}
+
+/**
+ * Parses a string with a token pattern (e.g. `"DD/MM/YYYY HH:mm"`).
+ * Returns `NaN` when the string does not match the pattern.
+ */
+function parseWithPattern(
+	value: string,
+	pattern: string,
+	timeZone: string,
+): number {
+	const fields: string[] = [];
+	let source = "";
+	let last = 0;
+	for (const match of pattern.matchAll(PARSE_TOKENS)) {
+		source += escapeRegExp(pattern.slice(last, match.index));
+		last = match.index + match[0].length;
+		if (match[1] !== undefined) {
+			source += escapeRegExp(match[1]);
+			continue;
+		}
+		fields.push(match[0]);
+		source +=
+			match[0].length === 1 ? "(\\d{1,2})" : `(\\d{${match[0].length}})`;
+	}
+	source += escapeRegExp(pattern.slice(last));
+
+	const match = new RegExp(`^${source}$`).exec(value.trim());
+	if (!match) return NaN;
+
+	const wall = {
+		year: 1970,
+		month: 1,
+		day: 1,
+		hour: 0,
+		minute: 0,
+		second: 0,
+		millisecond: 0,
+	};
+	fields.forEach((token, index) => {
+		const n = Number(match[index + 1]);
+		switch (token[0]) {
+			case "Y":
+				wall.year = token === "YY" ? 2000 + n : n;
+				break;
+			case "M":
+				wall.month = n;
+				break;
+			case "D":
+				wall.day = n;
+				break;
+			case "H":
+				wall.hour = n;
+				break;
+			case "m":
+				wall.minute = n;
+				break;
+			case "s":
+				wall.second = n;
+				break;
+			case "S":
+				wall.millisecond = n;
+				break;
+		}
+	});
+	return isValidWallClock(wall) ? fromWallClock(wall, timeZone) : NaN;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function pad(value: number, length = 2): string {
+	return String(Math.abs(value)).padStart(length, "0");
+}
+
+/** Formats an offset in minutes as `+01:00` (or `+0100` without separator). */
+function formatOffset(offsetMs: number, separator: string): string {
+	const minutes = Math.round(offsetMs / 60_000);
+	const sign = minutes < 0 ? "-" : "+";
+	return `${sign}${pad(Math.trunc(Math.abs(minutes) / 60))}${separator}${pad(Math.abs(minutes) % 60)}`;
+}
+
+/** Formats a timestamp with a token pattern (e.g. `"YYYY-MM-DD HH:mm"`). */
+function formatWithPattern(
+	ms: number,
+	pattern: string,
+	timeZone: string,
+	locale: string,
+): string {
+	const wall = toWallClock(ms, timeZone);
+	const name = (options: Intl.DateTimeFormatOptions, at: number) =>
+		getFormatter(locale, { ...options, timeZone: "UTC" }).format(at);
+	// 2000-01-02 is a Sunday: adding the weekday gives the matching name.
+	const weekdayAt = utc(2000, 1, 2 + wall.weekday);
+	const monthAt = utc(2000, wall.month, 1);
+
+	return pattern.replace(FORMAT_TOKENS, (token, literal?: string) => {
+		if (literal !== undefined) return literal;
+		switch (token) {
+			case "YYYY":
+				return pad(wall.year, 4);
+			case "YY":
+				return pad(wall.year % 100);
+			case "MMMM":
+				return name({ month: "long" }, monthAt);
+			case "MMM":
+				return name({ month: "short" }, monthAt);
+			case "MM":
+				return pad(wall.month);
+			case "M":
+				return String(wall.month);
+			case "DD":
+				return pad(wall.day);
+			case "D":
+				return String(wall.day);
+			case "dddd":
+				return name({ weekday: "long" }, weekdayAt);
+			case "ddd":
+				return name({ weekday: "short" }, weekdayAt);
+			case "HH":
+				return pad(wall.hour);
+			case "H":
+				return String(wall.hour);
+			case "hh":
+				return pad(wall.hour % 12 || 12);
+			case "h":
+				return String(wall.hour % 12 || 12);
+			case "mm":
+				return pad(wall.minute);
+			case "m":
+				return String(wall.minute);
+			case "ss":
+				return pad(wall.second);
+			case "s":
+				return String(wall.second);
+			case "SSS":
+				return pad(wall.millisecond, 3);
+			case "A":
+				return wall.hour < 12 ? "AM" : "PM";
+			case "a":
+				return wall.hour < 12 ? "am" : "pm";
+			case "ZZ":
+				return formatOffset(getOffset(ms, timeZone), "");
+			default:
+				return formatOffset(getOffset(ms, timeZone), ":");
+		}
+	});
+}
+
+/** Normalizes a unit name (`"days"`, `"Day"` → `"day"`), or `undefined`. */
+function toUnit(value: unknown): DateUnit | undefined {
+	if (typeof value !== "string") return undefined;
+	const unit = value.toLowerCase().replace(/s$/, "");
+	return (DATE_UNITS as readonly string[]).includes(unit)
+		? (unit as DateUnit)
+		: undefined;
+}
+
+/**
+ * Adds an amount of a unit to a timestamp. Days, weeks, months and years
+ * follow the calendar of the time zone (a day is not always 24 hours);
+ * months are clamped to their last day (Jan 31 + 1 month → Feb 29).
+ */
+function addToTimestamp(
+	ms: number,
+	amount: number,
+	unit: DateUnit,
+	timeZone: string,
+): number {
+	const unitMs = UNIT_MS[unit];
+	if (unit !== "day" && unit !== "week" && unitMs !== undefined) {
+		return ms + amount * unitMs;
+	}
+
+	const wall = toWallClock(ms, timeZone);
+	const steps = Math.trunc(amount);
+	if (unit === "day" || unit === "week") {
+		wall.day += steps * (unit === "week" ? 7 : 1);
+		return fromWallClock(wall, timeZone);
+	}
+
+	const months = wall.month - 1 + steps * (unit === "year" ? 12 : 1);
+	wall.year += Math.floor(months / 12);
+	wall.month = (((months % 12) + 12) % 12) + 1;
+	wall.day = Math.min(wall.day, daysInMonth(wall.year, wall.month));
+	return fromWallClock(wall, timeZone);
+}
+
+/** Returns the first instant of the period containing a timestamp. */
+function startOfPeriod(ms: number, unit: DateUnit, timeZone: string): number {
+	if (unit === "millisecond") return ms;
+	const wall = toWallClock(ms, timeZone);
+	switch (unit) {
+		case "year":
+			wall.month = 1;
+			wall.day = 1;
+			wall.hour = 0;
+			wall.minute = 0;
+			wall.second = 0;
+			break;
+		case "month":
+			wall.day = 1;
+			wall.hour = 0;
+			wall.minute = 0;
+			wall.second = 0;
+			break;
+		case "week":
+			// Weeks start on Monday (ISO 8601)
+			wall.day -= (wall.weekday + 6) % 7;
+			wall.hour = 0;
+			wall.minute = 0;
+			wall.second = 0;
+			break;
+		case "day":
+			wall.hour = 0;
+			wall.minute = 0;
+			wall.second = 0;
+			break;
+		case "hour":
+			wall.minute = 0;
+			wall.second = 0;
+			break;
+		case "minute":
+			wall.second = 0;
+			break;
+	}
+	wall.millisecond = 0;
+	return fromWallClock(wall, timeZone);
+}
+
+/** Returns the last millisecond of the period containing a timestamp. */
+function endOfPeriod(ms: number, unit: DateUnit, timeZone: string): number {
+	const start = startOfPeriod(ms, unit, timeZone);
+	return addToTimestamp(start, 1, unit, timeZone) - 1;
+}
+
+/**
+ * Difference `a - b` in a unit, truncated towards zero. Days and weeks
+ * compare wall-clock times, months and years compare calendar dates.
+ */
+function diffTimestamps(
+	a: number,
+	b: number,
+	unit: DateUnit,
+	timeZone: string,
+): number {
+	if (unit === "month" || unit === "year") {
+		const wallA = toWallClock(a, timeZone);
+		const wallB = toWallClock(b, timeZone);
+		let months = (wallA.year - wallB.year) * 12 + (wallA.month - wallB.month);
+		const anchor = addToTimestamp(b, months, "month", timeZone);
+		if (months > 0 && anchor > a) months--;
+		if (months < 0 && anchor < a) months++;
+		return Math.trunc(unit === "year" ? months / 12 : months) || 0;
+	}
+
+	const unitMs = UNIT_MS[unit] ?? 1;
+	const delta =
+		unit === "day" || unit === "week"
+			? a + getOffset(a, timeZone) - (b + getOffset(b, timeZone))
+			: a - b;
+	return Math.trunc(delta / unitMs) || 0;
+}
+
+/** Narrows a value to an `Intl.DateTimeFormat` style, or `undefined`. */
+function toIntlStyle(
+	value: unknown,
+): Intl.DateTimeFormatOptions["dateStyle"] | undefined {
+	return typeof value === "string" && INTL_STYLES.has(value)
+		? (value as Intl.DateTimeFormatOptions["dateStyle"])
+		: undefined;
+}
+
+function toISOString(ms: number): string {
+	return Number.isNaN(ms) ? "" : new Date(ms).toISOString();
+}
+
+function isDateFormat(schema: JSONSchema7): boolean {
+	return typeof schema.format === "string" && DATE_FORMATS.has(schema.format);
+}
+
+/** Whether a schema may be a string that is not known to be a date. */
+function isPlainString(schema: JSONSchema7): boolean {
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+	return types.includes("string") && !isDateFormat(schema);
+}
+
+/**
+ * Builds an `inferReturnType` that only reports diagnostics: date arguments
+ * that are plain strings and literal units that are not supported.
+ * Returning `undefined` keeps the helper's static `returnType`.
+ */
+function checkArguments(
+	dateIndexes: number[],
+	unitIndex?: number,
+): NonNullable<HelperDefinition["inferReturnType"]> {
+	return (argSchemas, _hash, ctx) => {
+		for (const index of dateIndexes) {
+			const schema = argSchemas[index];
+			const literal = ctx.literalArgs[index];
+			if (typeof literal === "string") {
+				if (Number.isNaN(toTimestamp(literal, DEFAULT_TIMEZONE))) {
+					ctx.report(
+						"warning",
+						"NON_DATE_STRING",
+						`Helper "${ctx.helperName}" expects a date, but "${literal}" is not an ISO 8601 date. Use parseDate to read other formats`,
+						{ expected: "ISO 8601 date", actual: literal },
+					);
+				}
+			} else if (literal === undefined && schema && isPlainString(schema)) {
+				ctx.report(
+					"warning",
+					"NON_DATE_STRING",
+					`Helper "${ctx.helperName}" expects a date, but got a string without a "date-time" or "date" format`,
+					{
+						expected: 'string with format "date-time" or "date"',
+						actual: "string",
+					},
+				);
+			}
+		}
+
+		const unit =
+			unitIndex === undefined ? undefined : ctx.literalArgs[unitIndex];
+		if (unit !== undefined && toUnit(unit) === undefined) {
+			ctx.report(
+				"error",
+				"TYPE_MISMATCH",
+				`Helper "${ctx.helperName}" does not support the unit "${String(unit)}". Supported units: ${DATE_UNITS.join(", ")}`,
+				{ expected: DATE_UNITS.join(" | "), actual: String(unit) },
+			);
+		}
+		return undefined;
+	};
+}
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class DateHelpers extends HelperFactory {
+	private readonly timezone: string;
+	private readonly clock: () => Date | number;
+	private readonly defaultLocale: string | (() => string);
+
+	constructor(options: DateHelpersOptions = {}) {
+		super();
+		this.timezone = options.timezone ?? DEFAULT_TIMEZONE;
+		this.clock = options.clock ?? Date.now;
+		this.defaultLocale = options.locale ?? DEFAULT_LOCALE;
+		// Fail fast on an invalid time zone rather than at the first render
+		getFormatter(DEFAULT_LOCALE, { timeZone: this.timezone });
+	}
+
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerParsing(defs);
+		this.registerFormatting(defs);
+		this.registerArithmetic(defs);
+		this.registerPeriods(defs);
+		this.registerComparisons(defs);
+	}
+
+	/** Time zone of a call: the `tz=` argument or the engine default */
+	private zone(hash: { tz?: unknown }): string {
+		return typeof hash.tz === "string" && hash.tz !== ""
+			? hash.tz
+			: this.timezone;
+	}
+
+	/** Locale of a call: the `locale=` argument or the factory default */
+	private locale(hash: { locale?: unknown }): string {
+		if (typeof hash.locale === "string" && hash.locale !== "") {
+			return hash.locale;
+		}
+		return typeof this.defaultLocale === "function"
+			? this.defaultLocale()
+			: this.defaultLocale;
+	}
+
+	// ── Parsing ──────────────────────────────────────────────────────
+
+	/** Registers now, parseDate */
+	private registerParsing(defs: Map<string, HelperDefinition>): void {
+		// now — {{ formatDate (now) "YYYY" }}
+		defs.set("now", {
+			fn: () => toISOString(new Date(this.clock()).getTime()),
+			params: [],
+			returnType: DATE_RETURN_TYPE,
+			description:
+				'Returns the current date and time from the engine clock: {{ formatDate (now) "YYYY-MM-DD" }}',
+		});
+
+		// parseDate — {{ parseDate birthday "DD/MM/YYYY" }}
+		defs.set("parseDate", {
+			fn: (value: unknown, pattern: unknown, hash: { tz?: unknown }) => {
+				const timeZone = this.zone(hash);
+				if (typeof pattern === "string" && typeof value === "string") {
+					return toISOString(parseWithPattern(value, pattern, timeZone));
+				}
+				return toISOString(toTimestamp(value, timeZone));
+			},
+			params: [
+				{
+					name: "value",
+					type: DATE_PARAM_TYPE,
+					description: "The string or timestamp to parse",
+				},
+				{
+					name: "pattern",
+					type: { type: "string" },
+					description:
+						"Token pattern of the input (e.g. DD/MM/YYYY). Default: ISO 8601",
+					optional: true,
+				},
+			],
+			hash: { tz: TZ_HASH },
+			returnType: DATE_RETURN_TYPE,
+			description:
+				'Parses a date into an ISO 8601 UTC string ("" if invalid): {{ parseDate value "DD/MM/YYYY" }}',
+		});
+	}
+
+	// ── Formatting ───────────────────────────────────────────────────
+
+	/** Registers formatDate */
+	private registerFormatting(defs: Map<string, HelperDefinition>): void {
+		// formatDate — {{ formatDate date "DD/MM/YYYY" }} or
+		//              {{ formatDate date dateStyle="long" timeStyle="short" }}
+		defs.set("formatDate", {
+			fn: (
+				date: unknown,
+				format: unknown,
+				hash: {
+					tz?: unknown;
+					locale?: unknown;
+					dateStyle?: unknown;
+					timeStyle?: unknown;
+				},
+			) => {
+				const timeZone = this.zone(hash);
+				const ms = toTimestamp(date, timeZone);
+				if (Number.isNaN(ms)) return "";
+				const locale = this.locale(hash);
+
+				const dateStyle = toIntlStyle(hash.dateStyle) ?? toIntlStyle(format);
+				const timeStyle = toIntlStyle(hash.timeStyle);
+				if (dateStyle || timeStyle) {
+					return getFormatter(locale, {
+						timeZone,
+						dateStyle,
+						timeStyle,
+					}).format(ms);
+				}
+				const pattern = typeof format === "string" ? format : DEFAULT_PATTERN;
+				return formatWithPattern(ms, pattern, timeZone, locale);
+			},
+			params: [
+				{ name: "date", type: DATE_PARAM_TYPE, description: "The date" },
+				{
+					name: "format",
+					type: { type: "string" },
+					description: `Token pattern or Intl style (short, medium, long, full). Default: ${DEFAULT_PATTERN}`,
+					optional: true,
+				},
+			],
+			hash: {
+				tz: TZ_HASH,
+				locale: {
+					type: { type: "string" },
+					description:
+						"BCP 47 locale for names and Intl styles (default: the engine's locale)",
+					optional: true,
+				},
+				dateStyle: {
+					type: { type: "string", enum: [...INTL_STYLES] },
+					description: "Intl date style",
+					optional: true,
+				},
+				timeStyle: {
+					type: { type: "string", enum: [...INTL_STYLES] },
+					description: "Intl time style",
+					optional: true,
+				},
+			},
+			returnType: { type: "string" },
+			inferReturnType: checkArguments([0]),
+			description:
+				'Formats a date with a token pattern or an Intl style: {{ formatDate date "DD/MM/YYYY" }}',
+		});
+	}
+
+	// ── Arithmetic ───────────────────────────────────────────────────
+
+	/** Registers dateAdd, dateSubtract, dateDiff */
+	private registerArithmetic(defs: Map<string, HelperDefinition>): void {
+		const shiftParams = [
+			{ name: "date", type: DATE_PARAM_TYPE, description: "The date" },
+			{
+				name: "amount",
+				type: { type: "number" as const },
+				description: "Number of units",
+			},
+			{
+				name: "unit",
+				type: { type: "string" as const },
+				description: `Unit: ${DATE_UNITS.join(", ")} (plural accepted)`,
+			},
+		];
+
+		const shift =
+			(sign: 1 | -1) =>
+			(
+				date: unknown,
+				amount: unknown,
+				unit: unknown,
+				hash: { tz?: unknown },
+			) => {
+				const timeZone = this.zone(hash);
+				const ms = toTimestamp(date, timeZone);
+				const dateUnit = toUnit(unit);
+				if (Number.isNaN(ms) || !dateUnit) return "";
+				return toISOString(
+					addToTimestamp(ms, sign * toNumber(amount, 0), dateUnit, timeZone),
+				);
+			};
+
+		// dateAdd — {{ dateAdd date 7 "days" }}
+		defs.set("dateAdd", {
+			fn: shift(1),
+			params: shiftParams,
+			hash: { tz: TZ_HASH },
+			returnType: DATE_RETURN_TYPE,
+			inferReturnType: checkArguments([0], 2),
+			description: 'Adds a duration to a date: {{ dateAdd date 7 "days" }}',
+		});
+
+		// dateSubtract — {{ dateSubtract date 1 "month" }}
+		defs.set("dateSubtract", {
+			fn: shift(-1),
+			params: shiftParams,
+			hash: { tz: TZ_HASH },
+			returnType: DATE_RETURN_TYPE,
+			inferReturnType: checkArguments([0], 2),
+			description:
+				'Subtracts a duration from a date: {{ dateSubtract date 1 "month" }}',
+		});
+
+		// dateDiff — {{ dateDiff end start "days" }}
+		defs.set("dateDiff", {
+			fn: (a: unknown, b: unknown, unit: unknown, hash: { tz?: unknown }) => {
+				const timeZone = this.zone(hash);
+				const dateUnit = unit === undefined ? "millisecond" : toUnit(unit);
+				const msA = toTimestamp(a, timeZone);
+				const msB = toTimestamp(b, timeZone);
+				if (Number.isNaN(msA) || Number.isNaN(msB) || !dateUnit) return NaN;
+				return diffTimestamps(msA, msB, dateUnit, timeZone);
+			},
+			params: [
+				{ name: "a", type: DATE_PARAM_TYPE, description: "The later date" },
+				{ name: "b", type: DATE_PARAM_TYPE, description: "The earlier date" },
+				{
+					name: "unit",
+					type: { type: "string" },
+					description: `Unit: ${DATE_UNITS.join(", ")} (default: millisecond)`,
+					optional: true,
+				},
+			],
+			hash: { tz: TZ_HASH },
+			returnType: { type: "integer" },
+			inferReturnType: checkArguments([0, 1], 2),
+			description:
+				'Returns a - b in whole units, truncated towards zero: {{ dateDiff end start "days" }}',
+		});
+	}
+
+	// ── Periods ──────────────────────────────────────────────────────
+
+	/** Registers startOf, endOf */
+	private registerPeriods(defs: Map<string, HelperDefinition>): void {
+		const params = [
+			{ name: "date", type: DATE_PARAM_TYPE, description: "The date" },
+			{
+				name: "unit",
+				type: { type: "string" as const },
+				description: `Period: ${DATE_UNITS.join(", ")}`,
+			},
+		];
+
+		const period =
+			(boundary: typeof startOfPeriod) =>
+			(date: unknown, unit: unknown, hash: { tz?: unknown }) => {
+				const timeZone = this.zone(hash);
+				const ms = toTimestamp(date, timeZone);
+				const dateUnit = toUnit(unit);
+				if (Number.isNaN(ms) || !dateUnit) return "";
+				return toISOString(boundary(ms, dateUnit, timeZone));
+			};
+
+		// startOf — {{ startOf date "month" }}
+		defs.set("startOf", {
+			fn: period(startOfPeriod),
+			params,
+			hash: { tz: TZ_HASH },
+			returnType: DATE_RETURN_TYPE,
+			inferReturnType: checkArguments([0], 1),
+			description:
+				'Returns the start of the period containing a date (weeks start on Monday): {{ startOf date "month" }}',
+		});
+
+		// endOf — {{ endOf date "day" }}
+		defs.set("endOf", {
+			fn: period(endOfPeriod),
+			params,
+			hash: { tz: TZ_HASH },
+			returnType: DATE_RETURN_TYPE,
+			inferReturnType: checkArguments([0], 1),
+			description:
+				'Returns the last millisecond of the period containing a date: {{ endOf date "day" }}',
+		});
+	}
+
+	// ── Comparisons ──────────────────────────────────────────────────
+
+	/** Registers isBefore, isAfter, isSame */
+	private registerComparisons(defs: Map<string, HelperDefinition>): void {
+		const params = [
+			{ name: "a", type: DATE_PARAM_TYPE, description: "First date" },
+			{ name: "b", type: DATE_PARAM_TYPE, description: "Second date" },
+			{
+				name: "unit",
+				type: { type: "string" as const },
+				description:
+					"Compare the periods containing the dates (default: millisecond)",
+				optional: true,
+			},
+		];
+
+		const compare =
+			(test: (a: number, b: number) => boolean) =>
+			(a: unknown, b: unknown, unit: unknown, hash: { tz?: unknown }) => {
+				const timeZone = this.zone(hash);
+				const dateUnit = unit === undefined ? "millisecond" : toUnit(unit);
+				const msA = toTimestamp(a, timeZone);
+				const msB = toTimestamp(b, timeZone);
+				if (Number.isNaN(msA) || Number.isNaN(msB) || !dateUnit) return false;
+				return test(
+					startOfPeriod(msA, dateUnit, timeZone),
+					startOfPeriod(msB, dateUnit, timeZone),
+				);
+			};
+
+		// isBefore — {{#if (isBefore dueDate (now))}}
+		defs.set("isBefore", {
+			fn: compare((a, b) => a < b),
+			params,
+			hash: { tz: TZ_HASH },
+			returnType: { type: "boolean" },
+			inferReturnType: checkArguments([0, 1], 2),
+			description:
+				"Checks whether a date is before another: {{#if (isBefore dueDate (now))}}",
+		});
+
+		// isAfter — {{#if (isAfter date limit)}}
+		defs.set("isAfter", {
+			fn: compare((a, b) => a > b),
+			params,
+			hash: { tz: TZ_HASH },
+			returnType: { type: "boolean" },
+			inferReturnType: checkArguments([0, 1], 2),
+			description:
+				"Checks whether a date is after another: {{#if (isAfter date limit)}}",
+		});
+
+		// isSame — {{#if (isSame a b "day")}}
+		defs.set("isSame", {
+			fn: compare((a, b) => a === b),
+			params,
+			hash: { tz: TZ_HASH },
+			returnType: { type: "boolean" },
+			inferReturnType: checkArguments([0, 1], 2),
+			description:
+				'Checks whether two dates are equal, or in the same period: {{#if (isSame a b "day")}}',
+		});
+	}
+}
@@ -1,5 +1,6 @@
 import type { HelperDefinition } from "../types.ts";
 import { HelperFactory } from "./helper-factory.ts";
+import { renderSwitchDefault } from "./switch-helpers.ts";
 
 // ─── DefaultHelpers ──────────────────────────────────────────────────────────
 // Provides a variadic fallback helper that returns the first non-nullish
@@ -11,6 +12,9 @@ import { HelperFactory } from "./helper-factory.ts";
 //           `{{ default a b c }}`
 //           `{{ default departmentId accountId "fallback-id" }}`
 //
+// Used as a block inside `{{#switch}}`, `{{#default}}…{{/default}}` is the
+// branch rendered when no case matched (see SwitchHelpers).
+//
 // ─── Registration ────────────────────────────────────────────────────────────
 // DefaultHelpers are automatically pre-registered by the `Typebars`
 // constructor. They can also be registered manually on any object
@@ -20,8 +24,14 @@ import { HelperFactory } from "./helper-factory.ts";
 //   factory.register(engine);   // registers all helpers
 //   factory.unregister(engine); // removes all helpers
 //
+// ─── Execution ───────────────────────────────────────────────────────────────
+// `default` is flagged `directExecution`: in single-expression mode the
+// first non-nullish value is returned as is (an array, an object…).
+//
 // ─── Static Analysis ─────────────────────────────────────────────────────────
-// The `default` helper has special static analysis handling in the analyzer:
+// The built-in `default` helper has special static analysis handling in the
+// analyzer (a custom helper registered as `default` is analyzed from its own
+// definition):
 // - At least 2 arguments are required
 // - All arguments must have compatible types
 // - The argument chain must terminate with a guaranteed value (a literal,
@@ -48,7 +58,13 @@ function isHandlebarsOptions(value: unknown): boolean {
  * Returns the first non-nullish argument from a variadic argument list.
  * The trailing Handlebars options object is automatically excluded.
  */
-function defaultValue(...args: unknown[]): unknown {
+function defaultValue(this: unknown, ...args: unknown[]): unknown {
+	// Block form: the default branch of a `{{#switch}}`
+	const options = args[args.length - 1] as Handlebars.HelperOptions;
+	if (isHandlebarsOptions(options) && typeof options.fn === "function") {
+		return renderSwitchDefault(this, options);
+	}
+
 	// Filter out the trailing Handlebars options object
 	const candidates = args.filter((a) => !isHandlebarsOptions(a));
 
@@ -78,6 +94,7 @@ export class DefaultHelpers extends HelperFactory {
 	/** Registers the `default` helper */
 	private registerDefault(defs: Map<string, HelperDefinition>): void {
 		defs.set(DefaultHelpers.DEFAULT_HELPER_NAME, {
+			directExecution: true,
 			fn: defaultValue,
 			params: [
 				{
@@ -12,6 +12,18 @@ import type { HelperDefinition } from "../types.ts";
 // - `register()` / `unregister()` for any `HelperRegistry`
 // - `getHelperNames()` / `isHelper()` for introspection
 
+// ─── Built-in Definitions ────────────────────────────────────────────────────
+// Definitions built by a factory are the engine's built-in helpers. The
+// engine keys built-in behaviors on the definition rather than on the name,
+// so that a custom helper registered under the same name is left as is.
+
+const builtInDefinitions = new WeakSet<HelperDefinition>();
+
+/** Whether a definition was built by a helper factory (a built-in helper) */
+export function isBuiltInHelper(definition: HelperDefinition): boolean {
+	return builtInDefinitions.has(definition);
+}
+
 // ─── Types ───────────────────────────────────────────────────────────────────
 
 /** Minimal registration interface — avoids tight coupling with Typebars */
@@ -61,6 +73,9 @@ export abstract class HelperFactory {
 		if (!this._definitions) {
 			this._definitions = new Map();
 			this.buildDefinitions(this._definitions);
+			for (const definition of this._definitions.values()) {
+				builtInDefinitions.add(definition);
+			}
 		}
 		return this._definitions;
 	}
@@ -1,7 +1,22 @@
 export { ArrayHelpers } from "./array-helpers";
+export { CollectionHelpers } from "./collection-helpers";
+export { ConditionalHelpers } from "./conditional-helpers";
+export { ConversionHelpers } from "./conversion-helpers";
+export { DateHelpers, type DateHelpersOptions } from "./date-helpers";
 export { DefaultHelpers } from "./default-helpers";
-export { HelperFactory, type HelperRegistry } from "./helper-factory";
+export {
+	HelperFactory,
+	type HelperRegistry,
+	isBuiltInHelper,
+} from "./helper-factory";
+export { LetHelpers } from "./let-helpers";
 export { LogicalHelpers } from "./logical-helpers";
 export { MapHelpers } from "./map-helpers";
 export { MathHelpers } from "./math-helpers";
+export { MessageHelpers, type MessageHelpersOptions } from "./message-helpers";
+export { NumberHelpers, type NumberHelpersOptions } from "./number-helpers";
+export { ObjectHelpers } from "./object-helpers";
+export { RegexHelpers } from "./regex-helpers";
+export { StringHelpers } from "./string-helpers";
+export { SwitchHelpers } from "./switch-helpers";
 export { toNumber } from "./utils";
@@ -0,0 +1,74 @@
+import Handlebars from "handlebars";
+import type { HelperDefinition } from "../types.ts";
+import { HelperFactory } from "./helper-factory.ts";
+
+// ─── LetHelpers ──────────────────────────────────────────────────────────────
+// Provides a block that names intermediate values, so that a long
+// sub-expression is written — and evaluated — once.
+//
+// - **`#let`** — Binds each `key=value` argument to the `@key` data variable
+//   inside its body. Bindings are visible in nested blocks too.
+//   Usage:
+//   {{#let total=(sum (map orders "total")) count=(count orders)}}
+//     {{@count}} orders, {{@total}} in total ({{div @total @count}} avg)
+//   {{/let}}
+//
+// Each value is evaluated once, before the body is rendered, in the
+// context that encloses the block: a binding cannot refer to another
+// binding of the same `#let` (nest two blocks instead).
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// LetHelpers are automatically pre-registered by the `Typebars` constructor.
+// They can also be registered manually on any object implementing
+// `HelperRegistry`:
+//
+//   const factory = new LetHelpers();
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Execution ───────────────────────────────────────────────────────────────
+// A template made of a single `#let` is executed directly by the executor
+// (like `#with`), so its body keeps its type (number, boolean, object,
+// array).
+//
+// ─── Static Analysis ─────────────────────────────────────────────────────────
+// The `#let` block has special static analysis handling in the analyzer:
+// - Each binding is typed by the schema of its value, so `@total` is
+//   validated like any other expression
+// - A binding that is never read in the body produces an UNUSED_BINDING
+//   warning
+// - The inferred return type is the type of the body
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class LetHelpers extends HelperFactory {
+	/** The name used for special-case detection in the analyzer/executor */
+	static readonly LET_HELPER_NAME = "let";
+
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerLet(defs);
+	}
+
+	// ── #let ─────────────────────────────────────────────────────────
+
+	/** Registers the let block helper */
+	private registerLet(defs: Map<string, HelperDefinition>): void {
+		defs.set(LetHelpers.LET_HELPER_NAME, {
+			fn: function (this: unknown, options: Handlebars.HelperOptions) {
+				// Handlebars evaluates the hash once, before calling the helper
+				const frame = Handlebars.createFrame(options.data ?? {});
+				Object.assign(frame, options.hash);
+				return options.fn(this, { data: frame });
+			},
+			params: [],
+			additionalHash: {
+				description: "Value bound to the @key data variable in the block",
+			},
+			// No static returnType — the analyzer infers it from the body
+			description:
+				"Names intermediate values for its body: {{#let total=(sum prices)}}{{@total}}{{/let}}",
+		});
+	}
+}
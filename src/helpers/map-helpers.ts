@@ -85,6 +85,7 @@ export class MapHelpers extends HelperFactory {
 	/** Registers the `map` helper */
 	private registerMap(defs: Map<string, HelperDefinition>): void {
 		defs.set(MapHelpers.MAP_HELPER_NAME, {
+			directExecution: true,
 			fn: (array: unknown, property: unknown) => mapProperty(array, property),
 			params: [
 				{
@@ -0,0 +1,716 @@
+import type Handlebars from "handlebars";
+import type { JSONSchema7 } from "json-schema";
+import { resolveRef, simplifySchema } from "../schema-resolver.ts";
+import type {
+	HelperDefinition,
+	HelperHashParam,
+	HelperInferenceContext,
+} from "../types.ts";
+import { LRUCache } from "../utils.ts";
+import { HelperFactory } from "./helper-factory.ts";
+import { toNumber } from "./utils.ts";
+
+// ─── MessageHelpers ──────────────────────────────────────────────────────────
+// Aggregates localization helpers driven by `Intl.PluralRules`.
+//
+// - **`plural`** — picks a message by plural category:
+//   `{{ plural count one="# item" other="# items" }}`
+// - **`select`** — picks a message by value:
+//   `{{ select gender male="he" female="she" other="they" }}`
+// - **`#icu`**   — formats an ICU MessageFormat message (block helper):
+//   `{{#icu}}{count, plural, one {# message} other {# messages}}{{/icu}}`,
+//   or inline with the message as argument: `{{ icu "{count, plural, …}" count=n }}`
+//
+// In `plural` messages and ICU plural cases, `#` is replaced by the count
+// formatted for the locale.
+//
+// ─── Locales ─────────────────────────────────────────────────────────────────
+// Plural categories and numbers follow the `locale=` argument when given,
+// otherwise the factory's locale: the engine's `locale` option ("en-US" by
+// default), which can be overridden with `execute(…, { locale })`.
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// MessageHelpers are automatically pre-registered by the `Typebars`
+// constructor with the engine's locale. They can also be registered
+// manually on any object implementing `HelperRegistry`:
+//
+//   const factory = new MessageHelpers({ locale: "fr-FR" });
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Static Analysis ─────────────────────────────────────────────────────────
+// The selector of `plural` must be a number and the selector of `select` a
+// string (TYPE_MISMATCH). `plural` requires an `other=` message. When a
+// `select` has no `other=` case, its cases must cover every `enum` value of
+// the selector: missing values — or a selector without `enum` — produce a
+// NON_EXHAUSTIVE_SELECT warning. `select` returns the union of its cases.
+//
+// ICU messages known statically (a literal inline message, a `#icu` body
+// without expressions) are parsed: a malformed message is reported as
+// INVALID_MESSAGE, a `plural` / `selectordinal` / `number` argument that is
+// not a number as TYPE_MISMATCH. The body of `#icu` is checked by the
+// analyzer, which resolves its arguments in the block's context.
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface MessageHelpersOptions {
+	/**
+	 * Default BCP 47 locale of the helpers (e.g. `"fr-FR"`). A function is
+	 * called at each render, which lets the engine override the locale for
+	 * a single execution.
+	 * @default "en-US"
+	 */
+	locale?: string | (() => string);
+}
+
+/** A parsed ICU message: text and placeholders */
+type MessagePart =
+	| string
+	/** `#` in a plural case */
+	| { kind: "pound" }
+	/** `{name}` or `{name, number[, style]}` */
+	| { kind: "argument"; name: string; type?: string; style?: string }
+	/** `{name, plural|selectordinal, [offset:n] cases…}` */
+	| {
+			kind: "plural";
+			name: string;
+			ordinal: boolean;
+			offset: number;
+			cases: Record<string, MessagePart[]>;
+	  }
+	/** `{name, select, cases…}` */
+	| { kind: "select"; name: string; cases: Record<string, MessagePart[]> };
+
+/** An argument read by an ICU message */
+export interface MessageArgument {
+	/** Name of the argument (a dot-separated path) */
+	name: string;
+	/** Whether the argument is used as a number (`plural`, `number`…) */
+	numeric: boolean;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_LOCALE = "en-US";
+
+const LOCALE_HASH: HelperHashParam = {
+	type: { type: "string" },
+	description: "BCP 47 locale (default: the engine's locale)",
+	optional: true,
+};
+
+// ─── Internal utilities ─────────────────────────────────────────────────────
+
+/** `Intl` instances are costly to create: cache them. */
+const pluralRules = new Map<string, Intl.PluralRules>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+function getPluralRules(locale: string, ordinal: boolean): Intl.PluralRules {
+	const key = `${locale}|${ordinal}`;
+	let rules = pluralRules.get(key);
+	if (!rules) {
+		rules = new Intl.PluralRules(locale, {
+			type: ordinal ? "ordinal" : "cardinal",
+		});
+		pluralRules.set(key, rules);
+	}
+	return rules;
+}
+
+function formatNumber(value: number, locale: string, style?: string): string {
+	const key = `${locale}|${style ?? ""}`;
+	let format = numberFormats.get(key);
+	if (!format) {
+		format = new Intl.NumberFormat(
+			locale,
+			style === "percent"
+				? { style: "percent" }
+				: style === "integer"
+					? { maximumFractionDigits: 0 }
+					: {},
+		);
+		numberFormats.set(key, format);
+	}
+	return format.format(value);
+}
+
+/** Case of a plural choice: the locale's category, or `other`. */
+function pluralCase<T>(
+	count: number,
+	cases: Record<string, T | undefined>,
+	locale: string,
+	ordinal: boolean,
+): T | undefined {
+	const category = getPluralRules(locale, ordinal).select(count);
+	return cases[category] ?? cases.other;
+}
+
+/** Reads a dot-separated path in the context of a block. */
+function getPath(context: unknown, path: string): unknown {
+	let current = context;
+	for (const segment of path.split(".")) {
+		if (current === null || typeof current !== "object") return undefined;
+		current = (current as Record<string, unknown>)[segment];
+	}
+	return current;
+}
+
+// ─── ICU MessageFormat ──────────────────────────────────────────────────────
+// Supports simple arguments (`{name}`), numbers (`{n, number}`,
+// `{n, number, integer|percent}`), `plural` and `selectordinal` (with
+// `=N` exact cases and `offset:`), `select`, `#` and apostrophe quoting
+// (`''` is a literal apostrophe, `'{'` a literal brace).
+
+/** Parsed messages, by source — parsing is the costly part */
+const messageCache = new LRUCache<string, MessagePart[]>(256);
+
+/**
+ * Parses an ICU message.
+ * @throws {Error} When the message is malformed (wrapped in a
+ *   `TemplateRuntimeError` by the executor)
+ */
+function parseMessage(source: string): MessagePart[] {
+	const cached = messageCache.get(source);
+	if (cached) return cached;
+
+	let pos = 0;
+
+	const fail = (reason: string): never => {
+		throw new Error(
+			`Invalid ICU message: ${reason} at position ${pos} in "${source}"`,
+		);
+	};
+	const skipSpaces = () => {
+		while (pos < source.length && /\s/.test(source[pos] as string)) pos++;
+	};
+	const readWord = (): string => {
+		const start = pos;
+		while (pos < source.length && !/[\s,{}]/.test(source[pos] as string)) {
+			pos++;
+		}
+		return source.slice(start, pos);
+	};
+	const expect = (char: string) => {
+		skipSpaces();
+		if (source[pos] !== char) fail(`expected "${char}"`);
+		pos++;
+	};
+
+	/** Parses text and placeholders until a closing brace (when nested) */
+	const parseParts = (inPlural: boolean, nested: boolean): MessagePart[] => {
+		const parts: MessagePart[] = [];
+		let text = "";
+		const flush = () => {
+			if (text) parts.push(text);
+			text = "";
+		};
+
+		while (pos < source.length) {
+			const char = source[pos] as string;
+			if (char === "'") {
+				const next = source[pos + 1];
+				if (next === "'") {
+					text += "'";
+					pos += 2;
+				} else if (next === "{" || next === "}" || (inPlural && next === "#")) {
+					// Quoted literal, up to the next single apostrophe
+					pos++;
+					while (pos < source.length) {
+						if (source[pos] === "'") {
+							if (source[pos + 1] !== "'") break;
+							pos++;
+						}
+						text += source[pos];
+						pos++;
+					}
+					pos++;
+				} else {
+					text += char;
+					pos++;
+				}
+			} else if (char === "{") {
+				flush();
+				parts.push(parseArgument(inPlural));
+			} else if (char === "}") {
+				if (!nested) fail('unexpected "}"');
+				break;
+			} else if (char === "#" && inPlural) {
+				flush();
+				parts.push({ kind: "pound" });
+				pos++;
+			} else {
+				text += char;
+				pos++;
+			}
+		}
+		flush();
+		return parts;
+	};
+
+	/** Parses the `key {message}` cases of a plural or select */
+	const parseCases = (inPlural: boolean): Record<string, MessagePart[]> => {
+		const cases: Record<string, MessagePart[]> = {};
+		for (;;) {
+			skipSpaces();
+			if (source[pos] === "}" || pos >= source.length) break;
+			const key = readWord();
+			if (!key) fail("expected a case");
+			expect("{");
+			cases[key] = parseParts(inPlural, true);
+			expect("}");
+		}
+		if (!cases.other) fail('missing "other" case');
+		return cases;
+	};
+
+	/** Parses a `{…}` placeholder */
+	const parseArgument = (inPlural: boolean): MessagePart => {
+		pos++;
+		skipSpaces();
+		const name = readWord();
+		if (!name) fail("expected an argument name");
+		skipSpaces();
+		if (source[pos] === "}") {
+			pos++;
+			return { kind: "argument", name };
+		}
+		expect(",");
+		skipSpaces();
+		const type = readWord();
+		skipSpaces();
+
+		if (type === "plural" || type === "selectordinal") {
+			expect(",");
+			skipSpaces();
+			let offset = 0;
+			if (source.startsWith("offset:", pos)) {
+				pos += "offset:".length;
+				skipSpaces();
+				offset = Number(readWord());
+				if (Number.isNaN(offset)) fail("invalid offset");
+			}
+			const cases = parseCases(true);
+			expect("}");
+			return {
+				kind: "plural",
+				name,
+				ordinal: type === "selectordinal",
+				offset,
+				cases,
+			};
+		}
+		if (type === "select") {
+			expect(",");
+			const cases = parseCases(inPlural);
+			expect("}");
+			return { kind: "select", name, cases };
+		}
+		if (type === "number") {
+			let style: string | undefined;
+			if (source[pos] === ",") {
+				pos++;
+				skipSpaces();
+				style = readWord();
+			}
+			expect("}");
+			return { kind: "argument", name, type, style };
+		}
+		return fail(`unsupported argument type "${type}"`);
+	};
+
+	const parts = parseParts(false, false);
+	messageCache.set(source, parts);
+	return parts;
+}
+
+/**
+ * Formats parsed message parts.
+ *
+ * @param parts  - The parsed message
+ * @param lookup - Returns the value of an argument
+ * @param locale - Locale of plural rules and numbers
+ * @param count  - Value of `#` (inside a plural case)
+ */
+function formatParts(
+	parts: MessagePart[],
+	lookup: (name: string) => unknown,
+	locale: string,
+	count?: number,
+): string {
+	let result = "";
+	for (const part of parts) {
+		if (typeof part === "string") {
+			result += part;
+			continue;
+		}
+		switch (part.kind) {
+			case "pound":
+				result += count === undefined ? "#" : formatNumber(count, locale);
+				break;
+			case "argument": {
+				const value = lookup(part.name);
+				if (part.type === "number") {
+					const number = toNumber(value);
+					result += Number.isNaN(number)
+						? ""
+						: formatNumber(number, locale, part.style);
+				} else {
+					result += value === null || value === undefined ? "" : String(value);
+				}
+				break;
+			}
+			case "plural": {
+				const value = toNumber(lookup(part.name), 0);
+				const chosen =
+					part.cases[`=${value}`] ??
+					pluralCase(value - part.offset, part.cases, locale, part.ordinal);
+				result += formatParts(
+					chosen ?? [],
+					lookup,
+					locale,
+					value - part.offset,
+				);
+				break;
+			}
+			case "select": {
+				const value = String(lookup(part.name));
+				const chosen = Object.hasOwn(part.cases, value)
+					? part.cases[value]
+					: part.cases.other;
+				result += formatParts(chosen ?? [], lookup, locale, count);
+				break;
+			}
+		}
+	}
+	return result;
+}
+
+// ─── Static analysis utilities ───────────────────────────────────────────────
+
+/**
+ * Lists the arguments of an ICU message, in order of first use.
+ * @throws {Error} When the message is malformed
+ */
+export function getMessageArguments(source: string): MessageArgument[] {
+	const args = new Map<string, MessageArgument>();
+	const visit = (parts: MessagePart[]) => {
+		for (const part of parts) {
+			if (typeof part === "string" || part.kind === "pound") continue;
+			const numeric =
+				part.kind === "plural" ||
+				(part.kind === "argument" && part.type === "number");
+			const previous = args.get(part.name);
+			args.set(part.name, {
+				name: part.name,
+				numeric: numeric || (previous?.numeric ?? false),
+			});
+			if (part.kind === "plural" || part.kind === "select") {
+				for (const message of Object.values(part.cases)) visit(message);
+			}
+		}
+	};
+	visit(parseMessage(source));
+	return [...args.values()];
+}
+
+/** Whether a schema may hold a number (unknown types are accepted). */
+export function isNumericSchema(schema: JSONSchema7): boolean {
+	if (!schema.type) return true;
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+	return types.some((type) => type === "number" || type === "integer");
+}
+
+/**
+ * Checks the literal message of an inline `icu` call: it must parse, and
+ * each of its arguments must be given as a `key=value` argument, numeric
+ * when used as a number.
+ */
+function inferIcu(
+	_argSchemas: (JSONSchema7 | undefined)[],
+	hashSchemas: Record<string, JSONSchema7 | undefined>,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	const source = ctx.literalArgs[0];
+	if (typeof source !== "string") return undefined;
+
+	let args: MessageArgument[];
+	try {
+		args = getMessageArguments(source);
+	} catch (error) {
+		ctx.report(
+			"error",
+			"INVALID_MESSAGE",
+			`Helper "${ctx.helperName}": ${(error as Error).message}`,
+			{ expected: "ICU message", actual: source },
+			0,
+		);
+		return undefined;
+	}
+
+	for (const arg of args) {
+		if (!Object.hasOwn(hashSchemas, arg.name)) {
+			ctx.report(
+				"error",
+				"MISSING_ARGUMENT",
+				`Helper "${ctx.helperName}": the message reads "${arg.name}", pass it as ${arg.name}=…`,
+				{ hashArgument: arg.name },
+			);
+			continue;
+		}
+		const schema = hashSchemas[arg.name];
+		if (arg.numeric && schema && !isNumericSchema(schema)) {
+			const actual = [schema.type].flat().join(" | ");
+			ctx.report(
+				"error",
+				"TYPE_MISMATCH",
+				`Helper "${ctx.helperName}": the message argument "${arg.name}" is used as a number, but got ${actual}`,
+				{ hashArgument: arg.name, expected: "number", actual },
+			);
+		}
+	}
+	return undefined;
+}
+
+/** String `enum` (or `const`) values of a schema, if any. */
+function enumValues(
+	schema: JSONSchema7,
+	ctx: HelperInferenceContext,
+): string[] | undefined {
+	const resolved = resolveRef(schema, ctx.root);
+	const values =
+		resolved.enum ?? (resolved.const !== undefined ? [resolved.const] : []);
+	const strings = values.filter(
+		(value): value is string => typeof value === "string",
+	);
+	return strings.length > 0 ? strings : undefined;
+}
+
+/**
+ * Infers the output of `select` (the union of its cases) and reports a
+ * selector whose values are not all covered when there is no `other=`.
+ */
+function inferSelect(
+	[selector]: (JSONSchema7 | undefined)[],
+	hashSchemas: Record<string, JSONSchema7 | undefined>,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	const cases = Object.keys(hashSchemas);
+	let exhaustive = cases.includes("other");
+
+	if (!exhaustive && selector) {
+		const values = enumValues(selector, ctx);
+		const missing = values?.filter((value) => !cases.includes(value)) ?? [];
+		if (!values) {
+			ctx.report(
+				"warning",
+				"NON_EXHAUSTIVE_SELECT",
+				`Helper "${ctx.helperName}": the selector has no enum, the cases cannot be checked. Add an other= case`,
+				{ expected: "enum string or other= case", actual: "string" },
+			);
+		} else if (missing.length > 0) {
+			ctx.report(
+				"warning",
+				"NON_EXHAUSTIVE_SELECT",
+				`Helper "${ctx.helperName}" has no case for ${missing.map((v) => `"${v}"`).join(", ")}. Add the missing cases or an other= case`,
+				{
+					expected: values.join(" | "),
+					actual: cases.join(" | "),
+				},
+			);
+		} else {
+			exhaustive = true;
+		}
+	}
+
+	const results: JSONSchema7[] = [];
+	for (const schema of Object.values(hashSchemas)) {
+		if (schema) results.push(schema);
+	}
+	// An unmatched value renders as an empty string
+	if (!exhaustive) results.push({ type: "string" });
+	if (results.length === 0) return undefined;
+	return results.length === 1
+		? (results[0] as JSONSchema7)
+		: simplifySchema({ oneOf: results });
+}
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class MessageHelpers extends HelperFactory {
+	/** The name used for special-case detection in the analyzer */
+	static readonly ICU_HELPER_NAME = "icu";
+
+	private readonly defaultLocale: string | (() => string);
+
+	constructor(options: MessageHelpersOptions = {}) {
+		super();
+		this.defaultLocale = options.locale ?? DEFAULT_LOCALE;
+		// Fail fast on an invalid locale rather than at the first render
+		if (typeof this.defaultLocale === "string") {
+			Intl.getCanonicalLocales(this.defaultLocale);
+		}
+	}
+
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerPlural(defs);
+		this.registerSelect(defs);
+		this.registerIcu(defs);
+	}
+
+	/** Locale of a call: the `locale=` argument or the factory default */
+	private locale(hash: { locale?: unknown }): string {
+		if (typeof hash.locale === "string" && hash.locale !== "") {
+			return hash.locale;
+		}
+		return typeof this.defaultLocale === "function"
+			? this.defaultLocale()
+			: this.defaultLocale;
+	}
+
+	// ── plural ───────────────────────────────────────────────────────
+
+	/** Registers plural */
+	private registerPlural(defs: Map<string, HelperDefinition>): void {
+		const messageHash = (category: string): HelperHashParam => ({
+			description: `Message for the "${category}" plural category`,
+			optional: true,
+		});
+
+		// plural — {{ plural count one="# item" other="# items" }}
+		defs.set("plural", {
+			fn: (count: unknown, hash: Record<string, unknown>) => {
+				const value = toNumber(count);
+				if (Number.isNaN(value)) return "";
+				const locale = this.locale(hash);
+				// `zero` applies to a count of 0 even in locales without a
+				// zero category (like English)
+				const message =
+					value === 0 && hash.zero !== undefined
+						? hash.zero
+						: pluralCase(value, hash, locale, hash.type === "ordinal");
+				return typeof message === "string"
+					? message.replaceAll("#", formatNumber(value, locale))
+					: (message ?? "");
+			},
+			params: [
+				{
+					name: "count",
+					type: { type: "number" },
+					description: "The number choosing the message",
+				},
+			],
+			hash: {
+				zero: {
+					description:
+						"Message for a count of 0 (whatever the locale), or the locale's zero category",
+					optional: true,
+				},
+				one: messageHash("one"),
+				two: messageHash("two"),
+				few: messageHash("few"),
+				many: messageHash("many"),
+				other: {
+					description: "Message for any other count (required)",
+				},
+				type: {
+					type: { type: "string", enum: ["cardinal", "ordinal"] },
+					description:
+						'"cardinal" (1 item, 2 items — default) or "ordinal" (1st, 2nd)',
+					optional: true,
+				},
+				locale: LOCALE_HASH,
+			},
+			returnType: { type: "string" },
+			description:
+				'Picks a message by plural category, "#" being the count: {{ plural count one="# item" other="# items" }}',
+		});
+	}
+
+	// ── select ───────────────────────────────────────────────────────
+
+	/** Registers select */
+	private registerSelect(defs: Map<string, HelperDefinition>): void {
+		// select — {{ select gender male="he" female="she" other="they" }}
+		defs.set("select", {
+			fn: (value: unknown, cases: Record<string, unknown>) => {
+				const key = String(value);
+				const result = Object.hasOwn(cases, key) ? cases[key] : cases.other;
+				return result ?? "";
+			},
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The value naming the case",
+				},
+			],
+			hash: {
+				other: {
+					description: "Result for any value without a case",
+					optional: true,
+				},
+			},
+			additionalHash: {
+				description: "Result for the value named by the key",
+			},
+			returnType: {},
+			inferReturnType: inferSelect,
+			description:
+				'Picks a result by value: {{ select gender male="he" female="she" other="they" }}',
+		});
+	}
+
+	// ── #icu ─────────────────────────────────────────────────────────
+
+	/** Registers the icu block helper */
+	private registerIcu(defs: Map<string, HelperDefinition>): void {
+		// #icu — {{#icu count=unread}}{count, plural, one {# message} other {# messages}}{{/icu}}
+		// Arguments are read from the hash, then from the block's context.
+		// Inline — {{ icu "{count, plural, …}" count=unread }}: the message is
+		// the first argument and its arguments are read from the hash only.
+		const helpers = this;
+		defs.set(MessageHelpers.ICU_HELPER_NAME, {
+			fn: function (
+				this: unknown,
+				message: unknown,
+				hash: Record<string, unknown>,
+				options?: Handlebars.HelperOptions,
+			) {
+				if (!options?.fn) {
+					return formatParts(
+						parseMessage(message === undefined ? "" : String(message)),
+						(name) => (Object.hasOwn(hash, name) ? hash[name] : undefined),
+						helpers.locale(hash),
+					);
+				}
+				const source = options.fn(this);
+
+				return formatParts(
+					parseMessage(source),
+					(name) =>
+						Object.hasOwn(hash, name) ? hash[name] : getPath(this, name),
+					helpers.locale(hash),
+				);
+			},
+			params: [
+				{
+					name: "message",
+					type: { type: "string" },
+					description:
+						"The ICU message of the inline form (the body of a block)",
+					optional: true,
+				},
+			],
+			hash: { locale: LOCALE_HASH },
+			additionalHash: {
+				description: "Value of the message argument named by the key",
+			},
+			returnType: { type: "string" },
+			inferReturnType: inferIcu,
+			description:
+				'Formats an ICU MessageFormat message, its body or its first argument: {{#icu}}{count, plural, one {# item} other {# items}}{{/icu}} or {{ icu "{n, number}" n=total }}',
+		});
+	}
+}
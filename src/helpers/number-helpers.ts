@@ -0,0 +1,336 @@
+import type { HelperDefinition, HelperHashParam } from "../types.ts";
+import { HelperFactory } from "./helper-factory.ts";
+import { toNumber } from "./utils.ts";
+
+// ─── NumberHelpers ───────────────────────────────────────────────────────────
+// Aggregates locale-aware number formatting helpers, backed by
+// `Intl.NumberFormat`.
+//
+// - **`formatNumber`**   — grouped decimal number: `1,234.57`
+// - **`formatCurrency`** — amount in a currency: `1 234,56 €`
+// - **`formatPercent`**  — ratio as a percentage: `0.25` → `25%`
+// - **`formatBytes`**    — size in bytes with a decimal unit: `1.5 MB`
+// - **`formatCompact`**  — compact notation: `1.2K`, `3.4 million`
+//
+// Usage: `{{ formatNumber total 2 }}`,
+//        `{{ formatCurrency total "EUR" locale="fr-FR" }}`,
+//        `{{ formatPercent ratio 1 }}`
+//
+// ─── Locales ─────────────────────────────────────────────────────────────────
+// Each helper accepts a `locale=` hash argument. Without it, the factory's
+// locale is used: the engine's `locale` option ("en-US" by default), which
+// can be overridden for a single call with `execute(…, { locale })`.
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// NumberHelpers are automatically pre-registered by the `Typebars`
+// constructor with the engine's locale. They can also be registered
+// manually on any object implementing `HelperRegistry`:
+//
+//   const factory = new NumberHelpers({ locale: "de-DE" });
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Static Analysis ─────────────────────────────────────────────────────────
+// The value argument is declared as a number: a string or any other
+// non-numeric argument is reported as TYPE_MISMATCH. Literal currency codes
+// must be ISO 4217 codes (3 letters). Every helper returns a string.
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface NumberHelpersOptions {
+	/**
+	 * Default BCP 47 locale of the helpers (e.g. `"fr-FR"`). A function is
+	 * called at each render, which lets the engine override the locale for
+	 * a single execution.
+	 * @default "en-US"
+	 */
+	locale?: string | (() => string);
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_LOCALE = "en-US";
+
+/** Units of `formatBytes`, each 1000 times the previous one */
+const BYTE_UNITS = [
+	"byte",
+	"kilobyte",
+	"megabyte",
+	"gigabyte",
+	"terabyte",
+	"petabyte",
+] as const;
+
+/** Displays of the currency accepted by `formatCurrency` */
+const CURRENCY_DISPLAYS = ["symbol", "narrowSymbol", "code", "name"] as const;
+
+/** Displays of the compact notation accepted by `formatCompact` */
+const COMPACT_DISPLAYS = ["short", "long"] as const;
+
+const CURRENCY_CODE = /^[A-Za-z]{3}$/;
+
+const VALUE_PARAM = {
+	name: "value",
+	type: { type: "number" as const },
+	description: "The number to format",
+};
+
+const LOCALE_HASH: HelperHashParam = {
+	type: { type: "string" },
+	description: "BCP 47 locale (default: the engine's locale)",
+	optional: true,
+};
+
+// ─── Internal utilities ─────────────────────────────────────────────────────
+
+/** `Intl.NumberFormat` instances are costly to create: cache them. */
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(
+	locale: string,
+	options: Intl.NumberFormatOptions,
+): Intl.NumberFormat {
+	const key = `${locale}|${JSON.stringify(options)}`;
+	let formatter = formatters.get(key);
+	if (!formatter) {
+		formatter = new Intl.NumberFormat(locale, options);
+		formatters.set(key, formatter);
+	}
+	return formatter;
+}
+
+/**
+ * Fraction digit options for an optional `decimals` argument: an exact
+ * number of decimals when given, the `Intl` defaults otherwise.
+ */
+function fractionDigits(decimals: unknown): Intl.NumberFormatOptions {
+	if (decimals === undefined || decimals === null) return {};
+	const digits = toNumber(decimals);
+	if (Number.isNaN(digits)) return {};
+	const clamped = Math.min(Math.max(Math.trunc(digits), 0), 20);
+	return { minimumFractionDigits: clamped, maximumFractionDigits: clamped };
+}
+
+/** Picks a hash value among the allowed choices. */
+function choice<T extends string>(
+	value: unknown,
+	allowed: readonly T[],
+): T | undefined {
+	return allowed.includes(value as T) ? (value as T) : undefined;
+}
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class NumberHelpers extends HelperFactory {
+	private readonly defaultLocale: string | (() => string);
+
+	constructor(options: NumberHelpersOptions = {}) {
+		super();
+		this.defaultLocale = options.locale ?? DEFAULT_LOCALE;
+		// Fail fast on an invalid locale rather than at the first render
+		if (typeof this.defaultLocale === "string") {
+			Intl.getCanonicalLocales(this.defaultLocale);
+		}
+	}
+
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerNumbers(defs);
+		this.registerCurrency(defs);
+		this.registerUnits(defs);
+	}
+
+	/** Locale of a call: the `locale=` argument or the factory default */
+	private locale(hash: { locale?: unknown }): string {
+		if (typeof hash.locale === "string" && hash.locale !== "") {
+			return hash.locale;
+		}
+		return typeof this.defaultLocale === "function"
+			? this.defaultLocale()
+			: this.defaultLocale;
+	}
+
+	/**
+	 * Formats a value, or returns `""` when it is not a number (a missing
+	 * property renders as an empty string, like in Handlebars).
+	 */
+	private format(
+		value: unknown,
+		hash: { locale?: unknown },
+		options: Intl.NumberFormatOptions,
+	): string {
+		const number = toNumber(value);
+		if (Number.isNaN(number)) return "";
+		return getFormatter(this.locale(hash), options).format(number);
+	}
+
+	// ── Numbers ──────────────────────────────────────────────────────
+
+	/** Registers formatNumber, formatPercent, formatCompact */
+	private registerNumbers(defs: Map<string, HelperDefinition>): void {
+		const decimalsParam = (defaultDescription: string) => ({
+			name: "decimals",
+			type: { type: "number" as const },
+			description: `Exact number of decimals (default: ${defaultDescription})`,
+			optional: true,
+		});
+
+		// formatNumber — {{ formatNumber total 2 }} → "1,234.57"
+		defs.set("formatNumber", {
+			fn: (value: unknown, decimals: unknown, hash: { locale?: unknown }) =>
+				this.format(value, hash, fractionDigits(decimals)),
+			params: [VALUE_PARAM, decimalsParam("up to 3")],
+			hash: { locale: LOCALE_HASH },
+			returnType: { type: "string" },
+			description:
+				"Formats a number with the locale's grouping and decimal separators: {{ formatNumber total 2 }}",
+		});
+
+		// formatPercent — {{ formatPercent 0.256 1 }} → "25.6%"
+		defs.set("formatPercent", {
+			fn: (value: unknown, decimals: unknown, hash: { locale?: unknown }) =>
+				this.format(value, hash, {
+					style: "percent",
+					...fractionDigits(decimals),
+				}),
+			params: [
+				{ ...VALUE_PARAM, description: "The ratio to format (1 = 100%)" },
+				decimalsParam("0"),
+			],
+			hash: { locale: LOCALE_HASH },
+			returnType: { type: "string" },
+			description:
+				"Formats a ratio as a percentage: {{ formatPercent ratio 1 }}",
+		});
+
+		// formatCompact — {{ formatCompact 1234 }} → "1.2K"
+		defs.set("formatCompact", {
+			fn: (
+				value: unknown,
+				decimals: unknown,
+				hash: { locale?: unknown; display?: unknown },
+			) =>
+				this.format(value, hash, {
+					notation: "compact",
+					compactDisplay: choice(hash.display, COMPACT_DISPLAYS),
+					...fractionDigits(decimals),
+				}),
+			params: [VALUE_PARAM, decimalsParam("up to 1 below 100")],
+			hash: {
+				locale: LOCALE_HASH,
+				display: {
+					type: { type: "string", enum: [...COMPACT_DISPLAYS] },
+					description: '"short" (1.2K, default) or "long" (1.2 thousand)',
+					optional: true,
+				},
+			},
+			returnType: { type: "string" },
+			description:
+				"Formats a number in compact notation: {{ formatCompact followers }}",
+		});
+	}
+
+	// ── Currency ─────────────────────────────────────────────────────
+
+	/** Registers formatCurrency */
+	private registerCurrency(defs: Map<string, HelperDefinition>): void {
+		// formatCurrency — {{ formatCurrency total "EUR" locale="fr-FR" }}
+		//                  → "1 234,56 €"
+		defs.set("formatCurrency", {
+			fn: (
+				value: unknown,
+				currency: unknown,
+				decimals: unknown,
+				hash: { locale?: unknown; display?: unknown },
+			) => {
+				if (typeof currency !== "string" || !CURRENCY_CODE.test(currency)) {
+					return "";
+				}
+				return this.format(value, hash, {
+					style: "currency",
+					currency,
+					currencyDisplay: choice(hash.display, CURRENCY_DISPLAYS),
+					...fractionDigits(decimals),
+				});
+			},
+			params: [
+				{ ...VALUE_PARAM, description: "The amount" },
+				{
+					name: "currency",
+					type: { type: "string" },
+					description: 'ISO 4217 currency code (e.g. "EUR")',
+				},
+				{
+					name: "decimals",
+					type: { type: "number" },
+					description: "Exact number of decimals (default: the currency's)",
+					optional: true,
+				},
+			],
+			hash: {
+				locale: LOCALE_HASH,
+				display: {
+					type: { type: "string", enum: [...CURRENCY_DISPLAYS] },
+					description: `Currency display: ${CURRENCY_DISPLAYS.join(", ")} (default: symbol)`,
+					optional: true,
+				},
+			},
+			returnType: { type: "string" },
+			inferReturnType: (_args, _hash, ctx) => {
+				const currency = ctx.literalArgs[1];
+				if (typeof currency === "string" && !CURRENCY_CODE.test(currency)) {
+					ctx.report(
+						"error",
+						"TYPE_MISMATCH",
+						`Helper "${ctx.helperName}" expects an ISO 4217 currency code, but got "${currency}"`,
+						{ expected: "ISO 4217 currency code", actual: currency },
+					);
+				}
+				return undefined;
+			},
+			description:
+				'Formats an amount in a currency: {{ formatCurrency total "EUR" }}',
+		});
+	}
+
+	// ── Units ────────────────────────────────────────────────────────
+
+	/** Registers formatBytes */
+	private registerUnits(defs: Map<string, HelperDefinition>): void {
+		// formatBytes — {{ formatBytes size }} → "1.5 MB"
+		defs.set("formatBytes", {
+			fn: (value: unknown, decimals: unknown, hash: { locale?: unknown }) => {
+				let size = toNumber(value);
+				if (Number.isNaN(size)) return "";
+				let unit = 0;
+				while (Math.abs(size) >= 1000 && unit < BYTE_UNITS.length - 1) {
+					size /= 1000;
+					unit++;
+				}
+				const digits =
+					decimals === undefined || decimals === null
+						? { maximumFractionDigits: 1 }
+						: fractionDigits(decimals);
+				return this.format(size, hash, {
+					style: "unit",
+					unit: BYTE_UNITS[unit],
+					...digits,
+				});
+			},
+			params: [
+				{ ...VALUE_PARAM, description: "The size in bytes" },
+				{
+					name: "decimals",
+					type: { type: "number" },
+					description: "Exact number of decimals (default: up to 1)",
+					optional: true,
+				},
+			],
+			hash: { locale: LOCALE_HASH },
+			returnType: { type: "string" },
+			description:
+				"Formats a size in bytes with a decimal unit (kB, MB, …): {{ formatBytes size }}",
+		});
+	}
+}
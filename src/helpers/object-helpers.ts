@@ -0,0 +1,451 @@
+import type { JSONSchema7 } from "json-schema";
+import {
+	resolveObjectEntries,
+	resolveRef,
+	simplifySchema,
+} from "../schema-resolver.ts";
+import type { HelperDefinition, HelperInferenceContext } from "../types.ts";
+import { getSchemaPropertyNames } from "../utils.ts";
+import { HelperFactory } from "./helper-factory.ts";
+
+// ─── ObjectHelpers ───────────────────────────────────────────────────────────
+// Aggregates helpers that build and reshape objects.
+//
+// - **Building**   — `object`, `merge`
+// - **Reshaping**  — `pick`, `omit`
+// - **Inspecting** — `keys`, `values`, `entries`
+//
+// Usage: `{{ pick user "id" "name" }}`,
+//        `{{ object "id" user.id "label" (uppercase user.name) }}`,
+//        `{{#each (entries settings)}}{{key}}={{value}} {{/each}}`
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// ObjectHelpers are automatically pre-registered by the `Typebars`
+// constructor. They can also be registered manually on any object
+// implementing `HelperRegistry`:
+//
+//   const factory = new ObjectHelpers();
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Execution ───────────────────────────────────────────────────────────────
+// Helpers returning objects or arrays are flagged `directExecution`: like
+// `array`, they are executed directly in single-expression mode so the raw
+// object (or array) is returned.
+//
+// ─── Static Analysis ─────────────────────────────────────────────────────────
+// Each helper computes a precise output schema (via `inferReturnType`):
+// `pick user "id" "name"` keeps only these properties and their `required`
+// status, `omit` removes them, `merge` combines the properties of its
+// arguments, `object` builds the schema from its key/value pairs and
+// `keys`/`values`/`entries` derive their items from the object schema.
+// Literal keys must exist in the object schema (UNKNOWN_PROPERTY).
+
+// ─── Internal utilities ─────────────────────────────────────────────────────
+
+/**
+ * Checks whether a value is a Handlebars options object.
+ * Handlebars always passes an options object as the last argument to helpers.
+ */
+function isHandlebarsOptions(value: unknown): boolean {
+	return (
+		value !== null &&
+		typeof value === "object" &&
+		"hash" in (value as Record<string, unknown>) &&
+		"name" in (value as Record<string, unknown>)
+	);
+}
+
+/** Variadic arguments without the trailing Handlebars options object. */
+function variadic(args: unknown[]): unknown[] {
+	return args.filter((a) => !isHandlebarsOptions(a));
+}
+
+/** Returns the value as a plain object; anything else becomes `{}`. */
+function toRecord(value: unknown): Record<string, unknown> {
+	return value !== null && typeof value === "object" && !Array.isArray(value)
+		? (value as Record<string, unknown>)
+		: {};
+}
+
+/** Key arguments as strings — arrays of keys are accepted too. */
+function toKeys(args: unknown[]): string[] {
+	return args.flat().map(String);
+}
+
+// ─── Static analysis utilities ───────────────────────────────────────────────
+
+/** The resolved object schema of an argument, or `undefined` when unknown. */
+function objectOf(
+	schema: JSONSchema7 | undefined,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	if (!schema) return undefined;
+	const resolved = resolveRef(schema, ctx.root);
+	return resolveObjectEntries(resolved, ctx.root) ? resolved : undefined;
+}
+
+/**
+ * Literal key arguments starting at `from`, or `undefined` when one of
+ * them is not a string literal (keys unknown statically).
+ */
+function literalKeys(
+	ctx: HelperInferenceContext,
+	from: number,
+): string[] | undefined {
+	const keys = ctx.literalArgs.slice(from);
+	if (keys.some((key) => typeof key !== "string")) return undefined;
+	return keys as string[];
+}
+
+/**
+ * Resolves the schema of a key in an object schema. Unknown keys are
+ * reported when the object declares its properties; keys of objects with
+ * an unknown shape resolve to `{}`.
+ */
+function resolveKey(
+	object: JSONSchema7,
+	key: string,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	const resolved = ctx.resolvePath(object, [key]);
+	if (resolved) return resolved;
+
+	const availableProperties = getSchemaPropertyNames(object);
+	if (availableProperties.length === 0) return {};
+	ctx.report(
+		"error",
+		"UNKNOWN_PROPERTY",
+		`Helper "${ctx.helperName}": property "${key}" does not exist in the object`,
+		{ path: key, availableProperties },
+	);
+	return undefined;
+}
+
+/** `{ type: "object", properties, required }`, omitting an empty `required`. */
+function objectSchema(
+	properties: Record<string, JSONSchema7>,
+	required: string[],
+): JSONSchema7 {
+	return required.length > 0
+		? { type: "object", properties, required }
+		: { type: "object", properties };
+}
+
+/** Output schema of `pick`: only the listed properties, `required` kept. */
+function inferPick(
+	[value]: (JSONSchema7 | undefined)[],
+	_hash: Record<string, JSONSchema7 | undefined>,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	const object = objectOf(value, ctx);
+	const keys = literalKeys(ctx, 1);
+	if (!object || !keys) return undefined;
+
+	const properties: Record<string, JSONSchema7> = {};
+	const required: string[] = [];
+	for (const key of keys) {
+		const schema = resolveKey(object, key, ctx);
+		if (!schema) continue;
+		properties[key] = schema;
+		if (object.required?.includes(key) && !required.includes(key)) {
+			required.push(key);
+		}
+	}
+	return objectSchema(properties, required);
+}
+
+/** Output schema of `omit`: the object schema without the listed keys. */
+function inferOmit(
+	[value]: (JSONSchema7 | undefined)[],
+	_hash: Record<string, JSONSchema7 | undefined>,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	const object = objectOf(value, ctx);
+	const keys = literalKeys(ctx, 1);
+	if (!object || !keys) return undefined;
+
+	for (const key of keys) resolveKey(object, key, ctx);
+
+	const { properties, required, ...rest } = object;
+	const result: JSONSchema7 = { ...rest };
+	if (properties) {
+		result.properties = Object.fromEntries(
+			Object.entries(properties).filter(([key]) => !keys.includes(key)),
+		);
+	}
+	const remaining = required?.filter((key) => !keys.includes(key)) ?? [];
+	if (remaining.length > 0) result.required = remaining;
+	return result;
+}
+
+/**
+ * Output schema of `merge`: the properties of all arguments, later ones
+ * overriding earlier ones. A property that is optional in a later argument
+ * can keep the earlier value, so both types are kept.
+ */
+function inferMerge(
+	argSchemas: (JSONSchema7 | undefined)[],
+	_hash: Record<string, JSONSchema7 | undefined>,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	const properties: Record<string, JSONSchema7> = {};
+	const required: string[] = [];
+
+	for (const schema of argSchemas) {
+		const object = objectOf(schema, ctx);
+		// Objects of unknown shape can override any property
+		if (!object || getSchemaPropertyNames(object).length === 0) {
+			return undefined;
+		}
+
+		for (const key of Object.keys(object.properties ?? {})) {
+			const next = ctx.resolvePath(object, [key]) ?? {};
+			const previous = properties[key];
+			const isRequired = object.required?.includes(key) ?? false;
+			properties[key] =
+				previous && !isRequired
+					? simplifySchema({ oneOf: [previous, next] })
+					: next;
+			if (isRequired && !required.includes(key)) required.push(key);
+		}
+	}
+	return objectSchema(properties, required);
+}
+
+/**
+ * Output schema of `object`: one property per key/value pair. Every key is
+ * always present in the result, hence `required`.
+ */
+function inferObject(
+	argSchemas: (JSONSchema7 | undefined)[],
+	hashSchemas: Record<string, JSONSchema7 | undefined>,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	const hashKeys = Object.keys(hashSchemas);
+	if (argSchemas.length === 0 && hashKeys.length === 0) {
+		ctx.report(
+			"error",
+			"MISSING_ARGUMENT",
+			`Helper "${ctx.helperName}" expects key/value pairs or key=value arguments`,
+			{ expected: "key/value pairs" },
+		);
+	} else if (argSchemas.length % 2 !== 0) {
+		ctx.report(
+			"error",
+			"MISSING_ARGUMENT",
+			`Helper "${ctx.helperName}" expects key/value pairs, but the last key has no value`,
+			{ expected: "an even number of arguments" },
+		);
+	}
+
+	const properties: Record<string, JSONSchema7> = {};
+	for (let i = 0; i < argSchemas.length; i += 2) {
+		const key = ctx.literalArgs[i];
+		if (typeof key !== "string") return undefined;
+		properties[key] = argSchemas[i + 1] ?? {};
+	}
+	// key=value arguments come after the pairs: they win on duplicates
+	for (const key of hashKeys) {
+		properties[key] = hashSchemas[key] ?? {};
+	}
+	return objectSchema(properties, Object.keys(properties));
+}
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class ObjectHelpers extends HelperFactory {
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerBuilding(defs);
+		this.registerReshaping(defs);
+		this.registerInspecting(defs);
+	}
+
+	// ── Building ─────────────────────────────────────────────────────
+
+	/** Registers object, merge */
+	private registerBuilding(defs: Map<string, HelperDefinition>): void {
+		// object — {{ object "id" user.id "name" user.name }} or {{ object id=user.id }}
+		defs.set("object", {
+			directExecution: true,
+			fn: (
+				key: unknown,
+				value: unknown,
+				hash: Record<string, unknown>,
+				...rest: unknown[]
+			) => {
+				// The declared hash comes right after the first key/value pair,
+				// the other pairs follow it
+				const pairs = [key, value, ...variadic(rest)];
+				const result: Record<string, unknown> = {};
+				for (let i = 0; i + 1 < pairs.length; i += 2) {
+					// Omitted key arguments are padded with `undefined`
+					if (pairs[i] === undefined) continue;
+					result[String(pairs[i])] = pairs[i + 1];
+				}
+				return Object.assign(result, hash);
+			},
+			params: [
+				{
+					name: "key",
+					type: { type: "string" },
+					description: "Name of the first property",
+					optional: true,
+				},
+				{
+					name: "value",
+					description:
+						"Value of the first property, followed by more key/value pairs (variadic)",
+					optional: true,
+				},
+			],
+			hash: {},
+			additionalHash: {
+				description: "Property of the object, named by the key",
+			},
+			returnType: { type: "object" },
+			inferReturnType: inferObject,
+			description:
+				'Builds an object from key/value pairs or key=value arguments: {{ object "id" user.id "name" user.name }}',
+		});
+
+		// merge — {{ merge defaults settings }} (shallow, later wins)
+		defs.set("merge", {
+			directExecution: true,
+			fn: (...args: unknown[]) =>
+				Object.assign({}, ...variadic(args).map(toRecord)),
+			params: [
+				{
+					name: "objects",
+					type: { type: "object" },
+					description:
+						"Two or more objects, later ones overriding earlier ones (variadic)",
+				},
+			],
+			returnType: { type: "object" },
+			inferReturnType: inferMerge,
+			description:
+				"Merges objects shallowly, later ones winning: {{ merge defaults settings }}",
+		});
+	}
+
+	// ── Reshaping ────────────────────────────────────────────────────
+
+	/** Registers pick, omit */
+	private registerReshaping(defs: Map<string, HelperDefinition>): void {
+		const keyParams = [
+			{
+				name: "object",
+				type: { type: "object" as const },
+				description: "The object",
+			},
+			{
+				name: "keys",
+				type: { type: "string" as const },
+				description: "One or more property names (variadic)",
+			},
+		];
+
+		// pick — {{ pick user "id" "name" }}
+		defs.set("pick", {
+			directExecution: true,
+			fn: (object: unknown, ...keys: unknown[]) => {
+				const source = toRecord(object);
+				const result: Record<string, unknown> = {};
+				for (const key of toKeys(variadic(keys))) {
+					if (Object.hasOwn(source, key)) result[key] = source[key];
+				}
+				return result;
+			},
+			params: keyParams,
+			returnType: { type: "object" },
+			inferReturnType: inferPick,
+			description:
+				'Keeps only the listed properties: {{ pick user "id" "name" }}',
+		});
+
+		// omit — {{ omit user "password" }}
+		defs.set("omit", {
+			directExecution: true,
+			fn: (object: unknown, ...keys: unknown[]) => {
+				const omitted = toKeys(variadic(keys));
+				return Object.fromEntries(
+					Object.entries(toRecord(object)).filter(
+						([key]) => !omitted.includes(key),
+					),
+				);
+			},
+			params: keyParams,
+			returnType: { type: "object" },
+			inferReturnType: inferOmit,
+			description: 'Removes the listed properties: {{ omit user "password" }}',
+		});
+	}
+
+	// ── Inspecting ───────────────────────────────────────────────────
+
+	/** Registers keys, values, entries */
+	private registerInspecting(defs: Map<string, HelperDefinition>): void {
+		const objectParam = {
+			name: "object",
+			type: { type: "object" as const },
+			description: "The object",
+		};
+
+		// keys — {{ keys settings }}
+		defs.set("keys", {
+			directExecution: true,
+			fn: (object: unknown) => Object.keys(toRecord(object)),
+			params: [objectParam],
+			returnType: { type: "array", items: { type: "string" } },
+			inferReturnType: ([value], _hash, ctx) => {
+				const entries = value && resolveObjectEntries(value, ctx.root);
+				return entries ? { type: "array", items: entries.key } : undefined;
+			},
+			description:
+				"Returns the property names of an object: {{ keys settings }}",
+		});
+
+		// values — {{ values settings }}
+		defs.set("values", {
+			directExecution: true,
+			fn: (object: unknown) => Object.values(toRecord(object)),
+			params: [objectParam],
+			returnType: { type: "array" },
+			inferReturnType: ([value], _hash, ctx) => {
+				const entries = value && resolveObjectEntries(value, ctx.root);
+				return entries ? { type: "array", items: entries.value } : undefined;
+			},
+			description:
+				"Returns the property values of an object: {{ values settings }}",
+		});
+
+		// entries — {{#each (entries settings)}}{{key}}={{value}}{{/each}}
+		defs.set("entries", {
+			directExecution: true,
+			fn: (object: unknown) =>
+				Object.entries(toRecord(object)).map(([key, value]) => ({
+					key,
+					value,
+				})),
+			params: [objectParam],
+			returnType: { type: "array" },
+			inferReturnType: ([value], _hash, ctx) => {
+				const entries = value && resolveObjectEntries(value, ctx.root);
+				if (!entries) return undefined;
+				return {
+					type: "array",
+					items: {
+						type: "object",
+						properties: { key: entries.key, value: entries.value },
+						required: ["key", "value"],
+					},
+				};
+			},
+			description:
+				"Returns the { key, value } pairs of an object: {{ entries settings }}",
+		});
+	}
+}
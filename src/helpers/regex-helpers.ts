@@ -0,0 +1,405 @@
+import type { JSONSchema7 } from "json-schema";
+import type { HelperDefinition, HelperInferenceContext } from "../types.ts";
+import { LRUCache } from "../utils.ts";
+import { HelperFactory } from "./helper-factory.ts";
+
+// ─── RegexHelpers ────────────────────────────────────────────────────────────
+// Aggregates helpers matching strings against regular expressions.
+//
+// - **`test`**         — whether the string matches: `{{ test code "^[A-Z]{3}$" }}`
+// - **`match`**        — every match: `{{ match text "\d+" }}` → `["12", "7"]`
+// - **`extract`**      — capture groups of the first match:
+//   `{{ extract url "/users/(?<id>\d+)" }}` → `{ id: "42" }`
+// - **`replaceRegex`** — replaces every match: `{{ replaceRegex s "\s+" " " }}`
+//
+// Patterns are written without delimiters; flags (`i`, `m`, `s`, `u`, …)
+// are an optional last argument: `{{ test name "^ada" "i" }}`.
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// RegexHelpers are automatically pre-registered by the `Typebars`
+// constructor. They can also be registered manually on any object
+// implementing `HelperRegistry`:
+//
+//   const factory = new RegexHelpers();
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Execution ───────────────────────────────────────────────────────────────
+// Each factory compiles a pattern once and caches the `RegExp` (LRU): as
+// the engine creates its own factory, the cache is per engine. All helpers
+// are flagged `directExecution` so arrays, objects and strings are
+// returned as is in single-expression mode.
+//
+// ─── Static Analysis ─────────────────────────────────────────────────────────
+// Literal patterns are compiled at analysis time: an invalid pattern or
+// flag is reported as INVALID_REGEX, located on the faulty argument.
+// `extract` infers its output from the capture groups of a literal pattern:
+// an object with one property per named group, a tuple of strings for
+// unnamed groups, or the matched string without groups — `null` when
+// nothing matches. Groups that may not participate in a match (in an
+// alternative or under `?`, `*`, `{0,…}`) are nullable.
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A capturing group of a pattern */
+interface CaptureGroup {
+	/** Name of a named group (`(?<name>…)`) */
+	name?: string;
+	/** Whether the group may not participate in a match */
+	optional: boolean;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Number of compiled patterns kept by each factory */
+const REGEX_CACHE_SIZE = 128;
+
+// ─── Internal utilities ─────────────────────────────────────────────────────
+
+/**
+ * Checks whether a value is a Handlebars options object.
+ * Handlebars always passes an options object as the last argument to helpers.
+ */
+function isHandlebarsOptions(value: unknown): boolean {
+	return (
+		value !== null &&
+		typeof value === "object" &&
+		"hash" in (value as Record<string, unknown>) &&
+		"name" in (value as Record<string, unknown>)
+	);
+}
+
+/** Flags argument as a string: `""` when omitted (options object). */
+function flagsOf(value: unknown): string {
+	return typeof value === "string" && !isHandlebarsOptions(value) ? value : "";
+}
+
+/** Adds or removes the global flag: `g` is decided by each helper. */
+function withGlobal(flags: string, global: boolean): string {
+	const others = flags.replace("g", "");
+	return global ? `${others}g` : others;
+}
+
+/**
+ * Lists the capturing groups of a pattern, in order.
+ *
+ * A group is optional when it, or a group containing it, is followed by a
+ * quantifier allowing zero repetitions, or sits in an alternation.
+ */
+function parseCaptureGroups(pattern: string): CaptureGroup[] {
+	const groups: CaptureGroup[] = [];
+	// Open groups: the capturing groups they contain, and whether they
+	// contain an alternation
+	const stack: { index: number; inner: number[]; alternation: boolean }[] = [
+		{ index: -1, inner: [], alternation: false },
+	];
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "\\") {
+			i++;
+		} else if (char === "[") {
+			// Skip the character class
+			for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+				if (pattern[i] === "\\") i++;
+			}
+		} else if (char === "(") {
+			let index = -1;
+			if (pattern[i + 1] !== "?") {
+				index = groups.push({ optional: false }) - 1;
+			} else if (
+				pattern[i + 2] === "<" &&
+				pattern[i + 3] !== "=" &&
+				pattern[i + 3] !== "!"
+			) {
+				const end = pattern.indexOf(">", i);
+				index =
+					groups.push({ name: pattern.slice(i + 3, end), optional: false }) - 1;
+			}
+			stack.push({ index, inner: [], alternation: false });
+		} else if (char === ")" && stack.length > 1) {
+			const group = stack.pop() as (typeof stack)[number];
+			const members =
+				group.index >= 0 ? [group.index, ...group.inner] : group.inner;
+			const next = pattern[i + 1];
+			const optional =
+				next === "?" ||
+				next === "*" ||
+				(next === "{" && /^\{0[,}]/.test(pattern.slice(i + 1)));
+			for (const member of group.alternation ? group.inner : []) {
+				(groups[member] as CaptureGroup).optional = true;
+			}
+			if (optional) {
+				for (const member of members) {
+					(groups[member] as CaptureGroup).optional = true;
+				}
+			}
+			(stack[stack.length - 1] as (typeof stack)[number]).inner.push(
+				...members,
+			);
+		} else if (char === "|") {
+			(stack[stack.length - 1] as (typeof stack)[number]).alternation = true;
+		}
+	}
+
+	const top = stack[0] as (typeof stack)[number];
+	if (top.alternation) {
+		for (const member of top.inner) {
+			(groups[member] as CaptureGroup).optional = true;
+		}
+	}
+	return groups;
+}
+
+// ─── Static analysis utilities ───────────────────────────────────────────────
+
+/**
+ * Compiles the literal pattern of a call, reporting INVALID_REGEX on
+ * failure. Returns `undefined` when the pattern or the flags are not
+ * literals (unknown statically) or when the pattern is invalid.
+ *
+ * @param patternIndex - Index of the pattern argument
+ * @param flagsIndex   - Index of the flags argument
+ */
+function validatePattern(
+	ctx: HelperInferenceContext,
+	patternIndex: number,
+	flagsIndex: number,
+): string | undefined {
+	const pattern = ctx.literalArgs[patternIndex];
+	const flags = ctx.literalArgs[flagsIndex];
+	if (typeof pattern !== "string") return undefined;
+	if (flags !== undefined && typeof flags !== "string") return undefined;
+
+	try {
+		new RegExp(pattern, flags);
+		return pattern;
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		ctx.report(
+			"error",
+			"INVALID_REGEX",
+			`Helper "${ctx.helperName}" received an invalid regular expression: ${reason}`,
+			{ expected: "valid regular expression", actual: pattern },
+			// Invalid flags are located on the flags argument
+			flags !== undefined && isValidPattern(pattern)
+				? flagsIndex
+				: patternIndex,
+		);
+		return undefined;
+	}
+}
+
+/** Checks whether a pattern compiles without flags. */
+function isValidPattern(pattern: string): boolean {
+	try {
+		new RegExp(pattern);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Output schema of `extract` for a literal pattern. */
+function inferExtract(
+	_args: (JSONSchema7 | undefined)[],
+	_hash: Record<string, JSONSchema7 | undefined>,
+	ctx: HelperInferenceContext,
+): JSONSchema7 | undefined {
+	const pattern = validatePattern(ctx, 1, 2);
+	if (pattern === undefined) return undefined;
+
+	const groups = parseCaptureGroups(pattern);
+	const groupSchema = (group: CaptureGroup): JSONSchema7 =>
+		group.optional ? { type: ["string", "null"] } : { type: "string" };
+
+	const named = groups.filter((group) => group.name !== undefined);
+	if (named.length > 0) {
+		const properties: Record<string, JSONSchema7> = {};
+		for (const group of named) {
+			properties[group.name as string] = groupSchema(group);
+		}
+		return {
+			type: ["object", "null"],
+			properties,
+			required: Object.keys(properties),
+		};
+	}
+	if (groups.length > 0) {
+		const optional = groups.some((group) => group.optional);
+		return {
+			type: ["array", "null"],
+			items: optional ? { type: ["string", "null"] } : { type: "string" },
+			minItems: groups.length,
+			maxItems: groups.length,
+		};
+	}
+	return { type: ["string", "null"] };
+}
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class RegexHelpers extends HelperFactory {
+	/** Compiled patterns, by flags and source */
+	private readonly cache = new LRUCache<string, RegExp>(REGEX_CACHE_SIZE);
+
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerMatching(defs);
+		this.registerReplace(defs);
+	}
+
+	/**
+	 * Compiled `RegExp` of a pattern, from the cache when possible.
+	 * @throws {SyntaxError} When the pattern or the flags are invalid
+	 */
+	private compile(pattern: unknown, flags: string): RegExp {
+		const source = String(pattern);
+		const key = `${flags}/${source}`;
+		let regex = this.cache.get(key);
+		if (!regex) {
+			regex = new RegExp(source, flags);
+			this.cache.set(key, regex);
+		}
+		return regex;
+	}
+
+	// ── Matching ─────────────────────────────────────────────────────
+
+	/** Registers test, match, extract */
+	private registerMatching(defs: Map<string, HelperDefinition>): void {
+		const params = [
+			{
+				name: "value",
+				type: { type: "string" as const },
+				description: "The string to search",
+			},
+			{
+				name: "pattern",
+				type: { type: "string" as const },
+				description: "The regular expression, without delimiters",
+			},
+			{
+				name: "flags",
+				type: { type: "string" as const },
+				description: 'Regular expression flags (e.g. "i")',
+				optional: true,
+			},
+		];
+
+		// test — {{ test code "^[A-Z]{3}$" }} → true
+		defs.set("test", {
+			directExecution: true,
+			fn: (value: unknown, pattern: unknown, flags: unknown) => {
+				if (value === null || value === undefined) return false;
+				const regex = this.compile(pattern, withGlobal(flagsOf(flags), false));
+				return regex.test(String(value));
+			},
+			params,
+			returnType: { type: "boolean" },
+			inferReturnType: (_args, _hash, ctx) => {
+				validatePattern(ctx, 1, 2);
+				return undefined;
+			},
+			description:
+				'Tests whether a string matches a regular expression: {{ test code "^[A-Z]{3}$" }}',
+		});
+
+		// match — {{ match subject "#\d+" }} → ["#12", "#7"]
+		defs.set("match", {
+			directExecution: true,
+			fn: (value: unknown, pattern: unknown, flags: unknown) => {
+				if (value === null || value === undefined) return [];
+				const regex = this.compile(pattern, withGlobal(flagsOf(flags), true));
+				return String(value).match(regex) ?? [];
+			},
+			params,
+			returnType: { type: "array", items: { type: "string" } },
+			inferReturnType: (_args, _hash, ctx) => {
+				validatePattern(ctx, 1, 2);
+				return undefined;
+			},
+			description:
+				'Returns every match of a regular expression: {{ match subject "#\\d+" }}',
+		});
+
+		// extract — {{ extract url "/users/(?<id>\d+)" }} → { id: "42" }
+		defs.set("extract", {
+			directExecution: true,
+			fn: (value: unknown, pattern: unknown, flags: unknown) => {
+				if (value === null || value === undefined) return null;
+				const regex = this.compile(pattern, withGlobal(flagsOf(flags), false));
+				const match = String(value).match(regex);
+				if (!match) return null;
+				if (match.groups) {
+					return Object.fromEntries(
+						Object.entries(match.groups).map(([name, group]) => [
+							name,
+							group ?? null,
+						]),
+					);
+				}
+				if (match.length > 1) {
+					return match.slice(1).map((group) => group ?? null);
+				}
+				return match[0];
+			},
+			params,
+			returnType: {},
+			inferReturnType: inferExtract,
+			description:
+				'Returns the capture groups of the first match — an object for named groups: {{ extract url "/users/(?<id>\\d+)" }}',
+		});
+	}
+
+	// ── Replacing ────────────────────────────────────────────────────
+
+	/** Registers replaceRegex */
+	private registerReplace(defs: Map<string, HelperDefinition>): void {
+		// replaceRegex — {{ replaceRegex phone "\D" "" }} → "0612345678"
+		defs.set("replaceRegex", {
+			directExecution: true,
+			fn: (
+				value: unknown,
+				pattern: unknown,
+				replacement: unknown,
+				flags: unknown,
+			) => {
+				if (value === null || value === undefined) return "";
+				const regex = this.compile(pattern, withGlobal(flagsOf(flags), true));
+				return String(value).replace(regex, String(replacement ?? ""));
+			},
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The string to transform",
+				},
+				{
+					name: "pattern",
+					type: { type: "string" },
+					description: "The regular expression, without delimiters",
+				},
+				{
+					name: "replacement",
+					type: { type: "string" },
+					description: "The replacement ($1, $<name> insert capture groups)",
+				},
+				{
+					name: "flags",
+					type: { type: "string" },
+					description: 'Regular expression flags (e.g. "i")',
+					optional: true,
+				},
+			],
+			returnType: { type: "string" },
+			inferReturnType: (_args, _hash, ctx) => {
+				validatePattern(ctx, 1, 3);
+				return undefined;
+			},
+			description:
+				'Replaces every match of a regular expression: {{ replaceRegex phone "\\D" "" }}',
+		});
+	}
+}
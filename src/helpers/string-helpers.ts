@@ -0,0 +1,498 @@
+import type { HelperDefinition } from "../types.ts";
+import { HelperFactory } from "./helper-factory.ts";
+import { toNumber } from "./utils.ts";
+
+// ─── StringHelpers ───────────────────────────────────────────────────────────
+// Aggregates string manipulation helpers for the template engine.
+//
+// - **Case**      — `uppercase`, `lowercase`, `titlecase`
+// - **Trimming**  — `trim`, `trimStart`, `trimEnd`
+// - **Padding**   — `padStart`, `padEnd`
+// - **Slicing**   — `truncate`, `substring`
+// - **Replacing** — `replace`, `replaceAll`
+// - **Splitting** — `split` (returns a raw `string[]`)
+// - **Testing**   — `startsWith`, `endsWith`
+// - **Misc**      — `slugify`, `length`
+//
+// Usage: `{{ uppercase name }}`, `{{ truncate bio 20 }}`,
+//        `{{#each (split tags ",")}}…{{/each}}`
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// StringHelpers are automatically pre-registered by the `Typebars`
+// constructor. They can also be registered manually on any object
+// implementing `HelperRegistry`:
+//
+//   const factory = new StringHelpers();
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Execution ───────────────────────────────────────────────────────────────
+// Helpers returning strings or arrays are flagged `directExecution`: they
+// are executed directly in single-expression mode so the value is returned
+// as is — `{{ padStart code 5 "0" }}` is the string "00042", not the number
+// a rendered "00042" would be coerced to, and `{{ split tags "," }}` is a
+// `string[]`.
+//
+// ─── Value conversion ────────────────────────────────────────────────────────
+// Values are converted with `String()`; `null` and `undefined` become `""`.
+// Lengths and positions are measured in UTF-16 code units, like
+// `String.prototype.length`.
+
+// ─── Internal utilities ─────────────────────────────────────────────────────
+
+/**
+ * Checks whether a value is a Handlebars options object.
+ * Handlebars always passes an options object as the last argument to helpers.
+ */
+function isHandlebarsOptions(value: unknown): boolean {
+	return (
+		value !== null &&
+		typeof value === "object" &&
+		"hash" in (value as Record<string, unknown>) &&
+		"name" in (value as Record<string, unknown>)
+	);
+}
+
+/**
+ * Normalizes an optional argument: the trailing Handlebars options object
+ * (passed when the argument is omitted) becomes `undefined`.
+ */
+function optional(value: unknown): unknown {
+	return isHandlebarsOptions(value) ? undefined : value;
+}
+
+/** Converts a value to a string; `null` / `undefined` become `""`. */
+function str(value: unknown): string {
+	if (value === null || value === undefined) return "";
+	return String(value);
+}
+
+/** Converts a value to an integer with a fallback of `0`. */
+function int(value: unknown): number {
+	return Math.trunc(toNumber(value, 0));
+}
+
+/** Capitalizes the first letter of each word and lowercases the rest. */
+function toTitleCase(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(
+			/(^|[\s\-_])(\p{L})/gu,
+			(_, sep: string, letter: string) => `${sep}${letter.toUpperCase()}`,
+		);
+}
+
+/**
+ * Converts a string to a URL-friendly slug: diacritics are removed,
+ * letters are lowercased and runs of other characters become `-`.
+ */
+function toSlug(value: string): string {
+	return value
+		.normalize("NFKD")
+		.replace(/\p{M}/gu, "")
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, "-")
+		.replace(/^-+|-+$/g, "");
+}
+
+/** Default suffix appended by `truncate` */
+const DEFAULT_ELLIPSIS = "…";
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class StringHelpers extends HelperFactory {
+	/** The name used for special-case detection in the executor */
+	static readonly SPLIT_HELPER_NAME = "split";
+
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerCase(defs);
+		this.registerTrim(defs);
+		this.registerPad(defs);
+		this.registerSlicing(defs);
+		this.registerReplace(defs);
+		this.registerSplit(defs);
+		this.registerTests(defs);
+		this.registerMisc(defs);
+	}
+
+	// ── Case ─────────────────────────────────────────────────────────
+
+	/** Registers uppercase, lowercase, titlecase */
+	private registerCase(defs: Map<string, HelperDefinition>): void {
+		// uppercase — {{ uppercase name }}
+		defs.set("uppercase", {
+			directExecution: true,
+			fn: (value: unknown) => str(value).toUpperCase(),
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The string to convert",
+				},
+			],
+			returnType: { type: "string" },
+			description: "Converts a string to UPPERCASE: {{ uppercase name }}",
+		});
+
+		// lowercase — {{ lowercase name }}
+		defs.set("lowercase", {
+			directExecution: true,
+			fn: (value: unknown) => str(value).toLowerCase(),
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The string to convert",
+				},
+			],
+			returnType: { type: "string" },
+			description: "Converts a string to lowercase: {{ lowercase name }}",
+		});
+
+		// titlecase — {{ titlecase name }}
+		defs.set("titlecase", {
+			directExecution: true,
+			fn: (value: unknown) => toTitleCase(str(value)),
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The string to convert",
+				},
+			],
+			returnType: { type: "string" },
+			description:
+				'Capitalizes each word and lowercases the rest: {{ titlecase "hello WORLD" }} → "Hello World"',
+		});
+	}
+
+	// ── Trimming ─────────────────────────────────────────────────────
+
+	/** Registers trim, trimStart, trimEnd */
+	private registerTrim(defs: Map<string, HelperDefinition>): void {
+		const params = [
+			{
+				name: "value",
+				type: { type: "string" as const },
+				description: "The string to trim",
+			},
+		];
+
+		// trim — {{ trim value }}
+		defs.set("trim", {
+			directExecution: true,
+			fn: (value: unknown) => str(value).trim(),
+			params,
+			returnType: { type: "string" },
+			description: "Removes leading and trailing whitespace: {{ trim value }}",
+		});
+
+		// trimStart — {{ trimStart value }}
+		defs.set("trimStart", {
+			directExecution: true,
+			fn: (value: unknown) => str(value).trimStart(),
+			params,
+			returnType: { type: "string" },
+			description: "Removes leading whitespace: {{ trimStart value }}",
+		});
+
+		// trimEnd — {{ trimEnd value }}
+		defs.set("trimEnd", {
+			directExecution: true,
+			fn: (value: unknown) => str(value).trimEnd(),
+			params,
+			returnType: { type: "string" },
+			description: "Removes trailing whitespace: {{ trimEnd value }}",
+		});
+	}
+
+	// ── Padding ──────────────────────────────────────────────────────
+
+	/** Registers padStart, padEnd */
+	private registerPad(defs: Map<string, HelperDefinition>): void {
+		const params = [
+			{
+				name: "value",
+				type: { type: "string" as const },
+				description: "The string to pad",
+			},
+			{
+				name: "length",
+				type: { type: "number" as const },
+				description: "Target length",
+			},
+			{
+				name: "fill",
+				type: { type: "string" as const },
+				description: 'Padding string (default: " ")',
+				optional: true,
+			},
+		];
+
+		// padStart — {{ padStart id 6 "0" }}
+		defs.set("padStart", {
+			directExecution: true,
+			fn: (value: unknown, length: unknown, fill: unknown) => {
+				const padding = optional(fill);
+				return str(value).padStart(
+					int(length),
+					padding === undefined ? " " : str(padding),
+				);
+			},
+			params,
+			returnType: { type: "string" },
+			description:
+				'Pads the start of a string to a target length: {{ padStart id 6 "0" }}',
+		});
+
+		// padEnd — {{ padEnd label 10 }}
+		defs.set("padEnd", {
+			directExecution: true,
+			fn: (value: unknown, length: unknown, fill: unknown) => {
+				const padding = optional(fill);
+				return str(value).padEnd(
+					int(length),
+					padding === undefined ? " " : str(padding),
+				);
+			},
+			params,
+			returnType: { type: "string" },
+			description:
+				"Pads the end of a string to a target length: {{ padEnd label 10 }}",
+		});
+	}
+
+	// ── Slicing ──────────────────────────────────────────────────────
+
+	/** Registers truncate, substring */
+	private registerSlicing(defs: Map<string, HelperDefinition>): void {
+		// truncate — {{ truncate bio 20 }} or {{ truncate bio 20 "..." }}
+		// The ellipsis counts towards the maximum length.
+		defs.set("truncate", {
+			directExecution: true,
+			fn: (value: unknown, length: unknown, ellipsis: unknown) => {
+				const s = str(value);
+				const max = Math.max(0, int(length));
+				if (s.length <= max) return s;
+				const suffixArg = optional(ellipsis);
+				const suffix =
+					suffixArg === undefined ? DEFAULT_ELLIPSIS : str(suffixArg);
+				if (suffix.length >= max) return suffix.slice(0, max);
+				return s.slice(0, max - suffix.length) + suffix;
+			},
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The string to truncate",
+				},
+				{
+					name: "length",
+					type: { type: "number" },
+					description: "Maximum length, ellipsis included",
+				},
+				{
+					name: "ellipsis",
+					type: { type: "string" },
+					description: `Suffix appended when the string is cut (default: "${DEFAULT_ELLIPSIS}")`,
+					optional: true,
+				},
+			],
+			returnType: { type: "string" },
+			description:
+				"Cuts a string to a maximum length and appends an ellipsis: {{ truncate bio 20 }}",
+		});
+
+		// substring — {{ substring value 0 3 }}
+		defs.set("substring", {
+			directExecution: true,
+			fn: (value: unknown, start: unknown, end: unknown) => {
+				const endArg = optional(end);
+				return str(value).substring(
+					int(start),
+					endArg === undefined ? undefined : int(endArg),
+				);
+			},
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The source string",
+				},
+				{
+					name: "start",
+					type: { type: "number" },
+					description: "Index of the first character",
+				},
+				{
+					name: "end",
+					type: { type: "number" },
+					description: "Index after the last character (default: end)",
+					optional: true,
+				},
+			],
+			returnType: { type: "string" },
+			description:
+				"Returns the part of a string between two indexes: {{ substring value 0 3 }}",
+		});
+	}
+
+	// ── Replacing ────────────────────────────────────────────────────
+
+	/** Registers replace, replaceAll */
+	private registerReplace(defs: Map<string, HelperDefinition>): void {
+		const params = [
+			{
+				name: "value",
+				type: { type: "string" as const },
+				description: "The source string",
+			},
+			{
+				name: "search",
+				type: { type: "string" as const },
+				description: "The substring to look for",
+			},
+			{
+				name: "replacement",
+				type: { type: "string" as const },
+				description: "The replacement string",
+			},
+		];
+
+		// replace — {{ replace value "a" "b" }} (first occurrence)
+		defs.set("replace", {
+			directExecution: true,
+			fn: (value: unknown, search: unknown, replacement: unknown) =>
+				str(value).replace(str(search), () => str(replacement)),
+			params,
+			returnType: { type: "string" },
+			description:
+				'Replaces the first occurrence of a substring: {{ replace value "a" "b" }}',
+		});
+
+		// replaceAll — {{ replaceAll value "a" "b" }}
+		defs.set("replaceAll", {
+			directExecution: true,
+			fn: (value: unknown, search: unknown, replacement: unknown) =>
+				str(value).replaceAll(str(search), () => str(replacement)),
+			params,
+			returnType: { type: "string" },
+			description:
+				'Replaces every occurrence of a substring: {{ replaceAll value "a" "b" }}',
+		});
+	}
+
+	// ── Splitting ────────────────────────────────────────────────────
+
+	/** Registers split */
+	private registerSplit(defs: Map<string, HelperDefinition>): void {
+		// split — {{ split tags "," }} → string[]
+		// An empty string yields an empty array (not `[""]`).
+		defs.set(StringHelpers.SPLIT_HELPER_NAME, {
+			directExecution: true,
+			fn: (value: unknown, separator: unknown) => {
+				const s = str(value);
+				if (s === "") return [];
+				return s.split(str(separator));
+			},
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The string to split",
+				},
+				{
+					name: "separator",
+					type: { type: "string" },
+					description: "The separator",
+				},
+			],
+			returnType: { type: "array", items: { type: "string" } },
+			description:
+				'Splits a string into an array of strings: {{ split tags "," }}',
+		});
+	}
+
+	// ── Tests ────────────────────────────────────────────────────────
+
+	/** Registers startsWith, endsWith */
+	private registerTests(defs: Map<string, HelperDefinition>): void {
+		// startsWith — {{#if (startsWith code "FR")}}…{{/if}}
+		defs.set("startsWith", {
+			fn: (value: unknown, search: unknown) =>
+				str(value).startsWith(str(search)),
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The string to test",
+				},
+				{
+					name: "search",
+					type: { type: "string" },
+					description: "The expected prefix",
+				},
+			],
+			returnType: { type: "boolean" },
+			description:
+				'Checks whether a string starts with a prefix: {{#if (startsWith code "FR")}}',
+		});
+
+		// endsWith — {{#if (endsWith file ".pdf")}}…{{/if}}
+		defs.set("endsWith", {
+			fn: (value: unknown, search: unknown) => str(value).endsWith(str(search)),
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The string to test",
+				},
+				{
+					name: "search",
+					type: { type: "string" },
+					description: "The expected suffix",
+				},
+			],
+			returnType: { type: "boolean" },
+			description:
+				'Checks whether a string ends with a suffix: {{#if (endsWith file ".pdf")}}',
+		});
+	}
+
+	// ── Misc ─────────────────────────────────────────────────────────
+
+	/** Registers slugify, length */
+	private registerMisc(defs: Map<string, HelperDefinition>): void {
+		// slugify — {{ slugify title }}
+		defs.set("slugify", {
+			directExecution: true,
+			fn: (value: unknown) => toSlug(str(value)),
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The string to convert",
+				},
+			],
+			returnType: { type: "string" },
+			description:
+				'Converts a string to a URL-friendly slug: {{ slugify "Héllo World!" }} → "hello-world"',
+		});
+
+		// length — {{ length name }}
+		defs.set("length", {
+			fn: (value: unknown) => str(value).length,
+			params: [
+				{
+					name: "value",
+					type: { type: "string" },
+					description: "The string to measure",
+				},
+			],
+			returnType: { type: "integer" },
+			description: "Returns the length of a string: {{ length name }}",
+		});
+	}
+}
@@ -0,0 +1,181 @@
+import Handlebars from "handlebars";
+import type { HelperDefinition } from "../types.ts";
+import { HelperFactory } from "./helper-factory.ts";
+
+// ─── SwitchHelpers ───────────────────────────────────────────────────────────
+// Provides a `switch` / `case` block family, the multi-way counterpart of
+// `{{#if (eq status "a")}}…{{else if (eq status "b")}}…{{/if}}` chains.
+//
+// - **`#switch`** — Evaluates its subject once and renders the body of the
+//   first `#case` that matches it.
+// - **`#case`**   — Matches when one of its arguments equals the subject
+//   (strict equality). Accepts several values: `{{#case "a" "b"}}`.
+// - **`#default`** — Rendered when no previous `#case` matched. It is the
+//   block form of the `default` helper (see DefaultHelpers).
+//
+//   Usage:
+//   {{#switch status}}
+//     {{#case "active"}}Active{{/case}}
+//     {{#case "paused" "stopped"}}Inactive{{/case}}
+//     {{#default}}Unknown{{/default}}
+//   {{/switch}}
+//
+// Only the matching branch is output: text between the cases (such as the
+// indentation above) is ignored.
+//
+// ─── Registration ────────────────────────────────────────────────────────────
+// SwitchHelpers are automatically pre-registered by the `Typebars`
+// constructor. They can also be registered manually on any object
+// implementing `HelperRegistry`:
+//
+//   const factory = new SwitchHelpers();
+//   factory.register(engine);   // registers all helpers
+//   factory.unregister(engine); // removes all helpers
+//
+// ─── Execution ───────────────────────────────────────────────────────────────
+// A template made of a single `#switch` is executed directly by the
+// executor (like `#if`), so the matching branch keeps its type (number,
+// boolean, object, array).
+//
+// ─── Static Analysis ─────────────────────────────────────────────────────────
+// The `#switch` block has special static analysis handling in the analyzer:
+// - The subject is narrowed in each `#case` like in `{{#if (eq …)}}`
+// - A case value that is not a member of the subject's `enum` / `const`
+//   set produces an UNREACHABLE_CASE warning
+// - A switch without `#default` whose cases do not cover every value of the
+//   subject's `enum` — or whose subject has no `enum` — produces a
+//   NON_EXHAUSTIVE_SWITCH warning
+// - A case value already matched by a previous case produces a
+//   DUPLICATE_CASE warning, and content outside the cases (other than
+//   whitespace and comments) a CONTENT_OUTSIDE_CASE warning
+// - The inferred return type is the union of the case types (plus `string`
+//   for the empty output of a non-exhaustive switch)
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** State of a `#switch` being rendered, shared with its cases */
+interface SwitchState {
+	/** The subject of the switch */
+	value: unknown;
+	/** Whether a case (or the default) already matched */
+	matched: boolean;
+	/** The output of the matching branch */
+	output: string;
+}
+
+// ─── Internal utilities ─────────────────────────────────────────────────────
+
+/** Key of the switch state in the Handlebars data frame */
+const SWITCH_STATE_KEY = "__typebars_switch";
+
+/**
+ * Returns the state of the enclosing `#switch`.
+ * @throws Error when the block is not used inside a `#switch`
+ */
+function getSwitchState(
+	name: string,
+	options: Handlebars.HelperOptions,
+): SwitchState {
+	const state = options.data?.[SWITCH_STATE_KEY] as SwitchState | undefined;
+	if (!state) {
+		throw new Error(
+			`"{{#${name}}}" must be used directly inside "{{#switch}}"`,
+		);
+	}
+	return state;
+}
+
+/** Renders a matching branch into the switch state */
+function renderBranch(
+	state: SwitchState,
+	context: unknown,
+	options: Handlebars.HelperOptions,
+): void {
+	state.matched = true;
+	// A body made of a single expression may return a raw value
+	const output: unknown = options.fn(context);
+	state.output = output == null ? "" : String(output);
+}
+
+/**
+ * Renders the body of a `{{#default}}` block inside a `#switch` when no
+ * previous case matched. Used by the block form of the `default` helper.
+ */
+export function renderSwitchDefault(
+	context: unknown,
+	options: Handlebars.HelperOptions,
+): string {
+	const state = getSwitchState("default", options);
+	if (!state.matched) renderBranch(state, context, options);
+	return "";
+}
+
+// ─── Main class ─────────────────────────────────────────────────────────────
+
+export class SwitchHelpers extends HelperFactory {
+	/** Names used for special-case detection in the analyzer/executor */
+	static readonly SWITCH_HELPER_NAME = "switch";
+	static readonly CASE_HELPER_NAME = "case";
+
+	// ─── buildDefinitions (required by HelperFactory) ──────────────────
+
+	protected buildDefinitions(defs: Map<string, HelperDefinition>): void {
+		this.registerSwitch(defs);
+		this.registerCase(defs);
+	}
+
+	// ── #switch ──────────────────────────────────────────────────────
+
+	/** Registers the switch block helper */
+	private registerSwitch(defs: Map<string, HelperDefinition>): void {
+		defs.set(SwitchHelpers.SWITCH_HELPER_NAME, {
+			fn: function (
+				this: unknown,
+				value: unknown,
+				options: Handlebars.HelperOptions,
+			) {
+				const state: SwitchState = { value, matched: false, output: "" };
+				const frame = Handlebars.createFrame(options.data ?? {});
+				frame[SWITCH_STATE_KEY] = state;
+				// The cases write the matching branch into the state
+				options.fn(this, { data: frame });
+				return state.output;
+			},
+			params: [
+				{
+					name: "value",
+					description: "The subject compared with each case",
+				},
+			],
+			// No static returnType — the analyzer infers it from the cases
+			description:
+				'Renders the first matching case: {{#switch status}}{{#case "a"}}…{{/case}}{{#default}}…{{/default}}{{/switch}}',
+		});
+	}
+
+	// ── #case ────────────────────────────────────────────────────────
+
+	/** Registers the case block helper */
+	private registerCase(defs: Map<string, HelperDefinition>): void {
+		defs.set(SwitchHelpers.CASE_HELPER_NAME, {
+			fn: function (this: unknown, ...args: unknown[]) {
+				const options = args.pop() as Handlebars.HelperOptions;
+				const state = getSwitchState(SwitchHelpers.CASE_HELPER_NAME, options);
+				if (!state.matched && args.some((value) => value === state.value)) {
+					renderBranch(state, this, options);
+				}
+				return "";
+			},
+			params: [
+				{
+					name: "values",
+					description:
+						"One or more values (variadic) matched against the subject of the switch",
+				},
+			],
+			returnType: { type: "string" },
+			description:
+				'A branch of a switch, rendered when one of its values equals the subject: {{#case "a" "b"}}…{{/case}}',
+		});
+	}
+}
@@ -0,0 +1,185 @@
+import type { JSONSchema7 } from "json-schema";
+import {
+	type CompleteTemplateOptions,
+	findEditedExpression,
+	PATH_PATTERN,
+	probeScope,
+	SEGMENT_END_PATTERN,
+} from "./completion.ts";
+import type { HelperDefinition, HoverResult, SignatureHelp } from "./types.ts";
+
+// ─── Hover & Signature Help ──────────────────────────────────────────────────
+// Information about the expression under the cursor, for editors:
+// - `hoverTemplate()` resolves the path under the cursor like the analyzer
+//   does (same probe as autocompletion, see `completion.ts`)
+// - `signatureHelpTemplate()` finds the helper call around the cursor and
+//   the argument being typed
+//
+// Both accept incomplete templates: only the text before the cursor (and
+// the rest of the hovered path) is read.
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** The rest of the path after the cursor, with its `:N` identifier */
+const PATH_END_PATTERN = /^[^\s(){}=|~"']*/;
+
+/** Literals, which are not paths */
+const LITERAL_PATTERN = /^(-?\d|true$|false$|null$|undefined$)/;
+
+/** A `key=value` argument */
+const HASH_ARGUMENT_PATTERN = /^([^\s=]+)=/;
+
+// ─── Hover ───────────────────────────────────────────────────────────────────
+
+/**
+ * Resolves the path under the cursor: its schema, whether it is always
+ * present and the identifier it is read from.
+ *
+ * @param template    - The template being edited (may be invalid)
+ * @param offset      - Position of the cursor in `template`
+ * @param inputSchema - JSON Schema describing the available variables
+ * @param options     - Identifier schemas, registered helpers and partials
+ * @returns `undefined` when the cursor is not on a path that resolves
+ */
+export function hoverTemplate(
+	template: string,
+	offset: number,
+	inputSchema: JSONSchema7,
+	options: CompleteTemplateOptions = {},
+): HoverResult | undefined {
+	const edited = findEditedExpression(template, offset);
+	if (!edited) return undefined;
+	const { start, marker, text } = edited;
+	// Inside a string literal or a block params list (`as |item`)
+	if (/["']/.test(text.replace(/"[^"]*"|'[^']*'/g, ""))) return undefined;
+	if (/\|[^|]*$/.test(text)) return undefined;
+
+	// The path up to the end of the segment under the cursor
+	const before = PATH_PATTERN.exec(text)?.[0] ?? "";
+	const after = SEGMENT_END_PATTERN.exec(template.slice(offset))?.[0] ?? "";
+	let path = before + after;
+	if (!path || LITERAL_PATTERN.test(path)) return undefined;
+
+	// Helper names are not paths (`{{name arg}}`, `{{#name}}`, `(name`)
+	const preceding = text.slice(0, text.length - before.length).trim();
+	const rest = template.slice(offset);
+	const pathEnd = PATH_END_PATTERN.exec(rest)?.[0] ?? "";
+	if (preceding.endsWith("(")) return undefined;
+	if (preceding === "") {
+		const hasArguments = /^\s+[^\s}~]/.test(rest.slice(pathEnd.length));
+		if (marker === "#" || marker === "^" || hasArguments) return undefined;
+	}
+
+	// `user` in `{{user.name:1}}` is read from identifier 1
+	const identifierSuffix = /:\d+$/.exec(pathEnd)?.[0];
+	const probedPath =
+		identifierSuffix && !path.endsWith(identifierSuffix)
+			? path + identifierSuffix
+			: path;
+
+	const probe = probeScope(template, start, probedPath, inputSchema, options);
+	if (!probe?.schema) return undefined;
+
+	path = path.replace(/:\d+$/, "");
+	const result: HoverResult = {
+		path,
+		schema: probe.schema,
+		required: probe.required,
+		identifier: probe.origin?.identifier ?? null,
+		range: { start: offset - before.length, end: offset + after.length },
+	};
+	if (probe.origin) result.dataPath = probe.origin.path;
+	if (probe.schema.description) result.description = probe.schema.description;
+	return result;
+}
+
+// ─── Signature Help ──────────────────────────────────────────────────────────
+
+/** A helper call being typed */
+interface ActiveCall {
+	/** Name of the helper, once typed */
+	name?: string;
+	/** Number of positional arguments before the cursor */
+	args: number;
+	/** The argument at the cursor */
+	token: string;
+}
+
+/**
+ * Finds the registered helper called around the cursor and the argument
+ * being typed.
+ *
+ * @param template - The template being edited (may be invalid)
+ * @param offset   - Position of the cursor in `template`
+ * @param helpers  - Registered helpers
+ * @returns `undefined` when the cursor is not in the arguments of a
+ *          registered helper
+ */
+export function signatureHelpTemplate(
+	template: string,
+	offset: number,
+	helpers: Map<string, HelperDefinition>,
+): SignatureHelp | undefined {
+	const edited = findEditedExpression(template, offset);
+	if (!edited) return undefined;
+
+	const call = findActiveCall(edited.text);
+	const helper = call?.name !== undefined ? helpers.get(call.name) : undefined;
+	if (!call?.name || !helper) return undefined;
+
+	const result: SignatureHelp = {
+		helper: call.name,
+		params: helper.params ?? [],
+		activeParameter: call.args,
+	};
+	const hashKey = HASH_ARGUMENT_PATTERN.exec(call.token)?.[1];
+	if (hashKey) result.activeHash = hashKey;
+	if (helper.hash) result.hash = helper.hash;
+	if (helper.returnType) result.returnType = helper.returnType;
+	if (helper.description) result.description = helper.description;
+	return result;
+}
+
+/**
+ * The innermost call of an expression (`{{name a (other b`), read up to
+ * the cursor.
+ */
+function findActiveCall(text: string): ActiveCall | undefined {
+	const calls: ActiveCall[] = [{ args: 0, token: "" }];
+	let quote: string | undefined;
+
+	for (const char of text) {
+		const call = calls[calls.length - 1] as ActiveCall;
+		if (quote) {
+			if (char === quote) quote = undefined;
+			call.token += char;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+			call.token += char;
+		} else if (char === "(") {
+			calls.push({ args: 0, token: "" });
+		} else if (char === ")") {
+			if (calls.length === 1) continue;
+			calls.pop();
+			// The sub-expression is an argument of the enclosing call
+			(calls[calls.length - 1] as ActiveCall).token += "()";
+		} else if (/\s/.test(char)) {
+			endArgument(call);
+		} else {
+			call.token += char;
+		}
+	}
+
+	return calls[calls.length - 1];
+}
+
+/** Ends the argument being read: the helper name, then the arguments */
+function endArgument(call: ActiveCall): void {
+	if (!call.token) return;
+	if (call.name === undefined) {
+		call.name = call.token;
+	} else if (!HASH_ARGUMENT_PATTERN.test(call.token)) {
+		call.args++;
+	}
+	call.token = "";
+}
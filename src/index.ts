@@ -2,11 +2,19 @@ export type { AnalyzeOptions } from "./analyzer";
 export * from "./errors";
 export { Typebars } from "./typebars";
 export {
+	type CompleteOptions,
+	type CompletionItem,
+	type CompletionResult,
 	defineHelper,
+	type HoverOptions,
+	type HoverResult,
 	type IdentifierData,
 	type IdentifierDataEntry,
 	isArrayInput,
+	type PartialOptions,
+	type SignatureHelp,
 	type TemplateData,
+	type TemplateDependency,
 	type TemplateInput,
 	type TemplateInputArray,
 } from "./types";
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import { startLanguageServer } from "./transport.ts";
+
+// ─── typebars-language-server ────────────────────────────────────────────────
+// Entry point of the `typebars-language-server` binary: LSP over stdio.
+
+startLanguageServer();
@@ -0,0 +1,271 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { dirname, isAbsolute, relative, resolve, sep } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { JSONSchema7 } from "json-schema";
+import type { HelperConfig } from "../types.ts";
+
+// ─── Project Configuration ───────────────────────────────────────────────────
+// The schemas and helpers of a project are declared in a
+// `typebars.config.json` at the root of the workspace, so that the editor
+// validates templates like the backend does:
+//
+//   {
+//     "inputSchema": "./schemas/input.json",
+//     "identifierSchemas": { "1": "./schemas/meeting.json" },
+//     "helpers": "./helpers.js",
+//     "overrides": [
+//       { "files": ["emails/**/*.hbs"], "inputSchema": "./schemas/email.json" }
+//     ]
+//   }
+//
+// - schemas are paths to JSON files (relative to the config) or inline
+// - `helpers` is a module whose default export (or `helpers` export) is a
+//   `HelperConfig[]`, as passed to `new Typebars({ helpers })`
+// - `overrides` replace the schemas of the files matching their globs
+//   (relative to the config); the last matching override wins
+
+export const CONFIG_FILE_NAME = "typebars.config.json";
+
+/** A schema path (relative to the config file) or an inline schema */
+type SchemaReference = string | JSONSchema7;
+
+/** Schemas declared for a set of files */
+interface SchemaSettingsFile {
+	inputSchema?: SchemaReference;
+	identifierSchemas?: Record<string, SchemaReference>;
+}
+
+/** Content of `typebars.config.json` */
+export interface TypebarsConfigFile extends SchemaSettingsFile {
+	/** Module exporting the custom helpers (`HelperConfig[]`) */
+	helpers?: string;
+	/** Runs every `{{#each}}` block in collect mode (see `collectEach`) */
+	collectEach?: boolean;
+	/** Schemas of the files matching `files` (globs) */
+	overrides?: (SchemaSettingsFile & { files: string[] })[];
+}
+
+/** A schema, with the file and JSON pointer it is declared at */
+export interface SchemaSource {
+	schema: JSONSchema7;
+	/** Absolute path of the JSON file declaring the schema */
+	file: string;
+	/** JSON pointer of the schema in `file` (`""` for the whole file) */
+	pointer: string;
+}
+
+/** The schemas a template is validated against */
+export interface SchemaSettings {
+	inputSchema?: SchemaSource;
+	identifierSchemas: Record<number, SchemaSource>;
+}
+
+/** A loaded configuration */
+export interface LanguageServerConfig extends SchemaSettings {
+	/** Directory the paths and globs are relative to */
+	root: string;
+	/** Path of the config file, when there is one */
+	file?: string;
+	/** Path of the helpers module, when there is one */
+	helpersFile?: string;
+	helpers: HelperConfig[];
+	collectEach: boolean;
+	overrides: (Partial<SchemaSettings> & { patterns: RegExp[] })[];
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────────────
+
+/**
+ * Loads `typebars.config.json` from `root` with its schemas and helpers.
+ * A workspace without a config file gets an empty configuration.
+ *
+ * @throws {Error} when the config, a schema or the helpers cannot be loaded
+ */
+export async function loadConfig(root: string): Promise<LanguageServerConfig> {
+	const file = resolve(root, CONFIG_FILE_NAME);
+	const config: LanguageServerConfig = {
+		root,
+		identifierSchemas: {},
+		helpers: [],
+		collectEach: false,
+		overrides: [],
+	};
+	if (!existsSync(file)) return config;
+
+	const content = (await readJson(file)) as TypebarsConfigFile;
+	if (!content || typeof content !== "object" || Array.isArray(content)) {
+		throw new Error(`${file}: the configuration must be an object`);
+	}
+	config.file = file;
+	config.collectEach = content.collectEach === true;
+
+	Object.assign(config, await loadSchemaSettings(content, file, ""));
+	for (const [index, override] of (content.overrides ?? []).entries()) {
+		if (!Array.isArray(override?.files)) {
+			throw new Error(`${file}: overrides[${index}].files must be an array`);
+		}
+		config.overrides.push({
+			patterns: override.files.map(globToRegExp),
+			...(await loadSchemaSettings(override, file, `/overrides/${index}`)),
+		});
+	}
+
+	if (content.helpers !== undefined) {
+		config.helpersFile = resolve(root, content.helpers);
+		config.helpers = await loadHelpers(config.helpersFile);
+	}
+	return config;
+}
+
+/**
+ * The files a configuration is read from: the config file (watched even
+ * when it does not exist yet), the schema files and the helpers module.
+ */
+export function getWatchedFiles(config: LanguageServerConfig): string[] {
+	const files = new Set([
+		config.file ?? resolve(config.root, CONFIG_FILE_NAME),
+	]);
+	for (const settings of [config, ...config.overrides]) {
+		if (settings.inputSchema) files.add(settings.inputSchema.file);
+		for (const source of Object.values(settings.identifierSchemas ?? {})) {
+			files.add(source.file);
+		}
+	}
+	if (config.helpersFile) files.add(config.helpersFile);
+	return [...files];
+}
+
+/**
+ * The schemas of a file: those of the last override matching it, or the
+ * schemas of the project.
+ */
+export function getSchemaSettings(
+	config: LanguageServerConfig,
+	path: string | undefined,
+): SchemaSettings {
+	const settings: SchemaSettings = {
+		inputSchema: config.inputSchema,
+		identifierSchemas: config.identifierSchemas,
+	};
+	const file = path === undefined ? undefined : relative(config.root, path);
+	if (file === undefined || file.startsWith("..") || isAbsolute(file)) {
+		return settings;
+	}
+
+	const normalized = file.split(sep).join("/");
+	for (const override of config.overrides) {
+		if (!override.patterns.some((pattern) => pattern.test(normalized))) {
+			continue;
+		}
+		if (override.inputSchema) settings.inputSchema = override.inputSchema;
+		if (override.identifierSchemas) {
+			settings.identifierSchemas = override.identifierSchemas;
+		}
+	}
+	return settings;
+}
+
+/**
+ * Converts a glob to a regular expression: `**` matches any number of
+ * directories, `*` and `?` match within a path segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	const pattern = glob.replace(/^\.\//, "");
+	for (let index = 0; index < pattern.length; index++) {
+		const char = pattern[index] as string;
+		if (char === "*" && pattern[index + 1] === "*") {
+			// `**/` also matches no directory at all
+			const slash = pattern[index + 2] === "/";
+			source += slash ? "(?:.*/)?" : ".*";
+			index += slash ? 2 : 1;
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+// ─── Internal Loaders ────────────────────────────────────────────────────────
+
+async function readJson(file: string): Promise<unknown> {
+	try {
+		return JSON.parse(await readFile(file, "utf8"));
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`${file}: ${message}`);
+	}
+}
+
+/** Loads the schemas declared at `pointer` in the config file */
+async function loadSchemaSettings(
+	settings: SchemaSettingsFile,
+	configFile: string,
+	pointer: string,
+): Promise<Partial<SchemaSettings>> {
+	const loaded: Partial<SchemaSettings> = {};
+	if (settings.inputSchema !== undefined) {
+		loaded.inputSchema = await loadSchema(
+			settings.inputSchema,
+			configFile,
+			`${pointer}/inputSchema`,
+		);
+	}
+	if (settings.identifierSchemas !== undefined) {
+		loaded.identifierSchemas = {};
+		for (const [key, reference] of Object.entries(settings.identifierSchemas)) {
+			if (!/^\d+$/.test(key)) {
+				throw new Error(
+					`${configFile}: identifier "${key}" must be a non-negative integer`,
+				);
+			}
+			loaded.identifierSchemas[Number(key)] = await loadSchema(
+				reference,
+				configFile,
+				`${pointer}/identifierSchemas/${key}`,
+			);
+		}
+	}
+	return loaded;
+}
+
+async function loadSchema(
+	reference: SchemaReference,
+	configFile: string,
+	pointer: string,
+): Promise<SchemaSource> {
+	if (typeof reference !== "string") {
+		return { schema: reference, file: configFile, pointer };
+	}
+	const file = resolve(dirname(configFile), reference);
+	return { schema: (await readJson(file)) as JSONSchema7, file, pointer: "" };
+}
+
+/** Incremented on every load, so that a reload imports the module again */
+let helpersVersion = 0;
+
+async function loadHelpers(file: string): Promise<HelperConfig[]> {
+	// `import()` caches ES modules by URL: the query string makes every
+	// load read the current file. CommonJS modules (and every module under
+	// Bun) are cached by path, in the cache shared by all `require`s. The
+	// modules the helpers import stay cached.
+	helpersVersion++;
+	delete createRequire(file).cache[file];
+	const url = `${pathToFileURL(file).href}?v=${helpersVersion}`;
+	// The CommonJS build keeps this `import()` (`ignoreDynamic` in
+	// `.swcrc.cjs.json`): `require()` would not load ES modules nor URLs
+	const module = await import(url);
+	const helpers: unknown = module.default ?? module.helpers;
+	if (!Array.isArray(helpers)) {
+		throw new Error(
+			`${file}: the default export (or "helpers" export) must be an array of helpers`,
+		);
+	}
+	return helpers as HelperConfig[];
+}
@@ -0,0 +1,54 @@
+import type { Position, Range } from "./protocol.ts";
+
+// ─── Text Documents ──────────────────────────────────────────────────────────
+// The documents opened by the client, and the conversion between the LSP
+// positions (line, UTF-16 character) and the offsets used by the engine.
+// JavaScript strings are UTF-16, so a character is a string index.
+
+export class TextDocument {
+	/** Offset of the start of each line */
+	private readonly lineStarts: number[] = [0];
+
+	constructor(
+		readonly uri: string,
+		readonly version: number,
+		readonly text: string,
+	) {
+		for (let index = 0; index < text.length; index++) {
+			if (text[index] === "\n") this.lineStarts.push(index + 1);
+		}
+	}
+
+	/** The offset of a position, clamped to the text */
+	offsetAt(position: Position): number {
+		const line = Math.max(0, position.line);
+		const lineStart = this.lineStarts[line] ?? this.text.length;
+		const nextLineStart = this.lineStarts[line + 1];
+		const lineEnd =
+			nextLineStart === undefined ? this.text.length : nextLineStart - 1;
+		return Math.min(lineStart + Math.max(0, position.character), lineEnd);
+	}
+
+	/** The position of an offset */
+	positionAt(offset: number): Position {
+		const clamped = Math.max(0, Math.min(offset, this.text.length));
+		let line = 0;
+		while ((this.lineStarts[line + 1] ?? Number.POSITIVE_INFINITY) <= clamped) {
+			line++;
+		}
+		return { line, character: clamped - (this.lineStarts[line] ?? 0) };
+	}
+
+	/** The range between two offsets */
+	rangeAt(start: number, end: number): Range {
+		return { start: this.positionAt(start), end: this.positionAt(end) };
+	}
+}
+
+/**
+ * Converts a Handlebars location (1-based line, 0-based column) to an LSP
+ * position.
+ */
+export function toPosition(loc: { line: number; column: number }): Position {
+	return { line: Math.max(0, loc.line - 1), character: loc.column };
+}
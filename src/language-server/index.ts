@@ -0,0 +1,16 @@
+export {
+	CONFIG_FILE_NAME,
+	type LanguageServerConfig,
+	loadConfig,
+	type TypebarsConfigFile,
+} from "./config.ts";
+export type { Message } from "./protocol.ts";
+export {
+	type LanguageServerOptions,
+	TypebarsLanguageServer,
+} from "./server.ts";
+export {
+	encodeMessage,
+	MessageReader,
+	startLanguageServer,
+} from "./transport.ts";
@@ -0,0 +1,173 @@
+// ─── Language Server Protocol ────────────────────────────────────────────────
+// The subset of the Language Server Protocol (JSON-RPC 2.0) spoken by
+// `typebars-language-server`. Only the fields the server reads or sends
+// are declared — see https://microsoft.github.io/language-server-protocol/
+
+// ─── JSON-RPC ────────────────────────────────────────────────────────────────
+
+export interface RequestMessage {
+	jsonrpc: "2.0";
+	id: number | string;
+	method: string;
+	params?: unknown;
+}
+
+export interface NotificationMessage {
+	jsonrpc: "2.0";
+	method: string;
+	params?: unknown;
+}
+
+export interface ResponseMessage {
+	jsonrpc: "2.0";
+	id: number | string | null;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+/** JSON-RPC and LSP error codes */
+export const ErrorCodes = {
+	ParseError: -32700,
+	InvalidParams: -32602,
+	MethodNotFound: -32601,
+	InternalError: -32603,
+	ServerNotInitialized: -32002,
+	InvalidRequest: -32600,
+} as const;
+
+/** An error answered to a request, with its JSON-RPC code */
+export class ResponseError extends Error {
+	constructor(
+		public readonly code: number,
+		message: string,
+	) {
+		super(message);
+		this.name = "ResponseError";
+	}
+}
+
+// ─── Documents ───────────────────────────────────────────────────────────────
+
+/** Zero-based line and UTF-16 character offset */
+export interface Position {
+	line: number;
+	character: number;
+}
+
+export interface Range {
+	start: Position;
+	end: Position;
+}
+
+export interface Location {
+	uri: string;
+	range: Range;
+}
+
+export interface TextDocumentIdentifier {
+	uri: string;
+}
+
+export interface TextDocumentPositionParams {
+	textDocument: TextDocumentIdentifier;
+	position: Position;
+}
+
+export interface DidOpenTextDocumentParams {
+	textDocument: { uri: string; version: number; text: string };
+}
+
+export interface DidChangeTextDocumentParams {
+	textDocument: { uri: string; version: number };
+	/** With full synchronization, the last change holds the whole text */
+	contentChanges: { text: string }[];
+}
+
+export interface InitializeParams {
+	rootUri?: string | null;
+	rootPath?: string | null;
+	workspaceFolders?: { uri: string; name: string }[] | null;
+	capabilities?: ClientCapabilities;
+}
+
+export interface ClientCapabilities {
+	workspace?: {
+		didChangeWatchedFiles?: {
+			dynamicRegistration?: boolean;
+			relativePatternSupport?: boolean;
+		};
+	};
+}
+
+// ─── Workspace ───────────────────────────────────────────────────────────────
+
+/** A glob, or a glob relative to a base folder */
+export type GlobPattern = string | { baseUri: string; pattern: string };
+
+export interface FileSystemWatcher {
+	globPattern: GlobPattern;
+}
+
+/** A capability registered by the server (`client/registerCapability`) */
+export interface Registration {
+	id: string;
+	method: string;
+	registerOptions?: unknown;
+}
+
+// ─── Features ────────────────────────────────────────────────────────────────
+
+export const TextDocumentSyncKind = { Full: 1 } as const;
+
+export const DiagnosticSeverity = { Error: 1, Warning: 2 } as const;
+
+export const MessageType = { Error: 1, Warning: 2, Info: 3, Log: 4 } as const;
+
+export const CompletionItemKind = {
+	Function: 3,
+	Field: 5,
+	Variable: 6,
+	Property: 10,
+} as const;
+
+export interface Diagnostic {
+	range: Range;
+	severity: number;
+	code?: string;
+	source: string;
+	message: string;
+}
+
+export interface CompletionItem {
+	label: string;
+	kind: number;
+	detail?: string;
+	documentation?: MarkupContent;
+	textEdit: { range: Range; newText: string };
+}
+
+export interface MarkupContent {
+	kind: "markdown" | "plaintext";
+	value: string;
+}
+
+export interface Hover {
+	contents: MarkupContent;
+	range: Range;
+}
+
+export interface SignatureHelp {
+	signatures: {
+		label: string;
+		documentation?: MarkupContent;
+		parameters: { label: string; documentation?: MarkupContent }[];
+	}[];
+	activeSignature: number;
+	activeParameter: number;
+}
+
+export interface SemanticTokens {
+	data: number[];
+}
@@ -0,0 +1,224 @@
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+
+// ─── Schema Locations ────────────────────────────────────────────────────────
+// Go-to-definition jumps from a path of a template to the property of the
+// JSON Schema it resolves to. The path is first resolved to a JSON pointer
+// in the schema, following what the analyzer follows (`properties`,
+// array `items`, local `$ref`, `allOf` / `anyOf` / `oneOf` branches):
+//
+//   users.name → /properties/users/items/properties/name
+//
+// then the pointer is located in the text of the JSON file.
+
+/** Guards against cyclic `$ref`s */
+const MAX_DEPTH = 64;
+
+// ─── Schema Pointers ─────────────────────────────────────────────────────────
+
+/**
+ * The JSON pointer of the schema a data path resolves to, relative to the
+ * root of `schema`, or `undefined` when the path is not declared.
+ */
+export function findSchemaPointer(
+	schema: JSONSchema7,
+	path: string[],
+): string | undefined {
+	return walk(schema, schema, "", path, 0);
+}
+
+function walk(
+	root: JSONSchema7,
+	node: JSONSchema7Definition | undefined,
+	pointer: string,
+	path: string[],
+	depth: number,
+): string | undefined {
+	if (!node || typeof node !== "object" || depth > MAX_DEPTH) return undefined;
+
+	if (typeof node.$ref === "string" && node.$ref.startsWith("#")) {
+		const target = decodeURIComponent(node.$ref.slice(1));
+		return walk(root, getAtPointer(root, target), target, path, depth + 1);
+	}
+
+	const [segment, ...rest] = path;
+	if (segment === undefined) return pointer;
+
+	const property = node.properties?.[segment];
+	if (property !== undefined) {
+		const next = `${pointer}/properties/${escapePointer(segment)}`;
+		return walk(root, property, next, rest, depth + 1);
+	}
+
+	// The path continues in the items of an array
+	if (Array.isArray(node.items)) {
+		if (/^\d+$/.test(segment)) {
+			const next = `${pointer}/items/${segment}`;
+			return walk(root, node.items[Number(segment)], next, rest, depth + 1);
+		}
+	} else if (node.items !== undefined) {
+		return walk(root, node.items, `${pointer}/items`, path, depth + 1);
+	}
+
+	for (const keyword of ["allOf", "anyOf", "oneOf"] as const) {
+		for (const [index, branch] of (node[keyword] ?? []).entries()) {
+			const next = `${pointer}/${keyword}/${index}`;
+			const found = walk(root, branch, next, path, depth + 1);
+			if (found !== undefined) return found;
+		}
+	}
+
+	if (typeof node.additionalProperties === "object") {
+		const next = `${pointer}/additionalProperties`;
+		return walk(root, node.additionalProperties, next, rest, depth + 1);
+	}
+	return undefined;
+}
+
+function getAtPointer(
+	root: JSONSchema7,
+	pointer: string,
+): JSONSchema7Definition | undefined {
+	let node: unknown = root;
+	for (const segment of pointer.split("/").slice(1)) {
+		if (!node || typeof node !== "object") return undefined;
+		node = (node as Record<string, unknown>)[unescapePointer(segment)];
+	}
+	return node as JSONSchema7Definition | undefined;
+}
+
+function escapePointer(segment: string): string {
+	return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapePointer(segment: string): string {
+	return segment.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+// ─── JSON Locations ──────────────────────────────────────────────────────────
+
+/**
+ * Offsets of the value at `pointer` in a JSON text: the key of the member
+ * declaring it, or the whole text for the root pointer. `undefined` when
+ * the pointer does not exist or the text is not valid JSON.
+ */
+export function findPointerRange(
+	text: string,
+	pointer: string,
+): { start: number; end: number } | undefined {
+	if (pointer === "") return { start: 0, end: 0 };
+	try {
+		return new JsonScanner(text, pointer).scan();
+	} catch {
+		return undefined;
+	}
+}
+
+/** Reads a JSON text, keeping track of the pointer of each value */
+class JsonScanner {
+	private index = 0;
+
+	constructor(
+		private readonly text: string,
+		private readonly target: string,
+	) {}
+
+	scan(): { start: number; end: number } | undefined {
+		return this.value("");
+	}
+
+	private value(pointer: string): { start: number; end: number } | undefined {
+		this.skipWhitespace();
+		const char = this.text[this.index];
+		if (char === "{") return this.object(pointer);
+		if (char === "[") return this.array(pointer);
+		if (char === '"') {
+			this.string();
+			return undefined;
+		}
+		// Numbers, `true`, `false` and `null`
+		const start = this.index;
+		while (
+			this.index < this.text.length &&
+			!/[\s,\]}]/.test(this.text[this.index] as string)
+		) {
+			this.index++;
+		}
+		if (this.index === start) throw new Error("Unexpected token");
+		return undefined;
+	}
+
+	private object(pointer: string): { start: number; end: number } | undefined {
+		this.expect("{");
+		this.skipWhitespace();
+		if (this.text[this.index] === "}") {
+			this.index++;
+			return undefined;
+		}
+		while (true) {
+			this.skipWhitespace();
+			const start = this.index;
+			const key = this.string();
+			const member = `${pointer}/${escapePointer(key)}`;
+			if (member === this.target) return { start, end: this.index };
+
+			this.skipWhitespace();
+			this.expect(":");
+			const found = this.value(member);
+			if (found) return found;
+
+			this.skipWhitespace();
+			if (this.text[this.index] === "}") {
+				this.index++;
+				return undefined;
+			}
+			this.expect(",");
+		}
+	}
+
+	private array(pointer: string): { start: number; end: number } | undefined {
+		this.expect("[");
+		this.skipWhitespace();
+		if (this.text[this.index] === "]") {
+			this.index++;
+			return undefined;
+		}
+		for (let item = 0; ; item++) {
+			this.skipWhitespace();
+			const start = this.index;
+			const found = this.value(`${pointer}/${item}`);
+			if (found) return found;
+			if (`${pointer}/${item}` === this.target) {
+				return { start, end: this.index };
+			}
+
+			this.skipWhitespace();
+			if (this.text[this.index] === "]") {
+				this.index++;
+				return undefined;
+			}
+			this.expect(",");
+		}
+	}
+
+	/** Reads a string literal and returns its value */
+	private string(): string {
+		const start = this.index;
+		this.expect('"');
+		while (this.index < this.text.length && this.text[this.index] !== '"') {
+			this.index += this.text[this.index] === "\\" ? 2 : 1;
+		}
+		this.expect('"');
+		return JSON.parse(this.text.slice(start, this.index)) as string;
+	}
+
+	private expect(char: string): void {
+		if (this.text[this.index] !== char) {
+			throw new Error(`Expected "${char}" at offset ${this.index}`);
+		}
+		this.index++;
+	}
+
+	private skipWhitespace(): void {
+		while (/\s/.test(this.text[this.index] ?? "")) this.index++;
+	}
+}
@@ -0,0 +1,188 @@
+import { extractExpressionIdentifier, isRootSegments } from "../parser.ts";
+
+// ─── Semantic Tokens ─────────────────────────────────────────────────────────
+// Highlights what a TextMate grammar for Handlebars cannot tell apart:
+// - helpers (registered or built into Handlebars) → `function`
+// - `{{key:N}}` identifiers                       → `variable`
+// - `$root` and `$root:N`                          → `keyword`
+// - literals → `string`, `number`, or `keyword` (`true`, `null`…)
+//
+// Other paths are left to the grammar.
+
+/** Token types, in the order of the legend sent to the client */
+export const SEMANTIC_TOKEN_TYPES = [
+	"function",
+	"variable",
+	"keyword",
+	"string",
+	"number",
+] as const;
+
+type SemanticTokenType = (typeof SEMANTIC_TOKEN_TYPES)[number];
+
+/** Block helpers built into Handlebars (not registered on the engine) */
+const BUILT_IN_HELPERS = new Set(["if", "unless", "each", "with"]);
+
+/** A token of the template */
+interface SemanticToken {
+	line: number;
+	character: number;
+	length: number;
+	type: SemanticTokenType;
+}
+
+type CallNode =
+	| hbs.AST.MustacheStatement
+	| hbs.AST.BlockStatement
+	| hbs.AST.SubExpression;
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * The semantic tokens of a parsed template, in the relative encoding of
+ * the LSP (`deltaLine, deltaStart, length, tokenType, tokenModifiers`).
+ *
+ * @param ast      - The parsed template
+ * @param isHelper - Whether a name is a registered helper
+ */
+export function computeSemanticTokens(
+	ast: hbs.AST.Program,
+	isHelper: (name: string) => boolean,
+): number[] {
+	const tokens: SemanticToken[] = [];
+	walkProgram(ast, isHelper, tokens);
+	tokens.sort((a, b) => a.line - b.line || a.character - b.character);
+
+	const data: number[] = [];
+	let line = 0;
+	let character = 0;
+	for (const token of tokens) {
+		const deltaLine = token.line - line;
+		data.push(
+			deltaLine,
+			deltaLine === 0 ? token.character - character : token.character,
+			token.length,
+			SEMANTIC_TOKEN_TYPES.indexOf(token.type),
+			0,
+		);
+		line = token.line;
+		character = token.character;
+	}
+	return data;
+}
+
+// ─── AST Walk ────────────────────────────────────────────────────────────────
+
+function walkProgram(
+	program: hbs.AST.Program | undefined,
+	isHelper: (name: string) => boolean,
+	tokens: SemanticToken[],
+): void {
+	for (const statement of program?.body ?? []) {
+		switch (statement.type) {
+			case "MustacheStatement":
+				walkCall(statement as hbs.AST.MustacheStatement, isHelper, tokens);
+				break;
+			case "BlockStatement": {
+				const block = statement as hbs.AST.BlockStatement;
+				walkCall(block, isHelper, tokens);
+				walkProgram(block.program, isHelper, tokens);
+				walkProgram(block.inverse, isHelper, tokens);
+				break;
+			}
+			case "PartialStatement":
+			case "PartialBlockStatement": {
+				const partial = statement as hbs.AST.PartialStatement;
+				for (const param of partial.params) {
+					walkExpression(param, isHelper, tokens);
+				}
+				for (const pair of partial.hash?.pairs ?? []) {
+					walkExpression(pair.value, isHelper, tokens);
+				}
+				if (statement.type === "PartialBlockStatement") {
+					const body = (statement as hbs.AST.PartialBlockStatement).program;
+					walkProgram(body, isHelper, tokens);
+				}
+				break;
+			}
+		}
+	}
+}
+
+/** A mustache, block or sub-expression: its callee, then its arguments */
+function walkCall(
+	node: CallNode,
+	isHelper: (name: string) => boolean,
+	tokens: SemanticToken[],
+): void {
+	const hasArguments = node.params.length > 0 || !!node.hash?.pairs.length;
+	const callee = node.path;
+	if (callee.type === "PathExpression") {
+		const name = (callee as hbs.AST.PathExpression).original;
+		const isCall =
+			hasArguments ||
+			(node.type !== "MustacheStatement" && BUILT_IN_HELPERS.has(name)) ||
+			isHelper(name);
+		if (isCall) {
+			push(tokens, callee, "function");
+		} else {
+			walkExpression(callee, isHelper, tokens);
+		}
+	} else {
+		walkExpression(callee, isHelper, tokens);
+	}
+
+	for (const param of node.params) walkExpression(param, isHelper, tokens);
+	for (const pair of node.hash?.pairs ?? []) {
+		walkExpression(pair.value, isHelper, tokens);
+	}
+}
+
+function walkExpression(
+	node: hbs.AST.Expression,
+	isHelper: (name: string) => boolean,
+	tokens: SemanticToken[],
+): void {
+	switch (node.type) {
+		case "SubExpression":
+			walkCall(node as hbs.AST.SubExpression, isHelper, tokens);
+			break;
+		case "PathExpression": {
+			const path = node as hbs.AST.PathExpression;
+			if (path.data) break;
+			const { cleanSegments, identifier } = extractExpressionIdentifier(
+				path.parts,
+			);
+			if (isRootSegments(cleanSegments)) push(tokens, node, "keyword");
+			else if (identifier !== null) push(tokens, node, "variable");
+			break;
+		}
+		case "StringLiteral":
+			push(tokens, node, "string");
+			break;
+		case "NumberLiteral":
+			push(tokens, node, "number");
+			break;
+		case "BooleanLiteral":
+		case "NullLiteral":
+		case "UndefinedLiteral":
+			push(tokens, node, "keyword");
+			break;
+	}
+}
+
+/** Adds the token of a node written on a single line */
+function push(
+	tokens: SemanticToken[],
+	node: hbs.AST.Node,
+	type: SemanticTokenType,
+): void {
+	const { start, end } = node.loc;
+	if (start.line !== end.line || end.column <= start.column) return;
+	tokens.push({
+		line: start.line - 1,
+		character: start.column,
+		length: end.column - start.column,
+		type,
+	});
+}
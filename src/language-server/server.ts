@@ -0,0 +1,737 @@
+import { readFileSync } from "node:fs";
+import {
+	basename,
+	dirname,
+	isAbsolute,
+	relative,
+	resolve,
+	sep,
+} from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { JSONSchema7 } from "json-schema";
+import { TemplateError, TemplateParseError } from "../errors.ts";
+import { parse } from "../parser.ts";
+import { Typebars } from "../typebars.ts";
+import type {
+	CompletionItemKind as EngineCompletionItemKind,
+	HelperParam,
+	TemplateDiagnostic,
+} from "../types.ts";
+import {
+	CONFIG_FILE_NAME,
+	getSchemaSettings,
+	getWatchedFiles,
+	type LanguageServerConfig,
+	loadConfig,
+	type SchemaSettings,
+} from "./config.ts";
+import { TextDocument, toPosition } from "./documents.ts";
+import {
+	type ClientCapabilities,
+	type CompletionItem,
+	CompletionItemKind,
+	type Diagnostic,
+	DiagnosticSeverity,
+	type DidChangeTextDocumentParams,
+	type DidOpenTextDocumentParams,
+	ErrorCodes,
+	type FileSystemWatcher,
+	type GlobPattern,
+	type Hover,
+	type InitializeParams,
+	type Location,
+	type Message,
+	MessageType,
+	ResponseError,
+	type SemanticTokens,
+	type SignatureHelp,
+	type TextDocumentIdentifier,
+	type TextDocumentPositionParams,
+	TextDocumentSyncKind,
+} from "./protocol.ts";
+import { findPointerRange, findSchemaPointer } from "./schema-locations.ts";
+import {
+	computeSemanticTokens,
+	SEMANTIC_TOKEN_TYPES,
+} from "./semantic-tokens.ts";
+
+// ─── Typebars Language Server ────────────────────────────────────────────────
+// Serves the static analysis of the engine to editors, for the template
+// documents opened by the client:
+// - diagnostics from `analyze()`, published on open and on every change
+// - completion, hover and signature help from the engine
+// - go-to-definition to the JSON Schema property a path resolves to
+// - semantic tokens for helpers, identifiers, `$root` and literals
+//
+// The schemas and helpers come from the project's `typebars.config.json`
+// (see `config.ts`), reloaded when the client reports changed files. The
+// server registers watchers for the config, schema and helpers files with
+// clients that support it.
+//
+// The server is transport-agnostic: `handle()` receives the messages of
+// the client and answers through `send` (see `transport.ts` for stdio).
+
+/** Name of the server, and of its diagnostics' source */
+const SERVER_NAME = "typebars-language-server";
+
+const DIAGNOSTIC_SOURCE = "typebars";
+
+/** Id of the registration of the watched files */
+const WATCHERS_REGISTRATION_ID = "typebars/watchedFiles";
+
+const COMPLETION_ITEM_KINDS: Record<EngineCompletionItemKind, number> = {
+	property: CompletionItemKind.Property,
+	identifier: CompletionItemKind.Field,
+	blockParam: CompletionItemKind.Variable,
+	dataVariable: CompletionItemKind.Variable,
+	helper: CompletionItemKind.Function,
+};
+
+export interface LanguageServerOptions {
+	/** Sends a message to the client */
+	send: (message: Message) => void;
+	/** Ends the process on `exit`: 0 after a `shutdown` request, 1 otherwise */
+	exit?: (code: number) => void;
+}
+
+export class TypebarsLanguageServer {
+	/** Open documents, by URI */
+	private readonly documents = new Map<string, TextDocument>();
+
+	/** Directory of the workspace, where the config file is looked up */
+	private root: string = process.cwd();
+
+	private config: LanguageServerConfig | undefined;
+
+	/** Engine with the helpers of the config */
+	private engine = new Typebars();
+
+	private initialized = false;
+
+	private shutdownRequested = false;
+
+	private capabilities: ClientCapabilities = {};
+
+	/** Files the client watches for the server, once registered */
+	private watchedFiles: string[] = [];
+
+	/** Id of the next request sent to the client */
+	private nextRequestId = 1;
+
+	constructor(private readonly options: LanguageServerOptions) {}
+
+	// ─── Messages ──────────────────────────────────────────────────────────
+
+	/**
+	 * Handles a message of the client. Requests are answered through
+	 * `send`, errors included: the returned promise never rejects.
+	 */
+	async handle(message: Message): Promise<void> {
+		if (!("method" in message)) return;
+		const { method, params } = message;
+
+		if (!("id" in message)) {
+			try {
+				await this.notification(method, params);
+			} catch (error) {
+				this.log(MessageType.Error, `${method}: ${errorMessage(error)}`);
+			}
+			return;
+		}
+
+		try {
+			const result = await this.request(method, params);
+			this.options.send({ jsonrpc: "2.0", id: message.id, result });
+		} catch (error) {
+			const code =
+				error instanceof ResponseError ? error.code : ErrorCodes.InternalError;
+			this.options.send({
+				jsonrpc: "2.0",
+				id: message.id,
+				error: { code, message: errorMessage(error) },
+			});
+		}
+	}
+
+	private async request(method: string, params: unknown): Promise<unknown> {
+		if (method === "initialize") {
+			if (!isRecord(params)) throw invalidParams("an object");
+			return this.initialize(params as InitializeParams);
+		}
+		if (!this.initialized) {
+			throw new ResponseError(
+				ErrorCodes.ServerNotInitialized,
+				"The server is not initialized",
+			);
+		}
+		if (this.shutdownRequested) {
+			throw new ResponseError(
+				ErrorCodes.InvalidRequest,
+				"The server is shutting down",
+			);
+		}
+
+		switch (method) {
+			case "shutdown":
+				this.shutdownRequested = true;
+				return null;
+			case "textDocument/completion":
+				return this.completion(toPositionParams(params));
+			case "textDocument/hover":
+				return this.hover(toPositionParams(params));
+			case "textDocument/signatureHelp":
+				return this.signatureHelp(toPositionParams(params));
+			case "textDocument/definition":
+				return this.definition(toPositionParams(params));
+			case "textDocument/semanticTokens/full":
+				return this.semanticTokens(toDocumentParams(params));
+			default:
+				throw new ResponseError(
+					ErrorCodes.MethodNotFound,
+					`Unhandled method "${method}"`,
+				);
+		}
+	}
+
+	private async notification(method: string, params: unknown): Promise<void> {
+		switch (method) {
+			case "initialized":
+				this.registerWatchers();
+				return;
+			case "exit":
+				this.options.exit?.(this.shutdownRequested ? 0 : 1);
+				return;
+			case "textDocument/didOpen": {
+				const { textDocument } = params as DidOpenTextDocumentParams;
+				this.openDocument(
+					textDocument.uri,
+					textDocument.version,
+					textDocument.text,
+				);
+				return;
+			}
+			case "textDocument/didChange": {
+				const { textDocument, contentChanges } =
+					params as DidChangeTextDocumentParams;
+				const change = contentChanges[contentChanges.length - 1];
+				if (change) {
+					this.openDocument(
+						textDocument.uri,
+						textDocument.version,
+						change.text,
+					);
+				}
+				return;
+			}
+			case "textDocument/didClose": {
+				const { uri } = (params as { textDocument: TextDocumentIdentifier })
+					.textDocument;
+				this.documents.delete(uri);
+				this.publishDiagnostics(uri, []);
+				return;
+			}
+			case "workspace/didChangeWatchedFiles":
+				// The config, a schema or the helpers may have changed
+				await this.reloadConfig();
+				this.registerWatchers();
+				for (const document of this.documents.values()) {
+					this.validate(document);
+				}
+				return;
+		}
+	}
+
+	// ─── Lifecycle ─────────────────────────────────────────────────────────
+
+	private async initialize(params: InitializeParams): Promise<unknown> {
+		const rootUri = params.rootUri ?? params.workspaceFolders?.[0]?.uri;
+		if (rootUri?.startsWith("file:")) this.root = fileURLToPath(rootUri);
+		else if (params.rootPath) this.root = params.rootPath;
+		this.capabilities = params.capabilities ?? {};
+
+		await this.reloadConfig();
+		this.initialized = true;
+
+		return {
+			capabilities: {
+				textDocumentSync: {
+					openClose: true,
+					change: TextDocumentSyncKind.Full,
+				},
+				completionProvider: { triggerCharacters: ["{", ".", "@", "("] },
+				hoverProvider: true,
+				signatureHelpProvider: { triggerCharacters: [" ", "("] },
+				definitionProvider: true,
+				semanticTokensProvider: {
+					legend: { tokenTypes: [...SEMANTIC_TOKEN_TYPES], tokenModifiers: [] },
+					full: true,
+				},
+			},
+			serverInfo: { name: SERVER_NAME },
+		};
+	}
+
+	/**
+	 * Loads the config of the workspace and builds an engine with its
+	 * helpers. An invalid config is reported to the user and replaced by
+	 * an empty one, so that templates are still analyzed.
+	 */
+	private async reloadConfig(): Promise<void> {
+		try {
+			this.config = await loadConfig(this.root);
+		} catch (error) {
+			this.config = undefined;
+			this.showMessage(
+				MessageType.Error,
+				`Typebars: invalid configuration — ${errorMessage(error)}`,
+			);
+		}
+		this.engine = new Typebars({
+			helpers: this.config?.helpers,
+			collectEach: this.config?.collectEach,
+		});
+	}
+
+	/**
+	 * Asks the client to report the changes of the files the config is
+	 * read from, when it can register watchers dynamically. The watchers
+	 * are registered again when the config points to other files.
+	 */
+	private registerWatchers(): void {
+		const support = this.capabilities.workspace?.didChangeWatchedFiles;
+		if (!support?.dynamicRegistration) return;
+
+		const files = this.config
+			? getWatchedFiles(this.config)
+			: [resolve(this.root, CONFIG_FILE_NAME)];
+		if (files.join("\n") === this.watchedFiles.join("\n")) return;
+
+		const method = "workspace/didChangeWatchedFiles";
+		if (this.watchedFiles.length > 0) {
+			// `unregisterations` is the spelling of the protocol
+			this.sendRequest("client/unregisterCapability", {
+				unregisterations: [{ id: WATCHERS_REGISTRATION_ID, method }],
+			});
+		}
+		this.watchedFiles = files;
+
+		const watchers: FileSystemWatcher[] = files.map((file) => ({
+			globPattern: toGlobPattern(
+				file,
+				this.root,
+				support.relativePatternSupport === true,
+			),
+		}));
+		this.sendRequest("client/registerCapability", {
+			registrations: [
+				{ id: WATCHERS_REGISTRATION_ID, method, registerOptions: { watchers } },
+			],
+		});
+	}
+
+	// ─── Diagnostics ───────────────────────────────────────────────────────
+
+	private openDocument(uri: string, version: number, text: string): void {
+		const document = new TextDocument(uri, version, text);
+		this.documents.set(uri, document);
+		this.validate(document);
+	}
+
+	/**
+	 * Analyzes a document and publishes its diagnostics. Without a
+	 * (valid) config, only syntax errors are reported.
+	 */
+	private validate(document: TextDocument): void {
+		const { inputSchema, identifierSchemas } = this.schemasOf(document.uri);
+		let diagnostics: Diagnostic[] = [];
+		try {
+			if (this.config?.file) {
+				const analysis = this.engine.analyze(document.text, inputSchema, {
+					identifierSchemas,
+				});
+				diagnostics = analysis.diagnostics.map(toDiagnostic);
+			} else {
+				// Without a config there is no schema to check the paths
+				// against: only the syntax is checked
+				parse(document.text);
+			}
+		} catch (error) {
+			if (!(error instanceof TemplateError)) throw error;
+			diagnostics = [errorDiagnostic(error)];
+		}
+		this.publishDiagnostics(document.uri, diagnostics, document.version);
+	}
+
+	private publishDiagnostics(
+		uri: string,
+		diagnostics: Diagnostic[],
+		version?: number,
+	): void {
+		this.options.send({
+			jsonrpc: "2.0",
+			method: "textDocument/publishDiagnostics",
+			params: { uri, version, diagnostics },
+		});
+	}
+
+	// ─── Language Features ─────────────────────────────────────────────────
+
+	private completion(params: TextDocumentPositionParams): CompletionItem[] {
+		const document = this.getDocument(params.textDocument.uri);
+		const { inputSchema, identifierSchemas } = this.schemasOf(document.uri);
+		const { items, range } = this.engine.complete(
+			document.text,
+			document.offsetAt(params.position),
+			inputSchema,
+			{ identifierSchemas },
+		);
+
+		const editRange = document.rangeAt(range.start, range.end);
+		return items.map((item) => {
+			const completion: CompletionItem = {
+				label: item.label,
+				kind: COMPLETION_ITEM_KINDS[item.kind],
+				textEdit: { range: editRange, newText: item.label },
+			};
+			if (item.kind === "helper") {
+				completion.detail = formatSignature(
+					item.label,
+					item.params ?? [],
+					item.schema,
+				);
+			} else if (item.schema) {
+				completion.detail = describeSchema(item.schema);
+			}
+			if (item.description) {
+				completion.documentation = {
+					kind: "markdown",
+					value: item.description,
+				};
+			}
+			return completion;
+		});
+	}
+
+	private hover(params: TextDocumentPositionParams): Hover | null {
+		const document = this.getDocument(params.textDocument.uri);
+		const { inputSchema, identifierSchemas } = this.schemasOf(document.uri);
+		const result = this.engine.hover(
+			document.text,
+			document.offsetAt(params.position),
+			inputSchema,
+			{ identifierSchemas },
+		);
+		if (!result) return null;
+
+		// `user.name?: string` — `?` when the value may be absent
+		const identifier =
+			result.identifier === null ? "" : `:${result.identifier}`;
+		const optional = result.required ? "" : "?";
+		const signature = `${result.path}${identifier}${optional}: ${describeSchema(result.schema)}`;
+		const sections = [`\`\`\`typescript\n${signature}\n\`\`\``];
+		if (result.description) sections.push(result.description);
+
+		return {
+			contents: { kind: "markdown", value: sections.join("\n\n") },
+			range: document.rangeAt(result.range.start, result.range.end),
+		};
+	}
+
+	private signatureHelp(
+		params: TextDocumentPositionParams,
+	): SignatureHelp | null {
+		const document = this.getDocument(params.textDocument.uri);
+		const help = this.engine.signatureHelp(
+			document.text,
+			document.offsetAt(params.position),
+		);
+		if (!help) return null;
+
+		const signature: SignatureHelp["signatures"][number] = {
+			label: formatSignature(help.helper, help.params, help.returnType),
+			parameters: help.params.map((param) => {
+				const parameter: SignatureHelp["signatures"][number]["parameters"][number] =
+					{ label: formatParam(param) };
+				if (param.description) {
+					parameter.documentation = {
+						kind: "markdown",
+						value: param.description,
+					};
+				}
+				return parameter;
+			}),
+		};
+		if (help.description) {
+			signature.documentation = { kind: "markdown", value: help.description };
+		}
+		return {
+			signatures: [signature],
+			activeSignature: 0,
+			activeParameter: help.activeParameter,
+		};
+	}
+
+	/** The property of the schema the path under the cursor resolves to */
+	private definition(params: TextDocumentPositionParams): Location | null {
+		const document = this.getDocument(params.textDocument.uri);
+		const settings = this.settingsOf(document.uri);
+		const { inputSchema, identifierSchemas } = this.schemasOf(document.uri);
+		const result = this.engine.hover(
+			document.text,
+			document.offsetAt(params.position),
+			inputSchema,
+			{ identifierSchemas },
+		);
+		if (!result?.dataPath) return null;
+
+		const source =
+			result.identifier === null
+				? settings.inputSchema
+				: settings.identifierSchemas[result.identifier];
+		if (!source) return null;
+		const pointer = findSchemaPointer(source.schema, result.dataPath);
+		if (pointer === undefined) return null;
+
+		let text: string;
+		try {
+			text = readFileSync(source.file, "utf8");
+		} catch {
+			return null;
+		}
+		const range = findPointerRange(text, source.pointer + pointer);
+		if (!range) return null;
+
+		const uri = pathToFileURL(source.file).href;
+		const schemaDocument = new TextDocument(uri, 0, text);
+		return { uri, range: schemaDocument.rangeAt(range.start, range.end) };
+	}
+
+	private semanticTokens(params: {
+		textDocument: TextDocumentIdentifier;
+	}): SemanticTokens {
+		const document = this.getDocument(params.textDocument.uri);
+		let ast: hbs.AST.Program;
+		try {
+			ast = parse(document.text);
+		} catch {
+			return { data: [] };
+		}
+		return {
+			data: computeSemanticTokens(ast, (name) => this.engine.hasHelper(name)),
+		};
+	}
+
+	// ─── Internals ─────────────────────────────────────────────────────────
+
+	private getDocument(uri: string): TextDocument {
+		const document = this.documents.get(uri);
+		if (!document) {
+			throw new ResponseError(
+				ErrorCodes.InvalidParams,
+				`Document "${uri}" is not open`,
+			);
+		}
+		return document;
+	}
+
+	/** Where the schemas of a document are declared */
+	private settingsOf(uri: string): SchemaSettings {
+		if (!this.config) return { identifierSchemas: {} };
+		const path = uri.startsWith("file:") ? fileURLToPath(uri) : undefined;
+		return getSchemaSettings(this.config, path);
+	}
+
+	/** The schemas a document is analyzed against */
+	private schemasOf(uri: string): {
+		inputSchema: JSONSchema7;
+		identifierSchemas: Record<number, JSONSchema7>;
+	} {
+		const settings = this.settingsOf(uri);
+		const identifierSchemas: Record<number, JSONSchema7> = {};
+		for (const [id, source] of Object.entries(settings.identifierSchemas)) {
+			identifierSchemas[Number(id)] = source.schema;
+		}
+		return {
+			inputSchema: settings.inputSchema?.schema ?? {},
+			identifierSchemas,
+		};
+	}
+
+	/** Sends a request to the client, without waiting for its response */
+	private sendRequest(method: string, params: unknown): void {
+		this.options.send({
+			jsonrpc: "2.0",
+			id: this.nextRequestId++,
+			method,
+			params,
+		});
+	}
+
+	private showMessage(type: number, message: string): void {
+		this.options.send({
+			jsonrpc: "2.0",
+			method: "window/showMessage",
+			params: { type, message },
+		});
+	}
+
+	private log(type: number, message: string): void {
+		this.options.send({
+			jsonrpc: "2.0",
+			method: "window/logMessage",
+			params: { type, message },
+		});
+	}
+}
+
+// ─── Params ──────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function invalidParams(expected: string): ResponseError {
+	return new ResponseError(ErrorCodes.InvalidParams, `Expected ${expected}`);
+}
+
+/** The params of a request on a document */
+function toDocumentParams(params: unknown): {
+	textDocument: TextDocumentIdentifier;
+} {
+	if (
+		!isRecord(params) ||
+		!isRecord(params.textDocument) ||
+		typeof params.textDocument.uri !== "string"
+	) {
+		throw invalidParams("a textDocument with a uri");
+	}
+	return params as { textDocument: TextDocumentIdentifier };
+}
+
+/** The params of a request on a position of a document */
+function toPositionParams(params: unknown): TextDocumentPositionParams {
+	const { position } = toDocumentParams(params) as { position?: unknown };
+	if (
+		!isRecord(position) ||
+		typeof position.line !== "number" ||
+		typeof position.character !== "number"
+	) {
+		throw invalidParams("a position with a line and a character");
+	}
+	return params as TextDocumentPositionParams;
+}
+
+// ─── Conversions ─────────────────────────────────────────────────────────────
+
+/**
+ * The glob of a watched file, relative to the workspace: a relative
+ * pattern for clients that support them, else the path under any folder
+ * (`**` then the path), which every client matches. Files outside the
+ * workspace are watched by name.
+ */
+function toGlobPattern(
+	file: string,
+	root: string,
+	relativePatterns: boolean,
+): GlobPattern {
+	const path = relative(root, file);
+	const inside = path !== "" && !path.startsWith("..") && !isAbsolute(path);
+	const pattern = (inside ? path : basename(file)).split(sep).join("/");
+	if (!relativePatterns) return `**/${pattern}`;
+	const base = inside ? root : dirname(file);
+	return { baseUri: pathToFileURL(base).href, pattern };
+}
+
+function toDiagnostic(diagnostic: TemplateDiagnostic): Diagnostic {
+	const start = diagnostic.loc
+		? toPosition(diagnostic.loc.start)
+		: { line: 0, character: 0 };
+	const end = diagnostic.loc ? toPosition(diagnostic.loc.end) : start;
+	return {
+		range: { start, end },
+		severity:
+			diagnostic.severity === "error"
+				? DiagnosticSeverity.Error
+				: DiagnosticSeverity.Warning,
+		code: diagnostic.code,
+		source: DIAGNOSTIC_SOURCE,
+		message: diagnostic.message,
+	};
+}
+
+/**
+ * A diagnostic for an error thrown by the analysis. Parse errors often
+ * only tell the line (`Parse error on line 2`).
+ */
+function errorDiagnostic(error: TemplateError): Diagnostic {
+	let start = { line: 0, character: 0 };
+	if (error instanceof TemplateParseError) {
+		const line =
+			error.loc?.line ?? Number(/on line (\d+)/.exec(error.message)?.[1] ?? 1);
+		start = toPosition({ line, column: error.loc?.column ?? 0 });
+	}
+	return {
+		range: { start, end: start },
+		severity: DiagnosticSeverity.Error,
+		source: DIAGNOSTIC_SOURCE,
+		message: error.message,
+	};
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────────────
+
+/** A TypeScript-like type of a schema (`string`, `number[]`, `"a" | "b"`) */
+function describeSchema(schema: JSONSchema7): string {
+	if (schema.const !== undefined) return JSON.stringify(schema.const);
+	if (schema.enum) {
+		return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+	}
+	const variants = schema.anyOf ?? schema.oneOf;
+	if (variants) {
+		return variants
+			.map((variant) =>
+				typeof variant === "boolean" ? "unknown" : describeSchema(variant),
+			)
+			.join(" | ");
+	}
+
+	const types = Array.isArray(schema.type)
+		? schema.type
+		: schema.type
+			? [schema.type]
+			: [];
+	if (types.length === 0) return "unknown";
+	return types
+		.map((type) => {
+			if (type !== "array") return type === "integer" ? "number" : type;
+			const items =
+				schema.items &&
+				typeof schema.items === "object" &&
+				!Array.isArray(schema.items)
+					? describeSchema(schema.items)
+					: "unknown";
+			return items.includes(" | ") ? `(${items})[]` : `${items}[]`;
+		})
+		.join(" | ");
+}
+
+/** `name: type`, with `?` for optional parameters */
+function formatParam(param: HelperParam): string {
+	const optional = param.optional ? "?" : "";
+	const type = param.type ? describeSchema(param.type) : "unknown";
+	return `${param.name}${optional}: ${type}`;
+}
+
+/** `add(a: number, b: number): number` */
+function formatSignature(
+	name: string,
+	params: HelperParam[],
+	returnType: JSONSchema7 | undefined,
+): string {
+	const returns = returnType ? `: ${describeSchema(returnType)}` : "";
+	return `${name}(${params.map(formatParam).join(", ")})${returns}`;
+}
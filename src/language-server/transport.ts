@@ -0,0 +1,109 @@
+import { ErrorCodes, type Message } from "./protocol.ts";
+import { TypebarsLanguageServer } from "./server.ts";
+
+// ─── Transport ───────────────────────────────────────────────────────────────
+// LSP messages are JSON-RPC bodies preceded by a `Content-Length` header
+// (in bytes), over stdin / stdout:
+//
+//   Content-Length: 52\r\n
+//   \r\n
+//   {"jsonrpc":"2.0","id":1,"method":"shutdown"}
+//
+// Messages are handled one at a time, in the order they are received, so
+// that a request always sees the documents changed before it.
+
+const HEADER_SEPARATOR = "\r\n\r\n";
+
+const CONTENT_LENGTH_PATTERN = /^Content-Length:\s*(\d+)\s*$/im;
+
+// ─── Reader ──────────────────────────────────────────────────────────────────
+
+/**
+ * Splits the bytes read from the client into messages. Chunks may hold
+ * part of a message or several messages.
+ */
+export class MessageReader {
+	private buffer = Buffer.alloc(0);
+
+	constructor(
+		private readonly onMessage: (message: Message) => void,
+		private readonly onError: (error: Error) => void,
+	) {}
+
+	/** Reads a chunk, emitting every message it completes */
+	push(chunk: Buffer | string): void {
+		this.buffer = Buffer.concat([this.buffer, Buffer.from(chunk)]);
+
+		while (true) {
+			const headerEnd = this.buffer.indexOf(HEADER_SEPARATOR);
+			if (headerEnd === -1) return;
+
+			const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+			const length = CONTENT_LENGTH_PATTERN.exec(header)?.[1];
+			const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+			if (length === undefined) {
+				// Not a message: drop the header and read on
+				this.buffer = this.buffer.subarray(bodyStart);
+				this.onError(new Error(`Missing Content-Length header: ${header}`));
+				continue;
+			}
+
+			const bodyEnd = bodyStart + Number(length);
+			if (this.buffer.length < bodyEnd) return;
+			const body = this.buffer.subarray(bodyStart, bodyEnd).toString("utf8");
+			this.buffer = this.buffer.subarray(bodyEnd);
+
+			let message: Message;
+			try {
+				message = JSON.parse(body) as Message;
+			} catch {
+				this.onError(new Error(`Invalid JSON message: ${body}`));
+				continue;
+			}
+			this.onMessage(message);
+		}
+	}
+}
+
+// ─── Writer ──────────────────────────────────────────────────────────────────
+
+/** Frames a message with its `Content-Length` header */
+export function encodeMessage(message: Message): string {
+	const body = JSON.stringify(message);
+	return `Content-Length: ${Buffer.byteLength(body, "utf8")}${HEADER_SEPARATOR}${body}`;
+}
+
+// ─── Entry Point ─────────────────────────────────────────────────────────────
+
+/**
+ * Starts a language server speaking LSP over the given streams (stdin /
+ * stdout by default). The process exits on the `exit` notification.
+ */
+export function startLanguageServer(
+	input: NodeJS.ReadableStream = process.stdin,
+	output: NodeJS.WritableStream = process.stdout,
+): TypebarsLanguageServer {
+	const send = (message: Message) => {
+		output.write(encodeMessage(message));
+	};
+	const server = new TypebarsLanguageServer({
+		send,
+		exit: (code) => process.exit(code),
+	});
+
+	let queue = Promise.resolve();
+	const reader = new MessageReader(
+		(message) => {
+			queue = queue.then(() => server.handle(message));
+		},
+		(error) => {
+			send({
+				jsonrpc: "2.0",
+				id: null,
+				error: { code: ErrorCodes.ParseError, message: error.message },
+			});
+		},
+	);
+	input.on("data", (chunk: Buffer | string) => reader.push(chunk));
+	return server;
+}
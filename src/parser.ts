@@ -60,6 +60,46 @@ export function parse(template: string): hbs.AST.Program {
 	}
 }
 
+// ─── Compilation AST ─────────────────────────────────────────────────────────
+// Handlebars compiles a lone `{{@name}}` as an "ambiguous" expression that
+// calls the helper `name` when one is registered — so `{{@first}}` inside
+// `#each` would call the `first` helper, and `{{@count}}` inside
+// `{{#let count=…}}` the `count` helper. Templates are compiled from an AST
+// where such data variables are marked as scoped (`./@name`), which makes
+// Handlebars read the `@data` frame directly.
+
+/** Marks lone `{{@name}}` mustaches as scoped paths (see above) */
+class DataVariableMarker extends Handlebars.Visitor {
+	override MustacheStatement(mustache: hbs.AST.MustacheStatement): void {
+		const path = mustache.path as hbs.AST.PathExpression;
+		if (
+			path.type === "PathExpression" &&
+			path.data &&
+			path.parts.length === 1 &&
+			mustache.params.length === 0 &&
+			!mustache.hash
+		) {
+			path.original = `./${path.original}`;
+		}
+		super.MustacheStatement(mustache);
+	}
+}
+
+/**
+ * Parses a template for `Handlebars.compile()`: the returned AST is a fresh
+ * copy where `{{@name}}` always reads the `@data` variable, even when a
+ * helper of the same name is registered.
+ *
+ * @param template - The template string to parse
+ * @returns The AST to compile
+ * @throws {TemplateParseError} if the template syntax is invalid
+ */
+export function parseForCompilation(template: string): hbs.AST.Program {
+	const ast = parse(template);
+	new DataVariableMarker().accept(ast);
+	return ast;
+}
+
 /**
  * Determines whether the AST represents a template consisting of a single
  * expression `{{expression}}` with no text content around it.
@@ -117,6 +157,28 @@ export function isDataExpression(expr: hbs.AST.Expression): boolean {
 	return (expr as hbs.AST.PathExpression).data === true;
 }
 
+/**
+ * Checks whether an AST expression is an `@root` data path
+ * (`{{@root}}`, `{{@root.user.name}}`), which always refers to the
+ * top-level input regardless of the enclosing blocks.
+ */
+export function isRootDataExpression(expr: hbs.AST.Expression): boolean {
+	if (expr.type !== "PathExpression") return false;
+	const path = expr as hbs.AST.PathExpression;
+	return path.data === true && path.parts[0] === "root";
+}
+
+/**
+ * Checks whether a path is explicitly scoped to the current context
+ * (`this.name`, `./name`) or to a parent one (`../name`).
+ *
+ * Scoped paths never resolve to block params: `{{this.item}}` reads the
+ * `item` property even inside `{{#each list as |item|}}`.
+ */
+export function isScopedPath(expr: hbs.AST.PathExpression): boolean {
+	return expr.depth > 0 || /^(this|\.)([./]|$)/.test(expr.original);
+}
+
 /**
  * Checks whether an AST expression is a `PathExpression` whose first
  * segment is the `$root` token.
@@ -229,6 +291,90 @@ export function getEffectivelySingleExpression(
 	return null;
 }
 
+/**
+ * Determines whether a Program effectively consists of a single
+ * `PartialStatement` (ignoring surrounding whitespace).
+ *
+ * Example: `  {{> header}}  ` → the `{{> header}}` statement
+ */
+export function getEffectivelySinglePartial(
+	program: hbs.AST.Program,
+): hbs.AST.PartialStatement | null {
+	const effective = getEffectiveBody(program);
+	if (effective.length === 1 && effective[0]?.type === "PartialStatement") {
+		return effective[0] as hbs.AST.PartialStatement;
+	}
+	return null;
+}
+
+/**
+ * Extracts the static name of a partial call (`{{> header}}`,
+ * `{{> "email/footer"}}`).
+ *
+ * @returns The partial name, or `null` for dynamic partials
+ *          (`{{> (lookup . "name")}}`)
+ */
+export function getPartialName(
+	stmt: hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement,
+): string | null {
+	const name = stmt.name as hbs.AST.Expression;
+	if (name.type === "PathExpression") {
+		return (name as hbs.AST.PathExpression).original;
+	}
+	if (name.type === "StringLiteral" || name.type === "NumberLiteral") {
+		return String(
+			(name as hbs.AST.StringLiteral | hbs.AST.NumberLiteral).value,
+		);
+	}
+	return null;
+}
+
+// ─── Collect Mode ────────────────────────────────────────────────────────────
+// In collect mode, a `{{#each}}` block evaluates its body once per item and
+// returns the results as an array instead of concatenating them.
+
+/** Name of the hash argument that toggles collect mode on `{{#each}}` */
+export const COLLECT_HASH_KEY = "collect";
+
+/**
+ * Determines whether an `{{#each}}` block runs in collect mode.
+ *
+ * An explicit `collect=true` / `collect=false` hash argument wins; without
+ * it, the engine-wide default applies. Only boolean literals are honored —
+ * the analyzer reports any other `collect` value.
+ *
+ * @param stmt           - The block statement
+ * @param defaultCollect - Engine-wide default (`collectEach` option)
+ *
+ * @example
+ * ```
+ * isCollectEach(parse("{{#each items collect=true}}{{this}}{{/each}}").body[0]) // → true
+ * isCollectEach(parse("{{#each items}}{{this}}{{/each}}").body[0], true)       // → true
+ * ```
+ */
+export function isCollectEach(
+	stmt: hbs.AST.BlockStatement,
+	defaultCollect = false,
+): boolean {
+	if (stmt.path.type !== "PathExpression") return false;
+	if ((stmt.path as hbs.AST.PathExpression).original !== "each") return false;
+
+	const pair = getCollectHashPair(stmt);
+	if (pair?.value.type === "BooleanLiteral") {
+		return (pair.value as hbs.AST.BooleanLiteral).value;
+	}
+	return defaultCollect;
+}
+
+/**
+ * Returns the `collect=…` hash pair of a block, if any.
+ */
+export function getCollectHashPair(
+	stmt: hbs.AST.BlockStatement,
+): hbs.AST.HashPair | undefined {
+	return stmt.hash?.pairs.find((p) => p.key === COLLECT_HASH_KEY);
+}
+
 // ─── Handlebars Expression Detection ─────────────────────────────────────────
 // Fast heuristic to determine whether a string contains Handlebars expressions.
 // Used by `excludeTemplateExpression` filtering to skip dynamic entries.
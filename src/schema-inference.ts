@@ -0,0 +1,667 @@
+import type { JSONSchema7, JSONSchema7TypeName } from "json-schema";
+import { CollectionHelpers } from "./helpers/collection-helpers.ts";
+import { ConditionalHelpers } from "./helpers/conditional-helpers.ts";
+import { DefaultHelpers } from "./helpers/default-helpers.ts";
+import { isBuiltInHelper } from "./helpers/helper-factory.ts";
+import { LetHelpers } from "./helpers/let-helpers.ts";
+import { MapHelpers } from "./helpers/map-helpers.ts";
+import {
+	extractExpressionIdentifier,
+	getPartialName,
+	isRootDataExpression,
+	isRootPathTraversal,
+	isRootSegments,
+	isScopedPath,
+} from "./parser.ts";
+import type {
+	HelperDefinition,
+	InputSchemaInference,
+	PartialDefinition,
+} from "./types.ts";
+
+// ─── Input Schema Inference ──────────────────────────────────────────────────
+// The reverse of static analysis: instead of validating a template against
+// a known schema, walks its AST and builds the weakest JSON Schema of the
+// input — and of each `{{key:N}}` identifier — under which the template is
+// valid.
+//
+// Every path the template reads becomes a property. Blocks follow the same
+// scoping rules as the analyzer:
+// - `{{#each items}}` → `items` is an array, its body reads the items
+// - `{{#with user}}`  → the body reads `user`'s properties
+// - `../`, `@root`, block params and `#let` bindings resolve in their scope
+// - `{{> partial}}`   → the partial's `contextSchema` properties it
+//   requires, or the paths its body reads when it declares none
+//
+// Arguments of registered helpers take the type of the declared param
+// (`HelperDefinition.params[i].type`, `hash[key].type`). A path used with
+// several types takes all of them (`type: ["number", "string"]`), which is
+// the weakest schema that satisfies every use.
+//
+// Built-in collection helpers that return their array argument (`filter`,
+// `sortBy`…) or one of its items (`first`, `last`) pass it through: in
+// `{{#each (filter users "active")}}{{name}}{{/each}}`, `active` and `name`
+// are properties of the items of `users`.
+//
+// ─── Mutable schemas ─────────────────────────────────────────────────────────
+// The schemas are built in place: resolving a path returns the schema
+// object of its last segment (creating the missing ones), so that a block
+// can use it as the context of its body and keep extending it.
+
+// ─── Internal Types ──────────────────────────────────────────────────────────
+
+/**
+ * How much a read needs the value to be present:
+ * - `optional` — the template handles a missing value (conditions)
+ * - `read`     — required only with the `requireProperties` option
+ * - `required` — the template is invalid without it (`default` fallback)
+ */
+type Presence = "optional" | "read" | "required";
+
+/** Context passed recursively during AST traversal */
+interface InferenceContext {
+	/** Schema of the input being built */
+	root: JSONSchema7;
+	/** Schema of the current context (changes with #each, #with) */
+	current: JSONSchema7;
+	/** Enclosing context schemas, innermost last (for `../`) */
+	parentContexts: JSONSchema7[];
+	/** Block params in scope, innermost last */
+	blockParams: Record<string, JSONSchema7>[];
+	/** `@data` variables of the enclosing `#each` / `#let`, innermost last */
+	dataVariables: Record<string, JSONSchema7>[];
+	/** Schemas of the identifiers being built */
+	identifierSchemas: Record<number, JSONSchema7>;
+	/** Registered helpers (for the param types) */
+	helpers?: Map<string, HelperDefinition>;
+	/** Registered partials */
+	partials?: Map<string, PartialDefinition>;
+	/** Whether every read property is required */
+	requireProperties: boolean;
+	/** Names of the partials being walked, outermost first (cycles) */
+	partialStack: string[];
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/** Options for `inferInputSchemaFromAsts()` */
+export interface InferInputSchemaFromAstsOptions {
+	/** Registered custom helpers */
+	helpers?: Map<string, HelperDefinition>;
+	/** Registered partials */
+	partials?: Map<string, PartialDefinition>;
+	/** See `InferInputSchemaOptions.requireProperties` */
+	requireProperties?: boolean;
+}
+
+/**
+ * Infers the input schema and the identifier schemas required by one or
+ * more templates sharing the same input (e.g. the properties of an object
+ * template).
+ *
+ * @param asts    - Parsed ASTs of the templates
+ * @param options - Registered helpers and partials, inference options
+ */
+export function inferInputSchemaFromAsts(
+	asts: hbs.AST.Program[],
+	options: InferInputSchemaFromAstsOptions = {},
+): InputSchemaInference {
+	const root: JSONSchema7 = {};
+	const ctx: InferenceContext = {
+		root,
+		current: root,
+		parentContexts: [],
+		blockParams: [],
+		dataVariables: [],
+		identifierSchemas: {},
+		helpers: options.helpers,
+		partials: options.partials,
+		requireProperties: options.requireProperties ?? false,
+		partialStack: [],
+	};
+
+	for (const ast of asts) {
+		walkProgram(ast, ctx);
+	}
+
+	return { inputSchema: root, identifierSchemas: ctx.identifierSchemas };
+}
+
+// ─── AST Traversal ───────────────────────────────────────────────────────────
+
+/** Walks the statements of a template or block body */
+function walkProgram(program: hbs.AST.Program, ctx: InferenceContext): void {
+	for (const stmt of program.body) {
+		walkStatement(stmt, ctx);
+	}
+}
+
+/** Dispatches a statement — text and comments read nothing */
+function walkStatement(stmt: hbs.AST.Statement, ctx: InferenceContext): void {
+	switch (stmt.type) {
+		case "MustacheStatement":
+			walkMustache(stmt as hbs.AST.MustacheStatement, ctx);
+			return;
+		case "BlockStatement":
+			walkBlock(stmt as hbs.AST.BlockStatement, ctx);
+			return;
+		case "PartialStatement":
+		case "PartialBlockStatement":
+			walkPartial(
+				stmt as hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement,
+				ctx,
+			);
+			return;
+	}
+}
+
+/**
+ * Walks a `{{expression}}` — a path when it has no arguments (like in the
+ * analyzer), a helper call otherwise.
+ */
+function walkMustache(
+	stmt: hbs.AST.MustacheStatement,
+	ctx: InferenceContext,
+): void {
+	if (stmt.path.type === "SubExpression") {
+		walkSubExpression(stmt.path as hbs.AST.SubExpression, ctx);
+		walkArguments(stmt.params, stmt.hash, ctx);
+		return;
+	}
+	if (stmt.params.length === 0 && !stmt.hash) {
+		readExpression(stmt.path, {}, "read", ctx);
+		return;
+	}
+	walkHelperCall(getExpressionName(stmt.path), stmt.params, stmt.hash, ctx);
+}
+
+/** Walks a block statement and its branches */
+function walkBlock(stmt: hbs.AST.BlockStatement, ctx: InferenceContext): void {
+	const helperName = getExpressionName(stmt.path);
+	const arg = stmt.params[0];
+
+	switch (helperName) {
+		// ── if / unless — the condition may be missing ───────────────────────
+		case "if":
+		case "unless":
+			walkArguments(stmt.params, stmt.hash, ctx, "optional");
+			walkProgram(stmt.program, ctx);
+			break;
+
+		// ── each — the argument is an array, the body reads its items ────────
+		case "each": {
+			const collection = arg ? readExpression(arg, {}, "read", ctx) : undefined;
+			const items = collection ? getItemsSchema(collection) : {};
+			// `#each` sets its own variables, hiding outer `#let` bindings
+			ctx.dataVariables.push({ index: {}, key: {}, first: {}, last: {} });
+			walkProgramInScope(stmt.program, ctx, items, [items]);
+			ctx.dataVariables.pop();
+			break;
+		}
+
+		// ── with — the body reads the argument's properties ──────────────────
+		case "with": {
+			const inner = arg ? (readExpression(arg, {}, "read", ctx) ?? {}) : {};
+			walkProgramInScope(stmt.program, ctx, inner, [inner]);
+			break;
+		}
+
+		// ── let — the bindings are the schemas of their values ───────────────
+		case LetHelpers.LET_HELPER_NAME: {
+			const bindings: Record<string, JSONSchema7> = {};
+			for (const pair of stmt.hash?.pairs ?? []) {
+				bindings[pair.key] = readExpression(pair.value, {}, "read", ctx) ?? {};
+			}
+			ctx.dataVariables.push(bindings);
+			walkProgram(stmt.program, ctx);
+			ctx.dataVariables.pop();
+			break;
+		}
+
+		// ── switch / case / default and other helpers ────────────────────────
+		// The body keeps the context; custom helpers bind block params of an
+		// unknown type
+		default: {
+			if (helperName === DefaultHelpers.DEFAULT_HELPER_NAME) {
+				walkArguments(stmt.params, stmt.hash, ctx);
+			} else {
+				walkHelperCall(helperName, stmt.params, stmt.hash, ctx);
+			}
+			ctx.blockParams.push(bindBlockParams(stmt.program, []));
+			walkProgram(stmt.program, ctx);
+			ctx.blockParams.pop();
+		}
+	}
+
+	// The inverse branch ({{else}}) keeps the enclosing context
+	if (stmt.inverse) walkProgram(stmt.inverse, ctx);
+}
+
+/**
+ * Walks a block body executed with a new context, like the analyzer's
+ * `inferProgramInScope`.
+ */
+function walkProgramInScope(
+	program: hbs.AST.Program,
+	ctx: InferenceContext,
+	context: JSONSchema7,
+	paramSchemas: JSONSchema7[],
+): void {
+	ctx.parentContexts.push(ctx.current);
+	ctx.blockParams.push(bindBlockParams(program, paramSchemas));
+	ctx.current = context;
+
+	walkProgram(program, ctx);
+
+	ctx.current = ctx.parentContexts.pop() as JSONSchema7;
+	ctx.blockParams.pop();
+}
+
+/** Maps the block params of a body (`as |a b|`) to their schemas */
+function bindBlockParams(
+	program: hbs.AST.Program,
+	paramSchemas: JSONSchema7[],
+): Record<string, JSONSchema7> {
+	const bindings: Record<string, JSONSchema7> = {};
+	const names = program.blockParams ?? [];
+	for (let i = 0; i < names.length; i++) {
+		bindings[names[i] as string] = paramSchemas[i] ?? {};
+	}
+	return bindings;
+}
+
+// ─── Helper Calls ────────────────────────────────────────────────────────────
+
+/**
+ * Walks the arguments of a helper call. The arguments of a registered
+ * helper take the type of the declared param.
+ *
+ * @returns The schema the result is read through — the array argument of
+ *          a collection helper returning it, or its items — or `undefined`
+ */
+function walkHelperCall(
+	helperName: string,
+	params: hbs.AST.Expression[],
+	hash: hbs.AST.Hash | undefined,
+	ctx: InferenceContext,
+): JSONSchema7 | undefined {
+	// Custom helpers registered under a built-in name are walked like any
+	// other helper
+	const helper = ctx.helpers?.get(helperName);
+	const isBuiltIn = helper !== undefined && isBuiltInHelper(helper);
+
+	// ── map — the collection is an array of objects with the property ──────
+	const [first, second] = params;
+	if (isBuiltIn && helperName === MapHelpers.MAP_HELPER_NAME && first) {
+		const collection = readExpression(first, {}, "read", ctx);
+		const items = collection ? getItemsSchema(collection) : undefined;
+		if (items && second?.type === "StringLiteral") {
+			getProperty(items, (second as hbs.AST.StringLiteral).value, "read", ctx);
+		}
+		walkArguments(params.slice(1), hash, ctx);
+		return undefined;
+	}
+
+	// ── default — only the last argument must be present ─────────────────
+	// (unless a literal or a sub-expression already guarantees a value)
+	if (isBuiltIn && helperName === DefaultHelpers.DEFAULT_HELPER_NAME) {
+		const guaranteed = params.some((param) => param.type !== "PathExpression");
+		params.forEach((param, i) => {
+			const isLast = i === params.length - 1;
+			readExpression(
+				param,
+				{},
+				isLast && !guaranteed ? "required" : "optional",
+				ctx,
+			);
+		});
+		walkArguments([], hash, ctx);
+		return undefined;
+	}
+
+	// ── iif / ternary — the condition may be missing ─────────────────────
+	if (
+		isBuiltIn &&
+		ConditionalHelpers.CONDITIONAL_HELPER_NAMES.includes(helperName)
+	) {
+		walkArguments(params.slice(0, 1), undefined, ctx, "optional");
+		walkArguments(params.slice(1), hash, ctx);
+		return undefined;
+	}
+
+	const schemas = params.map((param, i) =>
+		readExpression(param, helper?.params?.[i]?.type ?? {}, "read", ctx),
+	);
+	for (const pair of hash?.pairs ?? []) {
+		const hashParam = helper?.hash?.[pair.key] ?? helper?.additionalHash;
+		readExpression(pair.value, hashParam?.type ?? {}, "read", ctx);
+	}
+
+	// ── collection helpers — the result is read through the array ────────
+	const collection = schemas[0];
+	if (!isBuiltIn || !collection) return undefined;
+	if (
+		CollectionHelpers.ITEM_PATH_HELPER_NAMES.includes(helperName) &&
+		second?.type === "StringLiteral"
+	) {
+		const path = (second as hbs.AST.StringLiteral).value;
+		let item = getItemsSchema(collection);
+		for (const segment of path ? path.split(".") : []) {
+			item = getProperty(item, segment, "read", ctx);
+		}
+	}
+	if (CollectionHelpers.SAME_ITEMS_HELPER_NAMES.includes(helperName)) {
+		return collection;
+	}
+	if (CollectionHelpers.ITEM_HELPER_NAMES.includes(helperName)) {
+		return getItemsSchema(collection);
+	}
+	return undefined;
+}
+
+/** Walks the arguments of a call without declared types */
+function walkArguments(
+	params: hbs.AST.Expression[],
+	hash: hbs.AST.Hash | undefined,
+	ctx: InferenceContext,
+	presence: Presence = "read",
+): void {
+	for (const param of params) {
+		readExpression(param, {}, presence, ctx);
+	}
+	for (const pair of hash?.pairs ?? []) {
+		readExpression(pair.value, {}, presence, ctx);
+	}
+}
+
+/** Walks a sub-expression `(helper a b)` — see `walkHelperCall` */
+function walkSubExpression(
+	expr: hbs.AST.SubExpression,
+	ctx: InferenceContext,
+): JSONSchema7 | undefined {
+	return walkHelperCall(
+		getExpressionName(expr.path),
+		expr.params,
+		expr.hash,
+		ctx,
+	);
+}
+
+// ─── Partials ────────────────────────────────────────────────────────────────
+
+/**
+ * Walks a partial call. A partial with a `contextSchema` reads the
+ * properties it declares as required from its context; the body of a
+ * partial without one is walked in the call-site context.
+ */
+function walkPartial(
+	stmt: hbs.AST.PartialStatement | hbs.AST.PartialBlockStatement,
+	ctx: InferenceContext,
+): void {
+	// The body of a partial block is written in the caller's context
+	if (stmt.type === "PartialBlockStatement") {
+		walkProgram((stmt as hbs.AST.PartialBlockStatement).program, ctx);
+	}
+
+	const partialName = getPartialName(stmt);
+	const partial =
+		partialName !== null ? ctx.partials?.get(partialName) : undefined;
+	const contextParam = stmt.params[0];
+	const context = contextParam
+		? (readExpression(contextParam, {}, "read", ctx) ?? {})
+		: ctx.current;
+
+	// Hash params are added to the partial's context
+	const contextSchema = partial?.contextSchema;
+	const hashBindings: Record<string, JSONSchema7> = {};
+	for (const pair of stmt.hash?.pairs ?? []) {
+		const expected = getDeclaredProperty(contextSchema, pair.key);
+		hashBindings[pair.key] =
+			readExpression(pair.value, expected ?? {}, "read", ctx) ?? {};
+	}
+
+	if (!partial || partialName === null) return;
+
+	if (contextSchema) {
+		for (const key of contextSchema.required ?? []) {
+			if (key in hashBindings) continue;
+			const property = getProperty(context, key, "read", ctx);
+			mergeSchema(property, getDeclaredProperty(contextSchema, key) ?? {});
+		}
+		return;
+	}
+
+	if (ctx.partialStack.includes(partialName)) return;
+	const partialCtx: InferenceContext = {
+		...ctx,
+		root: context,
+		current: context,
+		parentContexts: [],
+		blockParams: [hashBindings],
+		dataVariables: [],
+		partialStack: [...ctx.partialStack, partialName],
+	};
+	walkProgram(partial.ast, partialCtx);
+}
+
+/** Schema of a property declared by a partial's `contextSchema` */
+function getDeclaredProperty(
+	schema: JSONSchema7 | undefined,
+	key: string,
+): JSONSchema7 | undefined {
+	const property = schema?.properties?.[key];
+	return typeof property === "object" ? property : undefined;
+}
+
+// ─── Expression Resolution ───────────────────────────────────────────────────
+
+/**
+ * Records what an expression reads and returns the schema of the value it
+ * refers to — the schema of a path, created if needed, or the array (or
+ * items) a collection helper passes through — or `undefined` for literals,
+ * other helper results and runtime `@data` variables.
+ *
+ * @param constraint - Schema merged into the schema of a path (e.g. the
+ *                     type of the helper param it is passed to)
+ * @param presence   - Whether the value must be present
+ */
+function readExpression(
+	expr: hbs.AST.Expression,
+	constraint: JSONSchema7,
+	presence: Presence,
+	ctx: InferenceContext,
+): JSONSchema7 | undefined {
+	if (expr.type === "SubExpression") {
+		const result = walkSubExpression(expr as hbs.AST.SubExpression, ctx);
+		if (result) mergeSchema(result, constraint);
+		return result;
+	}
+	if (expr.type !== "PathExpression") return undefined;
+
+	const path = expr as hbs.AST.PathExpression;
+	const scope = getPathScope(path, ctx);
+	if (!scope) return undefined;
+
+	let schema = scope.base;
+	for (const segment of scope.segments) {
+		schema = getProperty(schema, segment, presence, ctx);
+	}
+	mergeSchema(schema, constraint);
+	return schema;
+}
+
+/** Schema and remaining segments a path expression is looked up with */
+interface PathScope {
+	base: JSONSchema7;
+	segments: string[];
+}
+
+/**
+ * Determines where a path is looked up, like the analyzer's
+ * `getPathScope`. Returns `undefined` for paths that do not read the
+ * input: runtime `@data` variables, `$root.x` (invalid) and `../` above
+ * the outermost context.
+ */
+function getPathScope(
+	expr: hbs.AST.PathExpression,
+	ctx: InferenceContext,
+): PathScope | undefined {
+	if (isRootDataExpression(expr)) {
+		return { base: ctx.root, segments: expr.parts.slice(1) };
+	}
+
+	// `@name` — a `#let` binding (searched from the innermost block)
+	if (expr.data) {
+		const [head, ...rest] = expr.parts;
+		for (let i = ctx.dataVariables.length - 1; i >= 0; i--) {
+			const binding = head !== undefined && ctx.dataVariables[i]?.[head];
+			if (binding) return { base: binding, segments: rest };
+		}
+		return undefined;
+	}
+
+	const { cleanSegments, identifier } = extractExpressionIdentifier(expr.parts);
+	if (isRootPathTraversal(cleanSegments)) return undefined;
+	if (identifier !== null) {
+		ctx.identifierSchemas[identifier] ??= {};
+		return {
+			base: ctx.identifierSchemas[identifier],
+			segments: isRootSegments(cleanSegments) ? [] : cleanSegments,
+		};
+	}
+	if (isRootSegments(cleanSegments)) {
+		return { base: ctx.current, segments: [] };
+	}
+
+	if (expr.depth > 0) {
+		const parent = ctx.parentContexts[ctx.parentContexts.length - expr.depth];
+		return parent ? { base: parent, segments: cleanSegments } : undefined;
+	}
+
+	const head = cleanSegments[0];
+	if (head !== undefined && !isScopedPath(expr)) {
+		for (let i = ctx.blockParams.length - 1; i >= 0; i--) {
+			const param = ctx.blockParams[i]?.[head];
+			if (param) return { base: param, segments: cleanSegments.slice(1) };
+		}
+	}
+
+	return { base: ctx.current, segments: cleanSegments };
+}
+
+// ─── Schema Building ─────────────────────────────────────────────────────────
+
+/**
+ * Returns the schema of a property, adding it — and the `object` type — to
+ * the parent schema when missing. `length` and numeric segments of an
+ * array schema are the array's intrinsic accesses.
+ */
+function getProperty(
+	schema: JSONSchema7,
+	key: string,
+	presence: Presence,
+	ctx: InferenceContext,
+): JSONSchema7 {
+	if (hasType(schema, "array")) {
+		if (key === "length") return { type: "integer" };
+		if (/^\d+$/.test(key)) return getItemsSchema(schema);
+	}
+
+	addType(schema, "object");
+	schema.properties ??= {};
+	const existing = schema.properties[key];
+	const property: JSONSchema7 = typeof existing === "object" ? existing : {};
+	schema.properties[key] = property;
+
+	if (
+		presence === "required" ||
+		(presence === "read" && ctx.requireProperties)
+	) {
+		schema.required ??= [];
+		if (!schema.required.includes(key)) schema.required.push(key);
+	}
+	return property;
+}
+
+/** Returns the items schema of an array schema, adding it when missing */
+function getItemsSchema(schema: JSONSchema7): JSONSchema7 {
+	addType(schema, "array");
+	if (typeof schema.items !== "object" || Array.isArray(schema.items)) {
+		schema.items = {};
+	}
+	return schema.items;
+}
+
+/**
+ * Merges a constraint into a schema being built: the types are united
+ * (a value used as a number and as a string accepts both), properties
+ * and items are merged recursively, and other keywords are kept when the
+ * schema does not set them yet.
+ */
+function mergeSchema(schema: JSONSchema7, constraint: JSONSchema7): void {
+	for (const [keyword, value] of Object.entries(constraint)) {
+		switch (keyword) {
+			case "type": {
+				const types = Array.isArray(value) ? value : [value];
+				for (const type of types) addType(schema, type);
+				break;
+			}
+			case "properties":
+				for (const [key, property] of Object.entries(
+					value as Record<string, JSONSchema7>,
+				)) {
+					schema.properties ??= {};
+					const existing = schema.properties[key];
+					if (typeof existing !== "object") {
+						schema.properties[key] = structuredClone(property);
+					} else if (typeof property === "object") {
+						mergeSchema(existing, property);
+					}
+				}
+				break;
+			case "required":
+				schema.required = [
+					...new Set([...(schema.required ?? []), ...(value as string[])]),
+				];
+				break;
+			case "items":
+				if (typeof value === "object" && !Array.isArray(value)) {
+					mergeSchema(getItemsSchema(schema), value as JSONSchema7);
+				}
+				break;
+			default:
+				if (!(keyword in schema)) {
+					(schema as Record<string, unknown>)[keyword] = structuredClone(value);
+				}
+		}
+	}
+}
+
+/** Adds a type to a schema — a schema with several uses has several types */
+function addType(schema: JSONSchema7, type: JSONSchema7TypeName): void {
+	if (schema.type === undefined) {
+		schema.type = type;
+	} else if (!hasType(schema, type)) {
+		schema.type = [
+			...(Array.isArray(schema.type) ? schema.type : [schema.type]),
+			type,
+		];
+	}
+}
+
+/** Whether a schema declares a type */
+function hasType(schema: JSONSchema7, type: JSONSchema7TypeName): boolean {
+	return Array.isArray(schema.type)
+		? schema.type.includes(type)
+		: schema.type === type;
+}
+
+// ─── Utilities ───────────────────────────────────────────────────────────────
+
+/** Name of a helper or block: the original text of its path */
+function getExpressionName(expr: hbs.AST.Expression): string {
+	if (expr.type === "PathExpression") {
+		return (expr as hbs.AST.PathExpression).original;
+	}
+	return "";
+}
@@ -1,4 +1,4 @@
-import type { JSONSchema7 } from "json-schema";
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
 import { UnsupportedSchemaError } from "./errors.ts";
 import { deepEqual } from "./utils.ts";
 
@@ -12,22 +12,25 @@ import { deepEqual } from "./utils.ts";
 // - Navigation through `items` (array elements)
 // - Combinators `allOf`, `anyOf`, `oneOf` (searches each branch)
 // - `additionalProperties` when the property is not explicitly declared
-//
-// Rejects:
-// - Conditional schemas (`if/then/else`) — non-resolvable without runtime data
+// - Conditional schemas (`if/then/else`) — approximated as the union of the
+//   `then` and `else` shapes merged with the base schema
 
 // ─── Conditional Schema Detection ────────────────────────────────────────────
 // JSON Schema Draft v7 introduced `if/then/else` conditional schemas.
-// These are fundamentally non-resolvable during static analysis because
-// they depend on runtime data values. Rather than silently ignoring them
-// (which would produce incorrect results — missing properties, wrong types),
-// we fail fast with a clear error pointing to the exact location in the schema.
+// Which branch applies depends on runtime data values, so the resolver
+// treats a conditional as a union of both branches: properties declared in
+// a branch are resolvable, but only required when both branches require
+// them. The analyzer reports each location as a warning so callers know the
+// result is an approximation, and narrows to a single branch when the
+// template tests the discriminant (see `narrowConditionalSchema`).
 
 /**
  * Recursively scans a JSON Schema tree for `if/then/else` conditional keywords
  * and returns their locations as an array of `{ keyword, schemaPath }` objects.
  *
  * This is the non-throwing counterpart of `assertNoConditionalSchema`.
+ * The `then` / `else` branches themselves are scanned as well, so nested
+ * conditionals are reported with their full path.
  * It traverses the entire schema tree, including:
  * - `properties` values
  * - `additionalProperties` (when it's a schema)
@@ -162,6 +165,20 @@ export function findConditionalSchemaLocations(
 		);
 	}
 
+	// ── Recurse into conditional branches ────────────────────────────────
+	for (const keyword of ["then", "else"] as const) {
+		const branch = schema[keyword];
+		if (branch && typeof branch !== "boolean") {
+			locations.push(
+				...findConditionalSchemaLocations(
+					branch,
+					`${path}/${keyword}`,
+					visited,
+				),
+			);
+		}
+	}
+
 	// ── Recurse into definitions / $defs ─────────────────────────────────
 	for (const defsKey of ["definitions", "$defs"] as const) {
 		const defs = schema[defsKey];
@@ -397,9 +414,41 @@ function resolveInCombinators(
 		if (matches.length > 1) return { [key]: matches };
 	}
 
+	// if/then/else: the property can come from either branch — which one
+	// applies is only known at runtime, so both are treated like `oneOf`.
+	const conditionalMatches = getConditionalBranches(schema)
+		.map((branch) => resolveSegment(branch, segment, root))
+		.filter((s): s is JSONSchema7 => s !== undefined);
+
+	if (conditionalMatches.length === 1) {
+		return conditionalMatches[0] as JSONSchema7;
+	}
+	if (conditionalMatches.length > 1) {
+		return deepEqual(conditionalMatches[0], conditionalMatches[1])
+			? (conditionalMatches[0] as JSONSchema7)
+			: { oneOf: conditionalMatches };
+	}
+
 	return undefined;
 }
 
+/**
+ * Returns the `then` / `else` branches of a conditional schema.
+ * Boolean branches are ignored (they declare no properties).
+ */
+function getConditionalBranches(schema: JSONSchema7): JSONSchema7[] {
+	const branches: JSONSchema7[] = [];
+	// `then` / `else` without `if` are ignored by JSON Schema validators
+	if (schema.if === undefined) return branches;
+	for (const key of ["then", "else"] as const) {
+		const branch = schema[key];
+		if (branch !== undefined && typeof branch !== "boolean") {
+			branches.push(branch);
+		}
+	}
+	return branches;
+}
+
 // ─── Public API ──────────────────────────────────────────────────────────────
 
 /**
@@ -493,6 +542,107 @@ export function resolveArrayItems(
 	return resolveRef(resolved.items, root);
 }
 
+// ─── Object Iteration ────────────────────────────────────────────────────────
+// `{{#each}}` also iterates over objects: the body runs once per entry with
+// the value as context and the property name as `@key`.
+
+/** Schemas of the entries of an object iterated by `{{#each}}` */
+export interface ObjectEntrySchemas {
+	/** Schema of the values (the context inside the block) */
+	value: JSONSchema7;
+	/** Schema of the property names (`@key`) */
+	key: JSONSchema7;
+}
+
+/**
+ * Resolves the value and key schemas of an object's entries.
+ *
+ * The value schema is the union of the declared `properties`,
+ * `patternProperties` and `additionalProperties` schemas. An object with no
+ * declared property, or with `additionalProperties: true`, has values of
+ * any type. As in the rest of the analyzer, `additionalProperties` left
+ * unset next to declared properties is treated as closed.
+ *
+ * The key schema is `propertyNames` when declared, the enum of the declared
+ * property names when the object is closed, and `{ type: "string" }`
+ * otherwise.
+ *
+ * @param schema - The object schema
+ * @param root   - The root schema (for resolving $refs)
+ * @returns The entry schemas, or `undefined` if the schema is not an object
+ *
+ * @example
+ * ```
+ * resolveObjectEntries({
+ *   type: "object",
+ *   additionalProperties: { type: "string" },
+ *   propertyNames: { pattern: "^[a-z]{2}$" },
+ * }, root)
+ * // → { value: { type: "string" }, key: { type: "string", pattern: "^[a-z]{2}$" } }
+ * ```
+ */
+export function resolveObjectEntries(
+	schema: JSONSchema7,
+	root: JSONSchema7,
+): ObjectEntrySchemas | undefined {
+	const resolved = resolveRef(schema, root);
+
+	const schemaType = resolved.type;
+	const hasObjectKeywords =
+		resolved.properties !== undefined ||
+		resolved.patternProperties !== undefined ||
+		resolved.additionalProperties !== undefined;
+	const isObject =
+		schemaType === "object" ||
+		(Array.isArray(schemaType) && schemaType.includes("object")) ||
+		(schemaType === undefined && hasObjectKeywords);
+	if (!isObject) return undefined;
+
+	const properties = resolved.properties ?? {};
+	const patternProperties = resolved.patternProperties ?? {};
+	const additional = resolved.additionalProperties;
+	const hasDeclaredProperties =
+		Object.keys(properties).length > 0 ||
+		Object.keys(patternProperties).length > 0;
+	const isOpen =
+		additional === true || (additional === undefined && !hasDeclaredProperties);
+
+	const values: JSONSchema7[] = [];
+	const addValue = (definition: JSONSchema7Definition) => {
+		if (definition === false) return;
+		const value = definition === true ? {} : resolveRef(definition, root);
+		if (!values.some((v) => deepEqual(v, value))) values.push(value);
+	};
+	for (const definition of Object.values(properties)) addValue(definition);
+	for (const definition of Object.values(patternProperties)) {
+		addValue(definition);
+	}
+	if (typeof additional === "object") addValue(additional);
+
+	let value: JSONSchema7;
+	if (isOpen || values.length === 0) {
+		value = {};
+	} else if (values.length === 1) {
+		value = values[0] as JSONSchema7;
+	} else {
+		value = { oneOf: values };
+	}
+
+	let key: JSONSchema7 = { type: "string" };
+	if (typeof resolved.propertyNames === "object") {
+		key = { type: "string", ...resolveRef(resolved.propertyNames, root) };
+	} else if (
+		!isOpen &&
+		typeof additional !== "object" &&
+		Object.keys(patternProperties).length === 0 &&
+		Object.keys(properties).length > 0
+	) {
+		key = { type: "string", enum: Object.keys(properties) };
+	}
+
+	return { value, key };
+}
+
 /**
  * Checks whether a property at the given path is **required** in its parent
  * object schema. This navigates the schema segment by segment and checks
@@ -577,9 +727,441 @@ function isRequiredInCombinators(
 		}
 	}
 
+	// if/then/else: required only if BOTH branches exist and require it —
+	// a missing branch means the base schema alone applies.
+	if (schema.if !== undefined) {
+		const thenBranch = schema.then;
+		const elseBranch = schema.else;
+		if (
+			thenBranch !== undefined &&
+			typeof thenBranch !== "boolean" &&
+			elseBranch !== undefined &&
+			typeof elseBranch !== "boolean" &&
+			isRequiredInSchema(thenBranch, property) &&
+			isRequiredInSchema(elseBranch, property)
+		) {
+			return true;
+		}
+	}
+
 	return false;
 }
 
+// ─── Conditional Narrowing ───────────────────────────────────────────────────
+// When a template tests a discriminant property (e.g. `{{#if (eq kind "a")}}`),
+// the branch of an `if/then/else` conditional that applies is known inside
+// the block. The helpers below replace the conditional with the merged
+// `base + then` (or `base + else`) shape so that branch-only properties
+// become resolvable and keep their `required` status. Discriminated
+// `oneOf` / `anyOf` unions are narrowed the same way.
+
+/** A fact about a discriminant property, derived from a template condition */
+export interface DiscriminantTest {
+	/** Name of the tested property (relative to the schema being narrowed) */
+	property: string;
+	/** Literal value the property is compared against */
+	value: string | number | boolean | null;
+	/** `true` for `property === value`, `false` for `property !== value` */
+	equals: boolean;
+}
+
+/** Keywords of an `if` schema that `evaluateConditionTest` understands */
+const DECIDABLE_IF_KEYWORDS = new Set(["properties", "required", "type"]);
+
+/**
+ * Decides whether the `if` schema of a conditional holds under a
+ * discriminant test.
+ *
+ * Only `if` schemas constraining the tested property with `const` or
+ * `enum` can be decided. Anything else returns `undefined` (unknown).
+ */
+function evaluateConditionTest(
+	ifSchema: JSONSchema7Definition,
+	test: DiscriminantTest,
+): boolean | undefined {
+	if (typeof ifSchema === "boolean") return ifSchema;
+
+	for (const keyword of Object.keys(ifSchema)) {
+		if (!DECIDABLE_IF_KEYWORDS.has(keyword)) return undefined;
+	}
+	if (ifSchema.required?.some((name) => name !== test.property)) {
+		return undefined;
+	}
+
+	const properties = ifSchema.properties;
+	if (!properties) return undefined;
+	const keys = Object.keys(properties);
+	if (keys.length !== 1 || keys[0] !== test.property) return undefined;
+
+	const propertySchema = properties[test.property];
+	if (propertySchema === undefined || typeof propertySchema === "boolean") {
+		return undefined;
+	}
+
+	const accepted =
+		propertySchema.const !== undefined
+			? [propertySchema.const]
+			: propertySchema.enum;
+	if (!accepted) return undefined;
+
+	const matches = accepted.some((candidate) => candidate === test.value);
+	if (test.equals) return matches;
+
+	// `property !== value` only rules the condition out when `value` is the
+	// single accepted discriminant.
+	if (matches && accepted.length === 1) return false;
+	return undefined;
+}
+
+/**
+ * Merges a conditional branch (`then` or `else`) into its base schema.
+ *
+ * - `properties` are combined — a property declared in both is shallow-merged
+ * - `required` arrays are unioned
+ * - Other branch keywords are only copied when the base does not set them
+ *
+ * @param base   - The schema holding the conditional, without `if/then/else`
+ * @param branch - The selected branch (`undefined` when absent)
+ */
+export function mergeConditionalBranch(
+	base: JSONSchema7,
+	branch: JSONSchema7Definition | undefined,
+): JSONSchema7 {
+	if (branch === undefined || typeof branch === "boolean") return base;
+
+	const merged: JSONSchema7 = { ...base };
+	for (const [key, value] of Object.entries(branch)) {
+		if (key === "properties" || key === "required") continue;
+		if (!(key in merged)) {
+			(merged as Record<string, unknown>)[key] = value;
+		}
+	}
+
+	if (branch.properties) {
+		const properties: Record<string, JSONSchema7Definition> = {
+			...base.properties,
+		};
+		for (const [key, prop] of Object.entries(branch.properties)) {
+			const existing = properties[key];
+			if (
+				existing === undefined ||
+				existing === true ||
+				typeof prop === "boolean"
+			) {
+				properties[key] = prop;
+			} else if (typeof existing !== "boolean") {
+				properties[key] = { ...existing, ...prop };
+			}
+		}
+		merged.properties = properties;
+	}
+
+	if (branch.required) {
+		merged.required = [
+			...new Set([...(base.required ?? []), ...branch.required]),
+		];
+	}
+
+	return merged;
+}
+
+/**
+ * Narrows the `if/then/else` conditionals of a schema according to a
+ * discriminant test. Conditionals nested in `allOf` branches are narrowed
+ * as well — form builders commonly emit one `{ if, then }` per variant.
+ *
+ * @param schema - The object schema declaring the discriminant property
+ * @param test   - The known fact about the discriminant
+ * @param root   - The root schema (for resolving $refs)
+ * @returns The narrowed schema, or `undefined` if no conditional could be
+ *          decided by the test
+ *
+ * @example
+ * ```
+ * narrowConditionalSchema(
+ *   {
+ *     type: "object",
+ *     properties: { kind: { type: "string" } },
+ *     if: { properties: { kind: { const: "a" } } },
+ *     then: { properties: { a: { type: "string" } }, required: ["a"] },
+ *   },
+ *   { property: "kind", value: "a", equals: true },
+ *   schema,
+ * );
+ * // → { type: "object", properties: { kind: …, a: … }, required: ["a"] }
+ * ```
+ */
+export function narrowConditionalSchema(
+	schema: JSONSchema7,
+	test: DiscriminantTest,
+	root: JSONSchema7,
+): JSONSchema7 | undefined {
+	let result = resolveRef(schema, root);
+	let changed = false;
+
+	if (result.if !== undefined) {
+		const outcome = evaluateConditionTest(result.if, test);
+		if (outcome !== undefined) {
+			const { if: _if, then: thenBranch, else: elseBranch, ...base } = result;
+			result = mergeConditionalBranch(base, outcome ? thenBranch : elseBranch);
+			changed = true;
+			// The selected branch may itself hold a conditional on the same
+			// discriminant — keep narrowing.
+			result = narrowConditionalSchema(result, test, root) ?? result;
+		}
+	}
+
+	if (result.allOf) {
+		let allOfChanged = false;
+		const branches = result.allOf.map((branch) => {
+			if (typeof branch === "boolean") return branch;
+			const narrowed = narrowConditionalSchema(branch, test, root);
+			if (!narrowed) return branch;
+			allOfChanged = true;
+			return narrowed;
+		});
+		if (allOfChanged) {
+			result = { ...result, allOf: branches };
+			changed = true;
+		}
+	}
+
+	return changed ? result : undefined;
+}
+
+/**
+ * Narrows the `oneOf` / `anyOf` branches of a discriminated union according
+ * to a discriminant test. Branches whose discriminant property (`const` or
+ * `enum`) cannot satisfy the test are dropped; branches that do not
+ * constrain the property are kept.
+ *
+ * When a single branch remains, it is merged into the schema holding the
+ * union so that its properties keep their `required` status.
+ *
+ * @param schema - The object schema holding the union
+ * @param test   - The known fact about the discriminant
+ * @param root   - The root schema (for resolving $refs)
+ * @returns The narrowed schema, or `undefined` if no branch was ruled out
+ *
+ * @example
+ * ```
+ * narrowUnionSchema(
+ *   {
+ *     oneOf: [
+ *       { type: "object", properties: { kind: { const: "a" }, a: { type: "string" } } },
+ *       { type: "object", properties: { kind: { const: "b" }, b: { type: "number" } } },
+ *     ],
+ *   },
+ *   { property: "kind", value: "a", equals: true },
+ *   schema,
+ * );
+ * // → { type: "object", properties: { kind: { const: "a" }, a: { type: "string" } } }
+ * ```
+ */
+export function narrowUnionSchema(
+	schema: JSONSchema7,
+	test: DiscriminantTest,
+	root: JSONSchema7,
+): JSONSchema7 | undefined {
+	const resolved = resolveRef(schema, root);
+
+	for (const key of ["oneOf", "anyOf"] as const) {
+		const branches = resolved[key];
+		if (!branches) continue;
+
+		const remaining = branches.filter(
+			(branch) =>
+				typeof branch === "boolean" ||
+				canSatisfyDiscriminant(resolveRef(branch, root), test, root),
+		);
+		// Nothing ruled out, or every branch ruled out (contradictory
+		// condition) — leave the union untouched.
+		if (remaining.length === branches.length || remaining.length === 0) {
+			continue;
+		}
+
+		const { [key]: _union, ...base } = resolved;
+		if (remaining.length === 1) {
+			const branch = remaining[0] as JSONSchema7Definition;
+			return mergeConditionalBranch(
+				base,
+				typeof branch === "boolean" ? branch : resolveRef(branch, root),
+			);
+		}
+		return { ...base, [key]: remaining };
+	}
+
+	return undefined;
+}
+
+/**
+ * Checks whether a union branch can hold under a discriminant test.
+ * Branches that do not constrain the discriminant with `const` or `enum`
+ * are assumed to match.
+ */
+function canSatisfyDiscriminant(
+	branch: JSONSchema7,
+	test: DiscriminantTest,
+	root: JSONSchema7,
+): boolean {
+	const prop = branch.properties?.[test.property];
+	if (prop === undefined || typeof prop === "boolean") return true;
+
+	const propertySchema = resolveRef(prop, root);
+	const accepted =
+		propertySchema.const !== undefined
+			? [propertySchema.const]
+			: propertySchema.enum;
+	if (!accepted) return true;
+
+	const matches = accepted.some((candidate) => candidate === test.value);
+	if (test.equals) return matches;
+	return !(matches && accepted.length === 1);
+}
+
+/**
+ * Returns a copy of `schema` where the sub-schema at `path` is replaced by
+ * `replacement`. Only explicit `properties` are followed.
+ *
+ * @returns The rebuilt schema, or `undefined` if the path does not go
+ *          through explicit `properties`
+ */
+export function replaceSchemaPath(
+	schema: JSONSchema7,
+	path: string[],
+	replacement: JSONSchema7,
+	root: JSONSchema7 = schema,
+): JSONSchema7 | undefined {
+	if (path.length === 0) return replacement;
+
+	const resolved = resolveRef(schema, root);
+	const [segment, ...rest] = path as [string, ...string[]];
+	const prop = resolved.properties?.[segment];
+	if (prop === undefined || typeof prop === "boolean") return undefined;
+
+	const replaced = replaceSchemaPath(prop, rest, replacement, root);
+	if (!replaced) return undefined;
+
+	return {
+		...resolved,
+		properties: { ...resolved.properties, [segment]: replaced },
+	};
+}
+
+// ─── Truthiness Narrowing ────────────────────────────────────────────────────
+// Inside the truthy branch of `{{#if user.email}}`, `user` and `user.email`
+// are known to be present and non-null. The helpers below rewrite the
+// context schema accordingly so that expressions in the branch no longer
+// produce nullable output schemas.
+
+/**
+ * Returns a copy of `schema` where every segment of `path` is marked as
+ * required and the resolved sub-schemas no longer accept `null`.
+ *
+ * Only explicit `properties` are followed. When a segment cannot be
+ * followed (e.g. `users.length`), the segments before it are still
+ * narrowed.
+ *
+ * @param schema - The context schema
+ * @param path   - Property path tested for truthiness
+ * @param root   - The root schema (for resolving $refs)
+ * @returns The narrowed schema, or `undefined` if not even the first
+ *          segment is an explicit property
+ *
+ * @example
+ * ```
+ * narrowSchemaPathToPresent(
+ *   {
+ *     type: "object",
+ *     properties: { email: { type: ["string", "null"] } },
+ *   },
+ *   ["email"],
+ * );
+ * // → { type: "object", properties: { email: { type: "string" } }, required: ["email"] }
+ * ```
+ */
+export function narrowSchemaPathToPresent(
+	schema: JSONSchema7,
+	path: string[],
+	root: JSONSchema7 = schema,
+): JSONSchema7 | undefined {
+	if (path.length === 0) return undefined;
+
+	const resolved = resolveRef(schema, root);
+	const [segment, ...rest] = path as [string, ...string[]];
+	const prop = resolved.properties?.[segment];
+	if (prop === undefined || typeof prop === "boolean") return undefined;
+
+	const present = withoutNullType(resolveRef(prop, root), root);
+	const narrowed =
+		(rest.length > 0
+			? narrowSchemaPathToPresent(present, rest, root)
+			: undefined) ?? present;
+
+	return {
+		...resolved,
+		properties: { ...resolved.properties, [segment]: narrowed },
+		required: [...new Set([...(resolved.required ?? []), segment])],
+	};
+}
+
+/**
+ * Wraps a JSON Schema with `null` to indicate the value can be nullish.
+ *
+ * - If the schema already includes `null`, it is returned as-is.
+ * - For schemas with a simple `type` string, the type becomes an array
+ *   (e.g. `{ type: "string" }` → `{ type: ["string", "null"] }`).
+ * - For schemas with a type array, `"null"` is appended.
+ * - For complex schemas (oneOf, anyOf, etc.), a `oneOf` wrapper is used.
+ */
+export function withNullType(schema: JSONSchema7): JSONSchema7 {
+	if (schema.type === "null") return schema;
+
+	if (typeof schema.type === "string") {
+		return { ...schema, type: [schema.type, "null"] };
+	}
+
+	if (Array.isArray(schema.type)) {
+		if (schema.type.includes("null")) return schema;
+		return { ...schema, type: [...schema.type, "null"] };
+	}
+
+	// Complex schema (oneOf, anyOf, allOf, etc.) — wrap with oneOf
+	return simplifySchema({ oneOf: [schema, { type: "null" }] });
+}
+
+/**
+ * Removes `null` from the accepted types of a schema.
+ *
+ * - `{ type: ["string", "null"] }` → `{ type: "string" }`
+ * - `{ oneOf: [{ type: "string" }, { type: "null" }] }` → `{ type: "string" }`
+ * - A schema that only accepts `null` is returned as-is (the branch is
+ *   unreachable, there is nothing meaningful to narrow to).
+ */
+export function withoutNullType(
+	schema: JSONSchema7,
+	root: JSONSchema7,
+): JSONSchema7 {
+	if (Array.isArray(schema.type) && schema.type.includes("null")) {
+		const types = schema.type.filter((t) => t !== "null");
+		if (types.length === 0) return schema;
+		return { ...schema, type: types.length === 1 ? types[0] : types };
+	}
+
+	for (const key of ["oneOf", "anyOf"] as const) {
+		const branches = schema[key];
+		if (!branches) continue;
+		const nonNull = branches.filter(
+			(branch) =>
+				typeof branch === "boolean" || resolveRef(branch, root).type !== "null",
+		);
+		if (nonNull.length === branches.length || nonNull.length === 0) continue;
+		return simplifySchema({ ...schema, [key]: nonNull });
+	}
+
+	return schema;
+}
+
 /**
  * Simplifies an output schema to avoid unnecessarily complex constructs
  * (e.g. `oneOf` with a single element, duplicates, etc.).
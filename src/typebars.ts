@@ -6,33 +6,58 @@ import {
 	CompiledTemplate,
 	type CompiledTemplateOptions,
 } from "./compiled-template.ts";
+import { completeTemplate } from "./completion.ts";
 import {
 	dispatchAnalyze,
 	dispatchAnalyzeAndExecute,
 	dispatchExecute,
 } from "./dispatch.ts";
-import { TemplateAnalysisError } from "./errors.ts";
+import { InvalidLocaleError, TemplateAnalysisError } from "./errors.ts";
 import { executeFromAst } from "./executor.ts";
 import {
 	ArrayHelpers,
+	CollectionHelpers,
+	ConditionalHelpers,
+	ConversionHelpers,
+	DateHelpers,
 	DefaultHelpers,
+	isBuiltInHelper,
+	LetHelpers,
 	LogicalHelpers,
 	MapHelpers,
 	MathHelpers,
+	MessageHelpers,
+	NumberHelpers,
+	ObjectHelpers,
+	RegexHelpers,
+	StringHelpers,
+	SwitchHelpers,
 } from "./helpers/index.ts";
-import { parse } from "./parser.ts";
+import { hoverTemplate, signatureHelpTemplate } from "./hover.ts";
+import { parse, parseForCompilation } from "./parser.ts";
+import { inferInputSchemaFromAsts } from "./schema-inference.ts";
 import type {
 	AnalysisResult,
 	AnalyzeAndExecuteOptions,
+	CompleteOptions,
+	CompletionResult,
 	ExecuteOptions,
 	HelperDefinition,
+	HoverOptions,
+	HoverResult,
+	InferInputSchemaOptions,
+	InputSchemaInference,
+	PartialDefinition,
+	PartialOptions,
+	SignatureHelp,
 	TemplateData,
+	TemplateDependency,
 	TemplateEngineOptions,
 	TemplateInput,
 	ValidationResult,
 } from "./types.ts";
 import { isArrayInput, isLiteralInput, isObjectInput } from "./types.ts";
-import { LRUCache } from "./utils";
+import { buildHelperArguments, LRUCache } from "./utils";
 
 // ─── Typebars ────────────────────────────────────────────────────────────────
 // Public entry point of the template engine. Orchestrates three phases:
@@ -47,6 +72,7 @@ import { LRUCache } from "./utils";
 // - **`compile()` pattern**: parse-once / execute-many
 // - **`validate()` method**: API shortcut without `outputSchema`
 // - **`registerHelper()`**: custom helpers with static typing
+// - **`registerPartial()`**: reusable partials with schema-checked contexts
 // - **`ExecuteOptions`**: options object for `execute()`
 //
 // ─── Template Identifiers ────────────────────────────────────────────────────
@@ -60,17 +86,6 @@ import { LRUCache } from "./utils";
 //   engine.execute("{{meetingId:1}}", data, { identifierData: { 1: node1Data } });
 //   engine.analyze("{{meetingId:1}}", schema, { identifierSchemas: { 1: node1Schema } });
 
-// ─── Direct Execution Helper Names ───────────────────────────────────────────
-// Helpers whose return values are non-primitive (arrays, objects) and must be
-// wrapped when registered with Handlebars so that mixed/block templates get a
-// human-readable string (e.g. `", "` joined) instead of JS default toString().
-// In single-expression mode the executor bypasses Handlebars entirely, so the
-// raw value is preserved.
-const DIRECT_EXECUTION_HELPER_NAMES = new Set<string>([
-	ArrayHelpers.ARRAY_HELPER_NAME,
-	MapHelpers.MAP_HELPER_NAME,
-]);
-
 /**
  * Converts a value to a string suitable for embedding in a Handlebars template.
  *
@@ -93,6 +108,74 @@ function stringifyForTemplate(value: unknown): string {
 	return String(value);
 }
 
+/**
+ * Prepares the result of a direct-execution helper for Handlebars.
+ *
+ * Arrays and objects are kept as such so that sub-expressions receive the
+ * raw value (e.g. `{{#each (map users "name")}}`), but render like
+ * `stringifyForTemplate()` — or as JSON for objects — when output by a
+ * mustache (templates are compiled with `noEscape`, so Handlebars
+ * concatenates via `toString()`). Primitives are kept as such too, so that
+ * `{{#if (toBoolean "false")}}` sees `false` rather than `"false"`.
+ */
+function toTemplateValue(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		const rendered = stringifyForTemplate(value);
+		const result = [...value];
+		Object.defineProperty(result, "toString", { value: () => rendered });
+		return result;
+	}
+	if (value !== null && typeof value === "object") {
+		const rendered = JSON.stringify(value);
+		const result = { ...value };
+		Object.defineProperty(result, "toString", { value: () => rendered });
+		return result;
+	}
+	return value;
+}
+
+/** Default locale of the number helpers and `formatDate` */
+const DEFAULT_LOCALE = "en-US";
+
+/** Validates a BCP 47 locale — throws an `InvalidLocaleError` when it is invalid. */
+function checkLocale(locale: string): string {
+	try {
+		Intl.getCanonicalLocales(locale);
+	} catch {
+		throw new InvalidLocaleError(locale);
+	}
+	return locale;
+}
+
+/**
+ * Resolves a bare `{{name}}` against the current context when `name` is a
+ * built-in helper that requires arguments.
+ *
+ * Handlebars gives helpers precedence over properties of the same name,
+ * whereas the analyzer treats a mustache without arguments as a property
+ * access — so `{{count}}` keeps reading `data.count` even though `count`
+ * is a built-in helper. Block calls (`{{#name}}…{{/name}}`) are left to the
+ * helper, and custom helpers keep the Handlebars behavior.
+ */
+function withPropertyFallback(
+	name: string,
+	fn: Handlebars.HelperDelegate,
+): Handlebars.HelperDelegate {
+	return function (this: unknown, ...args: unknown[]) {
+		const options = args[args.length - 1] as Handlebars.HelperOptions;
+		if (
+			args.length === 1 &&
+			!options.fn &&
+			Object.keys(options.hash ?? {}).length === 0
+		) {
+			return this !== null && typeof this === "object"
+				? (this as Record<string, unknown>)[name]
+				: undefined;
+		}
+		return (fn as (...args: unknown[]) => unknown).apply(this, args);
+	};
+}
+
 // ─── Main Class ──────────────────────────────────────────────────────────────
 
 export class Typebars {
@@ -111,8 +194,40 @@ export class Typebars {
 	/** Custom helpers registered on this instance */
 	private readonly helpers = new Map<string, HelperDefinition>();
 
+	/** Partials registered on this instance */
+	private readonly partials = new Map<string, PartialDefinition>();
+
+	/** Default collect mode of `{{#each}}` blocks */
+	private readonly collectEach: boolean;
+
+	/** Default locale of the number helpers and `formatDate` */
+	private readonly locale: string;
+
+	/** Locale of the running execution (`ExecuteOptions.locale`) */
+	private localeOverride: string | undefined;
+
+	/** Locale used by the helpers: the execution's, or the engine default */
+	private readonly currentLocale = (): string =>
+		this.localeOverride ?? this.locale;
+
+	/**
+	 * Runs `run` with a locale override. Executions are synchronous, so the
+	 * override only applies to the helpers called during `run`.
+	 */
+	private readonly withLocale = <T>(locale: string, run: () => T): T => {
+		const previous = this.localeOverride;
+		this.localeOverride = checkLocale(locale);
+		try {
+			return run();
+		} finally {
+			this.localeOverride = previous;
+		}
+	};
+
 	constructor(options: TemplateEngineOptions = {}) {
 		this.hbs = Handlebars.create();
+		this.collectEach = options.collectEach ?? false;
+		this.locale = checkLocale(options.locale ?? DEFAULT_LOCALE);
 		this.astCache = new LRUCache(options.astCacheSize ?? 256);
 		this.compilationCache = new LRUCache(options.compilationCacheSize ?? 256);
 
@@ -122,6 +237,21 @@ export class Typebars {
 		new LogicalHelpers().register(this);
 		new MapHelpers().register(this);
 		new DefaultHelpers().register(this);
+		new ConditionalHelpers().register(this);
+		new SwitchHelpers().register(this);
+		new LetHelpers().register(this);
+		new StringHelpers().register(this);
+		new CollectionHelpers().register(this);
+		new ObjectHelpers().register(this);
+		new ConversionHelpers().register(this);
+		new RegexHelpers().register(this);
+		new DateHelpers({
+			timezone: options.timezone,
+			clock: options.clock,
+			locale: this.currentLocale,
+		}).register(this);
+		new NumberHelpers({ locale: this.currentLocale }).register(this);
+		new MessageHelpers({ locale: this.currentLocale }).register(this);
 
 		// ── Custom helpers via options ───────────────────────────────────
 		if (options.helpers) {
@@ -152,8 +282,11 @@ export class Typebars {
 			}
 			return CompiledTemplate.fromArray(children, {
 				helpers: this.helpers,
+				partials: this.partials,
+				collectEach: this.collectEach,
 				hbs: this.hbs,
 				compilationCache: this.compilationCache,
+				withLocale: this.withLocale,
 			});
 		}
 		if (isObjectInput(template)) {
@@ -163,22 +296,31 @@ export class Typebars {
 			}
 			return CompiledTemplate.fromObject(children, {
 				helpers: this.helpers,
+				partials: this.partials,
+				collectEach: this.collectEach,
 				hbs: this.hbs,
 				compilationCache: this.compilationCache,
+				withLocale: this.withLocale,
 			});
 		}
 		if (isLiteralInput(template)) {
 			return CompiledTemplate.fromLiteral(template, {
 				helpers: this.helpers,
+				partials: this.partials,
+				collectEach: this.collectEach,
 				hbs: this.hbs,
 				compilationCache: this.compilationCache,
+				withLocale: this.withLocale,
 			});
 		}
 		const ast = this.getCachedAst(template);
 		const options: CompiledTemplateOptions = {
 			helpers: this.helpers,
+			partials: this.partials,
+			collectEach: this.collectEach,
 			hbs: this.hbs,
 			compilationCache: this.compilationCache,
+			withLocale: this.withLocale,
 		};
 		return CompiledTemplate.fromTemplate(ast, template, options);
 	}
@@ -211,6 +353,8 @@ export class Typebars {
 				return analyzeFromAst(ast, tpl, inputSchema, {
 					identifierSchemas: options?.identifierSchemas,
 					helpers: this.helpers,
+					partials: this.partials,
+					collectEach: this.collectEach,
 					coerceSchema,
 				});
 			},
@@ -245,6 +389,186 @@ export class Typebars {
 		};
 	}
 
+	// ─── Input Schema Inference ──────────────────────────────────────────────
+
+	/**
+	 * Infers the weakest input schema under which a template is valid —
+	 * the reverse of `analyze()`, for templates written before their data
+	 * contract.
+	 *
+	 * Every path the template reads becomes a property, following the
+	 * scopes of `#each` / `#with` blocks (an `#each` argument is an array
+	 * whose items hold the properties read in the body). Arguments of
+	 * registered helpers take the type of the declared param, and paths
+	 * written `{{key:N}}` build the schema of identifier N.
+	 *
+	 * For objects and arrays, every template reads the same input.
+	 *
+	 * @param template - The template to infer the input of
+	 * @param options  - (optional) Inference options (requireProperties)
+	 * @returns The input schema and the schema of each identifier
+	 * @throws {TemplateParseError} if the template syntax is invalid
+	 *
+	 * @example
+	 * ```
+	 * engine.inferInputSchema("{{#each orders}}{{add total 1}}{{/each}}");
+	 * // → { inputSchema: { type: "object", properties: { orders: {
+	 * //       type: "array", items: { type: "object", properties: {
+	 * //         total: { type: "number" } } } } } },
+	 * //     identifierSchemas: {} }
+	 * ```
+	 */
+	inferInputSchema(
+		template: TemplateInput,
+		options: InferInputSchemaOptions = {},
+	): InputSchemaInference {
+		const asts: hbs.AST.Program[] = [];
+		this.collectAsts(template, asts);
+		return inferInputSchemaFromAsts(asts, {
+			helpers: this.helpers,
+			partials: this.partials,
+			requireProperties: options.requireProperties,
+		});
+	}
+
+	// ─── Dependencies ────────────────────────────────────────────────────────
+
+	/**
+	 * Lists every data path a template reads, in source order — e.g. to
+	 * find which data sources (`{{key:N}}` identifiers) must be available
+	 * before executing it.
+	 *
+	 * Paths are resolved through the blocks that change the context: in
+	 * `{{#each orders}}{{id}}{{/each}}`, `{{id}}` reads `orders.id` (with
+	 * `inEach`). Paths read by registered partials are included, and
+	 * object and array templates list the paths of every child.
+	 *
+	 * @param template - The template to list the dependencies of
+	 * @returns One entry per path read (a path read twice appears twice)
+	 * @throws {TemplateParseError} if the template syntax is invalid
+	 *
+	 * @example
+	 * ```
+	 * engine.getDependencies("{{uppercase name:1}}");
+	 * // → [{ path: ["name"], identifier: 1, inEach: false,
+	 * //      helperArgument: true, loc: { … }, templatePath: [] }]
+	 * ```
+	 */
+	getDependencies(template: TemplateInput): TemplateDependency[] {
+		return this.compile(template).dependencies;
+	}
+
+	// ─── Autocompletion ──────────────────────────────────────────────────────
+
+	/**
+	 * Suggests what can be typed at a position inside `{{ }}` — for editors
+	 * completing an expression as it is typed.
+	 *
+	 * Items follow the scope at the cursor: properties of the current
+	 * context (`#each` items, `#with` argument), block params, `@data`
+	 * variables, properties of the identifiers (`id:1`) and registered
+	 * helpers (where a helper can be called). After a `.`, items are the
+	 * properties of the path before it. Only the items starting with the
+	 * text typed before the cursor are returned.
+	 *
+	 * The template may be incomplete or invalid: only the text before the
+	 * cursor is analyzed, with the blocks left open closed.
+	 *
+	 * @param template    - The template being edited
+	 * @param offset      - Position of the cursor in `template`
+	 * @param inputSchema - JSON Schema describing the available variables
+	 * @param options     - (optional) Completion options (identifierSchemas)
+	 * @returns The items and the range of the text they replace (empty
+	 *          outside of `{{ }}`)
+	 *
+	 * @example
+	 * ```
+	 * engine.complete("{{#each users}}{{na", 19, usersSchema);
+	 * // → { items: [{ label: "name", kind: "property",
+	 * //       schema: { type: "string" } }],
+	 * //     range: { start: 17, end: 19 } }
+	 * ```
+	 */
+	complete(
+		template: string,
+		offset: number,
+		inputSchema: JSONSchema7 = {},
+		options: CompleteOptions = {},
+	): CompletionResult {
+		return completeTemplate(template, offset, inputSchema, {
+			identifierSchemas: options.identifierSchemas,
+			helpers: this.helpers,
+			partials: this.partials,
+			collectEach: this.collectEach,
+		});
+	}
+
+	// ─── Hover & Signature Help ──────────────────────────────────────────────
+
+	/**
+	 * Resolves the path under the cursor, like the analyzer — for editors
+	 * showing the type of what is hovered.
+	 *
+	 * The path is read up to the segment under the cursor: hovering `user`
+	 * in `{{user.name}}` resolves `user`. Paths are resolved in the scope
+	 * of the cursor (`#each` items, `#with` argument, block params, `@data`
+	 * variables). The template may be incomplete or invalid.
+	 *
+	 * @param template    - The template being edited
+	 * @param offset      - Position of the cursor in `template`
+	 * @param inputSchema - JSON Schema describing the available variables
+	 * @param options     - (optional) Hover options (identifierSchemas)
+	 * @returns The schema of the path, whether it is always present and the
+	 *          identifier it is read from — `undefined` when the cursor is
+	 *          not on a path that resolves
+	 *
+	 * @example
+	 * ```
+	 * engine.hover("{{#each orders:1}}{{total}}{{/each}}", 21, {}, {
+	 *   identifierSchemas: { 1: ordersSchema },
+	 * });
+	 * // → { path: "total", schema: { type: "number" }, required: true,
+	 * //     identifier: 1, range: { start: 20, end: 25 } }
+	 * ```
+	 */
+	hover(
+		template: string,
+		offset: number,
+		inputSchema: JSONSchema7 = {},
+		options: HoverOptions = {},
+	): HoverResult | undefined {
+		return hoverTemplate(template, offset, inputSchema, {
+			identifierSchemas: options.identifierSchemas,
+			helpers: this.helpers,
+			partials: this.partials,
+			collectEach: this.collectEach,
+		});
+	}
+
+	/**
+	 * Finds the registered helper called around the cursor and the argument
+	 * being typed — for editors showing the signature of a helper while its
+	 * arguments are typed.
+	 *
+	 * The innermost call is used: in `{{add (len items) |}}` the cursor is
+	 * on the second argument of `add`.
+	 *
+	 * @param template - The template being edited
+	 * @param offset   - Position of the cursor in `template`
+	 * @returns The helper's params and the index of the active one —
+	 *          `undefined` outside of the arguments of a registered helper
+	 *
+	 * @example
+	 * ```
+	 * engine.signatureHelp("{{add price ", 12);
+	 * // → { helper: "add", params: [{ name: "a", … }, { name: "b", … }],
+	 * //     activeParameter: 1, returnType: { type: "number" }, … }
+	 * ```
+	 */
+	signatureHelp(template: string, offset: number): SignatureHelp | undefined {
+		return signatureHelpTemplate(template, offset, this.helpers);
+	}
+
 	// ─── Syntax Validation ───────────────────────────────────────────────────
 
 	/**
@@ -286,7 +610,7 @@ export class Typebars {
 	 *
 	 * @param template - The template to execute
 	 * @param data     - The context data for rendering
-	 * @param options  - Execution options (schema, identifierData, identifierSchemas)
+	 * @param options  - Execution options (schema, identifierData, identifierSchemas, locale)
 	 * @returns The execution result
 	 */
 	execute(
@@ -294,6 +618,11 @@ export class Typebars {
 		data?: TemplateData,
 		options?: ExecuteOptions,
 	): unknown {
+		if (options?.locale !== undefined) {
+			const { locale, ...rest } = options;
+			return this.withLocale(locale, () => this.execute(template, data, rest));
+		}
+
 		return dispatchExecute(
 			template,
 			options,
@@ -306,6 +635,8 @@ export class Typebars {
 					const analysis = analyzeFromAst(ast, tpl, options.schema, {
 						identifierSchemas: options?.identifierSchemas,
 						helpers: this.helpers,
+						partials: this.partials,
+						collectEach: this.collectEach,
 					});
 					if (!analysis.valid) {
 						throw new TemplateAnalysisError(analysis.diagnostics);
@@ -318,6 +649,8 @@ export class Typebars {
 					compilationCache: this.compilationCache,
 					coerceSchema,
 					helpers: this.helpers,
+					partials: this.partials,
+					collectEach: this.collectEach,
 				});
 			},
 			// Recursive handler — re-enter execute() for child elements
@@ -357,6 +690,8 @@ export class Typebars {
 				const analysis = analyzeFromAst(ast, tpl, inputSchema, {
 					identifierSchemas: options?.identifierSchemas,
 					helpers: this.helpers,
+					partials: this.partials,
+					collectEach: this.collectEach,
 					coerceSchema,
 				});
 
@@ -370,6 +705,8 @@ export class Typebars {
 					compilationCache: this.compilationCache,
 					coerceSchema,
 					helpers: this.helpers,
+					partials: this.partials,
+					collectEach: this.collectEach,
 				});
 				return { analysis, value };
 			},
@@ -400,17 +737,37 @@ export class Typebars {
 		// Handlebars entirely (via tryDirectHelperExecution) and returns
 		// the raw value, so this wrapper only affects mixed/block templates
 		// where Handlebars renders the result into a larger string.
-		if (DIRECT_EXECUTION_HELPER_NAMES.has(name)) {
-			this.hbs.registerHelper(name, (...args: unknown[]) => {
-				// Handlebars appends an `options` object as the last argument.
-				// Strip it before calling the real fn.
-				const hbsArgs = args.slice(0, -1);
-				const raw = definition.fn(...hbsArgs);
-				return stringifyForTemplate(raw);
-			});
+		//
+		// Direct-execution helpers and helpers with declared hash arguments
+		// are called like the executor calls them (see `buildHelperArguments`):
+		// the hash as a plain object after the declared params, then the extra
+		// arguments, then the Handlebars options.
+		let fn: Handlebars.HelperDelegate;
+		if (definition.directExecution || definition.hash) {
+			fn = function (this: unknown, ...args: unknown[]) {
+				const options = args[args.length - 1] as Handlebars.HelperOptions;
+				const value = definition.fn.call(
+					this,
+					...buildHelperArguments(
+						definition,
+						args.slice(0, -1),
+						options.hash ?? {},
+					),
+					options,
+				);
+				return definition.directExecution ? toTemplateValue(value) : value;
+			};
 		} else {
-			this.hbs.registerHelper(name, definition.fn);
+			fn = definition.fn;
+		}
+
+		if (
+			isBuiltInHelper(definition) &&
+			definition.params?.some((param) => !param.optional)
+		) {
+			fn = withPropertyFallback(name, fn);
 		}
+		this.hbs.registerHelper(name, fn);
 
 		// Invalidate the compilation cache because helpers have changed
 		this.compilationCache.clear();
@@ -444,6 +801,78 @@ export class Typebars {
 		return this.helpers.has(name);
 	}
 
+	// ─── Partial Management ────────────────────────────────────────────────
+
+	/**
+	 * Registers a partial on this engine instance, usable with `{{> name}}`.
+	 *
+	 * The partial is available for both execution (via Handlebars) and
+	 * static analysis: call sites are checked against the declared
+	 * `contextSchema` and take the output type of the partial body.
+	 *
+	 * @param name     - Partial name (e.g. `"header"`)
+	 * @param template - Source of the partial template
+	 * @param options  - (optional) Context schema and description
+	 * @returns `this` to allow chaining
+	 * @throws {TemplateParseError} if the partial template is invalid
+	 *
+	 * @example
+	 * ```
+	 * engine.registerPartial("greeting", "Hello {{name}}!", {
+	 *   contextSchema: {
+	 *     type: "object",
+	 *     properties: { name: { type: "string" } },
+	 *     required: ["name"],
+	 *   },
+	 * });
+	 * engine.analyze("{{> greeting name=user.firstName}}", schema);
+	 * ```
+	 */
+	registerPartial(
+		name: string,
+		template: string,
+		options: PartialOptions = {},
+	): this {
+		const ast = parse(template);
+		this.partials.set(name, { ...options, template, ast });
+		// Handlebars compiles a partial given as an AST like a string one
+		this.hbs.registerPartial(
+			name,
+			parseForCompilation(template) as unknown as Handlebars.Template,
+		);
+
+		// Invalidate the compilation cache because partials have changed
+		this.compilationCache.clear();
+
+		return this;
+	}
+
+	/**
+	 * Removes a partial from this engine instance.
+	 *
+	 * @param name - Name of the partial to remove
+	 * @returns `this` to allow chaining
+	 */
+	unregisterPartial(name: string): this {
+		this.partials.delete(name);
+		this.hbs.unregisterPartial(name);
+
+		// Invalidate the compilation cache
+		this.compilationCache.clear();
+
+		return this;
+	}
+
+	/**
+	 * Checks whether a partial is registered on this instance.
+	 *
+	 * @param name - Partial name
+	 * @returns `true` if the partial is registered
+	 */
+	hasPartial(name: string): boolean {
+		return this.partials.has(name);
+	}
+
 	// ─── Cache Management ──────────────────────────────────────────────────
 
 	/**
@@ -458,6 +887,19 @@ export class Typebars {
 
 	// ─── Internals ─────────────────────────────────────────────────────────
 
+	/** Collects the ASTs of the string templates of a `TemplateInput` */
+	private collectAsts(template: TemplateInput, asts: hbs.AST.Program[]): void {
+		if (isArrayInput(template)) {
+			for (const element of template) this.collectAsts(element, asts);
+		} else if (isObjectInput(template)) {
+			for (const value of Object.values(template)) {
+				this.collectAsts(value, asts);
+			}
+		} else if (!isLiteralInput(template)) {
+			asts.push(this.getCachedAst(template));
+		}
+	}
+
 	/**
 	 * Retrieves the AST of a template from the cache, or parses and caches it.
 	 */
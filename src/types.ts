@@ -202,12 +202,40 @@ export type DiagnosticCode =
 	| "PARSE_ERROR"
 	/** The $root token is used with path traversal (e.g. $root.name) */
 	| "ROOT_PATH_TRAVERSAL"
-	/** Unsupported JSON Schema feature (e.g. if/then/else conditional schemas) */
+	/** Unsupported JSON Schema feature */
 	| "UNSUPPORTED_SCHEMA"
+	/** An if/then/else conditional schema is approximated as the union of its branches */
+	| "CONDITIONAL_SCHEMA"
 	/** The map helper implicitly flattens the input array one level before mapping */
 	| "MAP_IMPLICIT_FLATTEN"
 	/** The default helper's argument chain does not end with a guaranteed (non-optional) value */
-	| "DEFAULT_NO_GUARANTEED_VALUE";
+	| "DEFAULT_NO_GUARANTEED_VALUE"
+	/** The partial referenced by `{{> name}}` is not registered */
+	| "UNKNOWN_PARTIAL"
+	/** A partial includes itself, directly or through other partials */
+	| "PARTIAL_CYCLE"
+	/** A `key=value` argument is not declared in the helper's `hash` */
+	| "UNKNOWN_HASH_ARGUMENT"
+	/** A string that is not known to be a date is passed to a date helper */
+	| "NON_DATE_STRING"
+	/** The cases of a `select` do not cover every possible value of its selector */
+	| "NON_EXHAUSTIVE_SELECT"
+	/** A regular expression literal passed to a regex helper is invalid */
+	| "INVALID_REGEX"
+	/** An ICU message known statically (literal or static `#icu` body) is malformed */
+	| "INVALID_MESSAGE"
+	/** A `#case` value is not a member of the `enum` / `const` set of the switch subject */
+	| "UNREACHABLE_CASE"
+	/** A `#switch` without `#default` does not cover every possible value of its subject */
+	| "NON_EXHAUSTIVE_SWITCH"
+	/** A `#case` value is already matched by a previous `#case` of the switch */
+	| "DUPLICATE_CASE"
+	/** Content of a `#switch` outside its `#case` / `#default` blocks, never output */
+	| "CONTENT_OUTSIDE_CASE"
+	/** A `#case` or `#default` block is not a direct child of a `#switch` */
+	| "CASE_OUTSIDE_SWITCH"
+	/** A `#let` binding is never read in the block */
+	| "UNUSED_BINDING";
 
 // ─── Diagnostic Details ──────────────────────────────────────────────────────
 // Supplementary information to understand the exact cause of the error.
@@ -226,6 +254,10 @@ export interface DiagnosticDetails {
 	availableProperties?: string[];
 	/** Template identifier number (for `{{key:N}}` errors) */
 	identifier?: number;
+	/** Name of the partial involved (for partial-related errors) */
+	partialName?: string;
+	/** Name of the `key=value` argument involved (for hash-related errors) */
+	hashArgument?: string;
 }
 
 // ─── Static Analysis Result ──────────────────────────────────────────────────
@@ -312,6 +344,62 @@ export interface TemplateEngineOptions {
 	 * ```
 	 */
 	helpers?: HelperConfig[];
+
+	/**
+	 * Runs every `{{#each}}` block in collect mode unless it declares
+	 * `collect=false`: a template made of a single `{{#each}}` returns an
+	 * array of the body's values instead of their concatenation.
+	 *
+	 * @default false
+	 *
+	 * @example
+	 * ```
+	 * const engine = new Typebars({ collectEach: true });
+	 * engine.execute("{{#each users}}{{age}}{{/each}}", { users: [{ age: 1 }, { age: 2 }] });
+	 * // → [1, 2]
+	 * ```
+	 */
+	collectEach?: boolean;
+
+	/**
+	 * Default IANA time zone of the date helpers (`formatDate`, `dateAdd`,
+	 * `startOf`, …). A call can override it with a `tz=` argument.
+	 *
+	 * @default "UTC"
+	 *
+	 * @example
+	 * ```
+	 * const engine = new Typebars({ timezone: "Europe/Paris" });
+	 * engine.execute('{{formatDate date "HH:mm"}}', { date: "2024-01-15T09:30:00Z" });
+	 * // → "10:30"
+	 * ```
+	 */
+	timezone?: string;
+
+	/**
+	 * Returns the current time, used by the `now` date helper.
+	 * Useful to make templates deterministic in tests.
+	 *
+	 * @default Date.now
+	 */
+	clock?: () => Date | number;
+
+	/**
+	 * Default BCP 47 locale of the number helpers (`formatNumber`,
+	 * `formatCurrency`, …) and of `formatDate`. A call can override it with
+	 * a `locale=` argument, an execution with the `locale` execute option.
+	 * An invalid locale throws an `InvalidLocaleError`.
+	 *
+	 * @default "en-US"
+	 *
+	 * @example
+	 * ```
+	 * const engine = new Typebars({ locale: "fr-FR" });
+	 * engine.execute('{{formatCurrency total "EUR"}}', { total: 1234.56 });
+	 * // → "1 234,56 €"
+	 * ```
+	 */
+	locale?: string;
 }
 
 export interface CommonTypebarsOptions {
@@ -358,6 +446,11 @@ export interface ExecuteOptions extends CommonTypebarsOptions {
 	identifierData?: IdentifierData;
 	/** Schemas by identifier (for static validation with identifiers) */
 	identifierSchemas?: Record<number, JSONSchema7>;
+	/**
+	 * Locale of this execution, overriding the engine's `locale` option
+	 * (number helpers and `formatDate`).
+	 */
+	locale?: string;
 }
 
 // ─── Combined Analyze-and-Execute Options ────────────────────────────────────
@@ -377,6 +470,164 @@ export interface AnalyzeAndExecuteOptions extends CommonTypebarsOptions {
 	identifierData?: IdentifierData;
 }
 
+// ─── Template Dependencies ───────────────────────────────────────────────────
+// Data paths read by a template, returned by `getDependencies()` and
+// `CompiledTemplate.dependencies`.
+
+/** A data path read by a template */
+export interface TemplateDependency {
+	/**
+	 * Path segments from the root of the data source — the input, or the
+	 * data of `identifier`. Paths read in a block are resolved through it:
+	 * `{{city}}` in `{{#with address}}` is `["address", "city"]`, and
+	 * `{{id}}` in `{{#each orders}}` is `["orders", "id"]` (with `inEach`).
+	 * `[]` is the whole data source (`{{$root}}`, `{{this}}`).
+	 */
+	path: string[];
+	/** Identifier N of the `{{key:N}}` syntax, or `null` for the input */
+	identifier: number | null;
+	/** Whether the path is read per item of an `{{#each}}` */
+	inEach: boolean;
+	/**
+	 * Whether the path is an argument of a helper, a sub-expression or a
+	 * block (`{{uppercase name}}`, `{{#if name}}`) rather than output as is
+	 */
+	helperArgument: boolean;
+	/**
+	 * Position of the path in its template. Paths read by the body of a
+	 * partial take the position of the `{{> partial}}` call.
+	 */
+	loc?: {
+		start: { line: number; column: number };
+		end: { line: number; column: number };
+	};
+	/**
+	 * Keys leading to the template in an object or array `TemplateInput`
+	 * (`["user", "tags", 0]`), `[]` for a string template
+	 */
+	templatePath: (string | number)[];
+}
+
+// ─── Autocompletion ──────────────────────────────────────────────────────────
+// Suggestions for the expression being typed, returned by `complete()`.
+
+/** Options for `complete()` */
+export interface CompleteOptions {
+	/** Schemas by template identifier (for the `{{key:N}}` syntax) */
+	identifierSchemas?: Record<number, JSONSchema7>;
+}
+
+/** What a completion item inserts */
+export type CompletionItemKind =
+	| "property"
+	| "blockParam"
+	| "dataVariable"
+	| "identifier"
+	| "helper";
+
+/** A suggestion for the expression being typed */
+export interface CompletionItem {
+	/** The text replacing the completion range (`name`, `@index`, `id:1`) */
+	label: string;
+	kind: CompletionItemKind;
+	/** Schema of the value — the return type for helpers */
+	schema?: JSONSchema7;
+	/** Parameters of a helper */
+	params?: HelperParam[];
+	/** Description of the helper or of the value's schema */
+	description?: string;
+}
+
+/** Result of `complete()` */
+export interface CompletionResult {
+	/** Suggestions starting with the text typed before the cursor */
+	items: CompletionItem[];
+	/**
+	 * Offsets of the text replaced by an item: the path segment around
+	 * the cursor (`na` in `{{user.na}}`)
+	 */
+	range: { start: number; end: number };
+}
+
+// ─── Hover & Signature Help ──────────────────────────────────────────────────
+// Information about the expression under the cursor, returned by `hover()`
+// and `signatureHelp()`.
+
+/** Options for `hover()` */
+export interface HoverOptions {
+	/** Schemas by template identifier (for the `{{key:N}}` syntax) */
+	identifierSchemas?: Record<number, JSONSchema7>;
+}
+
+/** The resolved type of the path under the cursor */
+export interface HoverResult {
+	/** The path up to the segment under the cursor (`user` in `{{user.name}}`) */
+	path: string;
+	/** Schema of the value */
+	schema: JSONSchema7;
+	/** Description of the schema */
+	description?: string;
+	/** Whether the value is always present (every segment is `required`) */
+	required: boolean;
+	/**
+	 * Identifier N the value is read from — with `{{key:N}}` or in a block
+	 * reading it (`{{#each orders:1}}`) — or `null`
+	 */
+	identifier: number | null;
+	/**
+	 * Path of the value from the root of its data source (the input or
+	 * identifier N) — absent for `@data` variables and computed values
+	 */
+	dataPath?: string[];
+	/** Offsets of the path in the template */
+	range: { start: number; end: number };
+}
+
+/** The helper call around the cursor */
+export interface SignatureHelp {
+	/** Name of the helper */
+	helper: string;
+	/** Positional parameters of the helper */
+	params: HelperParam[];
+	/**
+	 * Index in `params` of the argument at the cursor (may exceed the
+	 * declared params)
+	 */
+	activeParameter: number;
+	/** Name of the `key=value` argument at the cursor */
+	activeHash?: string;
+	/** Named arguments of the helper */
+	hash?: Record<string, HelperHashParam>;
+	/** Return type of the helper */
+	returnType?: JSONSchema7;
+	/** Description of the helper */
+	description?: string;
+}
+
+// ─── Input Schema Inference ──────────────────────────────────────────────────
+// Options and result of `inferInputSchema()`, which builds the schemas a
+// template requires instead of validating it against existing ones.
+
+export interface InferInputSchemaOptions {
+	/**
+	 * When `true`, every property the template reads is listed in
+	 * `required`, except those only read as a condition (`{{#if}}`,
+	 * `{{#unless}}`, the condition of `iif`) or as a fallback candidate of
+	 * `default`. When `false`, only the properties without which the
+	 * template is invalid are required (the last argument of `default`).
+	 *
+	 * @default false
+	 */
+	requireProperties?: boolean;
+}
+
+export interface InputSchemaInference {
+	/** Schema of the input data (the root context) */
+	inputSchema: JSONSchema7;
+	/** Schema of each identifier used with the `{{key:N}}` syntax */
+	identifierSchemas: Record<number, JSONSchema7>;
+}
+
 // ─── Custom Helpers ──────────────────────────────────────────────────────────
 // Allows registering custom helpers with their type signature for static
 // analysis support.
@@ -402,6 +653,68 @@ export interface HelperParam {
 	optional?: boolean;
 }
 
+/** Describes a named `key=value` argument accepted by a helper */
+export interface HelperHashParam {
+	/**
+	 * JSON Schema describing the expected type for this argument.
+	 * Used for documentation and static validation.
+	 */
+	type?: JSONSchema7;
+
+	/** Human-readable description of the argument */
+	description?: string;
+
+	/**
+	 * Whether the argument is optional.
+	 * @default false
+	 */
+	optional?: boolean;
+}
+
+/**
+ * Context passed to `HelperDefinition.inferReturnType()`.
+ *
+ * Gives access to the call site (literal arguments, diagnostics) and to
+ * schema resolution utilities.
+ */
+export interface HelperInferenceContext {
+	/** Name of the helper as used in the template */
+	helperName: string;
+
+	/** Input schema of the analysis */
+	root: JSONSchema7;
+
+	/**
+	 * Values of the literal positional arguments (`"name"`, `42`, `true`,
+	 * `null`), by position. Non-literal arguments are `undefined`.
+	 */
+	literalArgs: (string | number | boolean | null | undefined)[];
+
+	/**
+	 * Resolves a property path within a schema.
+	 * @returns The property schema, or `undefined` if it does not exist
+	 */
+	resolvePath(schema: JSONSchema7, path: string[]): JSONSchema7 | undefined;
+
+	/**
+	 * Resolves the item schema of an array schema.
+	 * @returns The item schema, or `undefined` if the schema is not an array
+	 */
+	resolveItems(schema: JSONSchema7): JSONSchema7 | undefined;
+
+	/**
+	 * Reports a diagnostic at the helper call site, or at one of its
+	 * positional arguments when `argument` (its index) is given.
+	 */
+	report(
+		severity: "error" | "warning",
+		code: DiagnosticCode,
+		message: string,
+		details?: DiagnosticDetails,
+		argument?: number,
+	): void;
+}
+
 /**
  * Definition of a helper registerable via `registerHelper()`.
  *
@@ -434,12 +747,87 @@ export interface HelperDefinition {
 	 */
 	params?: HelperParam[];
 
+	/**
+	 * Named `key=value` arguments accepted by the helper.
+	 *
+	 * When declared, the analyzer reports unknown, missing and mistyped
+	 * hash arguments, and `fn` receives the resolved hash as a plain object
+	 * right after the declared `params` (missing positional arguments are
+	 * passed as `undefined`). The extra arguments of variadic calls come
+	 * after the hash, then the `options` object.
+	 *
+	 * @example
+	 * ```
+	 * // {{formatDate d format="iso" tz="UTC"}}
+	 * params: [{ name: "date", type: { type: "string" } }],
+	 * hash: {
+	 *   format: { type: { type: "string" } },
+	 *   tz: { type: { type: "string" }, optional: true },
+	 * },
+	 * fn: (date, hash) => format(date, hash.format, hash.tz),
+	 * ```
+	 */
+	hash?: Record<string, HelperHashParam>;
+
+	/**
+	 * Describes the `key=value` arguments accepted in addition to the
+	 * declared `hash`, like `additionalProperties` in JSON Schema — for
+	 * helpers whose argument names are chosen by the template author.
+	 * Without it, undeclared arguments are reported as unknown. Requires
+	 * `hash` to be declared (possibly empty).
+	 *
+	 * @example
+	 * ```
+	 * // {{select gender male="he" female="she" other="they"}}
+	 * params: [{ name: "value", type: { type: "string" } }],
+	 * hash: { other: { optional: true } },
+	 * additionalHash: { description: "Result for the value named by the key" },
+	 * fn: (value, cases) => cases[value] ?? cases.other,
+	 * ```
+	 */
+	additionalHash?: HelperHashParam;
+
 	/**
 	 * JSON Schema describing the helper's return type for static analysis.
 	 * @default { type: "string" }
 	 */
 	returnType?: JSONSchema7;
 
+	/**
+	 * Computes the return type of a call from the resolved argument schemas,
+	 * for helpers whose output depends on their input (e.g. "returns the
+	 * item type of the first argument").
+	 *
+	 * Argument schemas are `undefined` when the argument could not be
+	 * resolved (the analyzer reports it separately). Returning `undefined`
+	 * falls back to `returnType`.
+	 *
+	 * @example
+	 * ```
+	 * // {{first users}} → the item schema of `users`
+	 * inferReturnType: ([list], _hash, ctx) =>
+	 *   list ? ctx.resolveItems(list) : undefined,
+	 * ```
+	 */
+	inferReturnType?: (
+		argSchemas: (JSONSchema7 | undefined)[],
+		hashSchemas: Record<string, JSONSchema7 | undefined>,
+		ctx: HelperInferenceContext,
+	) => JSONSchema7 | undefined;
+
+	/**
+	 * Preserves the raw value returned by `fn` (array, object, or a
+	 * primitive that must not be coerced): a template made of a single call
+	 * returns it as is. When rendered by Handlebars, arrays and objects are
+	 * rendered as joined values and JSON. In both cases `fn` is called like
+	 * a helper declaring a `hash`: the declared `params` padded with
+	 * `undefined`, the hash (when declared), the extra arguments, then an
+	 * `options` object holding the `hash`.
+	 *
+	 * @default false
+	 */
+	directExecution?: boolean;
+
 	/** Human-readable description of the helper */
 	description?: string;
 }
@@ -469,6 +857,36 @@ export interface HelperConfig extends HelperDefinition {
 	name: string;
 }
 
+// ─── Partials ────────────────────────────────────────────────────────────────
+// Partials are reusable templates included with `{{> name}}`. Registering a
+// context schema lets the analyzer check each call site against the context
+// the partial expects.
+
+/** Options accepted by `registerPartial()` */
+export interface PartialOptions {
+	/**
+	 * JSON Schema describing the context the partial expects.
+	 *
+	 * When provided, the partial body is analyzed against this schema and
+	 * each call site is checked for compatibility (required properties,
+	 * property types). When omitted, the partial body is analyzed against
+	 * the context of each call site.
+	 */
+	contextSchema?: JSONSchema7;
+
+	/** Human-readable description of the partial */
+	description?: string;
+}
+
+/** A partial registered on an engine instance */
+export interface PartialDefinition extends PartialOptions {
+	/** Source of the partial template */
+	template: string;
+
+	/** Parsed AST of the partial template */
+	ast: hbs.AST.Program;
+}
+
 // ─── Automatic Type Inference via json-schema-to-ts ──────────────────────────
 // Allows `defineHelper()` to infer TypeScript types for `fn` arguments
 // from the JSON Schemas declared in `params`.
@@ -516,6 +934,46 @@ type InferArgs<P extends readonly TypedHelperParam[]> = {
 	[K in keyof P]: InferParamType<P[K]>;
 };
 
+/**
+ * Hash argument definition used for type inference.
+ */
+type TypedHelperHashParam = {
+	readonly type?: JSONSchema;
+	readonly description?: string;
+	readonly optional?: boolean;
+};
+
+/** Map of hash argument definitions, keyed by argument name */
+type TypedHelperHash = Readonly<Record<string, TypedHelperHashParam>>;
+
+/**
+ * Infers the TypeScript type of the hash object passed to `fn`.
+ * Optional arguments become optional keys.
+ *
+ * @example
+ * ```
+ * type Hash = InferHash<{
+ *   format: { type: { type: "string" } };
+ *   tz: { type: { type: "string" }; optional: true };
+ * }>;
+ * // => { format: string } & { tz?: string }
+ * ```
+ */
+type InferHash<H extends TypedHelperHash> = {
+	[K in keyof H as H[K] extends { readonly optional: true }
+		? never
+		: K]: InferHashValue<H[K]>;
+} & {
+	[K in keyof H as H[K] extends { readonly optional: true }
+		? K
+		: never]?: InferHashValue<H[K]>;
+};
+
+/** Infers the type of a single hash argument from its JSON Schema */
+type InferHashValue<P> = P extends { readonly type: infer S extends JSONSchema }
+	? FromSchema<S>
+	: unknown;
+
 /**
  * Helper configuration with generic parameter inference.
  * Used exclusively by `defineHelper()`.
@@ -526,6 +984,25 @@ interface TypedHelperConfig<P extends readonly TypedHelperParam[]> {
 	params: P;
 	fn: (...args: InferArgs<P>) => unknown;
 	returnType?: JSONSchema;
+	inferReturnType?: HelperDefinition["inferReturnType"];
+}
+
+/**
+ * Helper configuration with declared hash arguments. `fn` receives the
+ * inferred hash object right after the declared params.
+ * Used exclusively by `defineHelper()`.
+ */
+interface TypedHashHelperConfig<
+	P extends readonly TypedHelperParam[],
+	H extends TypedHelperHash,
+> {
+	name: string;
+	description?: string;
+	params: P;
+	hash: H;
+	fn: (...args: [...InferArgs<P>, InferHash<H>]) => unknown;
+	returnType?: JSONSchema;
+	inferReturnType?: HelperDefinition["inferReturnType"];
 }
 
 /**
@@ -553,10 +1030,30 @@ interface TypedHelperConfig<P extends readonly TypedHelperParam[]> {
  *   },
  *   returnType: { type: "string" },
  * });
+ *
+ * // Declared hash arguments are inferred as the last argument of `fn`
+ * const formatDate = defineHelper({
+ *   name: "formatDate",
+ *   params: [{ name: "date", type: { type: "string" } }],
+ *   hash: {
+ *     format: { type: { type: "string" } },
+ *     tz: { type: { type: "string" }, optional: true },
+ *   },
+ *   fn: (date, hash) => {
+ *     // date: string, hash: { format: string } & { tz?: string }
+ *     return format(date, hash.format, hash.tz);
+ *   },
+ *   returnType: { type: "string" },
+ * });
  * ```
  */
+export function defineHelper<
+	const P extends readonly TypedHelperParam[],
+	const H extends TypedHelperHash,
+>(config: TypedHashHelperConfig<P, H>): HelperConfig;
 export function defineHelper<const P extends readonly TypedHelperParam[]>(
 	config: TypedHelperConfig<P>,
-): HelperConfig {
-	return config as unknown as HelperConfig;
+): HelperConfig;
+export function defineHelper(config: unknown): HelperConfig {
+	return config as HelperConfig;
 }
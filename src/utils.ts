@@ -1,5 +1,9 @@
 import type { JSONSchema7 } from "json-schema";
-import type { AnalysisResult, TemplateDiagnostic } from "./types.ts";
+import type {
+	AnalysisResult,
+	HelperDefinition,
+	TemplateDiagnostic,
+} from "./types.ts";
 
 // ─── Utilities ───────────────────────────────────────────────────────────────
 // Shared utility functions and classes used across the different modules
@@ -183,6 +187,80 @@ export function extractSourceSnippet(
 		.trim();
 }
 
+// ─── Helper Arguments ────────────────────────────────────────────────────────
+// Helpers are called with one convention, both when rendered by Handlebars
+// and when executed directly:
+//
+//   fn(...declaredParams, hash?, ...extraArgs, options)
+//
+// - the declared params, padded with `undefined` when omitted
+// - the `key=value` arguments as a plain object, for helpers declaring a
+//   `hash` — always right after the declared params, whatever the number
+//   of arguments of the call
+// - the extra arguments of variadic calls
+// - an options object, last, whose `hash` also holds the `key=value`
+//   arguments (Handlebars' own options when rendered)
+
+/** The options object passed last to a helper executed directly */
+export interface DirectHelperOptions {
+	/** Name the helper was called with */
+	name: string;
+	/** Resolved `key=value` arguments */
+	hash: Record<string, unknown>;
+	/** `@data` of the call, with `root` the data of the template */
+	data: { root: unknown };
+}
+
+/**
+ * Builds the arguments passed to a helper's `fn` before the options object.
+ *
+ * @param helper - Definition of the helper
+ * @param args   - Resolved positional arguments
+ * @param hash   - Resolved `key=value` arguments
+ */
+export function buildHelperArguments(
+	helper: HelperDefinition,
+	args: unknown[],
+	hash: Record<string, unknown>,
+): unknown[] {
+	const declaredCount = helper.params?.length ?? 0;
+	const positional = args.slice(0, declaredCount);
+	while (positional.length < declaredCount) {
+		positional.push(undefined);
+	}
+	if (helper.hash) positional.push(hash);
+	positional.push(...args.slice(declaredCount));
+	return positional;
+}
+
+/**
+ * Calls a helper outside of Handlebars, with the same arguments as when
+ * rendered: `this` is the current context and the options object holds
+ * the hash.
+ *
+ * @param name    - Name the helper was called with
+ * @param helper  - Definition of the helper
+ * @param args    - Resolved positional arguments
+ * @param hash    - Resolved `key=value` arguments
+ * @param context - The data the call is evaluated against
+ * @param root    - The data of the template (`@root`)
+ */
+export function callHelperDirectly(
+	name: string,
+	helper: HelperDefinition,
+	args: unknown[],
+	hash: Record<string, unknown>,
+	context: unknown,
+	root: unknown = context,
+): unknown {
+	const options: DirectHelperOptions = { name, hash, data: { root } };
+	return helper.fn.call(
+		context,
+		...buildHelperArguments(helper, args, hash),
+		options,
+	);
+}
+
 // ─── Schema Properties ──────────────────────────────────────────────────────
 // Utility for listing available properties in a schema, used to enrich
 // error messages with suggestions.
@@ -216,6 +294,17 @@ export function getSchemaPropertyNames(schema: JSONSchema7): string[] {
 		}
 	}
 
+	// Properties within conditional branches (if/then/else)
+	if (schema.if !== undefined) {
+		for (const branch of [schema.then, schema.else]) {
+			if (branch && typeof branch !== "boolean" && branch.properties) {
+				for (const key of Object.keys(branch.properties)) {
+					names.add(key);
+				}
+			}
+		}
+	}
+
 	return Array.from(names).sort();
 }
 
@@ -422,6 +422,63 @@ describe("analyzer", () => {
 		});
 	});
 
+	describe("validation — #each over objects", () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: {
+				labels: {
+					type: "object",
+					additionalProperties: {
+						type: "object",
+						properties: { text: { type: "string" } },
+						required: ["text"],
+					},
+				},
+				sizes: {
+					type: "object",
+					properties: { s: { type: "number" }, m: { type: "number" } },
+				},
+				name: { type: "string" },
+			},
+		};
+
+		test("the body is validated against the additionalProperties schema", () => {
+			const result = analyze(
+				"{{#each labels}}{{@key}}: {{text}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toHaveLength(0);
+		});
+
+		test("unknown property in the value schema → error", () => {
+			const result = analyze("{{#each labels}}{{label}}{{/each}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+		});
+
+		test("declared properties are iterated as a union", () => {
+			const result = analyze("{{#each sizes}}{{this}}{{/each}}", schema);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("a primitive is still a type mismatch", () => {
+			const result = analyze("{{#each name}}{{this}}{{/each}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			expect(result.diagnostics[0]?.details?.expected).toBe("array | object");
+		});
+
+		test("the value block param is typed", () => {
+			const result = analyze(
+				"{{#each labels as |label lang|}}{{lang}}={{label.text}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+		});
+	});
+
 	describe("validation — #with block", () => {
 		test("#with on a valid object — correct inner access", () => {
 			const result = analyze("{{#with address}}{{city}}{{/with}}", userSchema);
@@ -742,19 +799,15 @@ describe("analyzer", () => {
 			});
 		});
 
-		test("three #if blocks with three different types (some optional) → oneOf with all types", () => {
+		test("three #if blocks with three different types (condition narrowed) → oneOf with all types", () => {
 			const result = analyze(
 				"{{#if active}}{{name}}{{/if}}\n{{#if active}}{{age}}{{/if}}\n{{#if active}}{{active}}{{/if}}",
 				userSchema,
 			);
 			expect(result.valid).toBe(true);
-			// active is optional → boolean|null
+			// active is optional, but non-null inside {{#if active}}
 			expect(result.outputSchema).toEqual({
-				oneOf: [
-					{ type: "string" },
-					{ type: "number" },
-					{ type: ["boolean", "null"] },
-				],
+				oneOf: [{ type: "string" }, { type: "number" }, { type: "boolean" }],
 			});
 		});
 
@@ -1236,6 +1289,179 @@ describe("analyzer", () => {
 		});
 	});
 
+	describe("flow-sensitive narrowing in #if / #unless", () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: {
+				user: {
+					type: "object",
+					properties: {
+						email: { type: ["string", "null"] },
+						name: { type: "string" },
+					},
+				},
+				tags: { type: "array", items: { type: "string" } },
+				shape: {
+					oneOf: [
+						{
+							type: "object",
+							properties: {
+								kind: { const: "circle" },
+								radius: { type: "number" },
+							},
+							required: ["kind", "radius"],
+						},
+						{
+							type: "object",
+							properties: {
+								kind: { const: "square" },
+								side: { type: "number" },
+							},
+							required: ["kind", "side"],
+						},
+					],
+				},
+			},
+			required: ["shape"],
+		};
+
+		test("truthy path is non-null inside #if", () => {
+			const result = analyze("{{#if user.email}}{{user.email}}{{/if}}", schema);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("parent segments of a truthy path are present inside #if", () => {
+			const result = analyze("{{#if user.email}}{{user.name}}{{/if}}", schema);
+			expect(result.outputSchema).toEqual({ type: ["string", "null"] });
+
+			const narrowed = analyze("{{#if user}}{{user.name}}{{/if}}", schema);
+			// user is present but name is still optional
+			expect(narrowed.outputSchema).toEqual({ type: ["string", "null"] });
+		});
+
+		test("the else branch of #if is not narrowed", () => {
+			const result = analyze(
+				"{{#if user.email}}{{user.email}}{{else}}{{user.email}}{{/if}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({
+				oneOf: [{ type: "string" }, { type: ["string", "null"] }],
+			});
+		});
+
+		test("#unless narrows its else branch", () => {
+			const result = analyze(
+				"{{#unless user.email}}none{{else}}{{user.email}}{{/unless}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("#unless does not narrow its body", () => {
+			const result = analyze(
+				"{{#unless user.email}}{{user.email}}{{/unless}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({ type: ["string", "null"] });
+		});
+
+		test("intrinsic array access narrows the array itself", () => {
+			const result = analyze("{{#if tags.length}}{{tags}}{{/if}}", schema);
+			expect(result.outputSchema).toEqual({
+				type: "array",
+				items: { type: "string" },
+			});
+		});
+
+		test("eq on a oneOf discriminant selects the matching branch", () => {
+			const result = analyze(
+				'{{#if (eq shape.kind "circle")}}{{shape.radius}}{{else}}{{shape.side}}{{/if}}',
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		test("properties of the excluded branch are unknown", () => {
+			const result = analyze(
+				'{{#if (eq shape.kind "circle")}}{{shape.side}}{{/if}}',
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(
+				result.diagnostics.some((d) => d.code === "UNKNOWN_PROPERTY"),
+			).toBe(true);
+		});
+
+		test("ne narrows the branches the other way around", () => {
+			const result = analyze(
+				'{{#if (ne shape.kind "circle")}}{{shape.side}}{{else}}{{shape.radius}}{{/if}}',
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		test("eq with a non-null literal makes the compared path non-null", () => {
+			const result = analyze(
+				'{{#if (eq user.email "a@b.c")}}{{user.email}}{{/if}}',
+				schema,
+			);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("not inverts the narrowing", () => {
+			const result = analyze(
+				"{{#if (not user.email)}}none{{else}}{{user.email}}{{/if}}",
+				schema,
+			);
+			// "none" is a string and user.email is non-null in the else branch
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("and narrows every operand in the truthy branch", () => {
+			const result = analyze(
+				"{{#if (and user.email user.name)}}{{user.email}} {{user.name}}{{/if}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			const single = analyze(
+				"{{#if (and user.email user.name)}}{{user.name}}{{/if}}",
+				schema,
+			);
+			expect(single.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("or does not narrow its truthy branch", () => {
+			const result = analyze(
+				"{{#if (or user.email user.name)}}{{user.name}}{{/if}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({ type: ["string", "null"] });
+		});
+
+		test("narrowing applies inside #each item contexts", () => {
+			const result = analyze(
+				"{{#each users}}{{#if email}}{{email}}{{/if}}{{/each}}",
+				{
+					type: "object",
+					properties: {
+						users: {
+							type: "array",
+							items: {
+								type: "object",
+								properties: { email: { type: "string" } },
+							},
+						},
+					},
+				},
+			);
+			expect(result.valid).toBe(true);
+		});
+	});
+
 	describe("diagnostics include a position (loc)", () => {
 		test("error includes position in the source", () => {
 			const result = analyze("Hello {{badProp}}", userSchema);
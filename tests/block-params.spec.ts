@@ -0,0 +1,423 @@
+import { describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { isRootDataExpression, isScopedPath, parse } from "../src/parser.ts";
+import { Typebars } from "../src/typebars.ts";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		title: { type: "string" },
+		nickname: { type: "string" },
+		owner: {
+			type: "object",
+			properties: {
+				name: { type: "string" },
+				age: { type: "number" },
+			},
+			required: ["name", "age"],
+		},
+		users: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					name: { type: "string" },
+					tags: { type: "array", items: { type: "string" } },
+				},
+				required: ["name", "tags"],
+			},
+		},
+	},
+	required: ["title", "owner", "users"],
+};
+
+const data = {
+	title: "Team",
+	owner: { name: "Alice", age: 30 },
+	users: [
+		{ name: "Bob", tags: ["a", "b"] },
+		{ name: "Carol", tags: [] },
+	],
+};
+
+function firstPath(template: string): hbs.AST.PathExpression {
+	const stmt = parse(template).body[0] as hbs.AST.MustacheStatement;
+	return stmt.path as hbs.AST.PathExpression;
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("block params and scoped paths", () => {
+	describe("parser helpers", () => {
+		test("isRootDataExpression detects @root paths", () => {
+			expect(isRootDataExpression(firstPath("{{@root.title}}"))).toBe(true);
+			expect(isRootDataExpression(firstPath("{{@root}}"))).toBe(true);
+			expect(isRootDataExpression(firstPath("{{@index}}"))).toBe(false);
+			expect(isRootDataExpression(firstPath("{{root}}"))).toBe(false);
+		});
+
+		test("isScopedPath detects this., ./ and ../ paths", () => {
+			expect(isScopedPath(firstPath("{{this.name}}"))).toBe(true);
+			expect(isScopedPath(firstPath("{{./name}}"))).toBe(true);
+			expect(isScopedPath(firstPath("{{../name}}"))).toBe(true);
+			expect(isScopedPath(firstPath("{{name}}"))).toBe(false);
+			expect(isScopedPath(firstPath("{{thisName}}"))).toBe(false);
+		});
+	});
+
+	describe("analysis — block params", () => {
+		test("#each item and index params are typed", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users as |user i|}}{{user.name}}{{i}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toHaveLength(0);
+		});
+
+		test("unknown property on a block param is reported", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users as |user|}}{{user.email}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+			expect(result.diagnostics[0]?.details?.path).toBe("user.email");
+			expect(result.diagnostics[0]?.details?.availableProperties).toEqual([
+				"name",
+				"tags",
+			]);
+		});
+
+		test("#with block param refers to the argument", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#with owner as |o|}}{{o.age}}{{/with}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		test("nested block params shadow outer ones", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users as |x|}}{{#each x.tags as |x|}}{{x}}{{/each}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+		});
+
+		test("outer block params stay visible in nested blocks", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users as |user|}}{{#each user.tags as |tag|}}{{user.name}}:{{tag}}{{/each}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+		});
+
+		test("this.x is not resolved as a block param", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users as |user|}}{{this.user}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.details?.path).toBe("user");
+		});
+
+		test("block params are not visible after the block", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users as |user|}}{{user.name}}{{/each}}{{user.name}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.details?.path).toBe("user.name");
+		});
+	});
+
+	describe("analysis — parent paths", () => {
+		test("../ resolves in the enclosing context", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users}}{{name}} in {{../title}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+		});
+
+		test("../../ resolves two contexts up", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users}}{{#each tags}}{{../name}}{{../../title}}{{/each}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+		});
+
+		test("unknown property in a parent context is reported with its prefix", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users}}{{../missing}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+			expect(result.diagnostics[0]?.details?.path).toBe("../missing");
+		});
+
+		test("../ at the top level is an error", () => {
+			const engine = new Typebars();
+			const result = engine.analyze("{{../title}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+			expect(result.diagnostics[0]?.message).toContain("parent context");
+		});
+
+		test("#if does not create a parent scope", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#with owner}}{{#if name}}{{../title}}{{/if}}{{/with}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+		});
+
+		test("../ resolves the parent type", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#with owner}}{{../title}}{{/with}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("optional parent property is nullable", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#with owner}}{{../nickname}}{{/with}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({ type: ["string", "null"] });
+		});
+	});
+
+	describe("analysis — @root", () => {
+		test("@root.x resolves in the input schema from any depth", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users}}{{#each tags}}{{@root.owner.name}}{{/each}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+		});
+
+		test("@root.x infers the property type", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#with owner}}{{@root.owner.age}}{{/with}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		test("unknown @root property is reported", () => {
+			const engine = new Typebars();
+			const result = engine.analyze("{{@root.missing}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.details?.path).toBe("@root.missing");
+		});
+	});
+
+	describe("analysis — @key and key params", () => {
+		const labelsSchema: JSONSchema7 = {
+			type: "object",
+			properties: {
+				labels: { type: "object", additionalProperties: { type: "string" } },
+				tags: { type: "array", items: { type: "string" } },
+			},
+		};
+
+		test("@key over an object is a string", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each labels}}{{add @key 1}}{{/each}}",
+				labelsSchema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		test("@key over an array is a number", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each tags}}{{add @key 1}}{{/each}}",
+				labelsSchema,
+			);
+			expect(result.valid).toBe(true);
+		});
+
+		test("@../key reads the key of the enclosing #each", () => {
+			const groupsSchema: JSONSchema7 = {
+				type: "object",
+				properties: {
+					groups: {
+						type: "object",
+						additionalProperties: {
+							type: "object",
+							properties: { items: { type: "array", items: {} } },
+						},
+					},
+				},
+			};
+			const engine = new Typebars();
+			const outer = engine.analyze(
+				"{{#each groups}}{{#each items}}{{add @../key 1}}{{/each}}{{/each}}",
+				groupsSchema,
+			);
+			expect(outer.valid).toBe(false);
+			expect(outer.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+
+			const inner = engine.analyze(
+				"{{#each groups}}{{#each items}}{{add @key 1}}{{/each}}{{/each}}",
+				groupsSchema,
+			);
+			expect(inner.valid).toBe(true);
+		});
+
+		test("@../key skips the frames of #let and #switch", () => {
+			const engine = new Typebars();
+			expect(
+				engine.analyze(
+					"{{#each tags}}{{#let x=1}}{{add @../key @x}}{{/let}}{{/each}}",
+					labelsSchema,
+				).valid,
+			).toBe(true);
+			expect(
+				engine.analyze(
+					'{{#each labels}}{{#switch this}}{{#case "a"}}{{add @../key 1}}{{/case}}{{/switch}}{{/each}}',
+					labelsSchema,
+				).diagnostics[0]?.code,
+			).toBe("TYPE_MISMATCH");
+		});
+
+		test("the key block param over an object is a string", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each labels as |label lang|}}{{add lang 1}}{{/each}}",
+				labelsSchema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+	});
+
+	describe("execution", () => {
+		test("#each renders block params, ../ and @root", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute(
+					"{{#each users as |u i|}}{{i}}:{{u.name}}@{{../title}}/{{@root.owner.name}} {{/each}}",
+					data,
+				),
+			).toBe("0:Bob@Team/Alice 1:Carol@Team/Alice ");
+		});
+
+		test("@root single expression returns the raw value", () => {
+			const engine = new Typebars();
+			expect(engine.execute("{{@root.owner.age}}", data)).toBe(30);
+		});
+
+		test("@../key reads the key of the enclosing #each", () => {
+			const engine = new Typebars();
+			const groups = { groups: { x: { items: [1, 2] }, y: { items: [3] } } };
+			expect(
+				engine.execute(
+					"{{#each groups collect=true}}{{#each items collect=true}}{{@../key}}{{/each}}{{/each}}",
+					groups,
+				),
+			).toEqual([["x", "x"], ["y"]]);
+			expect(
+				engine.execute(
+					"{{#each groups collect=true}}{{#each items collect=true}}{{@../key}}-{{@key}}{{/each}}{{/each}}",
+					groups,
+				),
+			).toEqual([["x-0", "x-1"], ["y-0"]]);
+			expect(
+				engine.execute(
+					"{{#each groups}}{{#each items}}{{@../key}}{{/each}}{{/each}}",
+					groups,
+				),
+			).toBe("xxy");
+		});
+
+		test("../ at the top level resolves to undefined", () => {
+			const engine = new Typebars();
+			expect(engine.execute("{{../title}}", data)).toBeUndefined();
+		});
+
+		test("#with with a block param is executed directly", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute("{{#with owner as |o|}}{{o.age}}{{/with}}", data),
+			).toBe(30);
+		});
+
+		test("#with body can reach the parent context", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute("{{#with owner}}{{../users.length}}{{/with}}", data),
+			).toBe(2);
+		});
+
+		test("#with over a missing value renders the else branch", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute(
+					"{{#with nickname}}{{this}}{{else}}{{title}}{{/with}}",
+					data,
+				),
+			).toBe("Team");
+		});
+
+		test("#with inside #if keeps the enclosing scope", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute(
+					"{{#if title}}{{#with owner as |o|}}{{o.name}}{{/with}}{{/if}}",
+					data,
+				),
+			).toBe("Alice");
+		});
+
+		test("@first and @last render even though helpers share their names", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute("{{#each users}}{{@first}}/{{@last}} {{/each}}", data),
+			).toBe("true/false false/true ");
+			expect(
+				engine.compile("{{#each users}}{{@first}} {{/each}}").execute(data),
+			).toBe("true false ");
+		});
+
+		test("direct and Handlebars rendering agree", () => {
+			const engine = new Typebars();
+			const direct = engine.execute(
+				"{{#with owner as |o|}}{{o.name}}{{/with}}",
+				data,
+			);
+			const rendered = engine.execute(
+				"{{#with owner as |o|}}{{o.name}}{{/with}}!",
+				data,
+			);
+			expect(direct).toBe("Alice");
+			expect(rendered).toBe("Alice!");
+		});
+	});
+});
@@ -0,0 +1,455 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { CollectionHelpers } from "../src/helpers/collection-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const collectionHelpers = new CollectionHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const orderSchema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		id: { type: "string" },
+		total: { type: "number" },
+		status: { type: "string", enum: ["paid", "open"] },
+		tags: { type: "array", items: { type: "string" } },
+		customer: {
+			type: "object",
+			properties: {
+				name: { type: "string" },
+				city: { type: "string" },
+			},
+			required: ["name", "city"],
+		},
+	},
+	required: ["id", "total", "status", "tags", "customer"],
+};
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		orders: { type: "array", items: orderSchema },
+		scores: { type: "array", items: { type: "integer" } },
+		names: { type: "array", items: { type: "string" } },
+		matrix: {
+			type: "array",
+			items: {
+				type: "array",
+				items: { type: "array", items: { type: "number" } },
+			},
+		},
+		loose: { type: "array" },
+		limit: { type: "number" },
+	},
+	required: ["orders", "scores", "names", "matrix", "loose", "limit"],
+};
+
+const data = {
+	orders: [
+		{
+			id: "a",
+			total: 10,
+			status: "paid",
+			tags: ["new"],
+			customer: { name: "Alice", city: "Paris" },
+		},
+		{
+			id: "b",
+			total: 5,
+			status: "open",
+			tags: [],
+			customer: { name: "Bob", city: "Lyon" },
+		},
+		{
+			id: "c",
+			total: 20,
+			status: "paid",
+			tags: ["vip", "new"],
+			customer: { name: "Carol", city: "Paris" },
+		},
+	],
+	scores: [3, 1, 2, 3],
+	names: ["bob", "alice", "carol"],
+	matrix: [[[1, 2]], [[3]]],
+	loose: [{ x: 1 }, { x: 2 }],
+	limit: 8,
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+function arrayOf(items: JSONSchema7): JSONSchema7 {
+	return { type: "array", items };
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("CollectionHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("all collection helpers are available without calling register()", () => {
+			for (const name of collectionHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(true);
+			}
+		});
+
+		it("unregister removes all helpers", () => {
+			collectionHelpers.unregister(engine);
+			for (const name of collectionHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(false);
+			}
+		});
+	});
+
+	// ─── filter ──────────────────────────────────────────────────────────
+
+	describe("filter", () => {
+		it("compares a property with an operator", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{ pluck (filter orders "total" ">=" limit) "id" }}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toEqual(["a", "c"]);
+			expect(
+				run(engine, '{{ pluck (filter orders "status" "!=" "paid") "id" }}')
+					.value,
+			).toEqual(["b"]);
+		});
+
+		it("supports nested paths, contains and in", () => {
+			expect(
+				run(engine, '{{ count (filter orders "customer.city" "==" "Paris") }}')
+					.value,
+			).toBe(2);
+			expect(
+				run(engine, '{{ count (filter orders "tags" "contains" "vip") }}')
+					.value,
+			).toBe(1);
+			expect(
+				run(engine, '{{ filter names "" "in" (array "bob" "carol") }}').value,
+			).toEqual(["bob", "carol"]);
+		});
+
+		it("keeps truthy values without an operator", () => {
+			expect(run(engine, '{{ count (filter orders "tags.0") }}').value).toBe(2);
+		});
+
+		it("keeps the item schema", () => {
+			const { analysis } = run(engine, '{{ filter orders "total" ">" 5 }}');
+			expect(analysis.outputSchema).toEqual(arrayOf(orderSchema));
+		});
+
+		it("reports unknown properties and operators", () => {
+			const unknown = run(engine, '{{ filter orders "price" ">" 5 }}').analysis;
+			expect(unknown.valid).toBe(false);
+			expect(unknown.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+			expect(unknown.diagnostics[0]?.details?.availableProperties).toContain(
+				"total",
+			);
+
+			const operator = run(
+				engine,
+				'{{ filter orders "total" "=~" 5 }}',
+			).analysis;
+			expect(operator.valid).toBe(false);
+			expect(operator.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+	});
+
+	// ─── sortBy ──────────────────────────────────────────────────────────
+
+	describe("sortBy", () => {
+		it("sorts by a property in both directions", () => {
+			expect(
+				run(engine, '{{ pluck (sortBy orders "total") "id" }}').value,
+			).toEqual(["b", "a", "c"]);
+			expect(
+				run(engine, '{{ pluck (sortBy orders "customer.name" "desc") "id" }}')
+					.value,
+			).toEqual(["c", "b", "a"]);
+		});
+
+		it("sorts primitives and leaves the input untouched", () => {
+			expect(run(engine, "{{ sortBy names }}").value).toEqual([
+				"alice",
+				"bob",
+				"carol",
+			]);
+			expect(data.names).toEqual(["bob", "alice", "carol"]);
+		});
+
+		it("rejects unknown directions", () => {
+			const { analysis } = run(engine, '{{ sortBy orders "total" "up" }}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+	});
+
+	// ─── slice / first / last ────────────────────────────────────────────
+
+	describe("slice / first / last", () => {
+		it("slice returns a portion of the array", () => {
+			expect(run(engine, "{{ slice scores 1 3 }}").value).toEqual([1, 2]);
+			expect(run(engine, "{{ slice scores -2 }}").value).toEqual([2, 3]);
+			expect(run(engine, "{{ slice scores 1 }}").analysis.outputSchema).toEqual(
+				arrayOf({ type: "integer" }),
+			);
+		});
+
+		it("first / last return raw items typed by the nullable item schema", () => {
+			const { analysis, value } = run(engine, "{{ first orders }}");
+			expect(value).toEqual(data.orders[0]);
+			expect(analysis.outputSchema).toEqual({
+				...orderSchema,
+				type: ["object", "null"],
+			});
+			const last = run(engine, "{{ last names }}");
+			expect(last.value).toBe("carol");
+			expect(last.analysis.outputSchema).toEqual({ type: ["string", "null"] });
+		});
+
+		it("first of an empty array is undefined", () => {
+			expect(
+				engine.execute("{{ first orders }}", { orders: [] }),
+			).toBeUndefined();
+		});
+
+		it("objects can be used in blocks and rendered as JSON", () => {
+			expect(
+				run(engine, "{{#with (first orders)}}{{customer.name}}{{/with}}!")
+					.value,
+			).toBe("Alice!");
+			expect(engine.execute("Item: {{ first loose }}", data)).toBe(
+				'Item: {"x":1}',
+			);
+		});
+	});
+
+	// ─── unique ──────────────────────────────────────────────────────────
+
+	describe("unique", () => {
+		it("removes duplicate values", () => {
+			expect(run(engine, "{{ unique scores }}").value).toEqual([3, 1, 2]);
+		});
+
+		it("removes items with a duplicate property", () => {
+			expect(
+				run(engine, '{{ pluck (unique orders "customer.city") "id" }}').value,
+			).toEqual(["a", "b"]);
+		});
+	});
+
+	// ─── groupBy ─────────────────────────────────────────────────────────
+
+	describe("groupBy", () => {
+		it("groups items by a property", () => {
+			const { analysis, value } = run(engine, '{{ groupBy orders "status" }}');
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({
+				type: "object",
+				additionalProperties: arrayOf(orderSchema),
+			});
+			expect(value).toEqual({
+				paid: [data.orders[0], data.orders[2]],
+				open: [data.orders[1]],
+			});
+		});
+
+		it("can be iterated with #each", () => {
+			expect(
+				run(
+					engine,
+					'{{#each (groupBy orders "customer.city")}}{{@key}}:{{count this}} {{/each}}',
+				).value,
+			).toBe("Paris:2 Lyon:1 ");
+		});
+	});
+
+	// ─── flatten / pluck ─────────────────────────────────────────────────
+
+	describe("flatten / pluck", () => {
+		it("flatten removes one level by default", () => {
+			const { analysis, value } = run(engine, "{{ flatten matrix }}");
+			expect(value).toEqual([[1, 2], [3]]);
+			expect(analysis.outputSchema).toEqual(
+				arrayOf(arrayOf({ type: "number" })),
+			);
+		});
+
+		it("flatten accepts a depth", () => {
+			const { analysis, value } = run(engine, "{{ flatten matrix 2 }}");
+			expect(value).toEqual([1, 2, 3]);
+			expect(analysis.outputSchema).toEqual(arrayOf({ type: "number" }));
+		});
+
+		it("flatten combines with map", () => {
+			expect(
+				run(engine, '{{ unique (flatten (map orders "tags")) }}').value,
+			).toEqual(["new", "vip"]);
+		});
+
+		it("pluck extracts nested paths", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{ pluck orders "customer.city" }}',
+			);
+			expect(value).toEqual(["Paris", "Lyon", "Paris"]);
+			expect(analysis.outputSchema).toEqual(arrayOf({ type: "string" }));
+		});
+
+		it("pluck reports unknown paths", () => {
+			const { analysis } = run(engine, '{{ pluck orders "customer.zip" }}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+			expect(analysis.diagnostics[0]?.details?.path).toBe("customer.zip");
+		});
+
+		it("items of unknown shape are not checked", () => {
+			const { analysis, value } = run(engine, '{{ pluck loose "x" }}');
+			expect(analysis.valid).toBe(true);
+			expect(value).toEqual([1, 2]);
+		});
+	});
+
+	// ─── Aggregates ──────────────────────────────────────────────────────
+
+	describe("sum / avg / count / join", () => {
+		it("sum of a mapped array is a number", () => {
+			const { analysis, value } = run(engine, '{{ sum (map orders "total") }}');
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: "number" });
+			expect(value).toBe(35);
+		});
+
+		it("sum and avg accept a property path", () => {
+			expect(run(engine, '{{ sum orders "total" }}').value).toBe(35);
+			expect(run(engine, "{{ avg scores }}").value).toBe(2.25);
+			expect(engine.execute("{{ avg scores }}", { scores: [] })).toBe(0);
+		});
+
+		it("sum and avg require numeric values", () => {
+			const { analysis } = run(engine, "{{ sum names }}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			expect(run(engine, '{{ avg orders "status" }}').analysis.valid).toBe(
+				false,
+			);
+		});
+
+		it("count is an integer", () => {
+			const { analysis, value } = run(engine, "{{ count orders }}");
+			expect(analysis.outputSchema).toEqual({ type: "integer" });
+			expect(value).toBe(3);
+		});
+
+		it("join uses a separator", () => {
+			expect(run(engine, "{{ join names }}").value).toBe("bob, alice, carol");
+			expect(run(engine, '{{ join (sortBy names) " | " }}').value).toBe(
+				"alice | bob | carol",
+			);
+		});
+
+		it("join returns a string when the items look like a number", () => {
+			const result = engine.analyzeAndExecute(
+				'{{ join xs "" }}',
+				{
+					type: "object",
+					properties: { xs: { type: "array", items: { type: "number" } } },
+				},
+				{ xs: [1, 2] },
+			);
+			expect(result.analysis.outputSchema).toEqual({ type: "string" });
+			expect(result.value).toBe("12");
+			expect(engine.execute("{{ join flags }}", { flags: [true] })).toBe(
+				"true",
+			);
+		});
+
+		it("parameter types are checked", () => {
+			const { analysis } = run(engine, "{{ count limit }}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+	});
+
+	// ─── Mixed templates ─────────────────────────────────────────────────
+
+	describe("integration in mixed templates", () => {
+		it("chains helpers", () => {
+			const { analysis, value } = run(
+				engine,
+				'Paid: {{ join (pluck (sortBy (filter orders "status" "==" "paid") "total" "desc") "id") }} ({{ sum (filter orders "status" "==" "paid") "total" }})',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe("Paid: c, a (30)");
+		});
+
+		it("#each over a filtered array types the items", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{#each (filter orders "total" ">" 5)}}{{customer.name}} {{/each}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe("Alice Carol ");
+			expect(
+				run(engine, '{{#each (filter orders "total" ">" 5)}}{{price}}{{/each}}')
+					.analysis.valid,
+			).toBe(false);
+		});
+
+		it("a bare {{count}} still reads the property of the same name", () => {
+			expect(engine.execute("Total: {{count}}", { count: 3 })).toBe("Total: 3");
+			expect(
+				engine.execute("{{#each items}}{{count}} {{/each}}", {
+					items: [{ count: 1 }, { count: 2 }],
+				}),
+			).toBe("1 2 ");
+		});
+	});
+
+	describe("custom helpers under a built-in name", () => {
+		it("a block helper registered as `first` keeps its Handlebars options", () => {
+			const custom = new Typebars();
+			custom.registerHelper("first", {
+				fn: function (this: unknown, ...args: unknown[]) {
+					const options = args[args.length - 1] as {
+						fn: (context: unknown) => string;
+						hash: Record<string, unknown>;
+					};
+					return `[${options.hash.label}] ${options.fn(this)}`;
+				},
+			});
+			expect(
+				custom.execute('{{#first label="top"}}{{name}}{{/first}}', {
+					name: "Alice",
+				}),
+			).toBe("[top] Alice");
+		});
+
+		it("a custom helper with required params gets no property fallback", () => {
+			const custom = new Typebars();
+			custom.registerHelper("filter", {
+				params: [{ name: "value" }],
+				// Called with the Handlebars options only, not with the property
+				fn: (...args: unknown[]) => `args:${args.length}`,
+			});
+			expect(
+				custom.execute("{{#each items}}{{filter}}{{/each}}", {
+					items: [{ filter: "prop" }],
+				}),
+			).toBe("args:1");
+		});
+	});
+});
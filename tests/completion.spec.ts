@@ -0,0 +1,243 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { Typebars } from "../src/typebars.ts";
+import type { CompleteOptions } from "../src/types.ts";
+
+// ─── Shared schema ───────────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		title: { type: "string" },
+		users: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					name: { type: "string", description: "Full name" },
+					address: {
+						type: "object",
+						properties: { city: { type: "string" } },
+					},
+				},
+			},
+		},
+		user: {
+			type: "object",
+			properties: { nickname: { type: "string" } },
+		},
+	},
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Completes at the `§` of a template, returning the item labels */
+function labels(
+	engine: Typebars,
+	template: string,
+	options?: CompleteOptions,
+): string[] {
+	const offset = template.indexOf("§");
+	const source = template.slice(0, offset) + template.slice(offset + 1);
+	return engine
+		.complete(source, offset, schema, options)
+		.items.map((item) => item.label);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("complete", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Properties ──────────────────────────────────────────────────────
+
+	describe("properties", () => {
+		it("suggests the properties starting with the typed text, sorted", () => {
+			const result = engine.complete("Hello {{us", 10, schema);
+			expect(result.items).toEqual([
+				{
+					label: "user",
+					kind: "property",
+					schema: {
+						type: "object",
+						properties: { nickname: { type: "string" } },
+					},
+				},
+				{
+					label: "users",
+					kind: "property",
+					schema: schema.properties?.users as JSONSchema7,
+				},
+			]);
+			expect(result.range).toEqual({ start: 8, end: 10 });
+		});
+
+		it("the range covers the whole segment around the cursor", () => {
+			expect(engine.complete("{{user.nickname}}", 9, schema).range).toEqual({
+				start: 7,
+				end: 15,
+			});
+		});
+
+		it("suggests the properties of the path before a dot", () => {
+			expect(labels(engine, "{{user.§}}")).toEqual(["nickname"]);
+			expect(labels(engine, "{{@root.us§")).toEqual(["user", "users"]);
+		});
+
+		it("items carry the schema description", () => {
+			const [item] = engine.complete("{{#each users}}{{na", 19, schema).items;
+			expect(item).toEqual({
+				label: "name",
+				kind: "property",
+				schema: { type: "string", description: "Full name" },
+				description: "Full name",
+			});
+		});
+
+		it("suggests nothing for an unknown path", () => {
+			expect(labels(engine, "{{missing.§")).toEqual([]);
+		});
+	});
+
+	// ─── Scope ───────────────────────────────────────────────────────────
+
+	describe("scope", () => {
+		it("#each bodies suggest the properties of the items", () => {
+			expect(labels(engine, "{{#each users}}{{addr§")).toEqual(["address"]);
+			expect(labels(engine, "{{#each users}}{{address.§")).toEqual(["city"]);
+			expect(labels(engine, "{{#each users}}{{../ti§")).toEqual(["title"]);
+		});
+
+		it("#with bodies suggest the properties of the argument", () => {
+			expect(labels(engine, "{{#with user}}{{ni§}}{{/with}}")).toEqual([
+				"nickname",
+			]);
+		});
+
+		it("else branches suggest the properties of the outer scope", () => {
+			expect(labels(engine, "{{#each users}}{{else if us§")).toEqual([
+				"user",
+				"users",
+			]);
+			expect(
+				labels(engine, "{{#each users}}{{name}}{{else}}{{us§}}{{/each}}"),
+			).toEqual(["user", "users"]);
+			expect(
+				labels(engine, "{{#with user}}{{else if title}}{{else if ni§"),
+			).toEqual([]);
+		});
+
+		it("suggests block params and their properties", () => {
+			expect(
+				labels(engine, "{{#each users as |member i|}}{{uppercase m§"),
+			).toEqual(["member"]);
+			expect(labels(engine, "{{#each users as |member|}}{{member.§")).toEqual([
+				"address",
+				"name",
+			]);
+		});
+
+		it("suggests the @data variables in scope", () => {
+			expect(labels(engine, "{{@§")).toEqual(["@root"]);
+			expect(labels(engine, "{{#each users}}{{@§")).toEqual([
+				"@index",
+				"@first",
+				"@last",
+				"@key",
+				"@root",
+			]);
+			expect(labels(engine, "{{#let t=title}}{{@§")).toEqual(["@t", "@root"]);
+		});
+
+		it("suggests the properties of the identifiers", () => {
+			const options: CompleteOptions = {
+				identifierSchemas: {
+					1: {
+						type: "object",
+						properties: { meetingId: { type: "string" } },
+					},
+				},
+			};
+			const { items } = engine.complete("{{meet", 6, schema, options);
+			expect(items).toEqual([
+				{
+					label: "meetingId:1",
+					kind: "identifier",
+					schema: { type: "string" },
+				},
+			]);
+		});
+	});
+
+	// ─── Helpers ─────────────────────────────────────────────────────────
+
+	describe("helpers", () => {
+		it("suggests helpers with their signature where they can be called", () => {
+			const [item] = engine.complete("{{uppercase (lowerc", 19, schema).items;
+			expect(item?.label).toBe("lowercase");
+			expect(item?.kind).toBe("helper");
+			expect(item?.params?.[0]?.name).toBeDefined();
+			expect(labels(engine, "{{titlec§")).toEqual(["titlecase"]);
+		});
+
+		it("arguments only suggest values", () => {
+			expect(labels(engine, "{{uppercase ti§")).toEqual(["title"]);
+		});
+
+		it("block openings suggest the built-in block helpers", () => {
+			expect(labels(engine, "{{#wi§")).toEqual(["with"]);
+			expect(labels(engine, "{{#ea§")).toEqual(["each"]);
+		});
+
+		it("suggests registered custom helpers", () => {
+			engine.registerHelper("initials", {
+				fn: (name: unknown) => String(name).slice(0, 1),
+				params: [{ name: "name", type: { type: "string" } }],
+				returnType: { type: "string" },
+				description: "First letter",
+			});
+			expect(engine.complete("{{ini", 5, schema).items).toEqual([
+				{
+					label: "initials",
+					kind: "helper",
+					schema: { type: "string" },
+					params: [{ name: "name", type: { type: "string" } }],
+					description: "First letter",
+				},
+			]);
+		});
+	});
+
+	// ─── Incomplete templates ────────────────────────────────────────────
+
+	describe("incomplete templates", () => {
+		it("completes inside a template that does not parse", () => {
+			expect(
+				labels(engine, "{{#each users}}{{#if name}}{{addr§ {{/each}} {{#with"),
+			).toEqual(["address"]);
+		});
+
+		it("falls back to the input when the text before is invalid", () => {
+			expect(labels(engine, "{{#if x}}{{/unless}}{{ti§")).toEqual([
+				"title",
+				"titlecase",
+			]);
+		});
+
+		it("suggests nothing outside of an expression", () => {
+			const result = engine.complete("Hello {{title}} wor", 19, schema);
+			expect(result).toEqual({ items: [], range: { start: 19, end: 19 } });
+		});
+
+		it("suggests nothing in closing tags, partials, strings and comments", () => {
+			expect(labels(engine, "{{#each users}}{{/ea§")).toEqual([]);
+			expect(labels(engine, "{{> he§")).toEqual([]);
+			expect(labels(engine, '{{default title "ti§')).toEqual([]);
+			expect(labels(engine, "{{! ti§")).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { ConditionalHelpers } from "../src/helpers/conditional-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const conditionalHelpers = new ConditionalHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		score: { type: "integer" },
+		isAdmin: { type: "boolean" },
+		email: { type: ["string", "null"] },
+		tags: { type: "array", items: { type: "string" } },
+		user: {
+			type: "object",
+			properties: { name: { type: "string" } },
+			required: ["name"],
+		},
+	},
+	required: ["score", "isAdmin", "email", "tags", "user"],
+};
+
+const data = {
+	score: 72,
+	isAdmin: false,
+	email: null,
+	tags: [] as string[],
+	user: { name: "Ada" },
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("ConditionalHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("iif and ternary are available without calling register()", () => {
+			for (const name of conditionalHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(true);
+			}
+			expect(conditionalHelpers.getHelperNames()).toEqual(["iif", "ternary"]);
+		});
+
+		it("unregister removes all helpers", () => {
+			conditionalHelpers.unregister(engine);
+			for (const name of conditionalHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(false);
+			}
+		});
+	});
+
+	// ─── Execution ───────────────────────────────────────────────────────
+
+	describe("execution", () => {
+		it("returns the value of the branch selected by the condition", () => {
+			expect(engine.execute('{{iif (gt score 50) "pass" "fail"}}', data)).toBe(
+				"pass",
+			);
+			expect(engine.execute('{{iif (gt score 90) "pass" "fail"}}', data)).toBe(
+				"fail",
+			);
+		});
+
+		it("ternary is an alias of iif", () => {
+			expect(engine.execute('{{ternary isAdmin "admin" "user"}}', data)).toBe(
+				"user",
+			);
+		});
+
+		it("preserves the type of the chosen value", () => {
+			expect(engine.execute("{{iif (gt score 50) score 0}}", data)).toBe(72);
+			expect(engine.execute("{{iif isAdmin score user}}", data)).toEqual({
+				name: "Ada",
+			});
+			expect(engine.execute('{{iif isAdmin "1" "0"}}', data)).toBe("0");
+		});
+
+		it("follows the truthiness of #if", () => {
+			expect(engine.execute('{{iif tags "some" "none"}}', data)).toBe("none");
+			expect(engine.execute('{{iif 0 "yes" "no"}}', data)).toBe("no");
+			expect(engine.execute('{{iif email "yes" "no"}}', data)).toBe("no");
+		});
+
+		it("works in mixed templates and sub-expressions", () => {
+			expect(
+				engine.execute('Result: {{iif (gt score 50) "pass" "fail"}}!', data),
+			).toBe("Result: pass!");
+			expect(engine.execute("{{add (iif isAdmin 10 1) 1}}", data)).toBe(2);
+			expect(
+				engine.execute(
+					'{{#each (array 1 2 3)}}{{iif @first "[" ","}}{{this}}{{/each}}]',
+					data,
+				),
+			).toBe("[1,2,3]");
+		});
+	});
+
+	// ─── Static analysis ─────────────────────────────────────────────────
+
+	describe("static analysis", () => {
+		it("both branches of the same type give that type", () => {
+			const { analysis } = run(engine, '{{iif (gt score 50) "pass" "fail"}}');
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: "string" });
+		});
+
+		it("returns the union of both branch types", () => {
+			expect(
+				run(engine, '{{iif isAdmin score "none"}}').analysis.outputSchema,
+			).toEqual({ oneOf: [{ type: "integer" }, { type: "string" }] });
+			expect(
+				run(engine, "{{ternary isAdmin user tags}}").analysis.outputSchema,
+			).toEqual({
+				oneOf: [
+					{
+						type: "object",
+						properties: { name: { type: "string" } },
+						required: ["name"],
+					},
+					{ type: "array", items: { type: "string" } },
+				],
+			});
+		});
+
+		it("narrows each branch by the condition, like #if", () => {
+			expect(
+				run(engine, '{{iif email email "none"}}').analysis.outputSchema,
+			).toEqual({ type: "string" });
+		});
+
+		it("the result can be passed as an argument", () => {
+			const { analysis, value } = run(
+				engine,
+				"{{uppercase (iif email email user.name)}}",
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: "string" });
+			expect(value).toBe("ADA");
+		});
+
+		it("requires 3 arguments", () => {
+			const { analysis } = run(engine, "{{iif isAdmin score}}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+			expect(analysis.diagnostics[0]?.details?.expected).toBe("3 argument(s)");
+		});
+
+		it("reports unknown properties in any argument", () => {
+			const { analysis } = run(engine, "{{iif isAdmn score nme}}");
+			expect(analysis.diagnostics.map((d) => d.code)).toEqual([
+				"UNKNOWN_PROPERTY",
+				"UNKNOWN_PROPERTY",
+			]);
+		});
+	});
+
+	// ─── Custom helper registered as iif ─────────────────────────────────
+
+	describe("custom helper registered as iif", () => {
+		beforeEach(() => {
+			engine.registerHelper("iif", {
+				params: [{ name: "score", type: { type: "number" } }],
+				returnType: { type: "boolean" },
+				fn: (score: unknown) => Number(score) >= 50,
+			});
+		});
+
+		it("is analyzed and executed from its own definition", () => {
+			const { analysis, value } = run(engine, "{{iif score}}");
+			expect(analysis.valid).toBe(true);
+			expect(analysis.diagnostics).toEqual([]);
+			expect(analysis.outputSchema).toEqual({ type: "boolean" });
+			expect(value).toBe(true);
+		});
+
+		it("its return type is used in sub-expressions", () => {
+			const { analysis } = run(engine, "{{toString (iif score)}}");
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: "string" });
+		});
+
+		it("its parameter types are checked", () => {
+			const { analysis } = run(engine, "{{iif user.name}}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("its argument is inferred with the declared param type", () => {
+			expect(engine.inferInputSchema("{{iif score}}").inputSchema).toEqual({
+				type: "object",
+				properties: { score: { type: "number" } },
+			});
+		});
+	});
+});
@@ -416,52 +416,207 @@ describe("conditional schema detection (if/then/else)", () => {
 	// ─── Integration with analyze() ────────────────────────────────────────
 
 	describe("integration with analyze()", () => {
-		test("analyze returns valid: false with UNSUPPORTED_SCHEMA diagnostic for schema with if/then/else", () => {
-			const schema: JSONSchema7 = {
-				type: "object",
-				if: { properties: { kind: { const: "a" } } },
-				then: { properties: { a: { type: "string" } } },
-				else: { properties: { b: { type: "number" } } },
-			};
-			const result = analyze("{{a}}", schema);
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: {
+				kind: { type: "string", enum: ["a", "b"] },
+				name: { type: "string" },
+			},
+			required: ["kind", "name"],
+			if: { properties: { kind: { const: "a" } } },
+			then: { properties: { a: { type: "string" } }, required: ["a"] },
+			else: { properties: { b: { type: "number" } }, required: ["b"] },
+		};
+
+		test("analyze emits a CONDITIONAL_SCHEMA warning instead of an error", () => {
+			const result = analyze("{{name}}", schema);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toEqual([
+				expect.objectContaining({
+					code: "CONDITIONAL_SCHEMA",
+					severity: "warning",
+					details: { path: "/" },
+				}),
+			]);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("properties declared in a branch are resolvable but optional", () => {
+			expect(analyze("{{a}}", schema).outputSchema).toEqual({
+				type: ["string", "null"],
+			});
+			expect(analyze("{{b}}", schema).outputSchema).toEqual({
+				type: ["number", "null"],
+			});
+		});
+
+		test("unknown properties are still reported with branch properties as suggestions", () => {
+			const result = analyze("{{missing}}", schema);
 			expect(result.valid).toBe(false);
-			expect(result.diagnostics).toEqual(
-				expect.arrayContaining([
-					expect.objectContaining({
-						code: "UNSUPPORTED_SCHEMA",
-						severity: "error",
-					}),
-				]),
+			const error = result.diagnostics.find(
+				(d) => d.code === "UNKNOWN_PROPERTY",
 			);
+			expect(error?.details?.availableProperties).toEqual([
+				"a",
+				"b",
+				"kind",
+				"name",
+			]);
 		});
 
-		test("analyze returns valid: false for nested if/then/else in properties", () => {
-			const schema: JSONSchema7 = {
+		test("a property declared in both branches resolves to the union of both types", () => {
+			const result = analyze("{{value}}", {
+				type: "object",
+				if: { properties: { kind: { const: "a" } } },
+				then: {
+					properties: { value: { type: "string" } },
+					required: ["value"],
+				},
+				else: {
+					properties: { value: { type: "number" } },
+					required: ["value"],
+				},
+			});
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({
+				oneOf: [{ type: "string" }, { type: "number" }],
+			});
+		});
+
+		test("nested if/then/else in properties is resolvable", () => {
+			const result = analyze("{{config.extra}}", {
 				type: "object",
 				properties: {
-					name: { type: "string" },
 					config: {
 						type: "object",
 						if: { properties: { mode: { const: "advanced" } } },
 						then: { properties: { extra: { type: "string" } } },
 					},
 				},
-			};
-			const result = analyze("{{name}}", schema);
+			});
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toEqual([
+				expect.objectContaining({
+					code: "CONDITIONAL_SCHEMA",
+					details: { path: "/properties/config" },
+				}),
+			]);
+			expect(result.outputSchema).toEqual({ type: ["string", "null"] });
+		});
+
+		test("analyze works normally for schemas without conditionals", () => {
+			const result = analyze("{{name}}", userSchema);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toEqual([]);
+		});
+	});
+
+	// ─── Discriminant narrowing ────────────────────────────────────────────
+
+	describe("narrowing on the discriminant", () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: { kind: { type: "string", enum: ["a", "b"] } },
+			required: ["kind"],
+			if: { properties: { kind: { const: "a" } } },
+			then: { properties: { a: { type: "string" } }, required: ["a"] },
+			else: { properties: { b: { type: "number" } }, required: ["b"] },
+		};
+
+		test("#if (eq …) selects the then branch and the else block the else branch", () => {
+			const result = analyze(
+				'{{#if (eq kind "a")}}{{a}}{{else}}{{b}}{{/if}}',
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({
+				oneOf: [{ type: "string" }, { type: "number" }],
+			});
+		});
+
+		test("properties of the other branch are unknown inside a narrowed block", () => {
+			const result = analyze('{{#if (eq kind "a")}}{{b}}{{/if}}', schema);
 			expect(result.valid).toBe(false);
 			expect(result.diagnostics).toEqual(
 				expect.arrayContaining([
 					expect.objectContaining({
-						code: "UNSUPPORTED_SCHEMA",
-						severity: "error",
+						code: "UNKNOWN_PROPERTY",
+						details: expect.objectContaining({ path: "b" }),
 					}),
 				]),
 			);
 		});
 
-		test("analyze works normally for schemas without conditionals", () => {
-			const result = analyze("{{name}}", userSchema);
+		test("#unless inverts the narrowing", () => {
+			const result = analyze(
+				'{{#unless (eq kind "a")}}{{b}}{{/unless}}',
+				schema,
+			);
 			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		test("ne narrows the truthy branch to else", () => {
+			const result = analyze('{{#if (ne kind "a")}}{{b}}{{/if}}', schema);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		test("narrows conditionals declared on a nested object", () => {
+			const result = analyze(
+				'{{#if (eq shape.type "circle")}}{{shape.radius}}{{/if}}',
+				{
+					type: "object",
+					properties: {
+						shape: {
+							type: "object",
+							properties: { type: { type: "string" } },
+							required: ["type"],
+							if: { properties: { type: { const: "circle" } } },
+							then: {
+								properties: { radius: { type: "number" } },
+								required: ["radius"],
+							},
+						},
+					},
+					required: ["shape"],
+				},
+			);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		test("narrows conditionals listed in allOf", () => {
+			const result = analyze('{{#if (eq kind "b")}}{{b}}{{else}}{{a}}{{/if}}', {
+				type: "object",
+				properties: { kind: { type: "string" } },
+				required: ["kind"],
+				allOf: [
+					{
+						if: { properties: { kind: { const: "a" } } },
+						then: { properties: { a: { type: "string" } }, required: ["a"] },
+					},
+					{
+						if: { properties: { kind: { const: "b" } } },
+						then: { properties: { b: { type: "number" } }, required: ["b"] },
+					},
+				],
+			});
+			// In the else block `kind !== "b"` is known, but whether `kind === "a"`
+			// is not, so `a` stays optional.
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({
+				oneOf: [{ type: "number" }, { type: ["string", "null"] }],
+			});
+		});
+
+		test("conditions that do not test the discriminant leave the schema untouched", () => {
+			const result = analyze('{{#if (eq other "a")}}{{a}}{{/if}}', {
+				...schema,
+				properties: { ...schema.properties, other: { type: "string" } },
+			});
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: ["string", "null"] });
 		});
 	});
 
@@ -474,95 +629,57 @@ describe("conditional schema detection (if/then/else)", () => {
 			engine = new Typebars();
 		});
 
-		test("engine.analyze returns valid: false with UNSUPPORTED_SCHEMA diagnostic", () => {
-			const schema: JSONSchema7 = {
-				type: "object",
-				if: { properties: { kind: { const: "a" } } },
-				then: { properties: { a: { type: "string" } } },
-			};
+		const schema: JSONSchema7 = {
+			type: "object",
+			if: { properties: { kind: { const: "a" } } },
+			then: { properties: { a: { type: "string" } } },
+		};
+
+		test("engine.analyze returns valid: true with a CONDITIONAL_SCHEMA warning", () => {
 			const result = engine.analyze("{{a}}", schema);
-			expect(result.valid).toBe(false);
-			expect(result.diagnostics).toEqual(
-				expect.arrayContaining([
-					expect.objectContaining({
-						code: "UNSUPPORTED_SCHEMA",
-						severity: "error",
-					}),
-				]),
-			);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toEqual([
+				expect.objectContaining({
+					code: "CONDITIONAL_SCHEMA",
+					severity: "warning",
+				}),
+			]);
 		});
 
-		test("engine.validate returns valid: false with UNSUPPORTED_SCHEMA diagnostic", () => {
-			const schema: JSONSchema7 = {
-				type: "object",
-				if: { properties: { kind: { const: "a" } } },
-				then: { properties: { a: { type: "string" } } },
-			};
+		test("engine.validate returns valid: true with a CONDITIONAL_SCHEMA warning", () => {
 			const result = engine.validate("{{a}}", schema);
-			expect(result.valid).toBe(false);
-			expect(result.diagnostics).toEqual(
-				expect.arrayContaining([
-					expect.objectContaining({
-						code: "UNSUPPORTED_SCHEMA",
-						severity: "error",
-					}),
-				]),
-			);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toEqual([
+				expect.objectContaining({ code: "CONDITIONAL_SCHEMA" }),
+			]);
 		});
 
-		test("engine.analyzeAndExecute returns valid: false with UNSUPPORTED_SCHEMA diagnostic", () => {
-			const schema: JSONSchema7 = {
-				type: "object",
-				if: { properties: { kind: { const: "a" } } },
-				then: { properties: { a: { type: "string" } } },
-			};
+		test("engine.analyzeAndExecute executes templates on conditional schemas", () => {
 			const result = engine.analyzeAndExecute("{{a}}", schema, {
+				kind: "a",
 				a: "hello",
 			});
-			expect(result.analysis.valid).toBe(false);
-			expect(result.analysis.diagnostics).toEqual(
-				expect.arrayContaining([
-					expect.objectContaining({
-						code: "UNSUPPORTED_SCHEMA",
-						severity: "error",
-					}),
-				]),
-			);
+			expect(result.analysis.valid).toBe(true);
+			expect(result.value).toBe("hello");
 		});
 
-		test("engine.execute with schema option throws TemplateAnalysisError", () => {
-			const schema: JSONSchema7 = {
-				type: "object",
-				if: { properties: { kind: { const: "a" } } },
-				then: { properties: { a: { type: "string" } } },
-			};
-			expect(() => engine.execute("{{a}}", { a: "hello" }, { schema })).toThrow(
-				TemplateAnalysisError,
-			);
+		test("engine.execute with schema option does not throw", () => {
+			expect(engine.execute("{{a}}", { a: "hello" }, { schema })).toBe("hello");
 		});
 
-		test("engine.execute without schema does NOT throw (no analysis)", () => {
-			const result = engine.execute("{{a}}", { a: "hello" });
-			expect(result).toBe("hello");
+		test("engine.execute with schema option still throws for unknown properties", () => {
+			expect(() =>
+				engine.execute("{{missing}}", { a: "hello" }, { schema }),
+			).toThrow(TemplateAnalysisError);
 		});
 
-		test("compiled template analyze returns valid: false with UNSUPPORTED_SCHEMA diagnostic", () => {
+		test("compiled template analyze returns valid: true with a CONDITIONAL_SCHEMA warning", () => {
 			const tpl = engine.compile("{{a}}");
-			const schema: JSONSchema7 = {
-				type: "object",
-				if: { properties: { kind: { const: "a" } } },
-				then: { properties: { a: { type: "string" } } },
-			};
 			const result = tpl.analyze(schema);
-			expect(result.valid).toBe(false);
-			expect(result.diagnostics).toEqual(
-				expect.arrayContaining([
-					expect.objectContaining({
-						code: "UNSUPPORTED_SCHEMA",
-						severity: "error",
-					}),
-				]),
-			);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toEqual([
+				expect.objectContaining({ code: "CONDITIONAL_SCHEMA" }),
+			]);
 		});
 	});
 
@@ -575,85 +692,69 @@ describe("conditional schema detection (if/then/else)", () => {
 			engine = new Typebars();
 		});
 
-		test("returns valid: false for if/then/else in an identifierSchema", () => {
-			const inputSchema: JSONSchema7 = {
-				type: "object",
-				properties: { name: { type: "string" } },
-			};
-			const identifierSchemas: Record<number, JSONSchema7> = {
-				1: {
-					type: "object",
-					if: { properties: { kind: { const: "a" } } },
-					then: { properties: { value: { type: "string" } } },
-				},
-			};
+		const inputSchema: JSONSchema7 = {
+			type: "object",
+			properties: { name: { type: "string" } },
+		};
+
+		test("warns for if/then/else in an identifierSchema", () => {
 			const result = engine.analyze("{{value:1}}", inputSchema, {
-				identifierSchemas,
+				identifierSchemas: {
+					1: {
+						type: "object",
+						if: { properties: { kind: { const: "a" } } },
+						then: { properties: { value: { type: "string" } } },
+					},
+				},
 			});
-			expect(result.valid).toBe(false);
-			expect(result.diagnostics).toEqual(
-				expect.arrayContaining([
-					expect.objectContaining({
-						code: "UNSUPPORTED_SCHEMA",
-						severity: "error",
-					}),
-				]),
-			);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toEqual([
+				expect.objectContaining({
+					code: "CONDITIONAL_SCHEMA",
+					severity: "warning",
+					details: { path: "/identifierSchemas/1" },
+				}),
+			]);
 		});
 
-		test("returns valid: false for nested if/then/else in identifierSchema properties", () => {
-			const inputSchema: JSONSchema7 = {
-				type: "object",
-				properties: { name: { type: "string" } },
-			};
-			const identifierSchemas: Record<number, JSONSchema7> = {
-				1: {
-					type: "object",
-					properties: {
-						config: {
-							type: "object",
-							if: { properties: { mode: { const: "x" } } },
-							then: { properties: { extra: { type: "string" } } },
+		test("resolves nested if/then/else in identifierSchema properties", () => {
+			const result = engine.analyze("{{config.extra:1}}", inputSchema, {
+				identifierSchemas: {
+					1: {
+						type: "object",
+						properties: {
+							config: {
+								type: "object",
+								if: { properties: { mode: { const: "x" } } },
+								then: { properties: { extra: { type: "string" } } },
+							},
 						},
 					},
 				},
-			};
-			const result = engine.analyze("{{config.extra:1}}", inputSchema, {
-				identifierSchemas,
 			});
-			expect(result.valid).toBe(false);
-			expect(result.diagnostics).toEqual(
-				expect.arrayContaining([
-					expect.objectContaining({
-						code: "UNSUPPORTED_SCHEMA",
-						severity: "error",
-					}),
-				]),
-			);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toEqual([
+				expect.objectContaining({
+					code: "CONDITIONAL_SCHEMA",
+					details: { path: "/identifierSchemas/1/properties/config" },
+				}),
+			]);
 		});
 
-		test("does not throw when identifierSchemas are clean", () => {
-			const inputSchema: JSONSchema7 = {
-				type: "object",
-				properties: { name: { type: "string" } },
-			};
-			const identifierSchemas: Record<number, JSONSchema7> = {
-				1: {
-					type: "object",
-					properties: { meetingId: { type: "string" } },
-				},
-			};
+		test("does not warn when identifierSchemas are clean", () => {
 			const result = engine.analyze("{{meetingId:1}}", inputSchema, {
-				identifierSchemas,
+				identifierSchemas: {
+					1: {
+						type: "object",
+						properties: { meetingId: { type: "string" } },
+					},
+				},
 			});
 			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toEqual([]);
 		});
 
-		test("analyzeAndExecute returns valid: false for conditional identifierSchema", () => {
-			const inputSchema: JSONSchema7 = {
-				type: "object",
-				properties: { name: { type: "string" } },
-			};
+		test("analyzeAndExecute executes with a conditional identifierSchema", () => {
 			const result = engine.analyzeAndExecute(
 				"{{value:1}}",
 				inputSchema,
@@ -669,22 +770,15 @@ describe("conditional schema detection (if/then/else)", () => {
 					identifierData: { 1: { value: "hello" } },
 				},
 			);
-			expect(result.analysis.valid).toBe(false);
-			expect(result.analysis.diagnostics).toEqual(
-				expect.arrayContaining([
-					expect.objectContaining({
-						code: "UNSUPPORTED_SCHEMA",
-						severity: "error",
-					}),
-				]),
-			);
+			expect(result.analysis.valid).toBe(true);
+			expect(result.value).toBe("hello");
 		});
 	});
 
 	// ─── Object templates ──────────────────────────────────────────────────
 
 	describe("object templates", () => {
-		test("returns valid: false for if/then/else in schema even with object template", () => {
+		test("analyzes object templates against conditional schemas", () => {
 			const engine = new Typebars();
 			const schema: JSONSchema7 = {
 				type: "object",
@@ -692,16 +786,19 @@ describe("conditional schema detection (if/then/else)", () => {
 				then: { properties: { a: { type: "string" } } },
 				else: { properties: { b: { type: "number" } } },
 			};
-			const result = engine.analyze({ result: "{{a}}" }, schema);
-			expect(result.valid).toBe(false);
-			expect(result.diagnostics).toEqual(
-				expect.arrayContaining([
-					expect.objectContaining({
-						code: "UNSUPPORTED_SCHEMA",
-						severity: "error",
-					}),
-				]),
+			const result = engine.analyze(
+				{ first: "{{a}}", second: "{{b}}" },
+				schema,
 			);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({
+				type: "object",
+				properties: {
+					first: { type: ["string", "null"] },
+					second: { type: ["number", "null"] },
+				},
+				required: ["first", "second"],
+			});
 		});
 	});
 
@@ -0,0 +1,268 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { TemplateRuntimeError } from "../src/errors.ts";
+import { ConversionHelpers } from "../src/helpers/conversion-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const conversionHelpers = new ConversionHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		quantity: { type: "string" },
+		count: { type: "integer" },
+		price: { type: "number" },
+		active: { type: "boolean" },
+		enabled: { type: "string" },
+		maybe: { type: ["string", "null"] },
+		settings: {
+			type: "object",
+			properties: { theme: { type: "string" } },
+			required: ["theme"],
+		},
+		tags: { type: "array", items: { type: "string" } },
+		payload: { type: "string" },
+	},
+	required: [
+		"quantity",
+		"count",
+		"price",
+		"active",
+		"enabled",
+		"settings",
+		"tags",
+		"payload",
+	],
+};
+
+const data = {
+	quantity: "12.5",
+	count: 3,
+	price: 9.99,
+	active: true,
+	enabled: "no",
+	maybe: null,
+	settings: { theme: "dark" },
+	tags: ["a", "b"],
+	payload: '{"id":1,"name":"Ada"}',
+};
+
+const PAYLOAD_SCHEMA =
+	'{"type":"object","properties":{"id":{"type":"integer"},"name":{"type":"string"}},"required":["id"]}';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("ConversionHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("all conversion helpers are available without calling register()", () => {
+			for (const name of conversionHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(true);
+			}
+		});
+
+		it("unregister removes all helpers", () => {
+			conversionHelpers.unregister(engine);
+			for (const name of conversionHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(false);
+			}
+		});
+	});
+
+	// ─── json / parseJson ────────────────────────────────────────────────
+
+	describe("json", () => {
+		it("serializes a value as a JSON string", () => {
+			const { analysis, value } = run(engine, "{{json settings}}");
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: "string" });
+			expect(value).toBe('{"theme":"dark"}');
+			expect(engine.execute("{{json count}}", data)).toBe("3");
+		});
+
+		it("indents with the given number of spaces", () => {
+			expect(engine.execute("{{json settings 2}}", data)).toBe(
+				'{\n  "theme": "dark"\n}',
+			);
+		});
+
+		it("renders arrays as JSON in mixed templates", () => {
+			expect(engine.execute("Tags: {{json tags}}", data)).toBe(
+				'Tags: ["a","b"]',
+			);
+		});
+	});
+
+	describe("parseJson", () => {
+		it("parses a JSON string", () => {
+			const { analysis, value } = run(engine, "{{parseJson payload}}");
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({});
+			expect(value).toEqual({ id: 1, name: "Ada" });
+		});
+
+		it("is typed by its schema argument", () => {
+			const { analysis, value } = run(
+				engine,
+				`{{parseJson payload '${PAYLOAD_SCHEMA}'}}`,
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual(JSON.parse(PAYLOAD_SCHEMA));
+			expect(value).toEqual({ id: 1, name: "Ada" });
+		});
+
+		it("the schema argument types the properties of the result", () => {
+			const template = `{{#with (parseJson payload '${PAYLOAD_SCHEMA}')}}{{id}}{{/with}}`;
+			const { analysis, value } = run(engine, template);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe(1);
+			expect(
+				run(
+					engine,
+					`{{#with (parseJson payload '${PAYLOAD_SCHEMA}')}}{{email}}{{/with}}`,
+				).analysis.valid,
+			).toBe(false);
+		});
+
+		it("rejects a schema argument that is not a JSON Schema", () => {
+			const { analysis } = run(engine, '{{parseJson payload "object"}}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("rejects a literal that is not valid JSON", () => {
+			const { analysis } = run(engine, '{{parseJson "{id: 1}"}}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("throws a TemplateRuntimeError on invalid JSON data", () => {
+			expect(() =>
+				engine.execute("{{parseJson payload}}", { payload: "{oops" }),
+			).toThrow(TemplateRuntimeError);
+		});
+	});
+
+	// ─── toNumber / toInteger ────────────────────────────────────────────
+
+	describe("toNumber / toInteger", () => {
+		it("a string may not be numeric: the result is nullable", () => {
+			const { analysis, value } = run(engine, "{{toNumber quantity}}");
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: ["number", "null"] });
+			expect(value).toBe(12.5);
+			expect(engine.execute("{{toNumber quantity}}", { quantity: "abc" })).toBe(
+				null,
+			);
+			expect(engine.execute("{{toNumber quantity}}", { quantity: "" })).toBe(
+				null,
+			);
+		});
+
+		it("numbers and booleans always convert", () => {
+			expect(run(engine, "{{toNumber count}}").analysis.outputSchema).toEqual({
+				type: "integer",
+			});
+			expect(run(engine, "{{toNumber price}}").analysis.outputSchema).toEqual({
+				type: "number",
+			});
+			const { analysis, value } = run(engine, "{{toNumber active}}");
+			expect(analysis.outputSchema).toEqual({ type: "integer" });
+			expect(value).toBe(1);
+		});
+
+		it("null converts to null", () => {
+			const { analysis, value } = run(engine, "{{toNumber maybe}}");
+			expect(analysis.outputSchema).toEqual({ type: ["number", "null"] });
+			expect(value).toBe(null);
+		});
+
+		it("toInteger truncates decimals", () => {
+			const { analysis, value } = run(engine, "{{toInteger quantity}}");
+			expect(analysis.outputSchema).toEqual({ type: ["integer", "null"] });
+			expect(value).toBe(12);
+			expect(run(engine, "{{toInteger price}}").analysis.outputSchema).toEqual({
+				type: "integer",
+			});
+		});
+
+		it("feeds math helpers", () => {
+			const { analysis, value } = run(engine, "{{add (toNumber quantity) 1}}");
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe(13.5);
+		});
+
+		it("rejects objects and arrays", () => {
+			for (const template of ["{{toNumber settings}}", "{{toInteger tags}}"]) {
+				const { analysis } = run(engine, template);
+				expect(analysis.valid).toBe(false);
+				expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			}
+		});
+
+		it("rejects a string literal that is not a number", () => {
+			const { analysis } = run(engine, '{{toNumber "twelve"}}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			expect(run(engine, '{{toNumber "12"}}').analysis.outputSchema).toEqual({
+				type: "number",
+			});
+		});
+	});
+
+	// ─── toString / toBoolean ────────────────────────────────────────────
+
+	describe("toString", () => {
+		it("keeps the string type in a single expression", () => {
+			const { analysis, value } = run(engine, "{{toString count}}");
+			expect(analysis.outputSchema).toEqual({ type: "string" });
+			expect(value).toBe("3");
+		});
+
+		it("serializes objects as JSON and null as an empty string", () => {
+			expect(engine.execute("{{toString settings}}", data)).toBe(
+				'{"theme":"dark"}',
+			);
+			expect(engine.execute("{{toString maybe}}", data)).toBe("");
+		});
+	});
+
+	describe("toBoolean", () => {
+		it("converts strings, numbers and null", () => {
+			const { analysis, value } = run(engine, "{{toBoolean enabled}}");
+			expect(analysis.outputSchema).toEqual({ type: "boolean" });
+			expect(value).toBe(false);
+			expect(engine.execute('{{toBoolean "yes"}}', data)).toBe(true);
+			expect(engine.execute('{{toBoolean " FALSE "}}', data)).toBe(false);
+			expect(engine.execute("{{toBoolean 0}}", data)).toBe(false);
+			expect(engine.execute("{{toBoolean maybe}}", data)).toBe(false);
+		});
+
+		it("works as an #if condition", () => {
+			expect(
+				engine.execute("{{#if (toBoolean enabled)}}on{{else}}off{{/if}}", data),
+			).toBe("off");
+		});
+
+		it("rejects objects and arrays", () => {
+			const { analysis } = run(engine, "{{toBoolean tags}}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+	});
+});
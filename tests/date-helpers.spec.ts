@@ -0,0 +1,397 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { DateHelpers } from "../src/helpers/date-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const dateHelpers = new DateHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		createdAt: { type: "string", format: "date-time" },
+		birthday: { type: "string", format: "date" },
+		dueDate: { type: ["string", "null"], format: "date-time" },
+		timestamp: { type: "number" },
+		label: { type: "string" },
+		zone: { type: "string" },
+	},
+	required: ["createdAt", "birthday", "timestamp", "label", "zone"],
+} as const;
+
+const data = {
+	createdAt: "2024-01-15T09:30:00Z",
+	birthday: "1990-07-04",
+	dueDate: "2024-03-01T00:00:00Z",
+	timestamp: Date.UTC(2024, 0, 15, 9, 30),
+	label: "hello",
+	zone: "Asia/Tokyo",
+};
+
+const clock = () => new Date("2024-02-10T12:00:00Z");
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("DateHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars({ clock });
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("all date helpers are available without calling register()", () => {
+			for (const name of dateHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(true);
+			}
+		});
+
+		it("unregister removes all helpers", () => {
+			dateHelpers.unregister(engine);
+			for (const name of dateHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(false);
+			}
+		});
+
+		it("an invalid time zone throws at construction", () => {
+			expect(() => new Typebars({ timezone: "Mars/Olympus" })).toThrow(
+				RangeError,
+			);
+		});
+	});
+
+	// ─── now ─────────────────────────────────────────────────────────────
+
+	describe("now", () => {
+		it("uses the engine clock", () => {
+			expect(
+				run(engine, '{{ formatDate (now) "YYYY-MM-DD HH:mm" }}').value,
+			).toBe("2024-02-10 12:00");
+		});
+
+		it("defaults to the system clock", () => {
+			const before = Date.now();
+			const value = new Typebars().execute("{{ dateAdd (now) 0 'day' }}", {});
+			expect(Date.parse(value as string)).toBeGreaterThanOrEqual(before - 1);
+		});
+	});
+
+	// ─── parseDate ───────────────────────────────────────────────────────
+
+	describe("parseDate", () => {
+		it("parses ISO strings and timestamps into UTC ISO strings", () => {
+			expect(run(engine, "{{ parseDate createdAt }}").value).toBe(
+				"2024-01-15T09:30:00.000Z",
+			);
+			expect(run(engine, "{{ parseDate timestamp }}").value).toBe(
+				"2024-01-15T09:30:00.000Z",
+			);
+		});
+
+		it("parses with a token pattern", () => {
+			expect(
+				run(engine, '{{ parseDate "15/01/2024 10:05" "DD/MM/YYYY HH:mm" }}')
+					.value,
+			).toBe("2024-01-15T10:05:00.000Z");
+		});
+
+		it("reads wall-clock times in the given time zone", () => {
+			expect(
+				run(engine, '{{ parseDate "2024-07-01T12:00" tz="Europe/Paris" }}')
+					.value,
+			).toBe("2024-07-01T10:00:00.000Z");
+		});
+
+		it("returns an empty string for invalid dates", () => {
+			expect(
+				run(engine, '[{{ parseDate "31/02/2024" "DD/MM/YYYY" }}]').value,
+			).toBe("[]");
+			expect(run(engine, "[{{ parseDate label }}]").value).toBe("[]");
+		});
+	});
+
+	// ─── formatDate ──────────────────────────────────────────────────────
+
+	describe("formatDate", () => {
+		it("formats with a token pattern", () => {
+			expect(
+				run(engine, '{{ formatDate createdAt "DD/MM/YYYY HH:mm:ss.SSS" }}')
+					.value,
+			).toBe("15/01/2024 09:30:00.000");
+			expect(
+				run(engine, '{{ formatDate createdAt "ddd, MMM D YY h:mm a" }}').value,
+			).toBe("Mon, Jan 15 24 9:30 am");
+		});
+
+		it("defaults to an ISO 8601 string with offset", () => {
+			expect(run(engine, "{{ formatDate createdAt }}").value).toBe(
+				"2024-01-15T09:30:00+00:00",
+			);
+		});
+
+		it("escapes text in brackets", () => {
+			expect(
+				run(engine, '{{ formatDate createdAt "[Day] D [of] MMMM" }}').value,
+			).toBe("Day 15 of January");
+		});
+
+		it("supports Intl styles and locales", () => {
+			expect(run(engine, '{{ formatDate createdAt "long" }}').value).toBe(
+				"January 15, 2024",
+			);
+			expect(
+				run(
+					engine,
+					'{{ formatDate createdAt dateStyle="full" timeStyle="short" locale="fr-FR" }}',
+				).value,
+			).toBe("lundi 15 janvier 2024 à 09:30");
+			expect(
+				run(engine, '{{ formatDate createdAt "MMMM" locale="de-DE" }}').value,
+			).toBe("Januar");
+		});
+
+		it("formats in the tz argument or the engine time zone", () => {
+			expect(
+				run(engine, '{{ formatDate createdAt "HH:mm Z" tz=zone }}').value,
+			).toBe("18:30 +09:00");
+			const paris = new Typebars({ timezone: "Europe/Paris" });
+			expect(paris.execute('{{ formatDate createdAt "HH:mm ZZ" }}', data)).toBe(
+				"10:30 +0100",
+			);
+		});
+
+		it("returns an empty string for invalid dates", () => {
+			expect(run(engine, "[{{ formatDate label }}]").value).toBe("[]");
+		});
+	});
+
+	// ─── dateAdd / dateSubtract ──────────────────────────────────────────
+
+	describe("dateAdd / dateSubtract", () => {
+		it("adds and subtracts durations", () => {
+			expect(run(engine, '{{ dateAdd createdAt 90 "minutes" }}').value).toBe(
+				"2024-01-15T11:00:00.000Z",
+			);
+			expect(run(engine, '{{ dateSubtract createdAt 2 "weeks" }}').value).toBe(
+				"2024-01-01T09:30:00.000Z",
+			);
+		});
+
+		it("clamps months to their last day", () => {
+			expect(run(engine, '{{ dateAdd "2024-01-31" 1 "month" }}').value).toBe(
+				"2024-02-29T00:00:00.000Z",
+			);
+			expect(
+				run(engine, '{{ dateSubtract "2024-02-29" 1 "year" }}').value,
+			).toBe("2023-02-28T00:00:00.000Z");
+		});
+
+		it("adds calendar days across daylight saving changes", () => {
+			const paris = new Typebars({ timezone: "Europe/Paris" });
+			expect(
+				paris.execute('{{ dateAdd "2024-03-30T12:00" 1 "day" }}', {}),
+			).toBe("2024-03-31T10:00:00.000Z");
+			expect(
+				paris.execute('{{ dateAdd "2024-03-30T12:00" 24 "hours" }}', {}),
+			).toBe("2024-03-31T11:00:00.000Z");
+		});
+	});
+
+	// ─── dateDiff ────────────────────────────────────────────────────────
+
+	describe("dateDiff", () => {
+		it("returns whole units truncated towards zero", () => {
+			expect(
+				run(engine, '{{ dateDiff "2024-03-15" "2024-01-31" "months" }}').value,
+			).toBe(1);
+			expect(
+				run(engine, '{{ dateDiff "2024-01-01" "2024-01-15T12:00" "days" }}')
+					.value,
+			).toBe(-14);
+			expect(
+				run(engine, '{{ dateDiff createdAt birthday "years" }}').value,
+			).toBe(33);
+		});
+
+		it("defaults to milliseconds", () => {
+			expect(
+				run(
+					engine,
+					'{{ dateDiff "2024-01-01T00:00:01Z" "2024-01-01T00:00:00Z" }}',
+				).value,
+			).toBe(1000);
+		});
+
+		it("counts calendar days in the time zone", () => {
+			const paris = new Typebars({ timezone: "Europe/Paris" });
+			expect(
+				paris.execute('{{ dateDiff "2024-04-01" "2024-03-31" "days" }}', {}),
+			).toBe(1);
+			expect(
+				paris.execute('{{ dateDiff "2024-04-01" "2024-03-31" "hours" }}', {}),
+			).toBe(23);
+		});
+	});
+
+	// ─── startOf / endOf ─────────────────────────────────────────────────
+
+	describe("startOf / endOf", () => {
+		it("returns the bounds of a period", () => {
+			expect(run(engine, '{{ startOf createdAt "month" }}').value).toBe(
+				"2024-01-01T00:00:00.000Z",
+			);
+			expect(run(engine, '{{ endOf createdAt "month" }}').value).toBe(
+				"2024-01-31T23:59:59.999Z",
+			);
+			expect(run(engine, '{{ startOf createdAt "hour" }}').value).toBe(
+				"2024-01-15T09:00:00.000Z",
+			);
+		});
+
+		it("weeks start on Monday", () => {
+			expect(
+				run(engine, '{{ startOf "2024-01-21T10:00:00Z" "week" }}').value,
+			).toBe("2024-01-15T00:00:00.000Z");
+		});
+
+		it("uses the time zone", () => {
+			expect(
+				run(engine, '{{ startOf createdAt "day" tz="America/New_York" }}')
+					.value,
+			).toBe("2024-01-15T05:00:00.000Z");
+		});
+	});
+
+	// ─── Comparisons ─────────────────────────────────────────────────────
+
+	describe("isBefore / isAfter / isSame", () => {
+		it("compare instants", () => {
+			expect(run(engine, "{{ isBefore createdAt (now) }}").value).toBe(true);
+			expect(run(engine, "{{ isAfter createdAt (now) }}").value).toBe(false);
+			expect(run(engine, "{{ isSame createdAt timestamp }}").value).toBe(true);
+		});
+
+		it("compare periods with a unit", () => {
+			expect(
+				run(engine, '{{ isSame createdAt "2024-01-15T23:59:00Z" "day" }}')
+					.value,
+			).toBe(true);
+			expect(
+				run(
+					engine,
+					'{{ isSame createdAt "2024-01-15T23:59:00Z" "day" tz="Asia/Tokyo" }}',
+				).value,
+			).toBe(false);
+		});
+
+		it("work as #if conditions", () => {
+			expect(
+				run(engine, "{{#if (isBefore dueDate (now))}}late{{else}}ok{{/if}}")
+					.value,
+			).toBe("ok");
+		});
+
+		it("invalid dates are never before or after", () => {
+			expect(run(engine, "{{ isBefore label createdAt }}").value).toBe(false);
+		});
+	});
+
+	// ─── Static analysis ─────────────────────────────────────────────────
+
+	describe("static analysis", () => {
+		it("infers the return types", () => {
+			expect(
+				run(engine, '{{ dateAdd createdAt 1 "day" }}').analysis.outputSchema,
+			).toEqual({
+				type: "string",
+				format: "date-time",
+			});
+			expect(
+				run(engine, "{{ formatDate createdAt }}").analysis.outputSchema,
+			).toEqual({
+				type: "string",
+			});
+			expect(
+				run(engine, '{{ dateDiff createdAt birthday "days" }}').analysis
+					.outputSchema,
+			).toEqual({ type: "integer" });
+			expect(
+				run(engine, "{{ isBefore createdAt birthday }}").analysis.outputSchema,
+			).toEqual({
+				type: "boolean",
+			});
+		});
+
+		it("date-time, date and numeric arguments are accepted", () => {
+			for (const template of [
+				"{{ formatDate createdAt }}",
+				"{{ formatDate birthday }}",
+				"{{ formatDate dueDate }}",
+				"{{ formatDate timestamp }}",
+				'{{ formatDate "2024-01-15" }}',
+				"{{ formatDate (dateAdd createdAt 1 'day') }}",
+				'{{ formatDate (parseDate label "DD/MM/YYYY") }}',
+			]) {
+				const { analysis } = run(engine, template);
+				expect(analysis.diagnostics, template).toHaveLength(0);
+			}
+		});
+
+		it("warns when a plain string is passed", () => {
+			const { analysis } = run(engine, "{{ formatDate label }}");
+			expect(analysis.valid).toBe(true);
+			expect(analysis.diagnostics[0]?.severity).toBe("warning");
+			expect(analysis.diagnostics[0]?.code).toBe("NON_DATE_STRING");
+			expect(analysis.diagnostics[0]?.details?.helperName).toBe("formatDate");
+		});
+
+		it("warns when a literal is not an ISO 8601 date", () => {
+			const { analysis } = run(engine, '{{ isBefore "15/01/2024" createdAt }}');
+			expect(analysis.diagnostics[0]?.code).toBe("NON_DATE_STRING");
+			expect(analysis.diagnostics[0]?.message).toContain("parseDate");
+		});
+
+		it("rejects unknown units", () => {
+			const { analysis } = run(engine, '{{ dateAdd createdAt 1 "fortnight" }}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("rejects non-date types", () => {
+			const { analysis } = run(
+				engine,
+				"{{ formatDate (isBefore createdAt birthday) }}",
+			);
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("rejects unknown hash arguments", () => {
+			const { analysis } = run(engine, '{{ formatDate createdAt zone="UTC" }}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("UNKNOWN_HASH_ARGUMENT");
+		});
+	});
+
+	// ─── Mixed templates ─────────────────────────────────────────────────
+
+	describe("integration in mixed templates", () => {
+		it("chains helpers", () => {
+			const { analysis, value } = run(
+				engine,
+				'Due {{ formatDate (dateAdd (startOf createdAt "month") 1 "month") "D MMM" }}, in {{ dateDiff dueDate (now) "days" }} days',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe("Due 1 Feb, in 19 days");
+		});
+	});
+});
@@ -441,3 +441,42 @@ describe("default helper — nullable output schema resolution", () => {
 		expect(value).toEqual({ accountIds: ["dept-42"] });
 	});
 });
+
+// ─── Custom helper under the built-in name ──────────────────────────────────
+
+describe("default helper — custom helper registered as default", () => {
+	const custom = new Typebars();
+	custom.registerHelper("default", {
+		params: [{ name: "value", type: { type: "number" } }],
+		returnType: { type: "number" },
+		fn: (value: unknown) => Number(value) * 2,
+	});
+
+	test("is analyzed from its own definition", () => {
+		const analysis = custom.analyze("{{default count}}", testSchema);
+		expect(analysis.valid).toBe(true);
+		expect(analysis.diagnostics).toEqual([]);
+		expect(analysis.outputSchema).toEqual({ type: "number" });
+
+		const sub = custom.analyze("{{add (default count) 1}}", testSchema);
+		expect(sub.valid).toBe(true);
+		expect(sub.outputSchema).toEqual({ type: "number" });
+	});
+
+	test("its parameter types are checked", () => {
+		const analysis = custom.analyze("{{default fallbackId}}", testSchema);
+		expect(analysis.valid).toBe(false);
+		expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+	});
+
+	test("is executed with its own fn", () => {
+		expect(custom.execute("{{default count}}", testData)).toBe(84);
+	});
+
+	test("its argument is inferred with the declared param type", () => {
+		expect(custom.inferInputSchema("{{default count}}").inputSchema).toEqual({
+			type: "object",
+			properties: { count: { type: "number" } },
+		});
+	});
+});
@@ -0,0 +1,251 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { TemplateParseError } from "../src/errors.ts";
+import { Typebars } from "../src/typebars.ts";
+import type { TemplateDependency, TemplateInput } from "../src/types.ts";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** The dependencies of a template without their `loc` */
+function deps(engine: Typebars, template: TemplateInput) {
+	return engine
+		.getDependencies(template)
+		.map(({ loc: _loc, ...dependency }) => dependency);
+}
+
+/** The paths read by a template, joined with dots */
+function paths(engine: Typebars, template: TemplateInput): string[] {
+	return engine
+		.getDependencies(template)
+		.map(
+			(d) =>
+				(d.identifier === null ? "" : `${d.identifier}:`) + d.path.join("."),
+		);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("getDependencies", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Paths ───────────────────────────────────────────────────────────
+
+	describe("paths", () => {
+		it("lists every path read, in source order", () => {
+			expect(deps(engine, "Hello {{user.name}} ({{id}})")).toEqual([
+				{
+					path: ["user", "name"],
+					identifier: null,
+					inEach: false,
+					helperArgument: false,
+					templatePath: [],
+				},
+				{
+					path: ["id"],
+					identifier: null,
+					inEach: false,
+					helperArgument: false,
+					templatePath: [],
+				},
+			]);
+		});
+
+		it("a path read twice appears twice", () => {
+			expect(paths(engine, "{{a}} {{a}}")).toEqual(["a", "a"]);
+		});
+
+		it("a template without expressions reads nothing", () => {
+			expect(engine.getDependencies("Hello")).toEqual([]);
+			expect(engine.getDependencies(42)).toEqual([]);
+		});
+
+		it("records the position of each path", () => {
+			const [first, second] = engine.getDependencies(
+				"Hi {{name}}\n{{add a 1}}",
+			);
+			expect(first?.loc).toEqual({
+				start: { line: 1, column: 5 },
+				end: { line: 1, column: 9 },
+			});
+			expect(second?.loc?.start).toEqual({ line: 2, column: 6 });
+		});
+
+		it("throws on an invalid template", () => {
+			expect(() => engine.getDependencies("{{#if x}}")).toThrow(
+				TemplateParseError,
+			);
+		});
+	});
+
+	// ─── Helper arguments ────────────────────────────────────────────────
+
+	describe("helper arguments", () => {
+		it("flags arguments of helpers, sub-expressions and blocks", () => {
+			const dependencies = engine.getDependencies(
+				'{{uppercase (default nickname name)}} {{formatNumber n locale=lang}} {{#if ok}}{{v}}{{/if}} {{map users "email"}}',
+			);
+			expect(
+				dependencies.map((d) => [d.path.join("."), d.helperArgument]),
+			).toEqual([
+				["nickname", true],
+				["name", true],
+				["n", true],
+				["lang", true],
+				["ok", true],
+				["v", false],
+				["users", true],
+			]);
+		});
+
+		it("a mustache without arguments reads a path, even with a helper's name", () => {
+			expect(deps(engine, "{{count}}")).toEqual([
+				{
+					path: ["count"],
+					identifier: null,
+					inEach: false,
+					helperArgument: false,
+					templatePath: [],
+				},
+			]);
+		});
+	});
+
+	// ─── Blocks ──────────────────────────────────────────────────────────
+
+	describe("blocks", () => {
+		it("#each bodies read the items of the argument", () => {
+			const dependencies = engine.getDependencies(
+				"{{#each orders}}{{id}} {{../currency}} {{@root.shop}} {{@index}}{{/each}}",
+			);
+			expect(dependencies.map((d) => [d.path.join("."), d.inEach])).toEqual([
+				["orders", false],
+				["orders.id", true],
+				["currency", false],
+				["shop", false],
+			]);
+		});
+
+		it("block params resolve to the items", () => {
+			expect(
+				paths(
+					engine,
+					"{{#each users as |user i|}}{{#each user.roles as |role|}}{{role.name}}{{i}}{{/each}}{{/each}}",
+				),
+			).toEqual(["users", "users.roles", "users.roles.name"]);
+		});
+
+		it("#with bodies read the argument, else branches the enclosing context", () => {
+			expect(
+				paths(
+					engine,
+					"{{#with address}}{{city}} {{this}}{{else}}{{fallback}}{{/with}}",
+				),
+			).toEqual(["address", "address.city", "address", "fallback"]);
+		});
+
+		it("#let bindings resolve to their values", () => {
+			expect(
+				paths(
+					engine,
+					'{{#let u=user total=(sum (map orders "total"))}}{{@u.name}} {{@total}}{{/let}}',
+				),
+			).toEqual(["user", "orders", "user.name"]);
+		});
+
+		it("bodies iterating computed values read nothing from the input", () => {
+			expect(
+				paths(
+					engine,
+					'{{#each (map users "tags")}}{{this}} {{label}}{{/each}}',
+				),
+			).toEqual(["users"]);
+		});
+	});
+
+	// ─── Identifiers ─────────────────────────────────────────────────────
+
+	describe("identifiers", () => {
+		it("{{key:N}} paths are read from identifier N", () => {
+			const dependencies = engine.getDependencies(
+				"{{meetingId:1}} {{add count:2 1}} {{$root:3}} {{title}}",
+			);
+			expect(dependencies.map((d) => [d.identifier, d.path.join(".")])).toEqual(
+				[
+					[1, "meetingId"],
+					[2, "count"],
+					[3, ""],
+					[null, "title"],
+				],
+			);
+		});
+
+		it("$root reads the whole current context", () => {
+			expect(
+				paths(engine, "{{$root}} {{#each items}}{{$root}}{{/each}}"),
+			).toEqual(["", "items", "items"]);
+		});
+	});
+
+	// ─── Partials ────────────────────────────────────────────────────────
+
+	describe("partials", () => {
+		it("partial bodies read their context, at the position of the call", () => {
+			engine.registerPartial("byline", "{{title}} by {{author.name}}");
+			const dependencies = engine.getDependencies(
+				"{{> byline post}}\n{{> byline title=headline}}",
+			);
+			expect(
+				dependencies.map((d) => [d.path.join("."), d.loc?.start.line]),
+			).toEqual([
+				["post", 1],
+				["post.title", 1],
+				["post.author.name", 1],
+				["headline", 2],
+				["headline", 2],
+				["author.name", 2],
+			]);
+		});
+
+		it("recursive partials are walked once", () => {
+			engine.registerPartial(
+				"tree",
+				"{{name}}{{#each children}}{{> tree}}{{/each}}",
+			);
+			expect(paths(engine, "{{> tree root}}")).toEqual([
+				"root",
+				"root.name",
+				"root.children",
+			]);
+		});
+	});
+
+	// ─── Object and array templates ──────────────────────────────────────
+
+	describe("object and array templates", () => {
+		it("lists the paths of every child with its templatePath", () => {
+			const dependencies: TemplateDependency[] = engine.getDependencies({
+				title: "{{title}}",
+				tags: ["{{tag}}", 42, { label: "{{#each items}}{{name}}{{/each}}" }],
+				count: 3,
+			});
+			expect(
+				dependencies.map((d) => [d.path.join("."), d.templatePath]),
+			).toEqual([
+				["title", ["title"]],
+				["tag", ["tags", 0]],
+				["items", ["tags", 2, "label"]],
+				["items.name", ["tags", 2, "label"]],
+			]);
+		});
+
+		it("CompiledTemplate.dependencies matches getDependencies()", () => {
+			const template = { a: "{{x:1}}", b: ["{{y}}"] };
+			expect(engine.compile(template).dependencies).toEqual(
+				engine.getDependencies(template),
+			);
+		});
+	});
+});
@@ -0,0 +1,295 @@
+import { describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { isCollectEach, parse } from "../src/parser.ts";
+import { Typebars } from "../src/typebars.ts";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		title: { type: "string" },
+		users: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					name: { type: "string" },
+					age: { type: "number" },
+				},
+				required: ["name", "age"],
+			},
+		},
+		labels: { type: "object", additionalProperties: { type: "string" } },
+	},
+	required: ["title", "users", "labels"],
+};
+
+const data = {
+	title: "Team",
+	users: [
+		{ name: "Alice", age: 30 },
+		{ name: "Bob", age: 25 },
+	],
+	labels: { en: "Hello", fr: "Bonjour" },
+};
+
+function firstBlock(template: string): hbs.AST.BlockStatement {
+	return parse(template).body[0] as hbs.AST.BlockStatement;
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("#each collect mode", () => {
+	describe("isCollectEach", () => {
+		test("detects collect=true", () => {
+			expect(
+				isCollectEach(firstBlock("{{#each a collect=true}}{{this}}{{/each}}")),
+			).toBe(true);
+		});
+
+		test("uses the default without a collect argument", () => {
+			const block = firstBlock("{{#each a}}{{this}}{{/each}}");
+			expect(isCollectEach(block)).toBe(false);
+			expect(isCollectEach(block, true)).toBe(true);
+		});
+
+		test("collect=false overrides the default", () => {
+			const block = firstBlock("{{#each a collect=false}}{{this}}{{/each}}");
+			expect(isCollectEach(block, true)).toBe(false);
+		});
+
+		test("only applies to #each", () => {
+			const block = firstBlock("{{#with a collect=true}}{{this}}{{/with}}");
+			expect(isCollectEach(block, true)).toBe(false);
+		});
+	});
+
+	describe("analysis", () => {
+		test("infers an array of the body type", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users collect=true}}{{age}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({
+				type: "array",
+				items: { type: "number" },
+			});
+		});
+
+		test("{{this}} collects the item schema", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users collect=true}}{{this}}{{/each}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({
+				type: "array",
+				items: (schema.properties?.users as JSONSchema7).items as JSONSchema7,
+			});
+		});
+
+		test("helper bodies are typed by the helper's return type", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users collect=true}}{{add age 1}}{{/each}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({
+				type: "array",
+				items: { type: "number" },
+			});
+		});
+
+		test("mixed bodies collect strings", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users collect=true}}{{name}} ({{age}}){{/each}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({
+				type: "array",
+				items: { type: "string" },
+			});
+		});
+
+		test("the else branch is part of the output type", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users collect=true}}{{age}}{{else}}{{title}}{{/each}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({
+				oneOf: [
+					{ type: "array", items: { type: "number" } },
+					{ type: "string" },
+				],
+			});
+		});
+
+		test("without collect, #each stays a string", () => {
+			const engine = new Typebars();
+			const result = engine.analyze("{{#each users}}{{age}}{{/each}}", schema);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("collect is ignored inside a mixed template", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"Ages: {{#each users collect=true}}{{age}}{{/each}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("collect is ignored next to other blocks", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users collect=true}}{{age}}{{/each}}{{#each users collect=true}}{{age}}{{/each}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("a non-literal collect argument is an error", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#each users collect=title}}{{age}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			expect(result.diagnostics[0]?.details?.expected).toBe("BooleanLiteral");
+		});
+
+		test("collectEach engine option", () => {
+			const engine = new Typebars({ collectEach: true });
+			expect(
+				engine.analyze("{{#each users}}{{age}}{{/each}}", schema).outputSchema,
+			).toEqual({ type: "array", items: { type: "number" } });
+			expect(
+				engine.analyze("{{#each users collect=false}}{{age}}{{/each}}", schema)
+					.outputSchema,
+			).toEqual({ type: "string" });
+		});
+	});
+
+	describe("execution", () => {
+		test("collects raw values", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute("{{#each users collect=true}}{{age}}{{/each}}", data),
+			).toEqual([30, 25]);
+		});
+
+		test("collects objects", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute("{{#each users collect=true}}{{this}}{{/each}}", data),
+			).toEqual(data.users);
+		});
+
+		test("collects helper results", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute(
+					"{{#each users collect=true}}{{add age 1}}{{/each}}",
+					data,
+				),
+			).toEqual([31, 26]);
+		});
+
+		test("collects rendered strings for mixed bodies", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute(
+					"{{#each users collect=true}}{{@index}}. {{name}} in {{../title}}{{/each}}",
+					data,
+				),
+			).toEqual(["0. Alice in Team", "1. Bob in Team"]);
+		});
+
+		test("supports block params, @key and objects", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute(
+					"{{#each labels collect=true as |label lang|}}{{lang}}{{/each}}",
+					data,
+				),
+			).toEqual(["en", "fr"]);
+			expect(
+				engine.execute("{{#each labels collect=true}}{{@key}}{{/each}}", data),
+			).toEqual(["en", "fr"]);
+		});
+
+		test("nested conditional bodies are executed directly", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute(
+					"{{#each users collect=true as |u|}}{{#if u.age}}{{u.name}}{{else}}{{null}}{{/if}}{{/each}}",
+					data,
+				),
+			).toEqual(["Alice", "Bob"]);
+		});
+
+		test("an empty collection returns an empty array", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute("{{#each users collect=true}}{{age}}{{/each}}", {
+					users: [],
+				}),
+			).toEqual([]);
+		});
+
+		test("an empty collection renders the else branch", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute(
+					"{{#each users collect=true}}{{age}}{{else}}{{title}}{{/each}}",
+					{ users: [], title: "none" },
+				),
+			).toBe("none");
+		});
+
+		test("collect inside a mixed template renders a string", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute(
+					"Ages: {{#each users collect=true}}{{age}} {{/each}}",
+					data,
+				),
+			).toBe("Ages: 30 25 ");
+		});
+
+		test("collect inside #if / #with", () => {
+			const engine = new Typebars();
+			expect(
+				engine.execute(
+					"{{#if title}}{{#each users collect=true}}{{name}}{{/each}}{{/if}}",
+					data,
+				),
+			).toEqual(["Alice", "Bob"]);
+			expect(
+				engine.execute(
+					"{{#with users as |list|}}{{#each list collect=true}}{{name}}!{{/each}}{{/with}}",
+					data,
+				),
+			).toEqual(["Alice!", "Bob!"]);
+		});
+
+		test("collectEach engine option and compiled templates", () => {
+			const engine = new Typebars({ collectEach: true });
+			expect(engine.execute("{{#each users}}{{age}}{{/each}}", data)).toEqual([
+				30, 25,
+			]);
+			expect(
+				engine.compile("{{#each users}}{{age}}{{/each}}").execute(data),
+			).toEqual([30, 25]);
+			expect(
+				engine.execute("{{#each users collect=false}}{{age}}{{/each}}", data),
+			).toBe(3025);
+		});
+	});
+});
@@ -228,6 +228,21 @@ describe("executor", () => {
 			expect(result).toBe("empty");
 		});
 
+		test("#each on an object iterates its values with @key", () => {
+			const result = execute("{{#each labels}}{{@key}}={{this}};{{/each}}", {
+				labels: { en: "Hello", fr: "Bonjour" },
+			});
+			expect(result).toBe("en=Hello;fr=Bonjour;");
+		});
+
+		test("#each on an object binds value and key block params", () => {
+			const result = execute(
+				"{{#each labels as |label lang|}}{{lang}}:{{label}} {{/each}}",
+				{ labels: { en: "Hello", fr: "Bonjour" } },
+			);
+			expect(result).toBe("en:Hello fr:Bonjour ");
+		});
+
 		test("#each always produces a string", () => {
 			const result = execute("{{#each tags}}{{this}} {{/each}}", userData);
 			expect(typeof result).toBe("string");
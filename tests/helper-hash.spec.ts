@@ -0,0 +1,333 @@
+import { describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { Typebars } from "../src/typebars.ts";
+import { defineHelper, type HelperDefinition } from "../src/types.ts";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		date: { type: "string" },
+		zone: { type: "string" },
+		count: { type: "number" },
+		user: {
+			type: "object",
+			properties: { name: { type: "string" } },
+			required: ["name"],
+		},
+	},
+	required: ["date", "zone", "count", "user"],
+};
+
+const data = {
+	date: "2024-01-15",
+	zone: "Europe/Paris",
+	count: 3,
+	user: { name: "Alice" },
+};
+
+const formatDate: HelperDefinition = {
+	fn: (date: string, hash: { format: string; tz?: string }) =>
+		`${date}|${hash.format}|${hash.tz ?? "local"}`,
+	params: [{ name: "date", type: { type: "string" } }],
+	hash: {
+		format: { type: { type: "string" } },
+		tz: { type: { type: "string" }, optional: true },
+	},
+	returnType: { type: "string" },
+};
+
+function createEngine(): Typebars {
+	return new Typebars().registerHelper("formatDate", formatDate);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("helper hash arguments", () => {
+	describe("analysis", () => {
+		test("declared arguments are accepted", () => {
+			const result = createEngine().analyze(
+				'{{formatDate date format="iso" tz=zone}}',
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toHaveLength(0);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("optional arguments can be omitted", () => {
+			const result = createEngine().analyze(
+				'{{formatDate date format="iso"}}',
+				schema,
+			);
+			expect(result.valid).toBe(true);
+		});
+
+		test("an unknown argument is reported", () => {
+			const result = createEngine().analyze(
+				'{{formatDate date format="iso" locale="fr"}}',
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_HASH_ARGUMENT");
+			expect(result.diagnostics[0]?.details?.hashArgument).toBe("locale");
+			expect(result.diagnostics[0]?.message).toContain("format, tz");
+		});
+
+		test("a missing required argument is reported", () => {
+			const result = createEngine().analyze("{{formatDate date}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+			expect(result.diagnostics[0]?.details?.hashArgument).toBe("format");
+		});
+
+		test("a mistyped argument is reported", () => {
+			const result = createEngine().analyze(
+				"{{formatDate date format=count}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			expect(result.diagnostics[0]?.details).toEqual({
+				helperName: "formatDate",
+				hashArgument: "format",
+				expected: "string",
+				actual: "number",
+			});
+		});
+
+		test("argument paths are checked against the schema", () => {
+			const result = createEngine().analyze(
+				'{{formatDate date format="iso" tz=user.zone}}',
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+		});
+
+		test("hash values of helpers without a declared hash are still resolved", () => {
+			const engine = new Typebars().registerHelper("shout", {
+				fn: (value: string) => value.toUpperCase(),
+				params: [{ name: "value", type: { type: "string" } }],
+			});
+			const result = engine.analyze("{{shout date level=missing}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+		});
+
+		test("sub-expressions validate their hash", () => {
+			const result = createEngine().analyze(
+				'{{#if (formatDate date format="iso" extra=1)}}ok{{/if}}',
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_HASH_ARGUMENT");
+		});
+
+		test("block helpers validate their hash", () => {
+			const engine = new Typebars().registerHelper("repeat", {
+				fn: () => "",
+				params: [{ name: "count", type: { type: "number" } }],
+				hash: { separator: { type: { type: "string" } } },
+			});
+			const result = engine.analyze(
+				"{{#repeat count}}{{user.name}}{{/repeat}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+			expect(result.diagnostics[0]?.details?.hashArgument).toBe("separator");
+		});
+	});
+
+	describe("execution", () => {
+		test("the hash is passed after the positional arguments", () => {
+			expect(
+				createEngine().execute(
+					'{{formatDate date format="iso" tz=zone}}',
+					data,
+				),
+			).toBe("2024-01-15|iso|Europe/Paris");
+		});
+
+		test("missing positional arguments are padded", () => {
+			const engine = new Typebars().registerHelper("pair", {
+				fn: (a: unknown, b: unknown, hash: { sep: string }) =>
+					`${a}${hash.sep}${b ?? "-"}`,
+				params: [{ name: "a" }, { name: "b", optional: true }],
+				hash: { sep: { type: { type: "string" } } },
+			});
+			expect(engine.execute('{{pair count sep=":"}}', data)).toBe("3:-");
+			expect(engine.execute('Value: {{pair count sep=":"}}', data)).toBe(
+				"Value: 3:-",
+			);
+		});
+
+		test("rendered and direct execution agree", () => {
+			const engine = createEngine();
+			expect(engine.execute('{{formatDate date format="iso"}}!', data)).toBe(
+				"2024-01-15|iso|local!",
+			);
+			expect(engine.execute('{{formatDate date format="iso"}}', data)).toBe(
+				"2024-01-15|iso|local",
+			);
+		});
+
+		test("single expressions keep the raw return value", () => {
+			const engine = new Typebars().registerHelper("wrap", {
+				fn: (value: unknown, hash: { key: string }) => ({ [hash.key]: value }),
+				params: [{ name: "value" }],
+				hash: { key: { type: { type: "string" } } },
+				returnType: { type: "object" },
+			});
+			expect(engine.execute('{{wrap user.name key="name"}}', data)).toEqual({
+				name: "Alice",
+			});
+		});
+
+		test("hash values resolve block params and parent scopes", () => {
+			const engine = createEngine();
+			expect(
+				engine.execute(
+					"{{#with user as |u|}}{{formatDate ../date format=u.name}}{{/with}}",
+					data,
+				),
+			).toBe("2024-01-15|Alice|local");
+		});
+
+		test("sub-expressions receive their hash", () => {
+			const engine = createEngine();
+			expect(
+				engine.execute(
+					'{{#if (formatDate date format="iso")}}{{formatDate date format="short"}}{{/if}}',
+					data,
+				),
+			).toBe("2024-01-15|short|local");
+		});
+
+		test("variadic arguments come after the hash in every path", () => {
+			const calls: unknown[][] = [];
+			const engine = new Typebars().registerHelper("joinWith", {
+				fn: (...args: unknown[]) => {
+					calls.push(args);
+					const [first, hash, ...rest] = args as [
+						unknown,
+						{ sep: string },
+						...unknown[],
+					];
+					// The options object is always the last argument
+					rest.pop();
+					return [first, ...rest].join(hash.sep);
+				},
+				params: [{ name: "values", description: "Values to join (variadic)" }],
+				hash: { sep: { type: { type: "string" } } },
+				returnType: { type: "string" },
+			});
+
+			expect(engine.execute('{{joinWith "a" "b" "c" sep="-"}}', data)).toBe(
+				"a-b-c",
+			);
+			expect(engine.execute('[{{joinWith "a" "b" "c" sep="-"}}]', data)).toBe(
+				"[a-b-c]",
+			);
+			expect(
+				engine.execute(
+					'{{#if (joinWith "a" "b" sep="-")}}{{joinWith "x" sep="+"}}{{/if}}',
+					data,
+				),
+			).toBe("x");
+
+			for (const args of calls) {
+				expect(args[1]).toEqual(
+					expect.objectContaining({ sep: expect.any(String) }),
+				);
+				expect(args[args.length - 1]).toEqual(
+					expect.objectContaining({ name: "joinWith", hash: args[1] }),
+				);
+			}
+		});
+
+		test("direct calls receive the context and the options", () => {
+			const engine = new Typebars().registerHelper("describe", {
+				fn: function (
+					this: unknown,
+					label: string,
+					hash: { suffix: string },
+					options: { name: string; data: { root: unknown } },
+				) {
+					const context = this as { count: number };
+					const root = options.data.root as { user: { name: string } };
+					return `${label}:${context.count}:${root.user.name}${hash.suffix}`;
+				},
+				params: [{ name: "label", type: { type: "string" } }],
+				hash: { suffix: { type: { type: "string" } } },
+				directExecution: true,
+			});
+
+			expect(engine.execute('{{describe "n" suffix="!"}}', data)).toBe(
+				"n:3:Alice!",
+			);
+			expect(engine.execute('<{{describe "n" suffix="!"}}>', data)).toBe(
+				"<n:3:Alice!>",
+			);
+		});
+
+		test("block helpers receive the hash and the options", () => {
+			const engine = new Typebars().registerHelper("repeat", {
+				fn: function (
+					this: unknown,
+					count: number,
+					hash: { separator: string },
+					options: Handlebars.HelperOptions,
+				) {
+					return Array.from({ length: count }, () => options.fn(this)).join(
+						hash.separator,
+					);
+				},
+				params: [{ name: "count", type: { type: "number" } }],
+				hash: { separator: { type: { type: "string" } } },
+			});
+			expect(
+				engine.execute(
+					'{{#repeat count separator=", "}}{{user.name}}{{/repeat}}',
+					data,
+				),
+			).toBe("Alice, Alice, Alice");
+		});
+	});
+
+	describe("defineHelper", () => {
+		test("infers the hash object as the last argument", () => {
+			const helper = defineHelper({
+				name: "formatDate",
+				params: [{ name: "date", type: { type: "string" } }],
+				hash: {
+					format: { type: { type: "string" } },
+					tz: { type: { type: "string" }, optional: true },
+				},
+				fn: (date, hash) => {
+					const format: string = hash.format;
+					const tz: string | undefined = hash.tz;
+					return `${date.toUpperCase()}|${format}|${tz ?? "local"}`;
+				},
+				returnType: { type: "string" },
+			});
+			const engine = new Typebars({ helpers: [helper] });
+			expect(
+				engine.execute('{{formatDate date format="iso" tz="UTC"}}', data),
+			).toBe("2024-01-15|iso|UTC");
+		});
+
+		test("helpers without a hash keep their positional signature", () => {
+			const helper = defineHelper({
+				name: "twice",
+				params: [{ name: "value", type: { type: "number" } }],
+				fn: (value) => value * 2,
+				returnType: { type: "number" },
+			});
+			const engine = new Typebars({ helpers: [helper] });
+			expect(engine.execute("{{twice count}}", data)).toBe(6);
+		});
+	});
+});
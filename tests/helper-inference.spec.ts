@@ -0,0 +1,240 @@
+import { describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { Typebars } from "../src/typebars.ts";
+import {
+	defineHelper,
+	type HelperDefinition,
+	type HelperInferenceContext,
+} from "../src/types.ts";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const userSchema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		name: { type: "string" },
+		age: { type: "number" },
+	},
+	required: ["name", "age"],
+};
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		title: { type: "string" },
+		nickname: { type: "string" },
+		count: { type: "number" },
+		users: { type: "array", items: userSchema },
+		owner: userSchema,
+	},
+	required: ["title", "count", "users", "owner"],
+};
+
+const data = {
+	title: "Team",
+	count: 2,
+	users: [
+		{ name: "Alice", age: 30 },
+		{ name: "Bob", age: 25 },
+	],
+	owner: { name: "Carol", age: 40 },
+};
+
+const first: HelperDefinition = {
+	fn: (list: unknown[]) => list[0],
+	params: [{ name: "list", type: { type: "array" } }],
+	returnType: {},
+	inferReturnType: ([list], _hash, ctx) =>
+		list ? ctx.resolveItems(list) : undefined,
+};
+
+const pick: HelperDefinition = {
+	fn: (value: Record<string, unknown>, key: string) => value[key],
+	params: [
+		{ name: "value", type: { type: "object" } },
+		{ name: "key", type: { type: "string" } },
+	],
+	inferReturnType: ([value], _hash, ctx) => {
+		const key = ctx.literalArgs[1];
+		if (!value || typeof key !== "string") return undefined;
+		const property = ctx.resolvePath(value, [key]);
+		if (!property) {
+			ctx.report("error", "UNKNOWN_PROPERTY", `"${key}" is not a property`, {
+				path: key,
+			});
+		}
+		return property;
+	},
+};
+
+const coalesce: HelperDefinition = {
+	fn: (a: unknown, b: unknown) => a ?? b,
+	params: [{ name: "a" }, { name: "b" }],
+	inferReturnType: ([a, b]) =>
+		a && b ? { oneOf: [a, b].filter((s) => s.type !== "null") } : undefined,
+};
+
+function createEngine(): Typebars {
+	return new Typebars()
+		.registerHelper("first", first)
+		.registerHelper("pick", pick)
+		.registerHelper("coalesce", coalesce);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("inferReturnType", () => {
+	describe("mustaches", () => {
+		test("returns the item type of the first argument", () => {
+			const result = createEngine().analyze("{{first users}}", schema);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual(userSchema);
+		});
+
+		test("uses literal arguments", () => {
+			const result = createEngine().analyze('{{pick owner "age"}}', schema);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		test("reports diagnostics at the call site", () => {
+			const result = createEngine().analyze('{{pick owner "email"}}', schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+			expect(result.diagnostics[0]?.details).toEqual({
+				helperName: "pick",
+				path: "email",
+			});
+			expect(result.diagnostics[0]?.loc).toBeDefined();
+		});
+
+		test("combines several argument schemas", () => {
+			const result = createEngine().analyze("{{coalesce title count}}", schema);
+			expect(result.outputSchema).toEqual({
+				oneOf: [{ type: "string" }, { type: "number" }],
+			});
+		});
+
+		test("falls back to returnType when nothing is inferred", () => {
+			const engine = createEngine();
+			expect(
+				engine.analyze("{{pick owner title}}", schema).outputSchema,
+			).toEqual({ type: "string" });
+			expect(engine.analyze("{{first missing}}", schema).outputSchema).toEqual(
+				{},
+			);
+		});
+
+		test("unresolved arguments are passed as undefined", () => {
+			const seen: (JSONSchema7 | undefined)[][] = [];
+			const engine = new Typebars().registerHelper("spy", {
+				fn: () => "",
+				inferReturnType: (args) => {
+					seen.push(args);
+					return undefined;
+				},
+			});
+			engine.analyze("{{spy title missing 1}}", schema);
+			expect(seen).toEqual([
+				[{ type: "string" }, undefined, { type: "number" }],
+			]);
+		});
+
+		test("receives hash argument schemas and the context", () => {
+			let received:
+				| {
+						hash: Record<string, JSONSchema7 | undefined>;
+						ctx: HelperInferenceContext;
+				  }
+				| undefined;
+			const engine = new Typebars().registerHelper("spy", {
+				fn: () => "",
+				inferReturnType: (_args, hash, ctx) => {
+					received = { hash, ctx };
+					return { type: "boolean" };
+				},
+			});
+			const result = engine.analyze('{{spy "a" size=count}}', schema);
+			expect(result.outputSchema).toEqual({ type: "boolean" });
+			expect(received?.hash).toEqual({ size: { type: "number" } });
+			expect(received?.ctx.helperName).toBe("spy");
+			expect(received?.ctx.root).toEqual(schema);
+			expect(received?.ctx.literalArgs).toEqual(["a"]);
+		});
+	});
+
+	describe("sub-expressions and blocks", () => {
+		test("sub-expression results feed other helpers", () => {
+			const result = createEngine().analyze(
+				'{{pick (first users) "name"}}',
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("inferred types are checked against param types", () => {
+			const result = createEngine().analyze(
+				'{{add (pick owner "name") 1}}',
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		test("block helpers use the inferred type", () => {
+			const engine = new Typebars().registerHelper("repeatList", {
+				fn: () => "",
+				inferReturnType: ([list]) => list,
+			});
+			const result = engine.analyze(
+				"{{#repeatList users}}{{title}}{{/repeatList}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual(
+				schema.properties?.users as JSONSchema7,
+			);
+		});
+	});
+
+	describe("built-ins", () => {
+		test("array infers its item type from its arguments", () => {
+			const engine = new Typebars();
+			expect(
+				engine.analyze("{{array title count}}", schema).outputSchema,
+			).toEqual({
+				type: "array",
+				items: { oneOf: [{ type: "string" }, { type: "number" }] },
+			});
+			expect(
+				engine.analyze("{{array (array title)}}", schema).outputSchema,
+			).toEqual({
+				type: "array",
+				items: { type: "array", items: { type: "string" } },
+			});
+		});
+	});
+
+	describe("execution", () => {
+		test("helpers execute normally", () => {
+			const engine = createEngine();
+			expect(engine.execute('{{pick (first users) "name"}}', data)).toBe(
+				"Alice",
+			);
+		});
+
+		test("defineHelper accepts inferReturnType", () => {
+			const helper = defineHelper({
+				name: "last",
+				params: [{ name: "list", type: { type: "array" } }],
+				fn: (list) => list[list.length - 1],
+				inferReturnType: ([list], _hash, ctx) =>
+					list ? ctx.resolveItems(list) : undefined,
+			});
+			const engine = new Typebars({ helpers: [helper] });
+			expect(engine.analyze("{{last users}}", schema).outputSchema).toEqual(
+				userSchema,
+			);
+		});
+	});
+});
@@ -0,0 +1,224 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { Typebars } from "../src/typebars.ts";
+import type { HoverOptions } from "../src/types.ts";
+
+// ─── Shared schema ───────────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		title: { type: "string" },
+		users: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					name: { type: "string", description: "Full name" },
+				},
+				required: ["name"],
+			},
+		},
+		user: {
+			type: "object",
+			properties: { nickname: { type: "string" } },
+		},
+	},
+	required: ["users"],
+};
+
+const identifierOptions: HoverOptions = {
+	identifierSchemas: {
+		1: {
+			type: "object",
+			properties: {
+				orders: {
+					type: "array",
+					items: {
+						type: "object",
+						properties: { total: { type: "number" } },
+						required: ["total"],
+					},
+				},
+			},
+			required: ["orders"],
+		},
+	},
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Hovers the `§` of a template */
+function hoverAt(engine: Typebars, template: string, options?: HoverOptions) {
+	const offset = template.indexOf("§");
+	const source = template.slice(0, offset) + template.slice(offset + 1);
+	return engine.hover(source, offset, schema, options);
+}
+
+/** Signature help at the end of a template */
+function signatureAtEnd(engine: Typebars, template: string) {
+	return engine.signatureHelp(template, template.length);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("hover", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	it("resolves the path under the cursor", () => {
+		expect(hoverAt(engine, "Hi {{user.nick§name}}!")).toEqual({
+			path: "user.nickname",
+			schema: { type: "string" },
+			required: false,
+			identifier: null,
+			dataPath: ["user", "nickname"],
+			range: { start: 5, end: 18 },
+		});
+	});
+
+	it("resolves the path up to the segment under the cursor", () => {
+		const result = hoverAt(engine, "{{us§er.nickname}}");
+		expect(result?.path).toBe("user");
+		expect(result?.schema).toEqual(schema.properties?.user as JSONSchema7);
+		expect(result?.range).toEqual({ start: 2, end: 6 });
+	});
+
+	it("resolves paths in the scope of the cursor", () => {
+		expect(
+			hoverAt(engine, "{{#each users}}{{na§me}} {{@index}}{{/each}}"),
+		).toEqual({
+			path: "name",
+			schema: { type: "string", description: "Full name" },
+			description: "Full name",
+			required: true,
+			identifier: null,
+			dataPath: ["users", "name"],
+			range: { start: 17, end: 21 },
+		});
+		expect(
+			hoverAt(engine, "{{#each users as |u|}}{{u.na§me}}{{/each}}")?.schema,
+		).toEqual({ type: "string", description: "Full name" });
+		const index = hoverAt(engine, "{{#each users}}{{@in§dex}}");
+		expect(index?.schema).toEqual({ type: "number" });
+		expect(index?.dataPath).toBeUndefined();
+	});
+
+	it("resolves else branches in the scope outside the block", () => {
+		expect(
+			hoverAt(engine, "{{#each users}}{{name}}{{else if ti§tle}}{{/each}}"),
+		).toEqual({
+			path: "title",
+			schema: { type: "string" },
+			required: false,
+			identifier: null,
+			dataPath: ["title"],
+			range: { start: 33, end: 38 },
+		});
+		expect(
+			hoverAt(engine, "{{#each users}}{{else}}{{na§me}}{{/each}}"),
+		).toBeUndefined();
+	});
+
+	it("a path narrowed by #if is always present", () => {
+		expect(hoverAt(engine, "{{us§er}}")?.required).toBe(false);
+		expect(hoverAt(engine, "{{#if user}}{{us§er}}{{/if}}")?.required).toBe(
+			true,
+		);
+	});
+
+	it("reports the identifier the value is read from", () => {
+		const explicit = hoverAt(engine, "{{ord§ers:1}}", identifierOptions);
+		expect(explicit?.identifier).toBe(1);
+		expect(explicit?.path).toBe("orders");
+
+		const inBlock = hoverAt(
+			engine,
+			"{{#each orders:1}}{{to§tal}}{{/each}}",
+			identifierOptions,
+		);
+		expect(inBlock).toMatchObject({
+			path: "total",
+			schema: { type: "number" },
+			required: true,
+			identifier: 1,
+			dataPath: ["orders", "total"],
+		});
+	});
+
+	it("returns undefined for helpers, literals and unknown paths", () => {
+		expect(hoverAt(engine, "{{upper§case title}}")).toBeUndefined();
+		expect(hoverAt(engine, "{{#ea§ch users}}{{/each}}")).toBeUndefined();
+		expect(hoverAt(engine, "{{add 1§2 3}}")).toBeUndefined();
+		expect(hoverAt(engine, "{{miss§ing}}")).toBeUndefined();
+		expect(hoverAt(engine, "Hel§lo {{title}}")).toBeUndefined();
+	});
+
+	it("hovers arguments of helpers in an incomplete template", () => {
+		expect(
+			hoverAt(engine, "{{#each users}}{{uppercase na§me}} {{#if"),
+		).toMatchObject({ path: "name", schema: { type: "string" } });
+	});
+});
+
+describe("signatureHelp", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	it("returns the params of the helper and the active argument", () => {
+		const help = signatureAtEnd(engine, "{{add price ");
+		expect(help?.helper).toBe("add");
+		expect(help?.params.map((p) => p.name)).toEqual(["a", "b"]);
+		expect(help?.activeParameter).toBe(1);
+		expect(help?.returnType).toEqual({ type: "number" });
+		expect(signatureAtEnd(engine, "{{add pri")?.activeParameter).toBe(0);
+	});
+
+	it("uses the innermost call", () => {
+		expect(signatureAtEnd(engine, "{{add (abs x")).toMatchObject({
+			helper: "abs",
+			activeParameter: 0,
+		});
+		expect(signatureAtEnd(engine, "{{add (abs x) ")).toMatchObject({
+			helper: "add",
+			activeParameter: 1,
+		});
+	});
+
+	it("reports the hash argument being typed", () => {
+		const help = signatureAtEnd(engine, '{{formatNumber amount locale="fr ');
+		expect(help?.activeHash).toBe("locale");
+		expect(help?.hash?.locale).toBeDefined();
+		expect(
+			signatureAtEnd(engine, '{{formatNumber amount locale="fr" ')
+				?.activeParameter,
+		).toBe(1);
+	});
+
+	it("works in custom helpers and block helpers", () => {
+		engine.registerHelper("repeat", {
+			fn: () => "",
+			params: [{ name: "count", type: { type: "integer" } }],
+			description: "Repeats the body",
+		});
+		expect(signatureAtEnd(engine, "{{#repeat ")).toEqual({
+			helper: "repeat",
+			params: [{ name: "count", type: { type: "integer" } }],
+			activeParameter: 0,
+			description: "Repeats the body",
+		});
+	});
+
+	it("returns undefined outside of the arguments of a registered helper", () => {
+		expect(signatureAtEnd(engine, "{{add")).toBeUndefined();
+		expect(signatureAtEnd(engine, "{{title ")).toBeUndefined();
+		expect(signatureAtEnd(engine, "{{#each users ")).toBeUndefined();
+		expect(signatureAtEnd(engine, "{{add a b}} ")).toBeUndefined();
+	});
+});
@@ -11,6 +11,9 @@ import { resolve } from "node:path";
 //   3. Bun + ESM       (test-esm.mjs)
 //   4. Bun + CJS       (test-cjs.cjs)
 //
+// The language server of the CJS build is also run under Node.js, loading
+// the helpers module of a config (test-language-server-cjs.cjs).
+//
 // Each test spawns a child process in the target runtime, executing a
 // self-contained script that imports from `dist/` and runs assertions.
 // A non-zero exit code signals failure; stdout/stderr are captured for
@@ -22,6 +25,10 @@ const DIST_CJS = resolve(ROOT, "dist/cjs/index.js");
 
 const TEST_ESM = resolve(import.meta.dir, "test-esm.mjs");
 const TEST_CJS = resolve(import.meta.dir, "test-cjs.cjs");
+const TEST_LANGUAGE_SERVER_CJS = resolve(
+	import.meta.dir,
+	"test-language-server-cjs.cjs",
+);
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -117,6 +124,12 @@ describe("import integration", () => {
 			expect(result.exitCode).toBe(0);
 			expect(result.stdout).toContain("All assertions passed");
 		}, 15_000);
+
+		test("CJS language server loads helpers (node test-language-server-cjs.cjs)", async () => {
+			const result = await run(["node", TEST_LANGUAGE_SERVER_CJS]);
+			expect(result.exitCode, formatOutput(result)).toBe(0);
+			expect(result.stdout).toContain("All assertions passed");
+		}, 15_000);
 	});
 
 	// ─── Bun ─────────────────────────────────────────────────────────────────
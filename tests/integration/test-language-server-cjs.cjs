@@ -0,0 +1,129 @@
+// ─── CJS Language Server Test (Node.js) ─────────────────────────────────────
+// This script is executed by Node.js to verify that the language server of
+// the CommonJS build loads the helpers module of `typebars.config.json`, and
+// loads it again when the watched files change.
+
+const { mkdtempSync, rmSync, writeFileSync } = require("node:fs");
+const { tmpdir } = require("node:os");
+const { join } = require("node:path");
+const { pathToFileURL } = require("node:url");
+const {
+	TypebarsLanguageServer,
+} = require("../../dist/cjs/language-server/index.js");
+
+const errors = [];
+
+function assert(condition, message) {
+	if (!condition) {
+		errors.push(`FAIL: ${message}`);
+	}
+}
+
+/** A helpers module exporting one string helper */
+function helpersModule(name) {
+	return `export default [
+	{
+		name: "${name}",
+		fn: (text) => String(text).toUpperCase(),
+		params: [{ name: "text", type: { type: "string" } }],
+		returnType: { type: "string" },
+	},
+];
+`;
+}
+
+// ─── Workspace ───────────────────────────────────────────────────────────────
+
+const workspace = mkdtempSync(join(tmpdir(), "typebars-lsp-cjs-"));
+writeFileSync(
+	join(workspace, "typebars.config.json"),
+	JSON.stringify({
+		inputSchema: { type: "object", properties: { title: { type: "string" } } },
+		helpers: "./helpers.mjs",
+	}),
+);
+writeFileSync(join(workspace, "helpers.mjs"), helpersModule("shout"));
+
+const messages = [];
+const server = new TypebarsLanguageServer({
+	send: (message) => messages.push(message),
+});
+
+/** The helpers reported as unknown in the last diagnostics of `uri` */
+function unknownHelpers(uri) {
+	const published = messages.filter(
+		(message) =>
+			message.method === "textDocument/publishDiagnostics" &&
+			message.params.uri === uri,
+	);
+	const last = published[published.length - 1];
+	return (last ? last.params.diagnostics : [])
+		.filter((diagnostic) => diagnostic.code === "UNKNOWN_HELPER")
+		.map((diagnostic) => /"(\w+)"/.exec(diagnostic.message)?.[1]);
+}
+
+// ─── Verify the helpers are loaded and reloaded ──────────────────────────────
+
+async function main() {
+	await server.handle({
+		jsonrpc: "2.0",
+		id: 1,
+		method: "initialize",
+		params: { rootUri: pathToFileURL(workspace).href, capabilities: {} },
+	});
+	const shown = messages.find((m) => m.method === "window/showMessage");
+	assert(
+		shown === undefined,
+		`the config should load: ${shown?.params.message}`,
+	);
+
+	const uri = pathToFileURL(join(workspace, "page.hbs")).href;
+	await server.handle({
+		jsonrpc: "2.0",
+		method: "textDocument/didOpen",
+		params: {
+			textDocument: {
+				uri,
+				languageId: "handlebars",
+				version: 1,
+				text: "{{shout title}} {{whisper title}}",
+			},
+		},
+	});
+	assert(
+		JSON.stringify(unknownHelpers(uri)) === '["whisper"]',
+		`only "whisper" should be unknown, got ${JSON.stringify(unknownHelpers(uri))}`,
+	);
+
+	writeFileSync(join(workspace, "helpers.mjs"), helpersModule("whisper"));
+	await server.handle({
+		jsonrpc: "2.0",
+		method: "workspace/didChangeWatchedFiles",
+		params: { changes: [] },
+	});
+	assert(
+		JSON.stringify(unknownHelpers(uri)) === '["shout"]',
+		`only "shout" should be unknown after the reload, got ${JSON.stringify(unknownHelpers(uri))}`,
+	);
+}
+
+// ─── Report ──────────────────────────────────────────────────────────────────
+
+main()
+	.catch((error) => {
+		errors.push(`FAIL: ${error?.stack ?? error}`);
+	})
+	.finally(() => {
+		rmSync(workspace, { recursive: true, force: true });
+		if (errors.length > 0) {
+			console.error(
+				`[CJS/Node language server] ${errors.length} assertion(s) failed:`,
+			);
+			for (const e of errors) {
+				console.error(`  ${e}`);
+			}
+			process.exit(1);
+		} else {
+			console.log("[CJS/Node language server] All assertions passed ✓");
+		}
+	});
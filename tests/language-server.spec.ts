@@ -0,0 +1,696 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { globToRegExp } from "../src/language-server/config.ts";
+import {
+	encodeMessage,
+	type Message,
+	MessageReader,
+	TypebarsLanguageServer,
+} from "../src/language-server/index.ts";
+import type {
+	Diagnostic,
+	FileSystemWatcher,
+	NotificationMessage,
+	Registration,
+	ResponseMessage,
+} from "../src/language-server/protocol.ts";
+import {
+	findPointerRange,
+	findSchemaPointer,
+} from "../src/language-server/schema-locations.ts";
+
+// ─── Workspace fixture ───────────────────────────────────────────────────────
+
+const inputSchema = {
+	type: "object",
+	properties: {
+		title: { type: "string", description: "Page title" },
+		users: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: { name: { type: "string" } },
+				required: ["name"],
+			},
+		},
+	},
+	required: ["title"],
+};
+
+const config = {
+	inputSchema: "./schemas/input.json",
+	identifierSchemas: {
+		"1": {
+			type: "object",
+			properties: { meetingId: { type: "string" } },
+		},
+	},
+	helpers: "./helpers.mjs",
+	overrides: [
+		{
+			files: ["emails/**/*.hbs"],
+			inputSchema: {
+				type: "object",
+				properties: { subject: { type: "string" } },
+			},
+		},
+	],
+};
+
+const helpersModule = `export default [
+	{
+		name: "shout",
+		fn: (text) => String(text).toUpperCase(),
+		params: [{ name: "text", type: { type: "string" } }],
+		returnType: { type: "string" },
+	},
+];
+`;
+
+let root: string;
+
+/** Creates a workspace holding the given files */
+function createWorkspace(files: Record<string, string>): string {
+	const directory = mkdtempSync(join(tmpdir(), "typebars-lsp-"));
+	for (const [name, content] of Object.entries(files)) {
+		mkdirSync(join(directory, name, ".."), { recursive: true });
+		writeFileSync(join(directory, name), content);
+	}
+	return directory;
+}
+
+beforeAll(() => {
+	root = createWorkspace({
+		"typebars.config.json": JSON.stringify(config, null, 2),
+		"schemas/input.json": JSON.stringify(inputSchema, null, 2),
+		"helpers.mjs": helpersModule,
+	});
+});
+
+afterAll(() => {
+	rmSync(root, { recursive: true, force: true });
+});
+
+// ─── Client ──────────────────────────────────────────────────────────────────
+
+/** Drives a server like an editor would, recording what it sends */
+class TestClient {
+	readonly messages: Message[] = [];
+	exitCode: number | undefined;
+	readonly server = new TypebarsLanguageServer({
+		send: (message) => this.messages.push(message),
+		exit: (code) => {
+			this.exitCode = code;
+		},
+	});
+	private nextId = 1;
+
+	constructor(readonly workspace: string) {}
+
+	async request(method: string, params?: unknown): Promise<ResponseMessage> {
+		const id = this.nextId++;
+		await this.server.handle({ jsonrpc: "2.0", id, method, params });
+		return this.messages.find(
+			(message) =>
+				"id" in message && message.id === id && !("method" in message),
+		) as ResponseMessage;
+	}
+
+	notify(method: string, params?: unknown): Promise<void> {
+		return this.server.handle({ jsonrpc: "2.0", method, params });
+	}
+
+	async initialize(capabilities = {}): Promise<ResponseMessage> {
+		const response = await this.request("initialize", {
+			rootUri: pathToFileURL(this.workspace).href,
+			capabilities,
+		});
+		await this.notify("initialized", {});
+		return response;
+	}
+
+	async open(name: string, text: string): Promise<string> {
+		const uri = pathToFileURL(join(this.workspace, name)).href;
+		await this.notify("textDocument/didOpen", {
+			textDocument: { uri, languageId: "handlebars", version: 1, text },
+		});
+		return uri;
+	}
+
+	/** Parameters of the last notification (or request) sent with `method` */
+	lastNotification(method: string): unknown {
+		const sent = this.messages.filter(
+			(message) => "method" in message && message.method === method,
+		);
+		return (sent[sent.length - 1] as { params?: unknown } | undefined)?.params;
+	}
+
+	/** The watchers of the last `client/registerCapability` request */
+	watchers(): FileSystemWatcher[] | undefined {
+		const params = this.lastNotification("client/registerCapability") as
+			| { registrations: Registration[] }
+			| undefined;
+		const options = params?.registrations[0]?.registerOptions as
+			| { watchers: FileSystemWatcher[] }
+			| undefined;
+		return options?.watchers;
+	}
+
+	diagnostics(uri: string): Diagnostic[] {
+		const published = this.messages.filter(
+			(message) =>
+				"method" in message &&
+				message.method === "textDocument/publishDiagnostics" &&
+				(message.params as { uri: string }).uri === uri,
+		);
+		const last = published[published.length - 1] as NotificationMessage;
+		return (last.params as { diagnostics: Diagnostic[] }).diagnostics;
+	}
+
+	position(uri: string, line: number, character: number) {
+		return { textDocument: { uri }, position: { line, character } };
+	}
+}
+
+async function createClient(workspace = root): Promise<TestClient> {
+	const client = new TestClient(workspace);
+	await client.initialize();
+	return client;
+}
+
+// ─── Transport ───────────────────────────────────────────────────────────────
+
+describe("MessageReader", () => {
+	it("reads messages split across chunks and several messages per chunk", () => {
+		const received: Message[] = [];
+		const reader = new MessageReader(
+			(message) => received.push(message),
+			(error) => {
+				throw error;
+			},
+		);
+		const first = encodeMessage({ jsonrpc: "2.0", method: "a" });
+		const second = encodeMessage({
+			jsonrpc: "2.0",
+			method: "b",
+			params: { text: "héllo" },
+		});
+
+		reader.push(first.slice(0, 10));
+		expect(received).toEqual([]);
+		reader.push(first.slice(10) + second);
+		expect(received).toEqual([
+			{ jsonrpc: "2.0", method: "a" },
+			{ jsonrpc: "2.0", method: "b", params: { text: "héllo" } },
+		]);
+	});
+
+	it("measures the Content-Length in bytes", () => {
+		const encoded = encodeMessage({ jsonrpc: "2.0", method: "é" });
+		const body = '{"jsonrpc":"2.0","method":"é"}';
+		expect(encoded).toBe(`Content-Length: ${body.length + 1}\r\n\r\n${body}`);
+	});
+});
+
+// ─── Server ──────────────────────────────────────────────────────────────────
+
+describe("TypebarsLanguageServer", () => {
+	describe("lifecycle", () => {
+		it("declares its capabilities on initialize", async () => {
+			const client = new TestClient(root);
+			const { result } = await client.initialize();
+			const { capabilities } = result as {
+				capabilities: Record<string, unknown>;
+			};
+			expect(capabilities.textDocumentSync).toEqual({
+				openClose: true,
+				change: 1,
+			});
+			expect(capabilities.hoverProvider).toBe(true);
+			expect(capabilities.definitionProvider).toBe(true);
+			expect(capabilities.semanticTokensProvider).toEqual({
+				legend: {
+					tokenTypes: ["function", "variable", "keyword", "string", "number"],
+					tokenModifiers: [],
+				},
+				full: true,
+			});
+		});
+
+		it("rejects requests before initialize and unknown methods", async () => {
+			const client = new TestClient(root);
+			expect((await client.request("textDocument/hover")).error?.code).toBe(
+				-32002,
+			);
+			await client.initialize();
+			expect((await client.request("workspace/symbol")).error?.code).toBe(
+				-32601,
+			);
+		});
+
+		it("answers malformed params with InvalidParams", async () => {
+			const client = await createClient();
+			const uri = await client.open("page.hbs", "{{title}}");
+			for (const params of [
+				undefined,
+				{},
+				{ textDocument: { uri } },
+				{ textDocument: { uri }, position: { line: "0" } },
+			]) {
+				const { error } = await client.request("textDocument/hover", params);
+				expect(error?.code).toBe(-32602);
+			}
+			expect(
+				(await client.request("textDocument/semanticTokens/full", {})).error
+					?.code,
+			).toBe(-32602);
+			expect(
+				(await new TestClient(root).request("initialize", null)).error?.code,
+			).toBe(-32602);
+		});
+
+		it("exits with 0 after shutdown, 1 otherwise", async () => {
+			const client = await createClient();
+			expect((await client.request("shutdown")).result).toBeNull();
+			await client.notify("exit");
+			expect(client.exitCode).toBe(0);
+
+			const abrupt = await createClient();
+			await abrupt.notify("exit");
+			expect(abrupt.exitCode).toBe(1);
+		});
+	});
+
+	describe("diagnostics", () => {
+		it("publishes the diagnostics of analyze() on open and change", async () => {
+			const client = await createClient();
+			const uri = await client.open("page.hbs", "Hello\n{{titel}}");
+			expect(
+				client.lastNotification("textDocument/publishDiagnostics"),
+			).toEqual({
+				uri,
+				version: 1,
+				diagnostics: [
+					{
+						range: {
+							start: { line: 1, character: 0 },
+							end: { line: 1, character: 9 },
+						},
+						severity: 1,
+						code: "UNKNOWN_PROPERTY",
+						source: "typebars",
+						message: expect.any(String),
+					},
+				],
+			});
+
+			await client.notify("textDocument/didChange", {
+				textDocument: { uri, version: 2 },
+				contentChanges: [{ text: "Hello\n{{title}}" }],
+			});
+			expect(client.diagnostics(uri)).toEqual([]);
+		});
+
+		it("reports syntax errors", async () => {
+			const client = await createClient();
+			const uri = await client.open(
+				"broken.hbs",
+				"ok\n{{#if title}}\n{{/each}}",
+			);
+			const [diagnostic] = client.diagnostics(uri);
+			expect(diagnostic?.message).toContain("Parse error");
+		});
+
+		it("knows the helpers and identifier schemas of the config", async () => {
+			const client = await createClient();
+			const uri = await client.open(
+				"page.hbs",
+				"{{shout title}} {{meetingId:1}}",
+			);
+			expect(client.diagnostics(uri)).toEqual([]);
+			await client.open("other.hbs", "{{whisper title}} {{meetingId:2}}");
+			expect(
+				client.diagnostics(pathToFileURL(join(root, "other.hbs")).href).length,
+			).toBe(2);
+		});
+
+		it("applies the schemas of the overrides matching the file", async () => {
+			const client = await createClient();
+			const email = await client.open("emails/welcome/body.hbs", "{{subject}}");
+			expect(client.diagnostics(email)).toEqual([]);
+			const page = await client.open("pages/body.hbs", "{{subject}}");
+			expect(client.diagnostics(page).map((d) => d.code)).toEqual([
+				"UNKNOWN_PROPERTY",
+			]);
+		});
+
+		it("clears the diagnostics of closed documents", async () => {
+			const client = await createClient();
+			const uri = await client.open("page.hbs", "{{missing}}");
+			await client.notify("textDocument/didClose", { textDocument: { uri } });
+			expect(client.diagnostics(uri)).toEqual([]);
+		});
+	});
+
+	describe("configuration", () => {
+		it("reports an invalid config and keeps analyzing", async () => {
+			const workspace = createWorkspace({ "typebars.config.json": "{ nope" });
+			try {
+				const client = await createClient(workspace);
+				const shown = client.lastNotification("window/showMessage") as {
+					type: number;
+					message: string;
+				};
+				expect(shown.type).toBe(1);
+				expect(shown.message).toContain("typebars.config.json");
+
+				// Only the syntax is checked
+				const uri = await client.open("page.hbs", "{{anything}}");
+				expect(client.diagnostics(uri)).toEqual([]);
+				await client.open("broken.hbs", "{{#if x}}");
+				expect(
+					client.diagnostics(pathToFileURL(join(workspace, "broken.hbs")).href),
+				).toHaveLength(1);
+			} finally {
+				rmSync(workspace, { recursive: true, force: true });
+			}
+		});
+
+		it("reloads the config when watched files change", async () => {
+			const workspace = createWorkspace({});
+			try {
+				const client = await createClient(workspace);
+				const uri = await client.open("page.hbs", "{{name}}");
+				expect(client.diagnostics(uri)).toEqual([]);
+
+				writeFileSync(
+					join(workspace, "typebars.config.json"),
+					JSON.stringify({ inputSchema: { type: "object", properties: {} } }),
+				);
+				await client.notify("workspace/didChangeWatchedFiles", {
+					changes: [{ uri: pathToFileURL(workspace).href, type: 1 }],
+				});
+				expect(client.diagnostics(uri).map((d) => d.code)).toEqual([
+					"UNKNOWN_PROPERTY",
+				]);
+			} finally {
+				rmSync(workspace, { recursive: true, force: true });
+			}
+		});
+
+		it("registers watchers for the config, schema and helpers files", async () => {
+			const watchedFiles = { dynamicRegistration: true };
+			const client = new TestClient(root);
+			await client.initialize({
+				workspace: { didChangeWatchedFiles: watchedFiles },
+			});
+			expect(client.lastNotification("client/registerCapability")).toEqual({
+				registrations: [
+					{
+						id: "typebars/watchedFiles",
+						method: "workspace/didChangeWatchedFiles",
+						registerOptions: {
+							watchers: [
+								{ globPattern: "**/typebars.config.json" },
+								{ globPattern: "**/schemas/input.json" },
+								{ globPattern: "**/helpers.mjs" },
+							],
+						},
+					},
+				],
+			});
+
+			// Relative to the workspace, for clients that support it
+			const relative = new TestClient(root);
+			await relative.initialize({
+				workspace: {
+					didChangeWatchedFiles: {
+						...watchedFiles,
+						relativePatternSupport: true,
+					},
+				},
+			});
+			const baseUri = pathToFileURL(root).href;
+			expect(relative.watchers()).toEqual([
+				{ globPattern: { baseUri, pattern: "typebars.config.json" } },
+				{ globPattern: { baseUri, pattern: "schemas/input.json" } },
+				{ globPattern: { baseUri, pattern: "helpers.mjs" } },
+			]);
+
+			// Without dynamic registration, the client watches the files
+			const unsupported = await createClient();
+			expect(
+				unsupported.lastNotification("client/registerCapability"),
+			).toBeUndefined();
+		});
+
+		it("registers the watchers again when the config points to other files", async () => {
+			const workspace = createWorkspace({});
+			try {
+				const client = new TestClient(workspace);
+				await client.initialize({
+					workspace: { didChangeWatchedFiles: { dynamicRegistration: true } },
+				});
+				writeFileSync(
+					join(workspace, "typebars.config.json"),
+					JSON.stringify({ inputSchema: "./input.json" }),
+				);
+				writeFileSync(join(workspace, "input.json"), "{}");
+				await client.notify("workspace/didChangeWatchedFiles", { changes: [] });
+
+				expect(client.lastNotification("client/unregisterCapability")).toEqual({
+					unregisterations: [
+						{
+							id: "typebars/watchedFiles",
+							method: "workspace/didChangeWatchedFiles",
+						},
+					],
+				});
+				expect(client.watchers()).toEqual([
+					{ globPattern: "**/typebars.config.json" },
+					{ globPattern: "**/input.json" },
+				]);
+			} finally {
+				rmSync(workspace, { recursive: true, force: true });
+			}
+		});
+
+		it("imports the helpers module again on reload", async () => {
+			const workspace = createWorkspace({
+				"typebars.config.json": JSON.stringify({
+					inputSchema: inputSchema,
+					helpers: "./helpers.mjs",
+				}),
+				"helpers.mjs": helpersModule,
+			});
+			try {
+				const client = await createClient(workspace);
+				const uri = await client.open("page.hbs", "{{whisper title}}");
+				expect(client.diagnostics(uri).map((d) => d.code)).toEqual([
+					"UNKNOWN_HELPER",
+				]);
+
+				writeFileSync(
+					join(workspace, "helpers.mjs"),
+					helpersModule.replaceAll("shout", "whisper"),
+				);
+				await client.notify("workspace/didChangeWatchedFiles", {
+					changes: [
+						{
+							uri: pathToFileURL(join(workspace, "helpers.mjs")).href,
+							type: 2,
+						},
+					],
+				});
+				expect(client.diagnostics(uri)).toEqual([]);
+			} finally {
+				rmSync(workspace, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe("language features", () => {
+		it("completes with the range of the segment being typed", async () => {
+			const client = await createClient();
+			const uri = await client.open("page.hbs", "Hi\n{{#each users}}{{na");
+			const { result } = await client.request(
+				"textDocument/completion",
+				client.position(uri, 1, 19),
+			);
+			expect(result).toEqual([
+				{
+					label: "name",
+					kind: 10,
+					detail: "string",
+					textEdit: {
+						range: {
+							start: { line: 1, character: 17 },
+							end: { line: 1, character: 19 },
+						},
+						newText: "name",
+					},
+				},
+			]);
+		});
+
+		it("describes the path under the cursor on hover", async () => {
+			const client = await createClient();
+			const uri = await client.open("page.hbs", "{{title}} {{meetingId:1}}");
+			const { result } = await client.request(
+				"textDocument/hover",
+				client.position(uri, 0, 4),
+			);
+			expect(result).toEqual({
+				contents: {
+					kind: "markdown",
+					value: "```typescript\ntitle: string\n```\n\nPage title",
+				},
+				range: {
+					start: { line: 0, character: 2 },
+					end: { line: 0, character: 7 },
+				},
+			});
+
+			const identifier = await client.request(
+				"textDocument/hover",
+				client.position(uri, 0, 14),
+			);
+			expect(
+				(identifier.result as { contents: { value: string } }).contents.value,
+			).toBe("```typescript\nmeetingId:1?: string\n```");
+		});
+
+		it("helps with the signature of the helper being called", async () => {
+			const client = await createClient();
+			const uri = await client.open("page.hbs", "{{shout ");
+			const { result } = await client.request(
+				"textDocument/signatureHelp",
+				client.position(uri, 0, 8),
+			);
+			expect(result).toEqual({
+				signatures: [
+					{
+						label: "shout(text: string): string",
+						parameters: [{ label: "text: string" }],
+					},
+				],
+				activeSignature: 0,
+				activeParameter: 0,
+			});
+		});
+
+		it("goes to the property of the schema file", async () => {
+			const client = await createClient();
+			const uri = await client.open(
+				"page.hbs",
+				"{{#each users}}{{name}}{{/each}}",
+			);
+			const { result } = await client.request(
+				"textDocument/definition",
+				client.position(uri, 0, 18),
+			);
+
+			const lines = JSON.stringify(inputSchema, null, 2).split("\n");
+			const line = lines.findIndex((text) => text.includes('"name": {'));
+			const character = (lines[line] as string).indexOf('"name"');
+			expect(result).toEqual({
+				uri: pathToFileURL(join(root, "schemas/input.json")).href,
+				range: {
+					start: { line, character },
+					end: { line, character: character + 6 },
+				},
+			});
+		});
+
+		it("goes to inline schemas of the config file", async () => {
+			const client = await createClient();
+			const uri = await client.open("page.hbs", "{{meetingId:1}} {{@index}}");
+			const { result } = await client.request(
+				"textDocument/definition",
+				client.position(uri, 0, 4),
+			);
+			const lines = JSON.stringify(config, null, 2).split("\n");
+			const line = lines.findIndex((text) => text.includes('"meetingId"'));
+			expect(result).toMatchObject({
+				uri: pathToFileURL(join(root, "typebars.config.json")).href,
+				range: { start: { line } },
+			});
+
+			const none = await client.request(
+				"textDocument/definition",
+				client.position(uri, 0, 20),
+			);
+			expect(none.result).toBeNull();
+		});
+
+		it("returns semantic tokens for helpers, identifiers, $root and literals", async () => {
+			const client = await createClient();
+			const uri = await client.open(
+				"page.hbs",
+				'{{shout "hi"}} {{title}}\n{{#if true}}{{meetingId:1}} {{$root}}{{/if}} {{add 1 2}}',
+			);
+			const { result } = await client.request(
+				"textDocument/semanticTokens/full",
+				{ textDocument: { uri } },
+			);
+			// [deltaLine, deltaStart, length, type, modifiers]
+			expect((result as { data: number[] }).data).toEqual([
+				...[0, 2, 5, 0, 0], // shout
+				...[0, 6, 4, 3, 0], // "hi"
+				...[1, 3, 2, 0, 0], // if
+				...[0, 3, 4, 2, 0], // true
+				...[0, 8, 11, 1, 0], // meetingId:1
+				...[0, 16, 5, 2, 0], // $root
+				...[0, 17, 3, 0, 0], // add
+				...[0, 4, 1, 4, 0], // 1
+				...[0, 2, 1, 4, 0], // 2
+			]);
+		});
+	});
+});
+
+// ─── Internals ───────────────────────────────────────────────────────────────
+
+describe("language server internals", () => {
+	it("globToRegExp matches paths relative to the config", () => {
+		expect(globToRegExp("emails/**/*.hbs").test("emails/a/b/c.hbs")).toBe(true);
+		expect(globToRegExp("emails/**/*.hbs").test("emails/c.hbs")).toBe(true);
+		expect(globToRegExp("./*.hbs").test("c.hbs")).toBe(true);
+		expect(globToRegExp("*.hbs").test("emails/c.hbs")).toBe(false);
+		expect(globToRegExp("page?.hbs").test("page1.hbs")).toBe(true);
+	});
+
+	it("resolves data paths to schema pointers through $ref and combinators", () => {
+		const schema = {
+			definitions: {
+				user: { type: "object", properties: { name: { type: "string" } } },
+			},
+			allOf: [
+				{
+					type: "object",
+					properties: {
+						users: { type: "array", items: { $ref: "#/definitions/user" } },
+					},
+				},
+			],
+		} as const;
+		expect(findSchemaPointer(schema as never, ["users", "name"])).toBe(
+			"/definitions/user/properties/name",
+		);
+		expect(findSchemaPointer(schema as never, ["users"])).toBe(
+			"/allOf/0/properties/users",
+		);
+		expect(findSchemaPointer(schema as never, ["missing"])).toBeUndefined();
+	});
+
+	it("findPointerRange locates the key declaring a pointer", () => {
+		const text = '{ "a": [1, { "b\\"c": { "d": true } }] }';
+		const range = findPointerRange(text, '/a/1/b"c/d');
+		expect(text.slice(range?.start, range?.end)).toBe('"d"');
+		expect(findPointerRange(text, "/a/2")).toBeUndefined();
+		expect(findPointerRange("{ invalid", "/a")).toBeUndefined();
+	});
+});
@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { LetHelpers } from "../src/helpers/let-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const letHelpers = new LetHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		orders: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					id: { type: "integer" },
+					total: { type: "number" },
+				},
+				required: ["id", "total"],
+			},
+		},
+		user: {
+			type: "object",
+			properties: { name: { type: "string" } },
+			required: ["name"],
+		},
+	},
+	required: ["orders", "user"],
+};
+
+const data = {
+	orders: [
+		{ id: 1, total: 10 },
+		{ id: 2, total: 5 },
+	],
+	user: { name: "Ada" },
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("LetHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("let is available without calling register()", () => {
+			expect(engine.hasHelper("let")).toBe(true);
+		});
+
+		it("unregister removes all helpers", () => {
+			letHelpers.unregister(engine);
+			expect(engine.hasHelper("let")).toBe(false);
+		});
+	});
+
+	// ─── Execution ───────────────────────────────────────────────────────
+
+	describe("execution", () => {
+		it("binds each hash value to a @data variable", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{#let total=(sum (map orders "total")) count=(count orders)}}{{@count}} orders, {{@total}} total, {{div @total @count}} avg{{/let}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe("2 orders, 15 total, 7.5 avg");
+		});
+
+		it("keeps the type of a single expression body", () => {
+			expect(
+				engine.execute(
+					'{{#let total=(sum (map orders "total"))}}{{@total}}{{/let}}',
+					data,
+				),
+			).toBe(15);
+			expect(
+				engine.execute('{{#let ids=(map orders "id")}}{{@ids}}{{/let}}', data),
+			).toEqual([1, 2]);
+		});
+
+		it("evaluates each value once", () => {
+			let calls = 0;
+			engine.registerHelper("tick", {
+				fn: () => ++calls,
+				params: [],
+				returnType: { type: "integer" },
+			});
+			engine.execute(
+				"{{#let n=(tick)}}{{@n}} {{@n}} {{#each orders}}{{@n}}{{/each}}{{/let}}",
+				data,
+			);
+			expect(calls).toBe(1);
+		});
+
+		it("keeps the context of the enclosing block", () => {
+			expect(
+				engine.execute(
+					"{{#let name=user.name}}{{#each orders}}{{id}}:{{@name}}/{{../user.name}} {{/each}}{{/let}}",
+					data,
+				),
+			).toBe("1:Ada/Ada 2:Ada/Ada ");
+		});
+
+		it("reads properties of a bound object", () => {
+			expect(engine.execute("{{#let u=user}}{{@u.name}}{{/let}}", data)).toBe(
+				"Ada",
+			);
+		});
+	});
+
+	// ─── Static analysis ─────────────────────────────────────────────────
+
+	describe("static analysis", () => {
+		it("types the bindings by their values", () => {
+			expect(
+				run(
+					engine,
+					'{{#let total=(sum (map orders "total"))}}{{@total}}{{/let}}',
+				).analysis.outputSchema,
+			).toEqual({ type: "number" });
+			expect(
+				run(engine, "{{#let u=user}}{{@u}}{{/let}}").analysis.outputSchema,
+			).toEqual({
+				type: "object",
+				properties: { name: { type: "string" } },
+				required: ["name"],
+			});
+		});
+
+		it("validates the bindings as helper arguments", () => {
+			const { analysis } = run(engine, "{{#let u=user}}{{add @u 1}}{{/let}}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("reports unknown properties of a binding", () => {
+			const { analysis } = run(engine, "{{#let u=user}}{{@u.nme}}{{/let}}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+			expect(analysis.diagnostics[0]?.details?.path).toBe("@u.nme");
+		});
+
+		it("reports unknown properties in the values", () => {
+			const { analysis } = run(engine, "{{#let u=usr}}{{@u}}{{/let}}");
+			expect(analysis.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+		});
+
+		it("warns on an unused binding", () => {
+			const { analysis } = run(
+				engine,
+				"{{#let name=user.name count=(count orders)}}{{@name}}{{/let}}",
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.diagnostics).toHaveLength(1);
+			const diagnostic = analysis.diagnostics[0];
+			expect(diagnostic?.code).toBe("UNUSED_BINDING");
+			expect(diagnostic?.severity).toBe("warning");
+			expect(diagnostic?.details?.hashArgument).toBe("count");
+			expect(diagnostic?.loc?.start.column).toBe(22);
+		});
+
+		it("a binding read in a nested block is used", () => {
+			const { analysis } = run(
+				engine,
+				"{{#let name=user.name}}{{#each orders}}{{#if @first}}{{@name}}{{/if}}{{/each}}{{/let}}",
+			);
+			expect(analysis.diagnostics).toEqual([]);
+		});
+
+		it("#each variables hide outer bindings of the same name", () => {
+			const { analysis } = run(
+				engine,
+				"{{#let first=user}}{{@first.name}}{{#each orders}}{{@first}}{{/each}}{{/let}}",
+			);
+			expect(analysis.valid).toBe(true);
+			expect(
+				run(
+					engine,
+					"{{#let first=user}}{{#each orders}}{{@first.name}}{{/each}}{{/let}}",
+				).analysis.valid,
+			).toBe(false);
+		});
+
+		it("requires at least one binding", () => {
+			const { analysis } = run(engine, "{{#let}}x{{/let}}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+		});
+	});
+});
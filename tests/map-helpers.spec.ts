@@ -975,4 +975,32 @@ describe("map helper", () => {
 			expect(warning).toBeUndefined();
 		});
 	});
+
+	// ─── Custom helper under the built-in name ───────────────────────────
+
+	describe("custom helper registered as map", () => {
+		const custom = new Typebars();
+		custom.registerHelper("map", {
+			params: [
+				{ name: "value", type: { type: "string" } },
+				{ name: "suffix", type: { type: "string" } },
+			],
+			returnType: { type: "string" },
+			fn: (value: unknown, suffix: unknown) => `${value}${suffix}`,
+		});
+
+		test("is analyzed from its own definition", () => {
+			const analysis = custom.analyze('{{map label "!"}}', usersSchema);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: "string" });
+
+			const sub = custom.analyze('{{uppercase (map label "!")}}', usersSchema);
+			expect(sub.valid).toBe(true);
+			expect(sub.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("is executed with its own fn", () => {
+			expect(custom.execute('{{map label "!"}}', { label: "hi" })).toBe("hi!");
+		});
+	});
 });
@@ -0,0 +1,349 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { TemplateRuntimeError } from "../src/errors.ts";
+import { MessageHelpers } from "../src/helpers/message-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const messageHelpers = new MessageHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		count: { type: "integer" },
+		rank: { type: "integer" },
+		gender: { type: "string", enum: ["male", "female", "other"] },
+		status: { type: "string", enum: ["draft", "published"] },
+		name: { type: "string" },
+		guests: { type: "integer" },
+	},
+	required: ["count", "rank", "gender", "status", "name", "guests"],
+};
+
+const data = {
+	count: 3,
+	rank: 22,
+	gender: "female",
+	status: "draft",
+	name: "Ada",
+	guests: 4,
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("MessageHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("all message helpers are available without calling register()", () => {
+			for (const name of messageHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(true);
+			}
+		});
+
+		it("unregister removes all helpers", () => {
+			messageHelpers.unregister(engine);
+			for (const name of messageHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(false);
+			}
+		});
+	});
+
+	// ─── plural ──────────────────────────────────────────────────────────
+
+	describe("plural", () => {
+		it("picks the message of the plural category", () => {
+			const { analysis, value } = run(
+				engine,
+				'You have {{plural count one="# item" other="# items"}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe("You have 3 items");
+			expect(
+				engine.execute('{{plural 1 one="# item" other="# items"}}', data),
+			).toBe("1 item");
+		});
+
+		it("zero= applies to 0 whatever the locale", () => {
+			expect(
+				engine.execute(
+					'{{plural 0 zero="no items" one="# item" other="# items"}}',
+					data,
+				),
+			).toBe("no items");
+			expect(
+				engine.execute('{{plural 0 one="# item" other="# items"}}', data),
+			).toBe("0 items");
+		});
+
+		it("follows the plural rules of the locale", () => {
+			// In French, 0 is singular
+			expect(
+				engine.execute(
+					'{{plural 0 one="# élément" other="# éléments" locale="fr-FR"}}',
+					data,
+				),
+			).toBe("0 élément");
+		});
+
+		it("supports ordinals", () => {
+			const template =
+				'{{plural rank one="#st" two="#nd" few="#rd" other="#th" type="ordinal"}}';
+			expect(engine.execute(template, data)).toBe("22nd");
+			expect(engine.execute(template, { rank: 13 })).toBe("13th");
+		});
+
+		it("formats # for the locale", () => {
+			expect(
+				engine.execute(
+					'{{plural count one="# item" other="# items"}}',
+					{ count: 1234 },
+					{ locale: "de-DE" },
+				),
+			).toBe("1.234 items");
+		});
+
+		it("requires an other= message", () => {
+			const { analysis } = run(engine, '{{plural count one="# item"}}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+		});
+
+		it("rejects a non-numeric count", () => {
+			const { analysis } = run(engine, '{{plural name other="x"}}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("a bare {{plural}} still reads the property of the same name", () => {
+			expect(engine.execute("{{plural}}!", { plural: "p" })).toBe("p!");
+		});
+	});
+
+	// ─── select ──────────────────────────────────────────────────────────
+
+	describe("select", () => {
+		it("picks the case named by the value", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{select gender male="he" female="she" other="they"}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.diagnostics).toHaveLength(0);
+			expect(value).toBe("she");
+		});
+
+		it("falls back to other=, then to an empty string", () => {
+			expect(
+				engine.execute(
+					'{{select status published="Live" other="Hidden"}}',
+					data,
+				),
+			).toBe("Hidden");
+			expect(engine.execute('[{{select name a="A"}}]', data)).toBe("[]");
+		});
+
+		it("cases covering every enum value are exhaustive", () => {
+			const { analysis } = run(
+				engine,
+				'{{select status draft="Draft" published="Live"}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.diagnostics).toHaveLength(0);
+		});
+
+		it("warns about missing enum values", () => {
+			const { analysis } = run(engine, '{{select status draft="Draft"}}');
+			expect(analysis.valid).toBe(true);
+			const diagnostic = analysis.diagnostics[0];
+			expect(diagnostic?.severity).toBe("warning");
+			expect(diagnostic?.code).toBe("NON_EXHAUSTIVE_SELECT");
+			expect(diagnostic?.message).toContain('"published"');
+		});
+
+		it("warns when the selector has no enum and there is no other=", () => {
+			const { analysis } = run(engine, '{{select name ada="Hi Ada"}}');
+			expect(analysis.diagnostics[0]?.code).toBe("NON_EXHAUSTIVE_SELECT");
+			expect(
+				run(engine, '{{select name ada="Hi Ada" other="Hi"}}').analysis
+					.diagnostics,
+			).toHaveLength(0);
+		});
+
+		it("returns the union of its cases", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{select status draft=0 published="live"}}',
+			);
+			expect(value).toBe(0);
+			expect(analysis.outputSchema).toEqual({
+				oneOf: [{ type: "number" }, { type: "string" }],
+			});
+		});
+
+		it("rejects a non-string selector", () => {
+			const { analysis } = run(engine, '{{select count a="A" other="B"}}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+	});
+
+	// ─── #icu ────────────────────────────────────────────────────────────
+
+	describe("#icu", () => {
+		it("formats plural messages from the context", () => {
+			const { analysis, value } = run(
+				engine,
+				"{{#icu}}{count, plural, one {# message} other {# messages}} for {name}{{/icu}}",
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: "string" });
+			expect(value).toBe("3 messages for Ada");
+		});
+
+		it("reads arguments from the hash first", () => {
+			expect(
+				engine.execute(
+					"{{#icu count=1}}{count, plural, =0 {none} one {# message} other {# messages}}{{/icu}}",
+					data,
+				),
+			).toBe("1 message");
+		});
+
+		it("supports select, offset and exact cases", () => {
+			const template =
+				"{{#icu}}{gender, select, male {He} female {She} other {They}} invited {guests, plural, offset:1 =0 {nobody} =1 {you} one {you and # other} other {you and # others}}{{/icu}}";
+			expect(engine.execute(template, data)).toBe(
+				"She invited you and 3 others",
+			);
+			expect(engine.execute(template, { gender: "male", guests: 1 })).toBe(
+				"He invited you",
+			);
+		});
+
+		it("supports selectordinal and numbers", () => {
+			expect(
+				engine.execute(
+					"{{#icu}}{rank, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}: {count, number, percent}{{/icu}}",
+					data,
+				),
+			).toBe("22nd: 300%");
+		});
+
+		it("supports apostrophe quoting", () => {
+			expect(engine.execute("{{#icu}}It''s '{'{name}'}'{{/icu}}", data)).toBe(
+				"It's {Ada}",
+			);
+		});
+
+		it("follows the locale", () => {
+			expect(
+				engine.execute(
+					'{{#icu locale="fr-FR"}}{count, plural, one {# élément} other {# éléments}}{{/icu}}',
+					{ count: 0 },
+				),
+			).toBe("0 élément");
+		});
+
+		it("supports the inline form, reading arguments from the hash", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{icu "{count, plural, one {# item} other {# items}}" count=count}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe("3 items");
+			expect(
+				engine.execute(
+					'Inbox: {{icu "{n, plural, one {# message} other {# messages}}" n=count}}',
+					data,
+				),
+			).toBe("Inbox: 3 messages");
+		});
+
+		it("reports inline message arguments missing from the hash", () => {
+			const { analysis } = run(
+				engine,
+				'{{icu "{count, plural, one {# item} other {# items}}"}}',
+			);
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+			expect(analysis.diagnostics[0]?.details?.hashArgument).toBe("count");
+		});
+
+		it("reports malformed static messages with their location", () => {
+			for (const template of [
+				"{{#icu}}{bad{{/icu}}",
+				"{{#icu}}{gender, select, male {He} female {She}}{{/icu}}",
+				'{{icu "{count, plural, one {x}}" count=count}}',
+			]) {
+				const { analysis } = run(engine, template);
+				expect(analysis.valid).toBe(false);
+				expect(analysis.diagnostics[0]?.code).toBe("INVALID_MESSAGE");
+				expect(analysis.diagnostics[0]?.loc).toBeDefined();
+			}
+		});
+
+		it("type-checks the arguments of static messages", () => {
+			const plural = "{count, plural, one {# item} other {# items}}";
+			for (const template of [
+				`{{#icu count=name}}${plural}{{/icu}}`,
+				"{{#icu}}{name, number}{{/icu}}",
+				`{{icu "${plural}" count=name}}`,
+			]) {
+				const { analysis } = run(engine, template);
+				expect(analysis.valid).toBe(false);
+				expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			}
+
+			const unknown = run(engine, "{{#icu}}{missing}{{/icu}}").analysis;
+			expect(unknown.valid).toBe(false);
+			expect(unknown.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+		});
+
+		it("throws a TemplateRuntimeError on a malformed message", () => {
+			expect(() =>
+				engine.execute("{{#icu}}{count, plural, one {x}}{{/icu}}", data),
+			).toThrow(TemplateRuntimeError);
+			expect(() =>
+				engine.execute("{{#icu}}{count, date}{{/icu}}", data),
+			).toThrow(/unsupported argument type "date"/);
+		});
+	});
+
+	// ─── additionalHash ──────────────────────────────────────────────────
+
+	describe("additionalHash", () => {
+		it("accepts undeclared hash arguments of custom helpers", () => {
+			engine.registerHelper("tag", {
+				fn: (name: unknown, attributes: Record<string, unknown>) =>
+					`<${name}${Object.entries(attributes)
+						.map(([key, value]) => ` ${key}="${value}"`)
+						.join("")}>`,
+				params: [{ name: "name", type: { type: "string" } }],
+				hash: {},
+				additionalHash: { type: { type: "string" } },
+				returnType: { type: "string" },
+			});
+			const { analysis, value } = run(engine, '{{tag "a" href="/" rel="me"}}');
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe('<a href="/" rel="me">');
+
+			const mismatch = run(engine, '{{tag "a" tabindex=1}}').analysis;
+			expect(mismatch.valid).toBe(false);
+			expect(mismatch.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+	});
+});
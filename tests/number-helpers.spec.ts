@@ -0,0 +1,269 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { InvalidLocaleError, TemplateError } from "../src/errors.ts";
+import { NumberHelpers } from "../src/helpers/number-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const numberHelpers = new NumberHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		total: { type: "number" },
+		ratio: { type: "number" },
+		size: { type: "integer" },
+		followers: { type: "integer" },
+		label: { type: "string" },
+		currency: { type: "string" },
+		maybe: { type: ["number", "null"] },
+	},
+	required: ["total", "ratio", "size", "followers", "label", "currency"],
+};
+
+const data = {
+	total: 1234.5678,
+	ratio: 0.256,
+	size: 1_536_000,
+	followers: 3_400_000,
+	label: "12",
+	currency: "EUR",
+	maybe: null,
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Replaces the non-breaking spaces some locales use as separators
+ * (U+00A0, U+202F) with regular spaces.
+ */
+function spaces(value: unknown): string {
+	return String(value).replace(/\s/g, " ");
+}
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("NumberHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("all number helpers are available without calling register()", () => {
+			for (const name of numberHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(true);
+			}
+		});
+
+		it("unregister removes all helpers", () => {
+			numberHelpers.unregister(engine);
+			for (const name of numberHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(false);
+			}
+		});
+
+		it("can be registered manually with its own locale", () => {
+			const registry = new Typebars();
+			new NumberHelpers({ locale: "de-DE" }).register(registry);
+			expect(registry.execute("{{formatNumber total 2}}", data)).toBe(
+				"1.234,57",
+			);
+		});
+	});
+
+	// ─── Formatting ──────────────────────────────────────────────────────
+
+	describe("formatNumber", () => {
+		it("groups digits and keeps up to 3 decimals by default", () => {
+			const { analysis, value } = run(engine, "{{formatNumber total}}");
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: "string" });
+			expect(value).toBe("1,234.568");
+		});
+
+		it("formats an exact number of decimals", () => {
+			expect(engine.execute("{{formatNumber total 2}}", data)).toBe("1,234.57");
+			expect(engine.execute("{{formatNumber 5 2}}", data)).toBe("5.00");
+		});
+
+		it("accepts a locale= argument", () => {
+			expect(
+				engine.execute('{{formatNumber total 2 locale="de-DE"}}', data),
+			).toBe("1.234,57");
+		});
+
+		it("renders an empty string for a missing value", () => {
+			expect(engine.execute("{{formatNumber maybe}}!", data)).toBe("!");
+		});
+	});
+
+	describe("formatCurrency", () => {
+		it("formats an amount with the currency symbol", () => {
+			expect(engine.execute('{{formatCurrency total "EUR"}}', data)).toBe(
+				"€1,234.57",
+			);
+			expect(
+				spaces(
+					engine.execute('{{formatCurrency total "EUR" locale="fr-FR"}}', data),
+				),
+			).toBe("1 234,57 €");
+		});
+
+		it("uses the currency's own number of decimals", () => {
+			expect(engine.execute('{{formatCurrency total "JPY"}}', data)).toBe(
+				"¥1,235",
+			);
+		});
+
+		it("accepts decimals and a display", () => {
+			expect(
+				spaces(
+					engine.execute(
+						'{{formatCurrency total currency 0 display="code"}}',
+						data,
+					),
+				),
+			).toBe("EUR 1,235");
+		});
+	});
+
+	describe("formatPercent", () => {
+		it("formats a ratio as a percentage", () => {
+			expect(engine.execute("{{formatPercent ratio}}", data)).toBe("26%");
+			expect(engine.execute("{{formatPercent ratio 1}}", data)).toBe("25.6%");
+		});
+	});
+
+	describe("formatBytes", () => {
+		it("picks a decimal unit", () => {
+			expect(engine.execute("{{formatBytes size}}", data)).toBe("1.5 MB");
+			expect(engine.execute("{{formatBytes 1000}}", data)).toBe("1 kB");
+			expect(engine.execute("{{formatBytes 2500000000000 2}}", data)).toBe(
+				"2.50 TB",
+			);
+		});
+
+		it("localizes the unit", () => {
+			expect(
+				spaces(engine.execute('{{formatBytes size locale="fr-FR"}}', data)),
+			).toBe("1,5 Mo");
+		});
+	});
+
+	describe("formatCompact", () => {
+		it("formats in short compact notation", () => {
+			expect(engine.execute("{{formatCompact 1234}}", data)).toBe("1.2K");
+			expect(engine.execute("{{formatCompact followers}}", data)).toBe("3.4M");
+		});
+
+		it("supports the long display", () => {
+			expect(
+				engine.execute('{{formatCompact followers display="long"}}', data),
+			).toBe("3.4 million");
+		});
+	});
+
+	// ─── Locales ─────────────────────────────────────────────────────────
+
+	describe("locale option", () => {
+		it("the engine locale is the default of every helper", () => {
+			const fr = new Typebars({ locale: "fr-FR" });
+			expect(spaces(fr.execute('{{formatCurrency total "EUR"}}', data))).toBe(
+				"1 234,57 €",
+			);
+			expect(spaces(fr.execute("{{formatPercent ratio}}", data))).toBe("26 %");
+			expect(fr.execute('{{formatDate "2024-01-15" "D MMMM"}}', data)).toBe(
+				"15 janvier",
+			);
+		});
+
+		it("execute() can override the locale for one call", () => {
+			expect(
+				spaces(
+					engine.execute("Total: {{formatNumber total 2}}", data, {
+						locale: "fr-FR",
+					}),
+				),
+			).toBe("Total: 1 234,57");
+			expect(engine.execute("{{formatNumber total 2}}", data)).toBe("1,234.57");
+		});
+
+		it("the override applies to object templates and compiled templates", () => {
+			const result = engine.execute(
+				{
+					amount: "{{formatNumber total 1}}",
+					list: ["{{formatPercent ratio}}"],
+				},
+				data,
+				{ locale: "de-DE" },
+			) as { amount: string; list: string[] };
+			expect(result.amount).toBe("1.234,6");
+			expect(spaces(result.list[0])).toBe("26 %");
+
+			const tpl = engine.compile('{{formatDate "2024-01-15" "MMMM"}}');
+			expect(tpl.execute(data, { locale: "es-ES" })).toBe("enero");
+			expect(tpl.execute(data)).toBe("January");
+		});
+
+		it("an invalid locale throws an InvalidLocaleError", () => {
+			expect(() => new Typebars({ locale: "en_US" })).toThrow(
+				InvalidLocaleError,
+			);
+			expect(() =>
+				engine.execute("{{formatNumber total}}", data, { locale: "en_US" }),
+			).toThrow(InvalidLocaleError);
+
+			try {
+				new Typebars({ locale: "en_US" });
+			} catch (error) {
+				expect(error).toBeInstanceOf(TemplateError);
+				expect((error as InvalidLocaleError).toJSON()).toEqual({
+					name: "InvalidLocaleError",
+					message: 'Invalid locale: "en_US" is not a valid BCP 47 language tag',
+					locale: "en_US",
+				});
+			}
+		});
+	});
+
+	// ─── Static analysis ─────────────────────────────────────────────────
+
+	describe("static analysis", () => {
+		it("rejects a non-numeric value", () => {
+			const { analysis } = run(engine, "{{formatNumber label}}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			expect(analysis.diagnostics[0]?.details?.expected).toBe("number");
+
+			expect(
+				run(engine, '{{formatPercent "50%"}}').analysis.diagnostics[0]?.code,
+			).toBe("TYPE_MISMATCH");
+		});
+
+		it("accepts nullable numbers", () => {
+			expect(run(engine, "{{formatBytes maybe}}").analysis.valid).toBe(true);
+		});
+
+		it("rejects a literal that is not a currency code", () => {
+			const { analysis } = run(engine, '{{formatCurrency total "EURO"}}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("rejects unknown hash arguments", () => {
+			expect(
+				run(engine, '{{formatNumber total style="x"}}').analysis.diagnostics[0]
+					?.code,
+			).toBe("UNKNOWN_HASH_ARGUMENT");
+		});
+	});
+});
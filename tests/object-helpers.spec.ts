@@ -0,0 +1,357 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { ObjectHelpers } from "../src/helpers/object-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const objectHelpers = new ObjectHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		user: {
+			type: "object",
+			properties: {
+				id: { type: "integer" },
+				name: { type: "string" },
+				email: { type: "string" },
+				password: { type: "string" },
+			},
+			required: ["id", "name"],
+		},
+		defaults: {
+			type: "object",
+			properties: {
+				theme: { type: "string" },
+				size: { type: "integer" },
+			},
+			required: ["theme", "size"],
+		},
+		prefs: {
+			type: "object",
+			properties: {
+				theme: { type: "string", enum: ["dark", "light"] },
+				size: { type: "string" },
+			},
+			required: ["theme"],
+		},
+		flags: {
+			type: "object",
+			additionalProperties: { type: "boolean" },
+		},
+		anything: { type: "object" },
+		tags: { type: "array", items: { type: "string" } },
+	},
+	required: ["user", "defaults", "prefs", "flags", "anything", "tags"],
+};
+
+const data = {
+	user: { id: 1, name: "Ada", email: "ada@example.com", password: "secret" },
+	defaults: { theme: "light", size: 12 },
+	prefs: { theme: "dark" },
+	flags: { beta: true, ads: false },
+	anything: { x: 1 },
+	tags: ["a", "b"],
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("ObjectHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("all object helpers are available without calling register()", () => {
+			for (const name of objectHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(true);
+			}
+		});
+
+		it("unregister removes all helpers", () => {
+			objectHelpers.unregister(engine);
+			for (const name of objectHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(false);
+			}
+		});
+	});
+
+	// ─── pick / omit ─────────────────────────────────────────────────────
+
+	describe("pick", () => {
+		it("keeps the listed properties and their required status", () => {
+			const { analysis, value } = run(engine, '{{pick user "id" "email"}}');
+			expect(analysis.valid).toBe(true);
+			expect(value).toEqual({ id: 1, email: "ada@example.com" });
+			expect(analysis.outputSchema).toEqual({
+				type: "object",
+				properties: { id: { type: "integer" }, email: { type: "string" } },
+				required: ["id"],
+			});
+		});
+
+		it("skips keys missing from the data", () => {
+			expect(engine.execute('{{pick prefs "theme" "size"}}', data)).toEqual({
+				theme: "dark",
+			});
+		});
+
+		it("reports an unknown property", () => {
+			const { analysis } = run(engine, '{{pick user "id" "age"}}');
+			expect(analysis.valid).toBe(false);
+			const diagnostic = analysis.diagnostics[0];
+			expect(diagnostic?.code).toBe("UNKNOWN_PROPERTY");
+			expect(diagnostic?.details?.availableProperties).toEqual([
+				"email",
+				"id",
+				"name",
+				"password",
+			]);
+		});
+
+		it("keys of an object of unknown shape are of any type", () => {
+			const { analysis, value } = run(engine, '{{pick anything "x"}}');
+			expect(analysis.valid).toBe(true);
+			expect(value).toEqual({ x: 1 });
+			expect(analysis.outputSchema).toEqual({
+				type: "object",
+				properties: { x: {} },
+			});
+		});
+
+		it("non-literal keys fall back to a generic object", () => {
+			const { analysis, value } = run(engine, "{{pick user prefs.theme}}");
+			expect(analysis.outputSchema).toEqual({ type: "object" });
+			expect(value).toEqual({});
+		});
+
+		it("requires at least one key", () => {
+			const { analysis } = run(engine, "{{pick user}}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+		});
+	});
+
+	describe("omit", () => {
+		it("removes the listed properties", () => {
+			const { analysis, value } = run(engine, '{{omit user "password" "id"}}');
+			expect(analysis.valid).toBe(true);
+			expect(value).toEqual({ name: "Ada", email: "ada@example.com" });
+			expect(analysis.outputSchema).toEqual({
+				type: "object",
+				properties: { name: { type: "string" }, email: { type: "string" } },
+				required: ["name"],
+			});
+		});
+
+		it("keeps additionalProperties", () => {
+			const { analysis, value } = run(engine, '{{omit flags "ads"}}');
+			expect(value).toEqual({ beta: true });
+			expect(analysis.outputSchema).toEqual({
+				type: "object",
+				additionalProperties: { type: "boolean" },
+			});
+		});
+
+		it("reports an unknown property", () => {
+			const { analysis } = run(engine, '{{omit user "pasword"}}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+		});
+	});
+
+	// ─── object / merge ──────────────────────────────────────────────────
+
+	describe("object", () => {
+		it("builds an object from key/value pairs", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{object "id" user.id "label" (uppercase user.name) "active" true}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toEqual({ id: 1, label: "ADA", active: true });
+			expect(analysis.outputSchema).toEqual({
+				type: "object",
+				properties: {
+					id: { type: "integer" },
+					label: { type: "string" },
+					active: { type: "boolean" },
+				},
+				required: ["id", "label", "active"],
+			});
+		});
+
+		it("reports a key without a value", () => {
+			const { analysis } = run(engine, '{{object "id" user.id "name"}}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics).toHaveLength(1);
+			expect(analysis.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+		});
+
+		it("builds an object from key=value arguments", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{object id=user.id label="x"}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toEqual({ id: 1, label: "x" });
+			expect(analysis.outputSchema).toEqual({
+				type: "object",
+				properties: { id: { type: "integer" }, label: { type: "string" } },
+				required: ["id", "label"],
+			});
+			expect(
+				run(engine, '{{object "id" user.id id="x" active=true}}').value,
+			).toEqual({ id: "x", active: true });
+			expect(
+				engine.execute("{{json (object id=user.id)}}!", { user: { id: 2 } }),
+			).toBe('{"id":2}!');
+		});
+
+		it("reports a call without any property", () => {
+			const { analysis } = run(engine, "{{json (object)}}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+		});
+
+		it("non-literal keys fall back to a generic object", () => {
+			const { analysis, value } = run(engine, "{{object user.name 1}}");
+			expect(analysis.outputSchema).toEqual({ type: "object" });
+			expect(value).toEqual({ Ada: 1 });
+		});
+	});
+
+	describe("merge", () => {
+		it("merges shallowly, later objects winning", () => {
+			const { analysis, value } = run(engine, "{{merge defaults prefs}}");
+			expect(analysis.valid).toBe(true);
+			expect(value).toEqual({ theme: "dark", size: 12 });
+			expect(analysis.outputSchema).toEqual({
+				type: "object",
+				properties: {
+					theme: { type: "string", enum: ["dark", "light"] },
+					size: { oneOf: [{ type: "integer" }, { type: "string" }] },
+				},
+				required: ["theme", "size"],
+			});
+		});
+
+		it("merges more than two objects", () => {
+			expect(
+				engine.execute('{{merge defaults prefs (object "size" 14)}}', data),
+			).toEqual({ theme: "dark", size: 14 });
+		});
+
+		it("objects of unknown shape fall back to a generic object", () => {
+			const { analysis } = run(engine, "{{merge defaults anything}}");
+			expect(analysis.outputSchema).toEqual({ type: "object" });
+		});
+
+		it("rejects arrays", () => {
+			const { analysis } = run(engine, "{{merge tags defaults}}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+	});
+
+	// ─── keys / values / entries ─────────────────────────────────────────
+
+	describe("keys / values / entries", () => {
+		it("keys of a closed object are an enum", () => {
+			const { analysis, value } = run(engine, "{{keys defaults}}");
+			expect(value).toEqual(["theme", "size"]);
+			expect(analysis.outputSchema).toEqual({
+				type: "array",
+				items: { type: "string", enum: ["theme", "size"] },
+			});
+		});
+
+		it("keys of a record are strings", () => {
+			const { analysis, value } = run(engine, "{{keys flags}}");
+			expect(value).toEqual(["beta", "ads"]);
+			expect(analysis.outputSchema).toEqual({
+				type: "array",
+				items: { type: "string" },
+			});
+		});
+
+		it("values unite the property schemas", () => {
+			const { analysis, value } = run(engine, "{{values defaults}}");
+			expect(value).toEqual(["light", 12]);
+			expect(analysis.outputSchema).toEqual({
+				type: "array",
+				items: { oneOf: [{ type: "string" }, { type: "integer" }] },
+			});
+		});
+
+		it("entries are { key, value } objects", () => {
+			const { analysis, value } = run(engine, "{{entries flags}}");
+			expect(value).toEqual([
+				{ key: "beta", value: true },
+				{ key: "ads", value: false },
+			]);
+			expect(analysis.outputSchema).toEqual({
+				type: "array",
+				items: {
+					type: "object",
+					properties: {
+						key: { type: "string" },
+						value: { type: "boolean" },
+					},
+					required: ["key", "value"],
+				},
+			});
+		});
+
+		it("#each over entries types key and value", () => {
+			const { analysis, value } = run(
+				engine,
+				"{{#each (entries flags)}}{{key}}={{value}} {{/each}}",
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe("beta=true ads=false ");
+			expect(
+				run(engine, "{{#each (entries flags)}}{{name}}{{/each}}").analysis
+					.valid,
+			).toBe(false);
+		});
+	});
+
+	// ─── Integration ─────────────────────────────────────────────────────
+
+	describe("integration", () => {
+		it("objects render as JSON in mixed templates", () => {
+			expect(engine.execute('User: {{pick user "id" "name"}}', data)).toBe(
+				'User: {"id":1,"name":"Ada"}',
+			);
+		});
+
+		it("the result of pick can be used with #with", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{#with (pick user "name")}}{{name}}{{/with}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe("Ada");
+			expect(
+				run(engine, '{{#with (pick user "name")}}{{email}}{{/with}}').analysis
+					.valid,
+			).toBe(false);
+		});
+
+		it("a bare {{keys}} still reads the property of the same name", () => {
+			expect(engine.execute("{{keys}}!", { keys: "k" })).toBe("k!");
+		});
+	});
+});
@@ -0,0 +1,323 @@
+import { describe, expect, test } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import {
+	getEffectivelySinglePartial,
+	getPartialName,
+	parse,
+} from "../src/parser.ts";
+import { Typebars } from "../src/typebars.ts";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		user: {
+			type: "object",
+			properties: {
+				firstName: { type: "string" },
+				age: { type: "number" },
+			},
+			required: ["firstName", "age"],
+		},
+		count: { type: "number" },
+	},
+	required: ["user"],
+};
+
+const data = { user: { firstName: "Alice", age: 30 }, count: 2 };
+
+const greetingContext: JSONSchema7 = {
+	type: "object",
+	properties: { name: { type: "string" } },
+	required: ["name"],
+};
+
+function createEngine(): Typebars {
+	const engine = new Typebars();
+	engine.registerPartial("greeting", "Hello {{name}}!", {
+		contextSchema: greetingContext,
+	});
+	engine.registerPartial("age", "{{age}}");
+	return engine;
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("partials", () => {
+	describe("registration", () => {
+		test("registerPartial / hasPartial / unregisterPartial", () => {
+			const engine = new Typebars();
+			expect(engine.hasPartial("header")).toBe(false);
+			engine.registerPartial("header", "Header");
+			expect(engine.hasPartial("header")).toBe(true);
+			engine.unregisterPartial("header");
+			expect(engine.hasPartial("header")).toBe(false);
+		});
+
+		test("registerPartial returns the engine for chaining", () => {
+			const engine = new Typebars();
+			expect(engine.registerPartial("a", "A").registerPartial("b", "B")).toBe(
+				engine,
+			);
+		});
+
+		test("registerPartial throws on invalid partial syntax", () => {
+			const engine = new Typebars();
+			expect(() => engine.registerPartial("bad", "{{#if x}}")).toThrow();
+			expect(engine.hasPartial("bad")).toBe(false);
+		});
+
+		test("partials are isolated per engine instance", () => {
+			const engine = createEngine();
+			const other = new Typebars();
+			expect(other.hasPartial("greeting")).toBe(false);
+			expect(other.analyze("{{> greeting}}", schema).valid).toBe(false);
+			expect(engine.hasPartial("greeting")).toBe(true);
+		});
+	});
+
+	describe("static analysis", () => {
+		test("call site with hash params matching the context schema is valid", () => {
+			const engine = createEngine();
+			const result = engine.analyze(
+				"{{> greeting name=user.firstName}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toHaveLength(0);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("missing required context property → MISSING_ARGUMENT", () => {
+			const engine = createEngine();
+			const result = engine.analyze("{{> greeting}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+			expect(result.diagnostics[0]?.details).toMatchObject({
+				partialName: "greeting",
+				path: "name",
+			});
+		});
+
+		test("mistyped context property → TYPE_MISMATCH", () => {
+			const engine = createEngine();
+			const result = engine.analyze("{{> greeting name=count}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			expect(result.diagnostics[0]?.details).toMatchObject({
+				partialName: "greeting",
+				expected: "string",
+				actual: "number",
+			});
+		});
+
+		test("hash values are validated against the caller schema", () => {
+			const engine = createEngine();
+			const result = engine.analyze("{{> greeting name=user.nope}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+		});
+
+		test("explicit context argument switches the partial context", () => {
+			const engine = createEngine();
+			const result = engine.analyze("{{> age user}}", schema);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		test("partial without context schema is analyzed against the call-site context", () => {
+			const engine = createEngine();
+			const result = engine.analyze("{{> age}}", schema);
+			expect(result.valid).toBe(false);
+			const diagnostic = result.diagnostics[0];
+			expect(diagnostic?.code).toBe("UNKNOWN_PROPERTY");
+			expect(diagnostic?.message).toStartWith('In partial "age":');
+			expect(diagnostic?.details?.partialName).toBe("age");
+			// Reported at the call site
+			expect(diagnostic?.loc?.start).toEqual({ line: 1, column: 0 });
+		});
+
+		test("partial body is analyzed against its context schema", () => {
+			const engine = new Typebars();
+			engine.registerPartial("broken", "{{missing}}", {
+				contextSchema: greetingContext,
+			});
+			const result = engine.analyze("{{> broken name=user.firstName}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+		});
+
+		test("unknown partial → UNKNOWN_PARTIAL", () => {
+			const engine = createEngine();
+			const result = engine.analyze("Hi {{> footer}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PARTIAL");
+			expect(result.diagnostics[0]?.details?.partialName).toBe("footer");
+		});
+
+		test("partial inside a mixed template → string output", () => {
+			const engine = createEngine();
+			const result = engine.analyze("Age: {{> age user}}", schema);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "string" });
+		});
+
+		test("partial as the branch of a block → body type", () => {
+			const engine = createEngine();
+			const result = engine.analyze(
+				"{{#if count}}{{> age user}}{{else}}0{{/if}}",
+				schema,
+			);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		test("nested partials are analyzed recursively", () => {
+			const engine = createEngine();
+			engine.registerPartial("card", "[{{> greeting name=firstName}}]");
+			const result = engine.analyze("{{> card user}}", schema);
+			expect(result.valid).toBe(true);
+
+			const invalid = engine.analyze("{{> card}}", schema);
+			expect(invalid.valid).toBe(false);
+			expect(invalid.diagnostics[0]?.message).toStartWith('In partial "card":');
+		});
+
+		test("direct recursion → PARTIAL_CYCLE", () => {
+			const engine = new Typebars();
+			engine.registerPartial("loop", "{{> loop}}");
+			const result = engine.analyze("{{> loop}}", schema);
+			expect(result.valid).toBe(false);
+			expect(
+				result.diagnostics.some(
+					(d) =>
+						d.code === "PARTIAL_CYCLE" && d.message.includes("loop → loop"),
+				),
+			).toBe(true);
+		});
+
+		test("indirect recursion → PARTIAL_CYCLE with the full chain", () => {
+			const engine = new Typebars();
+			engine.registerPartial("a", "{{> b}}");
+			engine.registerPartial("b", "x{{> a}}");
+			const result = engine.analyze("{{> a}}", schema);
+			expect(result.valid).toBe(false);
+			expect(
+				result.diagnostics.some((d) => d.message.includes("a → b → a")),
+			).toBe(true);
+		});
+
+		test("dynamic partial → UNANALYZABLE warning", () => {
+			const engine = createEngine();
+			const result = engine.analyze('{{> (lookup . "partialName")}}', schema);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics[0]?.code).toBe("UNANALYZABLE");
+		});
+
+		test("partial block body is analyzed in the caller context", () => {
+			const engine = new Typebars();
+			engine.registerPartial("layout", "<{{> @partial-block}}>");
+			expect(
+				engine.analyze("{{#> layout}}{{user.firstName}}{{/layout}}", schema)
+					.valid,
+			).toBe(true);
+			const invalid = engine.analyze(
+				"{{#> layout}}{{user.nope}}{{/layout}}",
+				schema,
+			);
+			expect(invalid.valid).toBe(false);
+			expect(invalid.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+		});
+
+		test("unregistered partial block renders its fallback body", () => {
+			const engine = new Typebars();
+			const result = engine.analyze(
+				"{{#> missing}}{{user.firstName}}{{/missing}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+		});
+
+		test("@partial-block outside of a partial block → UNKNOWN_PARTIAL", () => {
+			const engine = new Typebars();
+			engine.registerPartial("layout", "<{{> @partial-block}}>");
+			const result = engine.analyze("{{> layout}}", schema);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PARTIAL");
+		});
+
+		test("compiled templates analyze partials", () => {
+			const engine = createEngine();
+			const tpl = engine.compile("{{> greeting name=user.firstName}}");
+			expect(tpl.analyze(schema).valid).toBe(true);
+		});
+	});
+
+	describe("execution", () => {
+		test("renders a partial with hash params", () => {
+			const engine = createEngine();
+			expect(engine.execute("{{> greeting name=user.firstName}}", data)).toBe(
+				"Hello Alice!",
+			);
+		});
+
+		test("a lone partial keeps the type of its output", () => {
+			const engine = createEngine();
+			expect(engine.execute("{{> age user}}", data)).toBe(30);
+			expect(engine.execute("  {{> age user}}  ", data)).toBe(30);
+		});
+
+		test("partial inside a mixed template renders through Handlebars", () => {
+			const engine = createEngine();
+			expect(engine.execute("Age: {{> age user}}", data)).toBe("Age: 30");
+		});
+
+		test("partial as the branch of a block keeps its type", () => {
+			const engine = new Typebars();
+			engine.registerPartial("tags", "{{tags}}");
+			expect(
+				engine.execute("{{#if show}}{{> tags}}{{/if}}", {
+					show: true,
+					tags: ["a", "b"],
+				}),
+			).toEqual(["a", "b"]);
+		});
+
+		test("partial blocks render @partial-block", () => {
+			const engine = new Typebars();
+			engine.registerPartial("layout", "<{{> @partial-block}}>");
+			expect(
+				engine.execute("{{#> layout}}{{user.firstName}}{{/layout}}", data),
+			).toBe("<Alice>");
+		});
+
+		test("compiled templates execute partials", () => {
+			const engine = createEngine();
+			const tpl = engine.compile("Say: {{> greeting name=user.firstName}}");
+			expect(tpl.execute(data)).toBe("Say: Hello Alice!");
+			expect(engine.compile("{{> age user}}").execute(data)).toBe(30);
+		});
+
+		test("partials registered after a template was compiled are used", () => {
+			const engine = new Typebars();
+			const tpl = engine.compile("Hi {{> name}}");
+			engine.registerPartial("name", "{{user.firstName}}");
+			expect(tpl.execute(data)).toBe("Hi Alice");
+		});
+	});
+
+	describe("parser utilities", () => {
+		test("getEffectivelySinglePartial detects a lone partial", () => {
+			expect(getEffectivelySinglePartial(parse("  {{> a}}  "))).not.toBeNull();
+			expect(getEffectivelySinglePartial(parse("x {{> a}}"))).toBeNull();
+		});
+
+		test("getPartialName returns static names only", () => {
+			const name = (tpl: string) =>
+				getPartialName(parse(tpl).body[0] as hbs.AST.PartialStatement);
+			expect(name("{{> header}}")).toBe("header");
+			expect(name('{{> "email/footer"}}')).toBe("email/footer");
+			expect(name("{{> (lookup . 'p')}}")).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,276 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { TemplateRuntimeError } from "../src/errors.ts";
+import { RegexHelpers } from "../src/helpers/regex-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const regexHelpers = new RegexHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		url: { type: "string" },
+		code: { type: "string" },
+		subject: { type: "string" },
+		phone: { type: "string" },
+		pattern: { type: "string" },
+		count: { type: "integer" },
+	},
+	required: ["url", "code", "subject", "phone", "pattern", "count"],
+};
+
+const data = {
+	url: "/users/42/posts/7",
+	code: "ABC",
+	subject: "Fix #12 and #7",
+	phone: "06 12 34 56 78",
+	pattern: "^A",
+	count: 3,
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("RegexHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("all regex helpers are available without calling register()", () => {
+			for (const name of regexHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(true);
+			}
+		});
+
+		it("unregister removes all helpers", () => {
+			regexHelpers.unregister(engine);
+			for (const name of regexHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(false);
+			}
+		});
+	});
+
+	// ─── test / match ────────────────────────────────────────────────────
+
+	describe("test", () => {
+		it("tests whether a string matches", () => {
+			const { analysis, value } = run(engine, '{{test code "^[A-Z]{3}$"}}');
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: "boolean" });
+			expect(value).toBe(true);
+			expect(engine.execute('{{test code "^[a-z]+$"}}', data)).toBe(false);
+		});
+
+		it("accepts flags", () => {
+			expect(engine.execute('{{test code "^[a-z]+$" "i"}}', data)).toBe(true);
+		});
+
+		it("a global flag does not make consecutive calls stateful", () => {
+			const template = '{{test code "A" "g"}}';
+			expect(engine.execute(template, data)).toBe(true);
+			expect(engine.execute(template, data)).toBe(true);
+		});
+
+		it("works as an #if condition", () => {
+			expect(
+				engine.execute('{{#if (test code "^A")}}yes{{else}}no{{/if}}', data),
+			).toBe("yes");
+		});
+
+		it("accepts a pattern from the data", () => {
+			expect(run(engine, "{{test code pattern}}").value).toBe(true);
+		});
+	});
+
+	describe("match", () => {
+		it("returns every match", () => {
+			const { analysis, value } = run(engine, '{{match subject "#\\d+"}}');
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({
+				type: "array",
+				items: { type: "string" },
+			});
+			expect(value).toEqual(["#12", "#7"]);
+		});
+
+		it("returns an empty array without a match", () => {
+			expect(engine.execute('{{match code "\\d"}}', data)).toEqual([]);
+		});
+
+		it("matches are joined in mixed templates", () => {
+			expect(engine.execute('Refs: {{match subject "#\\d+"}}', data)).toBe(
+				"Refs: #12, #7",
+			);
+		});
+	});
+
+	// ─── extract ─────────────────────────────────────────────────────────
+
+	describe("extract", () => {
+		it("named groups become a typed object", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{extract url "/users/(?<userId>\\d+)/posts/(?<postId>\\d+)"}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toEqual({ userId: "42", postId: "7" });
+			expect(analysis.outputSchema).toEqual({
+				type: ["object", "null"],
+				properties: {
+					userId: { type: "string" },
+					postId: { type: "string" },
+				},
+				required: ["userId", "postId"],
+			});
+		});
+
+		it("groups that may not participate are nullable", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{extract "/users/42" "/users/(?<id>\\d+)(?:/posts/(?<post>\\d+))?"}}',
+			);
+			expect(value).toEqual({ id: "42", post: null });
+			expect(analysis.outputSchema).toEqual({
+				type: ["object", "null"],
+				properties: {
+					id: { type: "string" },
+					post: { type: ["string", "null"] },
+				},
+				required: ["id", "post"],
+			});
+
+			expect(
+				run(engine, '{{extract code "(?<letter>[A-Z])|(?<digit>\\d)"}}')
+					.analysis.outputSchema,
+			).toEqual({
+				type: ["object", "null"],
+				properties: {
+					letter: { type: ["string", "null"] },
+					digit: { type: ["string", "null"] },
+				},
+				required: ["letter", "digit"],
+			});
+		});
+
+		it("unnamed groups become a tuple of strings", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{extract url "/users/(\\d+)/posts/(\\d+)"}}',
+			);
+			expect(value).toEqual(["42", "7"]);
+			expect(analysis.outputSchema).toEqual({
+				type: ["array", "null"],
+				items: { type: "string" },
+				minItems: 2,
+				maxItems: 2,
+			});
+		});
+
+		it("returns the matched string without groups", () => {
+			const { analysis, value } = run(engine, '{{extract url "\\d+"}}');
+			expect(value).toBe("42");
+			expect(analysis.outputSchema).toEqual({ type: ["string", "null"] });
+		});
+
+		it("returns null without a match", () => {
+			expect(engine.execute('{{extract code "(?<n>\\d+)"}}', data)).toBe(null);
+		});
+
+		it("the groups can be used with #with", () => {
+			const template =
+				'{{#with (extract url "/users/(?<id>\\d+)")}}{{id}}{{/with}}';
+			const { analysis, value } = run(engine, template);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe("42");
+			expect(
+				run(
+					engine,
+					'{{#with (extract url "/users/(?<id>\\d+)")}}{{name}}{{/with}}',
+				).analysis.valid,
+			).toBe(false);
+		});
+	});
+
+	// ─── replaceRegex ────────────────────────────────────────────────────
+
+	describe("replaceRegex", () => {
+		it("replaces every match, with capture groups", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{replaceRegex subject "#(\\d+)" "issue $1"}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe("Fix issue 12 and issue 7");
+		});
+
+		it("keeps a numeric-looking result as a string", () => {
+			expect(engine.execute('{{replaceRegex phone "\\s" ""}}', data)).toBe(
+				"0612345678",
+			);
+		});
+
+		it("accepts flags", () => {
+			expect(
+				engine.execute('{{replaceRegex "Ab ab" "ab" "x" "i"}}', data),
+			).toBe("x x");
+		});
+	});
+
+	// ─── Static analysis ─────────────────────────────────────────────────
+
+	describe("static analysis", () => {
+		it("reports an invalid pattern, located on the pattern", () => {
+			const { analysis } = run(engine, 'Code:\n{{test code "([A-Z]"}}');
+			expect(analysis.valid).toBe(false);
+			const diagnostic = analysis.diagnostics[0];
+			expect(diagnostic?.code).toBe("INVALID_REGEX");
+			expect(diagnostic?.details?.actual).toBe("([A-Z]");
+			expect(diagnostic?.loc).toEqual({
+				start: { line: 2, column: 12 },
+				end: { line: 2, column: 20 },
+			});
+		});
+
+		it("reports invalid flags, located on the flags", () => {
+			const { analysis } = run(engine, '{{match code "a" "x"}}');
+			expect(analysis.diagnostics[0]?.code).toBe("INVALID_REGEX");
+			expect(analysis.diagnostics[0]?.loc?.start.column).toBe(17);
+		});
+
+		it("validates the pattern of every regex helper", () => {
+			for (const template of [
+				'{{match code "[a-"}}',
+				'{{extract code "(?<id"}}',
+				'{{replaceRegex code "*" ""}}',
+			]) {
+				expect(run(engine, template).analysis.diagnostics[0]?.code).toBe(
+					"INVALID_REGEX",
+				);
+			}
+		});
+
+		it("rejects a non-string value", () => {
+			const { analysis } = run(engine, '{{test count "\\d"}}');
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("an invalid pattern from the data throws a TemplateRuntimeError", () => {
+			expect(() =>
+				engine.execute("{{test code pattern}}", { code: "a", pattern: "(" }),
+			).toThrow(TemplateRuntimeError);
+		});
+	});
+});
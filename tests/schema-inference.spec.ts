@@ -0,0 +1,367 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { TemplateParseError } from "../src/errors.ts";
+import { Typebars } from "../src/typebars.ts";
+import type { InferInputSchemaOptions, TemplateInput } from "../src/types.ts";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Infers the input of a template and checks that the template is valid
+ * against the inferred schemas.
+ */
+function infer(
+	engine: Typebars,
+	template: TemplateInput,
+	options?: InferInputSchemaOptions,
+) {
+	const result = engine.inferInputSchema(template, options);
+	const analysis = engine.analyze(template, result.inputSchema, {
+		identifierSchemas: result.identifierSchemas,
+	});
+	expect(analysis.diagnostics.filter((d) => d.severity === "error")).toEqual(
+		[],
+	);
+	return result;
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("inferInputSchema", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Paths ───────────────────────────────────────────────────────────
+
+	describe("paths", () => {
+		it("every path read becomes a property", () => {
+			const { inputSchema } = infer(engine, "Hello {{user.name}} ({{id}})");
+			expect(inputSchema).toEqual({
+				type: "object",
+				properties: {
+					user: { type: "object", properties: { name: {} } },
+					id: {},
+				},
+			});
+		});
+
+		it("a template without expressions requires nothing", () => {
+			expect(engine.inferInputSchema("Hello")).toEqual({
+				inputSchema: {},
+				identifierSchemas: {},
+			});
+		});
+
+		it("object and array templates share the same input", () => {
+			const { inputSchema } = infer(engine, {
+				title: "{{title}}",
+				tags: ["{{tag}}", 42],
+				count: 3,
+			});
+			expect(inputSchema).toEqual({
+				type: "object",
+				properties: { title: {}, tag: {} },
+			});
+		});
+
+		it("array intrinsics do not become properties", () => {
+			const { inputSchema } = infer(
+				engine,
+				"{{#each items}}{{this}}{{/each}} {{items.length}} {{items.[0]}}",
+			);
+			expect(inputSchema.properties?.items).toEqual({
+				type: "array",
+				items: {},
+			});
+		});
+
+		it("throws on an invalid template", () => {
+			expect(() => engine.inferInputSchema("{{#if x}}")).toThrow(
+				TemplateParseError,
+			);
+		});
+	});
+
+	// ─── Blocks ──────────────────────────────────────────────────────────
+
+	describe("blocks", () => {
+		it("#each arguments are arrays whose items hold the body's paths", () => {
+			const { inputSchema } = infer(
+				engine,
+				"{{#each orders}}{{id}} {{../currency}} {{@index}} {{@root.shop}}{{/each}}",
+			);
+			expect(inputSchema).toEqual({
+				type: "object",
+				properties: {
+					orders: {
+						type: "array",
+						items: { type: "object", properties: { id: {} } },
+					},
+					currency: {},
+					shop: {},
+				},
+			});
+		});
+
+		it("block params resolve to the items", () => {
+			const { inputSchema } = infer(
+				engine,
+				"{{#each users as |user i|}}{{#each user.roles as |role|}}{{role.name}}{{i}}{{/each}}{{/each}}",
+			);
+			expect(inputSchema).toEqual({
+				type: "object",
+				properties: {
+					users: {
+						type: "array",
+						items: {
+							type: "object",
+							properties: {
+								roles: {
+									type: "array",
+									items: { type: "object", properties: { name: {} } },
+								},
+							},
+						},
+					},
+				},
+			});
+		});
+
+		it("#with reads the properties of its argument", () => {
+			const { inputSchema } = infer(
+				engine,
+				"{{#with address}}{{city}}, {{../country}}{{else}}{{fallback}}{{/with}}",
+			);
+			expect(inputSchema).toEqual({
+				type: "object",
+				properties: {
+					address: { type: "object", properties: { city: {} } },
+					country: {},
+					fallback: {},
+				},
+			});
+		});
+
+		it("#let bindings resolve to their values", () => {
+			const { inputSchema } = infer(
+				engine,
+				'{{#let u=user total=(sum (map orders "total"))}}{{@u.name}} {{@total}}{{/let}}',
+			);
+			expect(inputSchema).toEqual({
+				type: "object",
+				properties: {
+					user: { type: "object", properties: { name: {} } },
+					orders: {
+						type: "array",
+						items: { type: "object", properties: { total: {} } },
+					},
+				},
+			});
+		});
+
+		it("collection helpers pass the items of their array to the body", () => {
+			const template =
+				'{{#each (sortBy (filter users "age" ">" 3) "name")}}{{email}}{{/each}}{{#with (first users)}}{{name}}{{/with}}';
+			const { inputSchema } = infer(engine, template);
+			expect(inputSchema).toEqual({
+				type: "object",
+				properties: {
+					users: {
+						type: "array",
+						items: {
+							type: "object",
+							properties: { age: {}, name: {}, email: {} },
+						},
+					},
+				},
+			});
+			// The inferred schema validates the template without any diagnostic
+			expect(engine.analyze(template, inputSchema).diagnostics).toEqual([]);
+		});
+
+		it("walks conditions, switch cases and else branches", () => {
+			const { inputSchema } = infer(
+				engine,
+				'{{#if ok}}{{a}}{{else}}{{b}}{{/if}}{{#switch status}}{{#case "x"}}{{c}}{{/case}}{{#default}}{{d}}{{/default}}{{/switch}}',
+			);
+			expect(Object.keys(inputSchema.properties ?? {})).toEqual([
+				"ok",
+				"a",
+				"b",
+				"status",
+				"c",
+				"d",
+			]);
+		});
+	});
+
+	// ─── Helpers ─────────────────────────────────────────────────────────
+
+	describe("helpers", () => {
+		it("arguments take the type of the declared params", () => {
+			const { inputSchema } = infer(
+				engine,
+				"{{add price tax}} {{uppercase name}} {{formatNumber amount locale=lang}}",
+			);
+			expect(inputSchema.properties).toEqual({
+				price: { type: "number" },
+				tax: { type: "number" },
+				name: { type: "string" },
+				amount: { type: "number" },
+				lang: { type: "string" },
+			});
+		});
+
+		it("custom helpers declare their param types", () => {
+			engine.registerHelper("initials", {
+				fn: (name: unknown) => String(name).slice(0, 1),
+				params: [{ name: "name", type: { type: "string" } }],
+			});
+			const { inputSchema } = infer(
+				engine,
+				"{{initials (lowercase user.name)}}",
+			);
+			expect(inputSchema.properties?.user).toEqual({
+				type: "object",
+				properties: { name: { type: "string" } },
+			});
+		});
+
+		it("a path used with several types takes all of them", () => {
+			const { inputSchema } = infer(engine, "{{uppercase id}} {{add id 1}}");
+			expect(inputSchema.properties?.id).toEqual({
+				type: ["string", "number"],
+			});
+		});
+
+		it("date arguments are inferred as date-time strings or timestamps", () => {
+			const { inputSchema } = infer(engine, "{{formatDate createdAt}}");
+			expect(inputSchema.properties?.createdAt).toEqual({
+				type: ["string", "number"],
+				format: "date-time",
+			});
+			expect(
+				engine.analyze("{{formatDate createdAt}}", inputSchema).diagnostics,
+			).toEqual([]);
+		});
+
+		it("map reads a property of the collection items", () => {
+			const { inputSchema } = infer(engine, '{{map users "email"}}');
+			expect(inputSchema.properties?.users).toEqual({
+				type: "array",
+				items: { type: "object", properties: { email: {} } },
+			});
+		});
+
+		it("the last argument of default is required", () => {
+			expect(infer(engine, "{{default nickname name}}").inputSchema).toEqual({
+				type: "object",
+				properties: { nickname: {}, name: {} },
+				required: ["name"],
+			});
+			expect(
+				infer(engine, '{{default nickname "anonymous"}}').inputSchema,
+			).toEqual({ type: "object", properties: { nickname: {} } });
+		});
+	});
+
+	// ─── Identifiers ─────────────────────────────────────────────────────
+
+	describe("identifiers", () => {
+		it("{{key:N}} paths build the schema of identifier N", () => {
+			const { inputSchema, identifierSchemas } = infer(
+				engine,
+				"{{meetingId:1}} {{user.name:1}} {{add count:2 1}} {{$root:3}} {{title}}",
+			);
+			expect(inputSchema).toEqual({
+				type: "object",
+				properties: { title: {} },
+			});
+			expect(identifierSchemas).toEqual({
+				1: {
+					type: "object",
+					properties: {
+						meetingId: {},
+						user: { type: "object", properties: { name: {} } },
+					},
+				},
+				2: { type: "object", properties: { count: { type: "number" } } },
+				3: {},
+			});
+		});
+	});
+
+	// ─── Partials ────────────────────────────────────────────────────────
+
+	describe("partials", () => {
+		it("the body of an untyped partial reads its context", () => {
+			engine.registerPartial("byline", "{{title}} by {{author.name}}");
+			const { inputSchema } = infer(
+				engine,
+				"{{> byline post}} {{> byline title=headline author=writer}}",
+			);
+			expect(inputSchema.properties).toEqual({
+				post: {
+					type: "object",
+					properties: {
+						title: {},
+						author: { type: "object", properties: { name: {} } },
+					},
+				},
+				headline: {},
+				writer: { type: "object", properties: { name: {} } },
+			});
+		});
+
+		it("a typed partial reads the properties it requires", () => {
+			engine.registerPartial("greeting", "Hello {{name}}", {
+				contextSchema: {
+					type: "object",
+					properties: { name: { type: "string" }, age: { type: "integer" } },
+					required: ["name"],
+				},
+			});
+			const { inputSchema } = infer(engine, "{{> greeting person}}");
+			expect(inputSchema.properties?.person).toEqual({
+				type: "object",
+				properties: { name: { type: "string" } },
+			});
+		});
+	});
+
+	// ─── requireProperties ───────────────────────────────────────────────
+
+	describe("requireProperties", () => {
+		it("requires every property read outside of a condition", () => {
+			const { inputSchema } = infer(
+				engine,
+				"{{#if user.email}}{{user.name}}{{/if}}{{#each orders}}{{id}}{{/each}}{{iif vip a b}}",
+				{ requireProperties: true },
+			);
+			expect(inputSchema).toEqual({
+				type: "object",
+				properties: {
+					user: {
+						type: "object",
+						properties: { email: {}, name: {} },
+						required: ["name"],
+					},
+					orders: {
+						type: "array",
+						items: {
+							type: "object",
+							properties: { id: {} },
+							required: ["id"],
+						},
+					},
+					vip: {},
+					a: {},
+					b: {},
+				},
+				required: ["user", "orders", "a", "b"],
+			});
+		});
+	});
+});
@@ -1,9 +1,17 @@
 import { describe, expect, test } from "bun:test";
 import type { JSONSchema7 } from "json-schema";
 import {
+	isPropertyRequired,
+	mergeConditionalBranch,
+	narrowConditionalSchema,
+	narrowSchemaPathToPresent,
+	narrowUnionSchema,
+	replaceSchemaPath,
 	resolveArrayItems,
+	resolveObjectEntries,
 	resolveSchemaPath,
 	simplifySchema,
+	withoutNullType,
 } from "../src/schema-resolver.ts";
 import { userSchema } from "./fixtures.ts";
 
@@ -724,6 +732,95 @@ describe("schema-resolver", () => {
 		});
 	});
 
+	describe("resolveObjectEntries", () => {
+		test("uses additionalProperties as the value schema", () => {
+			const schema: JSONSchema7 = {
+				type: "object",
+				additionalProperties: { type: "string" },
+			};
+			expect(resolveObjectEntries(schema, schema)).toEqual({
+				value: { type: "string" },
+				key: { type: "string" },
+			});
+		});
+
+		test("types keys with propertyNames", () => {
+			const schema: JSONSchema7 = {
+				type: "object",
+				additionalProperties: { type: "string" },
+				propertyNames: { pattern: "^[a-z]{2}$" },
+			};
+			expect(resolveObjectEntries(schema, schema)?.key).toEqual({
+				type: "string",
+				pattern: "^[a-z]{2}$",
+			});
+		});
+
+		test("unions declared properties and types keys as their enum", () => {
+			const schema: JSONSchema7 = {
+				type: "object",
+				properties: {
+					a: { type: "number" },
+					b: { type: "string" },
+					c: { type: "number" },
+				},
+			};
+			expect(resolveObjectEntries(schema, schema)).toEqual({
+				value: { oneOf: [{ type: "number" }, { type: "string" }] },
+				key: { type: "string", enum: ["a", "b", "c"] },
+			});
+		});
+
+		test("includes patternProperties and additionalProperties values", () => {
+			const schema: JSONSchema7 = {
+				type: "object",
+				properties: { id: { type: "number" } },
+				patternProperties: { "^x-": { type: "boolean" } },
+				additionalProperties: { type: "string" },
+			};
+			expect(resolveObjectEntries(schema, schema)).toEqual({
+				value: {
+					oneOf: [{ type: "number" }, { type: "boolean" }, { type: "string" }],
+				},
+				key: { type: "string" },
+			});
+		});
+
+		test("values of an open object accept any type", () => {
+			const schema: JSONSchema7 = {
+				type: "object",
+				properties: { id: { type: "number" } },
+				additionalProperties: true,
+			};
+			expect(resolveObjectEntries(schema, schema)).toEqual({
+				value: {},
+				key: { type: "string" },
+			});
+			expect(resolveObjectEntries({ type: "object" }, schema)?.value).toEqual(
+				{},
+			);
+		});
+
+		test("resolves $ref", () => {
+			const schema: JSONSchema7 = {
+				type: "object",
+				definitions: {
+					Labels: { type: "object", additionalProperties: { type: "string" } },
+				},
+				properties: { labels: { $ref: "#/definitions/Labels" } },
+			};
+			expect(
+				resolveObjectEntries({ $ref: "#/definitions/Labels" }, schema)?.value,
+			).toEqual({ type: "string" });
+		});
+
+		test("returns undefined for a non-object", () => {
+			const schema: JSONSchema7 = { type: "string" };
+			expect(resolveObjectEntries(schema, schema)).toBeUndefined();
+			expect(resolveObjectEntries({}, schema)).toBeUndefined();
+		});
+	});
+
 	describe("simplifySchema", () => {
 		test("unwraps a oneOf with a single element", () => {
 			expect(simplifySchema({ oneOf: [{ type: "string" }] })).toEqual({
@@ -927,4 +1024,259 @@ describe("schema-resolver", () => {
 			});
 		});
 	});
+
+	describe("conditional schemas (if/then/else)", () => {
+		const schema: JSONSchema7 = {
+			type: "object",
+			properties: { kind: { type: "string" } },
+			required: ["kind"],
+			if: { properties: { kind: { const: "a" } } },
+			then: { properties: { a: { type: "string" } }, required: ["a"] },
+			else: { properties: { b: { type: "number" } }, required: ["b"] },
+		};
+
+		test("resolves properties declared in either branch", () => {
+			expect(resolveSchemaPath(schema, ["a"])).toEqual({ type: "string" });
+			expect(resolveSchemaPath(schema, ["b"])).toEqual({ type: "number" });
+		});
+
+		test("branch-only properties are not required", () => {
+			expect(isPropertyRequired(schema, ["kind"])).toBe(true);
+			expect(isPropertyRequired(schema, ["a"])).toBe(false);
+		});
+
+		test("a property required by both branches is required", () => {
+			expect(
+				isPropertyRequired(
+					{
+						type: "object",
+						if: { properties: { kind: { const: "a" } } },
+						then: { properties: { v: { type: "string" } }, required: ["v"] },
+						else: { properties: { v: { type: "number" } }, required: ["v"] },
+					},
+					["v"],
+				),
+			).toBe(true);
+		});
+
+		test("ignores then/else without if", () => {
+			expect(
+				resolveSchemaPath(
+					{ type: "object", then: { properties: { a: { type: "string" } } } },
+					["a"],
+				),
+			).toBeUndefined();
+		});
+
+		test("narrowConditionalSchema selects the then branch on a matching const", () => {
+			expect(
+				narrowConditionalSchema(
+					schema,
+					{ property: "kind", value: "a", equals: true },
+					schema,
+				),
+			).toEqual({
+				type: "object",
+				properties: { kind: { type: "string" }, a: { type: "string" } },
+				required: ["kind", "a"],
+			});
+		});
+
+		test("narrowConditionalSchema selects the else branch on a non-matching const", () => {
+			expect(
+				narrowConditionalSchema(
+					schema,
+					{ property: "kind", value: "z", equals: true },
+					schema,
+				),
+			).toEqual({
+				type: "object",
+				properties: { kind: { type: "string" }, b: { type: "number" } },
+				required: ["kind", "b"],
+			});
+		});
+
+		test("narrowConditionalSchema returns undefined when the test is undecidable", () => {
+			expect(
+				narrowConditionalSchema(
+					schema,
+					{ property: "kind", value: "z", equals: false },
+					schema,
+				),
+			).toBeUndefined();
+			expect(
+				narrowConditionalSchema(
+					schema,
+					{ property: "other", value: "a", equals: true },
+					schema,
+				),
+			).toBeUndefined();
+		});
+
+		test("mergeConditionalBranch keeps the base when the branch is absent", () => {
+			const base: JSONSchema7 = { type: "object" };
+			expect(mergeConditionalBranch(base, undefined)).toBe(base);
+		});
+
+		test("replaceSchemaPath rebuilds the path through properties", () => {
+			expect(
+				replaceSchemaPath(
+					{
+						type: "object",
+						properties: {
+							user: { type: "object", properties: { x: { type: "string" } } },
+						},
+					},
+					["user"],
+					{ type: "null" },
+				),
+			).toEqual({ type: "object", properties: { user: { type: "null" } } });
+			expect(
+				replaceSchemaPath({ type: "object" }, ["user"], {}),
+			).toBeUndefined();
+		});
+	});
+
+	describe("narrowing", () => {
+		const union: JSONSchema7 = {
+			type: "object",
+			oneOf: [
+				{
+					type: "object",
+					properties: { kind: { const: "a" }, a: { type: "string" } },
+					required: ["kind", "a"],
+				},
+				{
+					type: "object",
+					properties: { kind: { enum: ["b", "c"] }, b: { type: "number" } },
+					required: ["kind", "b"],
+				},
+				{ type: "object", properties: { other: { type: "boolean" } } },
+			],
+		};
+
+		test("narrowUnionSchema keeps branches that can match", () => {
+			expect(
+				narrowUnionSchema(
+					union,
+					{ property: "kind", value: "b", equals: true },
+					union,
+				),
+			).toEqual({
+				type: "object",
+				oneOf: [
+					{
+						type: "object",
+						properties: { kind: { enum: ["b", "c"] }, b: { type: "number" } },
+						required: ["kind", "b"],
+					},
+					{ type: "object", properties: { other: { type: "boolean" } } },
+				],
+			});
+		});
+
+		test("narrowUnionSchema merges a single remaining branch", () => {
+			const schema: JSONSchema7 = {
+				oneOf: [
+					{ properties: { kind: { const: "a" } }, required: ["kind"] },
+					{ properties: { kind: { const: "b" } }, required: ["kind"] },
+				],
+			};
+			expect(
+				narrowUnionSchema(
+					schema,
+					{ property: "kind", value: "a", equals: false },
+					schema,
+				),
+			).toEqual({ properties: { kind: { const: "b" } }, required: ["kind"] });
+		});
+
+		test("narrowUnionSchema returns undefined when nothing is ruled out", () => {
+			expect(
+				narrowUnionSchema(
+					union,
+					{ property: "kind", value: "b", equals: false },
+					union,
+				),
+			).toBeUndefined();
+		});
+
+		test("narrowUnionSchema keeps branches without a discriminant", () => {
+			expect(
+				narrowUnionSchema(
+					union,
+					{ property: "kind", value: "z", equals: true },
+					union,
+				),
+			).toEqual({
+				type: "object",
+				properties: { other: { type: "boolean" } },
+			});
+		});
+
+		test("narrowSchemaPathToPresent marks every segment required and non-null", () => {
+			expect(
+				narrowSchemaPathToPresent(
+					{
+						type: "object",
+						properties: {
+							user: {
+								type: ["object", "null"],
+								properties: { email: { type: ["string", "null"] } },
+							},
+						},
+					},
+					["user", "email"],
+				),
+			).toEqual({
+				type: "object",
+				properties: {
+					user: {
+						type: "object",
+						properties: { email: { type: "string" } },
+						required: ["email"],
+					},
+				},
+				required: ["user"],
+			});
+		});
+
+		test("narrowSchemaPathToPresent stops at non-explicit segments", () => {
+			expect(
+				narrowSchemaPathToPresent(
+					{
+						type: "object",
+						properties: { tags: { type: "array", items: { type: "string" } } },
+					},
+					["tags", "length"],
+				),
+			).toEqual({
+				type: "object",
+				properties: { tags: { type: "array", items: { type: "string" } } },
+				required: ["tags"],
+			});
+			expect(
+				narrowSchemaPathToPresent({ type: "object" }, ["missing"]),
+			).toBeUndefined();
+		});
+
+		test("withoutNullType removes null from types and unions", () => {
+			const root: JSONSchema7 = {};
+			expect(withoutNullType({ type: ["string", "null"] }, root)).toEqual({
+				type: "string",
+			});
+			expect(
+				withoutNullType({ type: ["string", "number", "null"] }, root),
+			).toEqual({ type: ["string", "number"] });
+			expect(
+				withoutNullType(
+					{ oneOf: [{ type: "string" }, { type: "null" }] },
+					root,
+				),
+			).toEqual({ type: "string" });
+			expect(withoutNullType({ type: "null" }, root)).toEqual({
+				type: "null",
+			});
+		});
+	});
 });
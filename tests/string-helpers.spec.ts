@@ -0,0 +1,382 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { StringHelpers } from "../src/helpers/string-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const stringHelpers = new StringHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		name: { type: "string" },
+		title: { type: "string" },
+		padded: { type: "string" },
+		tags: { type: "string" },
+		code: { type: "string" },
+		empty: { type: "string" },
+		count: { type: "number" },
+		users: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: { name: { type: "string" } },
+				required: ["name"],
+			},
+		},
+	},
+	required: ["name", "title", "padded", "tags", "code", "empty", "count"],
+} as const;
+
+const data = {
+	name: "alice",
+	title: "Héllo, Wörld! Typebars 2.0",
+	padded: "  spaced  ",
+	tags: "red,green,blue",
+	code: "FR-75001",
+	empty: "",
+	count: 42,
+	users: [{ name: "bob" }, { name: "carol" }],
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("StringHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("all string helpers are available without calling register()", () => {
+			for (const name of stringHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(true);
+			}
+		});
+
+		it("unregister removes all helpers", () => {
+			stringHelpers.unregister(engine);
+			for (const name of stringHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(false);
+			}
+		});
+
+		it("every helper declares typed params and a return type", () => {
+			for (const [name, def] of stringHelpers.getDefinitions()) {
+				expect(def.returnType, name).toBeDefined();
+				expect(def.params?.[0]?.type, name).toEqual({ type: "string" });
+			}
+		});
+
+		it("every helper returning a string is executed directly", () => {
+			for (const [name, def] of stringHelpers.getDefinitions()) {
+				if (def.returnType?.type !== "string") continue;
+				expect(def.directExecution, name).toBe(true);
+			}
+		});
+	});
+
+	// ─── Case ────────────────────────────────────────────────────────────
+
+	describe("case", () => {
+		it("uppercase / lowercase", () => {
+			expect(run(engine, "{{ uppercase name }}").value).toBe("ALICE");
+			expect(run(engine, '{{ lowercase "MiXeD" }}').value).toBe("mixed");
+		});
+
+		it("titlecase capitalizes each word", () => {
+			expect(run(engine, '{{ titlecase "hello WORLD foo-bar" }}').value).toBe(
+				"Hello World Foo-Bar",
+			);
+			expect(run(engine, '{{ titlecase "élan vital" }}').value).toBe(
+				"Élan Vital",
+			);
+		});
+	});
+
+	// ─── Trimming ────────────────────────────────────────────────────────
+
+	describe("trim / trimStart / trimEnd", () => {
+		it("removes whitespace", () => {
+			expect(run(engine, "[{{ trim padded }}]").value).toBe("[spaced]");
+			expect(run(engine, "[{{ trimStart padded }}]").value).toBe("[spaced  ]");
+			expect(run(engine, "[{{ trimEnd padded }}]").value).toBe("[  spaced]");
+		});
+	});
+
+	// ─── Padding ─────────────────────────────────────────────────────────
+
+	describe("padStart / padEnd", () => {
+		it("pads with a custom fill", () => {
+			expect(run(engine, '{{ padStart "7" 3 "0" }}').value).toBe("007");
+			expect(run(engine, '{{ padEnd "ab" 5 "." }}').value).toBe("ab...");
+		});
+
+		it("pads with spaces by default", () => {
+			expect(run(engine, '[{{ padStart "a" 3 }}]').value).toBe("[  a]");
+			expect(run(engine, '[{{ padEnd "a" 3 }}]').value).toBe("[a  ]");
+		});
+
+		it("leaves longer strings untouched", () => {
+			expect(run(engine, "{{ padStart name 2 }}").value).toBe("alice");
+		});
+	});
+
+	// ─── truncate ────────────────────────────────────────────────────────
+
+	describe("truncate", () => {
+		it("cuts and appends the default ellipsis", () => {
+			expect(run(engine, '{{ truncate "Hello world" 8 }}').value).toBe(
+				"Hello w…",
+			);
+		});
+
+		it("the ellipsis counts towards the maximum length", () => {
+			expect(run(engine, '{{ truncate "Hello world" 8 "..." }}').value).toBe(
+				"Hello...",
+			);
+			expect(run(engine, '{{ truncate "Hello world" 2 "..." }}').value).toBe(
+				"..",
+			);
+		});
+
+		it("short strings are returned as is", () => {
+			expect(run(engine, "{{ truncate name 10 }}").value).toBe("alice");
+			expect(run(engine, "{{ truncate name 5 }}").value).toBe("alice");
+		});
+	});
+
+	// ─── substring ───────────────────────────────────────────────────────
+
+	describe("substring", () => {
+		it("with and without an end index", () => {
+			expect(run(engine, "{{ substring code 0 2 }}").value).toBe("FR");
+			expect(run(engine, "{{ substring code 3 }}-").value).toBe("75001-");
+		});
+
+		it("numeric-looking results are kept as strings", () => {
+			expect(run(engine, "{{ substring code 3 }}").value).toBe("75001");
+			expect(
+				engine.execute("{{ substring code 3 }}", data, {
+					coerceSchema: { type: "string" },
+				}),
+			).toBe("75001");
+		});
+	});
+
+	// ─── replace / replaceAll ────────────────────────────────────────────
+
+	describe("replace / replaceAll", () => {
+		it("replace only replaces the first occurrence", () => {
+			expect(run(engine, '{{ replace tags "," " | " }}').value).toBe(
+				"red | green,blue",
+			);
+		});
+
+		it("replaceAll replaces every occurrence", () => {
+			expect(run(engine, '{{ replaceAll tags "," " | " }}').value).toBe(
+				"red | green | blue",
+			);
+		});
+
+		it("search and replacement are literal strings", () => {
+			expect(run(engine, '{{ replaceAll "a.b.c" "." "$&$&" }}').value).toBe(
+				"a$&$&b$&$&c",
+			);
+		});
+	});
+
+	// ─── split ───────────────────────────────────────────────────────────
+
+	describe("split", () => {
+		it("returns a raw array in single-expression mode", () => {
+			const { analysis, value } = run(engine, '{{ split tags "," }}');
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({
+				type: "array",
+				items: { type: "string" },
+			});
+			expect(value).toEqual(["red", "green", "blue"]);
+		});
+
+		it("an empty string gives an empty array", () => {
+			expect(run(engine, '{{ split empty "," }}').value).toEqual([]);
+		});
+
+		it("can be iterated with #each", () => {
+			expect(
+				run(engine, '{{#each (split tags ",")}}<{{this}}>{{/each}}').value,
+			).toBe("<red><green><blue>");
+		});
+
+		it("is joined in mixed templates", () => {
+			expect(run(engine, 'Tags: {{ split tags "," }}').value).toBe(
+				"Tags: red, green, blue",
+			);
+		});
+
+		it("#each items are typed as strings", () => {
+			const { analysis } = run(
+				engine,
+				'{{#each (split tags ",")}}{{add this 1}}{{/each}}',
+			);
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+	});
+
+	// ─── startsWith / endsWith ───────────────────────────────────────────
+
+	describe("startsWith / endsWith", () => {
+		it("return raw booleans", () => {
+			const { analysis, value } = run(engine, '{{ startsWith code "FR" }}');
+			expect(analysis.outputSchema).toEqual({ type: "boolean" });
+			expect(value).toBe(true);
+			expect(run(engine, '{{ endsWith code "00" }}').value).toBe(false);
+		});
+
+		it("can be used as #if conditions", () => {
+			expect(
+				run(engine, '{{#if (startsWith code "FR")}}France{{else}}?{{/if}}')
+					.value,
+			).toBe("France");
+		});
+	});
+
+	// ─── slugify ─────────────────────────────────────────────────────────
+
+	describe("slugify", () => {
+		it("removes diacritics and punctuation", () => {
+			expect(run(engine, "{{ slugify title }}").value).toBe(
+				"hello-world-typebars-2-0",
+			);
+		});
+
+		it("trims leading and trailing separators", () => {
+			expect(run(engine, '{{ slugify "  --Hello--  " }}').value).toBe("hello");
+		});
+	});
+
+	// ─── length ──────────────────────────────────────────────────────────
+
+	describe("length", () => {
+		it("returns an integer", () => {
+			const { analysis, value } = run(engine, "{{ length name }}");
+			expect(analysis.outputSchema).toEqual({ type: "integer" });
+			expect(value).toBe(5);
+		});
+
+		it("feeds math helpers", () => {
+			const { analysis, value } = run(engine, "{{ add (length name) 1 }}");
+			expect(analysis.valid).toBe(true);
+			expect(value).toBe(6);
+		});
+
+		it("does not shadow a `length` path", () => {
+			expect(engine.execute("{{ users.length }}", data)).toBe(2);
+		});
+	});
+
+	// ─── Static analysis ─────────────────────────────────────────────────
+
+	describe("static analysis", () => {
+		it("string helpers return strings", () => {
+			for (const template of [
+				"{{ uppercase name }}",
+				"{{ trim padded }}",
+				'{{ padStart name 8 "*" }}',
+				"{{ truncate name 3 }}",
+				'{{ replaceAll tags "," ";" }}',
+				"{{ slugify title }}",
+			]) {
+				const { analysis } = run(engine, template);
+				expect(analysis.valid, template).toBe(true);
+				expect(analysis.outputSchema, template).toEqual({ type: "string" });
+			}
+		});
+
+		it("a non-string value is a type mismatch", () => {
+			const { analysis } = run(engine, "{{ uppercase users }}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("a non-numeric length is a type mismatch", () => {
+			const { analysis } = run(engine, "{{ truncate name name }}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+		});
+
+		it("missing arguments are reported", () => {
+			const { analysis } = run(engine, "{{ replace name }}");
+			expect(analysis.valid).toBe(false);
+			expect(analysis.diagnostics[0]?.code).toBe("MISSING_ARGUMENT");
+		});
+	});
+
+	// ─── Single expressions ──────────────────────────────────────────────
+
+	describe("single expressions", () => {
+		const numeric = { ...data, code: "42", flag: "TRUE", spaced: " 12 " };
+
+		it("return strings that look like numbers as strings", () => {
+			expect(engine.execute('{{ padStart code 5 "0" }}', numeric)).toBe(
+				"00042",
+			);
+			expect(engine.execute("{{ trim spaced }}", numeric)).toBe("12");
+			expect(engine.execute('{{ substring "123abc" 0 3 }}', numeric)).toBe(
+				"123",
+			);
+			expect(engine.execute('{{ replace "v2" "v" "" }}', numeric)).toBe("2");
+			expect(engine.execute('{{ slugify "2024" }}', numeric)).toBe("2024");
+		});
+
+		it("return strings that look like booleans or null as strings", () => {
+			expect(engine.execute("{{ lowercase flag }}", numeric)).toBe("true");
+			expect(engine.execute('{{ lowercase "NULL" }}', numeric)).toBe("null");
+			expect(engine.execute('{{ truncate "false!" 5 "" }}', numeric)).toBe(
+				"false",
+			);
+		});
+
+		it("the value matches the analyzed type", () => {
+			const { analysis, value } = run(engine, '{{ padStart "42" 5 "0" }}');
+			expect(analysis.outputSchema).toEqual({ type: "string" });
+			expect(value).toBe("00042");
+		});
+	});
+
+	// ─── Mixed templates ─────────────────────────────────────────────────
+
+	describe("integration in mixed templates", () => {
+		it("combines several helpers", () => {
+			const { analysis, value } = run(
+				engine,
+				"{{ titlecase name }} ({{ length name }}) — {{ uppercase (substring code 0 2) }}",
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.outputSchema).toEqual({ type: "string" });
+			expect(value).toBe("Alice (5) — FR");
+		});
+
+		it("works inside #each", () => {
+			expect(
+				engine.execute("{{#each users}}{{ uppercase name }} {{/each}}", data),
+			).toBe("BOB CAROL ");
+		});
+
+		it("null and undefined become empty strings", () => {
+			expect(engine.execute("[{{ uppercase missing }}]", {})).toBe("[]");
+		});
+	});
+});
@@ -1006,4 +1006,102 @@ describe("SubExpression resolution", () => {
 			});
 		});
 	});
+
+	// ─── Recursive analysis at every level ───────────────────────────────
+
+	describe("recursive analysis of nested sub-expressions", () => {
+		it("type-checks parameters at every nesting level", () => {
+			const result = engine.analyze(
+				"{{#if (and (gt age 1) (or active (lt name 5)))}}yes{{/if}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics).toHaveLength(1);
+			expect(result.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			expect(result.diagnostics[0]?.details?.helperName).toBe("lt");
+		});
+
+		it("infers the output type through several levels", () => {
+			const result = engine.analyze(
+				"{{add (multiply (subtract score age) 2) (abs count)}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.outputSchema).toEqual({ type: "number" });
+		});
+
+		it("arguments of an unknown sub-expression helper are still checked", () => {
+			const result = engine.analyze(
+				"{{#if (unknownHelper (lt missing 1))}}yes{{/if}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics.map((d) => d.code)).toEqual([
+				"UNKNOWN_PROPERTY",
+				"UNKNOWN_HELPER",
+			]);
+		});
+
+		it("arguments of unknown inline and block helpers are still checked", () => {
+			const inline = engine.analyze("{{unknownHelper (add name 1)}}", schema);
+			expect(inline.diagnostics.map((d) => d.code)).toEqual([
+				"TYPE_MISMATCH",
+				"UNKNOWN_HELPER",
+			]);
+
+			const block = engine.analyze(
+				"{{#unknownBlock (add name 1)}}x{{/unknownBlock}}",
+				schema,
+			);
+			expect(block.diagnostics.map((d) => d.code)).toEqual([
+				"TYPE_MISMATCH",
+				"UNKNOWN_HELPER",
+			]);
+		});
+
+		it("analyzes sub-expressions used as hash values", () => {
+			const result = engine.analyze(
+				"{{unknownHelper name limit=(add missing 1)}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("UNKNOWN_PROPERTY");
+		});
+
+		it("types block arguments and block params from sub-expressions", () => {
+			const result = engine.analyze(
+				"{{#each (array name role) as |value|}}{{add value 1}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(false);
+			expect(result.diagnostics[0]?.code).toBe("TYPE_MISMATCH");
+			expect(result.diagnostics[0]?.details?.actual).toBe("string");
+		});
+
+		it("resolves ../ and block params inside nested sub-expressions", () => {
+			const result = engine.analyze(
+				"{{#each tags as |tag|}}{{#if (and (eq tag ../role) (gt ../age 18))}}{{tag}}{{/if}}{{/each}}",
+				schema,
+			);
+			expect(result.valid).toBe(true);
+			expect(result.diagnostics).toHaveLength(0);
+		});
+	});
+
+	describe("execution of array results in sub-expressions", () => {
+		it("#each iterates over an array returned by a sub-expression", () => {
+			expect(
+				engine.execute("{{#each (array name role)}}[{{this}}]{{/each}}", data),
+			).toBe("[Alice][admin]");
+		});
+
+		it("array results still render as joined strings", () => {
+			expect(engine.execute("Tags: {{array name role}}", data)).toBe(
+				"Tags: Alice, admin",
+			);
+			expect(
+				engine.execute("{{#with (array name role)}}{{this}}{{/with}}!", data),
+			).toBe("Alice, admin!");
+		});
+	});
 });
@@ -0,0 +1,305 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import type { JSONSchema7 } from "json-schema";
+import { TemplateRuntimeError } from "../src/errors.ts";
+import { SwitchHelpers } from "../src/helpers/switch-helpers.ts";
+import { Typebars } from "../src/typebars.ts";
+
+const switchHelpers = new SwitchHelpers();
+
+// ─── Shared schema & data ────────────────────────────────────────────────────
+
+const schema: JSONSchema7 = {
+	type: "object",
+	properties: {
+		status: { type: "string", enum: ["active", "paused", "stopped"] },
+		label: { type: "string" },
+		count: { type: "integer" },
+		items: { type: "array", items: { type: "string" } },
+		event: {
+			oneOf: [
+				{
+					type: "object",
+					properties: {
+						kind: { const: "click" },
+						x: { type: "number" },
+					},
+					required: ["kind", "x"],
+				},
+				{
+					type: "object",
+					properties: {
+						kind: { const: "key" },
+						key: { type: "string" },
+					},
+					required: ["kind", "key"],
+				},
+			],
+		},
+	},
+	required: ["status", "label", "count", "items", "event"],
+};
+
+const data = {
+	status: "paused",
+	label: "draft",
+	count: 3,
+	items: ["a", "b"],
+	event: { kind: "key", key: "Enter" },
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function run(engine: Typebars, template: string) {
+	return engine.analyzeAndExecute(template, schema, data);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe("SwitchHelpers", () => {
+	let engine: Typebars;
+
+	beforeEach(() => {
+		engine = new Typebars();
+	});
+
+	// ─── Built-in registration ───────────────────────────────────────────
+
+	describe("pre-registration (built-in)", () => {
+		it("switch and case are available without calling register()", () => {
+			for (const name of switchHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(true);
+			}
+			expect(switchHelpers.getHelperNames()).toEqual(["switch", "case"]);
+		});
+
+		it("unregister removes all helpers", () => {
+			switchHelpers.unregister(engine);
+			for (const name of switchHelpers.getHelperNames()) {
+				expect(engine.hasHelper(name)).toBe(false);
+			}
+		});
+	});
+
+	// ─── Execution ───────────────────────────────────────────────────────
+
+	describe("execution", () => {
+		it("renders the first matching case", () => {
+			const template = [
+				"{{#switch status}}",
+				'  {{#case "active"}}Active{{/case}}',
+				'  {{#case "paused" "stopped"}}Inactive{{/case}}',
+				"{{/switch}}",
+			].join("\n");
+			expect(engine.execute(template, data)).toBe("Inactive");
+			expect(engine.execute(template, { status: "active" })).toBe("Active");
+		});
+
+		it("renders the default branch when no case matches", () => {
+			const template =
+				'{{#switch label}}{{#case "final"}}F{{/case}}{{#default}}other: {{label}}{{/default}}{{/switch}}';
+			expect(engine.execute(template, data)).toBe("other: draft");
+		});
+
+		it("renders an empty string when nothing matches", () => {
+			expect(
+				engine.execute(
+					'{{#switch label}}{{#case "final"}}F{{/case}}{{/switch}}',
+					data,
+				),
+			).toBe("");
+		});
+
+		it("keeps the type of the matching branch", () => {
+			expect(
+				engine.execute(
+					'{{#switch status}}{{#case "paused"}}{{count}}{{/case}}{{#default}}{{items}}{{/default}}{{/switch}}',
+					data,
+				),
+			).toBe(3);
+			expect(
+				engine.execute(
+					'{{#switch status}}{{#case "active"}}{{count}}{{/case}}{{#default}}{{items}}{{/default}}{{/switch}}',
+					data,
+				),
+			).toEqual(["a", "b"]);
+		});
+
+		it("matches numbers and values from the data", () => {
+			expect(
+				engine.execute(
+					"{{#switch count}}{{#case 1}}one{{/case}}{{#case 3}}three{{/case}}{{/switch}}",
+					data,
+				),
+			).toBe("three");
+			expect(
+				engine.execute(
+					"{{#switch status}}{{#case label}}same{{/case}}{{#default}}diff{{/default}}{{/switch}}",
+					{ status: "a", label: "a" },
+				),
+			).toBe("same");
+		});
+
+		it("works in mixed templates and nested blocks", () => {
+			expect(
+				engine.execute(
+					'Status: {{#switch status}}{{#case "paused"}}P{{/case}}{{#default}}?{{/default}}{{/switch}}!',
+					data,
+				),
+			).toBe("Status: P!");
+			expect(
+				engine.execute(
+					'{{#each items}}{{#switch this}}{{#case "a"}}A{{/case}}{{#default}}-{{/default}}{{/switch}}{{/each}}',
+					data,
+				),
+			).toBe("A-");
+		});
+
+		it("the default helper keeps working as an expression", () => {
+			expect(engine.execute('{{default label "none"}}', data)).toBe("draft");
+		});
+
+		it("a case outside a switch throws a TemplateRuntimeError", () => {
+			expect(() => engine.execute('{{#case "a"}}x{{/case}}', data)).toThrow(
+				TemplateRuntimeError,
+			);
+		});
+	});
+
+	// ─── Static analysis ─────────────────────────────────────────────────
+
+	describe("static analysis", () => {
+		it("returns the union of the case types", () => {
+			const { analysis } = run(
+				engine,
+				'{{#switch status}}{{#case "active"}}{{count}}{{/case}}{{#default}}{{label}}{{/default}}{{/switch}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.diagnostics).toEqual([]);
+			expect(analysis.outputSchema).toEqual({
+				oneOf: [{ type: "integer" }, { type: "string" }],
+			});
+		});
+
+		it("covering every enum value is exhaustive without default", () => {
+			const { analysis } = run(
+				engine,
+				'{{#switch status}}{{#case "active"}}{{count}}{{/case}}{{#case "paused" "stopped"}}{{count}}{{/case}}{{/switch}}',
+			);
+			expect(analysis.diagnostics).toEqual([]);
+			expect(analysis.outputSchema).toEqual({ type: "integer" });
+		});
+
+		it("warns on a case that is not a member of the enum", () => {
+			const { analysis } = run(
+				engine,
+				'{{#switch status}}{{#case "archived"}}A{{/case}}{{#default}}D{{/default}}{{/switch}}',
+			);
+			expect(analysis.valid).toBe(true);
+			const diagnostic = analysis.diagnostics[0];
+			expect(diagnostic?.code).toBe("UNREACHABLE_CASE");
+			expect(diagnostic?.severity).toBe("warning");
+			expect(diagnostic?.details?.actual).toBe('"archived"');
+			expect(diagnostic?.loc?.start.column).toBe(26);
+		});
+
+		it("warns on a case value matched by a previous case", () => {
+			const { analysis } = run(
+				engine,
+				'{{#switch status}}{{#case "active" "paused"}}A{{/case}}{{#case "paused"}}P{{/case}}{{#default}}D{{/default}}{{/switch}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.diagnostics).toHaveLength(1);
+			const diagnostic = analysis.diagnostics[0];
+			expect(diagnostic?.code).toBe("DUPLICATE_CASE");
+			expect(diagnostic?.severity).toBe("warning");
+			expect(diagnostic?.details?.actual).toBe('"paused"');
+			expect(diagnostic?.loc?.start.column).toBe(63);
+		});
+
+		it("warns on content outside the cases, not on indentation", () => {
+			const { analysis, value } = run(
+				engine,
+				'{{#switch status}}Status: {{label}}{{#case "paused"}}P{{/case}}{{#default}}D{{/default}}{{/switch}}',
+			);
+			expect(value).toBe("P");
+			expect(analysis.valid).toBe(true);
+			expect(analysis.diagnostics.map((d) => d.code)).toEqual([
+				"CONTENT_OUTSIDE_CASE",
+				"CONTENT_OUTSIDE_CASE",
+			]);
+			expect(analysis.diagnostics[0]?.severity).toBe("warning");
+
+			expect(
+				run(
+					engine,
+					'{{#switch status}}\n  {{!-- cases --}}\n  {{#case "paused"}}P{{/case}}\n  {{#default}}D{{/default}}\n{{/switch}}',
+				).analysis.diagnostics,
+			).toEqual([]);
+		});
+
+		it("warns on a switch that does not cover every value", () => {
+			const { analysis } = run(
+				engine,
+				'{{#switch status}}{{#case "active"}}{{count}}{{/case}}{{/switch}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.diagnostics[0]?.code).toBe("NON_EXHAUSTIVE_SWITCH");
+			expect(analysis.diagnostics[0]?.message).toContain('"paused", "stopped"');
+			// An unmatched subject renders as an empty string
+			expect(analysis.outputSchema).toEqual({
+				oneOf: [{ type: "integer" }, { type: "string" }],
+			});
+		});
+
+		it("warns on a subject without enum and without default", () => {
+			const { analysis } = run(
+				engine,
+				'{{#switch label}}{{#case "draft"}}D{{/case}}{{/switch}}',
+			);
+			expect(analysis.diagnostics[0]?.code).toBe("NON_EXHAUSTIVE_SWITCH");
+			expect(
+				run(
+					engine,
+					'{{#switch label}}{{#case "draft"}}D{{/case}}{{#default}}?{{/default}}{{/switch}}',
+				).analysis.diagnostics,
+			).toEqual([]);
+		});
+
+		it("narrows a discriminated union in each case", () => {
+			const { analysis } = run(
+				engine,
+				'{{#switch event.kind}}{{#case "click"}}{{event.x}}{{/case}}{{#case "key"}}{{event.key}}{{/case}}{{/switch}}',
+			);
+			expect(analysis.valid).toBe(true);
+			expect(analysis.diagnostics).toEqual([]);
+			expect(analysis.outputSchema).toEqual({
+				oneOf: [{ type: "number" }, { type: "string" }],
+			});
+		});
+
+		it("validates the subject and the case bodies", () => {
+			const { analysis } = run(
+				engine,
+				'{{#switch stat}}{{#case "a"}}{{nme}}{{/case}}{{#default}}{{/default}}{{/switch}}',
+			);
+			expect(analysis.diagnostics.map((d) => d.code)).toEqual([
+				"UNKNOWN_PROPERTY",
+				"UNKNOWN_PROPERTY",
+			]);
+			expect(
+				run(engine, "{{#switch}}{{/switch}}").analysis.diagnostics[0]?.code,
+			).toBe("MISSING_ARGUMENT");
+		});
+
+		it("reports a case or default block outside a switch", () => {
+			for (const template of [
+				'{{#case "a"}}x{{/case}}',
+				"{{#default}}x{{/default}}",
+			]) {
+				const analysis = engine.analyze(template, schema);
+				expect(analysis.valid).toBe(false);
+				expect(analysis.diagnostics[0]?.code).toBe("CASE_OUTSIDE_SWITCH");
+			}
+		});
+	});
+});